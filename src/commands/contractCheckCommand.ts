@@ -0,0 +1,802 @@
+import { Driver } from "neo4j-driver";
+import { runQuery } from "../neo4j/connection.js";
+import {
+  listSnapshots,
+  loadSnapshot,
+  ManifestEntity,
+  SnapshotInfo,
+} from "../neo4j/snapshots.js";
+import {
+  ApiContract,
+  ContractSchema,
+  parseDeclaredType,
+} from "../scanner/apiContracts.js";
+import { isAPIMatch } from "../scanner/relationshipBuilder.js";
+import { APIEntity } from "../scanner/types.js";
+import { resolveVersion } from "./diffCommand.js";
+import { OutputFormat, PageArgs, pageLists, renderJson } from "./output.js";
+
+export type ContractChangeKind =
+  | "endpoint-removed"
+  | "endpoint-added"
+  | "body-removed"
+  | "body-added"
+  | "field-removed"
+  | "field-added"
+  | "param-removed"
+  | "param-added"
+  | "param-renamed"
+  | "now-required"
+  | "now-optional"
+  | "now-nullable"
+  | "now-non-nullable"
+  | "type-narrowed"
+  | "type-widened"
+  | "type-changed";
+
+export interface ContractChange {
+  location: string; // "response.items[].sku", "request", "query.page", "header.X-Tenant"
+  kind: ContractChangeKind;
+  breaking: boolean;
+  before: string | null; // rendered type, null when absent
+  after: string | null;
+}
+
+export interface ContractConsumer {
+  repoRoot: string;
+  linked: boolean; // a CONSUMES_API_FROM edge to the provider is recorded
+  calls: {
+    method: string | null;
+    url: string;
+    file: string | null;
+    functions: string[];
+  }[];
+}
+
+export interface EndpointContractDiff {
+  endpoint: string; // "GET /api/orders/{id}"
+  file: string | null;
+  status: "added" | "removed" | "changed";
+  breaking: boolean;
+  changes: ContractChange[];
+  consumers: ContractConsumer[];
+}
+
+/** `data` of the contractCheck tool's JSON output */
+export interface ContractCheckReport {
+  repoRoot: string;
+  from: string; // resolved version (or the requested ref when unresolved)
+  to: string;
+  api: string | null; // endpoint filter as given
+  status: "ok" | "no_snapshots" | "unknown_version" | "missing_manifest";
+  available: SnapshotInfo[]; // newest first
+  endpoints: EndpointContractDiff[]; // breaking first
+  // Present in both snapshots, but the base has no recorded contract (scanned
+  // before contracts were recorded), so changes cannot be classified
+  unchecked: string[];
+  summary: { breaking: number; nonBreaking: number; breakingEndpoints: number };
+}
+
+interface ConsumedRow {
+  repoRoot: string;
+  linked: boolean;
+  method: string | null;
+  url: string | null;
+  file: string | null;
+  functions: string[];
+}
+
+/**
+ * Compare the contracts of a repository's provided APIs between two snapshots:
+ * - Endpoints, request/response body schemas, path/query parameters and headers
+ * - Each change is breaking or not from a client's point of view: a response may
+ *   gain fields and narrow types; a request may drop fields and widen types
+ * - Endpoints with changes list the other repositories calling them (matched
+ *   like CONSUMES_API_FROM, flagged when that edge is recorded)
+ */
+export async function runContractCheck(
+  driver: Driver,
+  args: {
+    repoRoot: string;
+    from?: string;
+    to?: string;
+    api?: string;
+    format?: OutputFormat;
+  } & PageArgs
+): Promise<string> {
+  const repoRoot = args.repoRoot;
+  const api = args.api?.trim() || null;
+  const snapshots = await listSnapshots(driver, repoRoot);
+
+  // JSON output pages the snapshots, endpoints and unchecked endpoints; the
+  // summary counts them all
+  const json = (report: ContractCheckReport): string => {
+    const { data, page } = pageLists(
+      args,
+      (slice): ContractCheckReport => ({
+        ...report,
+        available: slice(report.available),
+        endpoints: slice(report.endpoints),
+        unchecked: slice(report.unchecked),
+      })
+    );
+    return renderJson("contractCheck", data, page);
+  };
+  const header = (from: string, to: string) => [
+    "Contract Check",
+    `- Repository: ${repoRoot}`,
+    `- From: ${from}`,
+    `- To: ${to}`,
+    ...(api ? [`- API: ${api}`] : []),
+    "",
+  ];
+  const empty = (
+    status: ContractCheckReport["status"],
+    from: string,
+    to: string,
+    message: string[]
+  ): string =>
+    args.format === "json"
+      ? json({
+          repoRoot,
+          from,
+          to,
+          api,
+          status,
+          available: snapshots,
+          endpoints: [],
+          unchecked: [],
+          summary: { breaking: 0, nonBreaking: 0, breakingEndpoints: 0 },
+        })
+      : [...header(from, to), ...message].join("\n");
+
+  if (snapshots.length === 0) {
+    return empty("no_snapshots", args.from ?? "previous", args.to ?? "latest", [
+      "No snapshots recorded for this repository. Run the 'scan' tool first.",
+    ]);
+  }
+
+  const from = resolveVersion(snapshots, args.from ?? "previous");
+  const to = resolveVersion(snapshots, args.to ?? "latest");
+  if (!from || !to) {
+    return empty(
+      "unknown_version",
+      from ?? args.from ?? "previous",
+      to ?? args.to ?? "latest",
+      [
+        `Unknown snapshot version. Available (${snapshots.length}, newest first):`,
+        ...snapshots.slice(0, 20).map((s) => `  - ${s.version}`),
+      ]
+    );
+  }
+
+  const [a, b] = await Promise.all([
+    loadSnapshot(driver, repoRoot, from),
+    loadSnapshot(driver, repoRoot, to),
+  ]);
+  if (!a || !b) {
+    return empty("missing_manifest", from, to, [
+      "Snapshot manifest missing; it may have been garbage collected.",
+    ]);
+  }
+
+  const before = providedEndpoints(a.entities, api);
+  const after = providedEndpoints(b.entities, api);
+
+  const endpoints: EndpointContractDiff[] = [];
+  const unchecked: string[] = [];
+  for (const [endpoint, prev] of before) {
+    const next = after.get(endpoint);
+    if (!next) {
+      endpoints.push(
+        endpointDiff(endpoint, prev.file, "removed", [
+          change("endpoint", "endpoint-removed", true, endpoint, null),
+        ])
+      );
+      continue;
+    }
+    if (!prev.contract) {
+      if (next.contract) unchecked.push(endpoint);
+      continue;
+    }
+    const changes = compareContracts(prev.contract, next.contract ?? {});
+    if (changes.length) {
+      endpoints.push(endpointDiff(endpoint, next.file, "changed", changes));
+    }
+  }
+  for (const [endpoint, next] of after) {
+    if (before.has(endpoint)) continue;
+    endpoints.push(
+      endpointDiff(endpoint, next.file, "added", [
+        change("endpoint", "endpoint-added", false, null, endpoint),
+      ])
+    );
+  }
+  endpoints.sort(
+    (x, y) =>
+      Number(y.breaking) - Number(x.breaking) ||
+      x.endpoint.localeCompare(y.endpoint)
+  );
+
+  const affected = endpoints.filter((e) => e.status !== "added");
+  if (affected.length) {
+    const consumed = await loadConsumedApis(driver, repoRoot);
+    for (const e of affected) e.consumers = consumersOf(e.endpoint, consumed);
+  }
+
+  const all = endpoints.flatMap((e) => e.changes);
+  const summary = {
+    breaking: all.filter((c) => c.breaking).length,
+    nonBreaking: all.filter((c) => !c.breaking).length,
+    breakingEndpoints: endpoints.filter((e) => e.breaking).length,
+  };
+
+  if (args.format === "json") {
+    return json({
+      repoRoot,
+      from,
+      to,
+      api,
+      status: "ok",
+      available: snapshots,
+      endpoints,
+      unchecked,
+      summary,
+    });
+  }
+
+  const lines = header(from, to);
+  lines.push(
+    `Breaking changes: ${summary.breaking} in ${summary.breakingEndpoints} endpoint(s); non-breaking: ${summary.nonBreaking}`,
+    ""
+  );
+  if (endpoints.length === 0) {
+    lines.push("No contract changes between these snapshots.");
+  }
+  for (const e of endpoints) {
+    const file = e.file ? `  [${e.file}]` : "";
+    lines.push(
+      `${e.endpoint}${file} — ${e.status}${e.breaking ? ", BREAKING" : ""}`
+    );
+    for (const c of e.changes) {
+      const tag = c.breaking ? "breaking" : "ok";
+      lines.push(`  [${tag}] ${c.location}: ${describeChange(c)}`);
+    }
+    if (e.status !== "added") {
+      lines.push(
+        e.consumers.length
+          ? `  Consumers (${e.consumers.length}):`
+          : "  Consumers: none found in other scanned repositories"
+      );
+      for (const consumer of e.consumers.slice(0, 20)) {
+        const link = consumer.linked ? "" : " (no CONSUMES_API_FROM edge)";
+        lines.push(`    - ${consumer.repoRoot}${link}`);
+        for (const call of consumer.calls.slice(0, 5)) {
+          const where = call.file ? ` in ${call.file}` : "";
+          const fns = call.functions.length
+            ? ` (${call.functions.join(", ")})`
+            : "";
+          lines.push(
+            `        ${call.method ?? "?"} ${call.url}${where}${fns}`.trimEnd()
+          );
+        }
+      }
+    }
+    lines.push("");
+  }
+  if (unchecked.length) {
+    lines.push(
+      `Not compared (${unchecked.length}; no contract recorded in ${from}):`,
+      ...unchecked.slice(0, 20).map((e) => `  - ${e}`)
+    );
+  }
+
+  return lines.join("\n");
+}
+
+/** Provided API manifest entries keyed by "METHOD path", optionally filtered. */
+function providedEndpoints(
+  entities: ManifestEntity[],
+  filter: string | null
+): Map<string, ManifestEntity> {
+  const prefix = "API:provided:";
+  const out = new Map<string, ManifestEntity>();
+  for (const e of entities) {
+    if (e.label !== "API" || !e.key.startsWith(prefix)) continue;
+    const endpoint = e.key.slice(prefix.length);
+    if (filter && !matchesFilter(endpoint, filter)) continue;
+    out.set(endpoint, e);
+  }
+  return out;
+}
+
+// "GET /orders" selects one endpoint; "/orders" selects every method on paths
+// starting with it
+function matchesFilter(endpoint: string, filter: string): boolean {
+  const [method, path] = splitEndpoint(endpoint);
+  const m = /^([A-Za-z]+)\s+(\S.*)$/.exec(filter);
+  if (m) {
+    return (
+      m[1].toUpperCase() === method.toUpperCase() &&
+      trimSlash(m[2]) === trimSlash(path)
+    );
+  }
+  return trimSlash(path).startsWith(trimSlash(filter));
+}
+
+function splitEndpoint(endpoint: string): [string, string] {
+  const i = endpoint.indexOf(" ");
+  return i < 0
+    ? ["GET", endpoint]
+    : [endpoint.slice(0, i), endpoint.slice(i + 1)];
+}
+
+function trimSlash(path: string): string {
+  return path.trim().replace(/\/+$/, "").toLowerCase();
+}
+
+function endpointDiff(
+  endpoint: string,
+  file: string | null,
+  status: EndpointContractDiff["status"],
+  changes: ContractChange[]
+): EndpointContractDiff {
+  return {
+    endpoint,
+    file,
+    status,
+    breaking: changes.some((c) => c.breaking),
+    changes,
+    consumers: [],
+  };
+}
+
+function change(
+  location: string,
+  kind: ContractChangeKind,
+  breaking: boolean,
+  before: string | null,
+  after: string | null
+): ContractChange {
+  return { location, kind, breaking, before, after };
+}
+
+// Which side of the exchange a schema sits on: clients read responses (new
+// values break them) and write requests (new demands break them)
+type Direction = "response" | "request";
+
+/**
+ * Changes from contract `a` to contract `b`, breaking for a client written
+ * against `a`. Shared with exportOpenApi, which checks code against its spec.
+ */
+export function compareContracts(
+  a: ApiContract,
+  b: ApiContract
+): ContractChange[] {
+  const out: ContractChange[] = [];
+  compareBody(
+    "response",
+    a.response,
+    b.response,
+    a.responseType,
+    b.responseType,
+    out
+  );
+  compareBody(
+    "request",
+    a.request,
+    b.request,
+    a.requestType,
+    b.requestType,
+    out
+  );
+  comparePathParams(a.pathParams ?? [], b.pathParams ?? [], out);
+  compareNamedParams("query", a.queryParams ?? [], b.queryParams ?? [], out);
+  compareNamedParams("header", a.headers ?? [], b.headers ?? [], out);
+  return out;
+}
+
+function compareBody(
+  dir: Direction,
+  a: ContractSchema | undefined,
+  b: ContractSchema | undefined,
+  aType: string | undefined,
+  bType: string | undefined,
+  out: ContractChange[]
+): void {
+  if (a && b) {
+    compareSchema(dir, dir, a, b, out);
+    return;
+  }
+  if (a && !b && bType == null) {
+    // A response body going away breaks readers; a request body no longer
+    // read is harmless
+    out.push(
+      change(dir, "body-removed", dir === "response", describe(a), null)
+    );
+    return;
+  }
+  if (!a && b && aType == null) {
+    out.push(change(dir, "body-added", dir === "request", null, describe(b)));
+    return;
+  }
+  // No schema on one side although a type is declared on both: only the
+  // declared text can be compared
+  if (aType != null && bType != null && strip(aType) !== strip(bType)) {
+    out.push(change(dir, "type-changed", true, strip(aType), strip(bType)));
+  }
+}
+
+function compareSchema(
+  dir: Direction,
+  location: string,
+  a: ContractSchema,
+  b: ContractSchema,
+  out: ContractChange[]
+): void {
+  if (!a.nullable && b.nullable) {
+    out.push(
+      change(
+        location,
+        "now-nullable",
+        dir === "response",
+        describe(a),
+        describe(b)
+      )
+    );
+  } else if (a.nullable && !b.nullable) {
+    out.push(
+      change(
+        location,
+        "now-non-nullable",
+        dir === "request",
+        describe(a),
+        describe(b)
+      )
+    );
+  }
+
+  const ka = kindOf(a);
+  const kb = kindOf(b);
+  if (ka !== kb) {
+    // An unresolved reference and the resolved shape of the same type
+    if (a.ref && a.ref === b.ref && (ka === "ref" || kb === "ref")) return;
+    if (ka === "integer" && kb === "number") {
+      out.push(widened(dir, location, a, b));
+    } else if (ka === "number" && kb === "integer") {
+      out.push(narrowed(dir, location, a, b));
+    } else if (ka === "any") {
+      out.push(narrowed(dir, location, a, b));
+    } else if (kb === "any") {
+      out.push(widened(dir, location, a, b));
+    } else {
+      out.push(
+        change(location, "type-changed", true, describe(a), describe(b))
+      );
+    }
+    return;
+  }
+
+  switch (ka) {
+    case "string": {
+      const ea = a.enum ?? null;
+      const eb = b.enum ?? null;
+      if (!ea && eb) out.push(narrowed(dir, location, a, b));
+      else if (ea && !eb) out.push(widened(dir, location, a, b));
+      else if (ea && eb) {
+        const removed = ea.some((v) => !eb.includes(v));
+        const added = eb.some((v) => !ea.includes(v));
+        if (removed && added) {
+          out.push(
+            change(location, "type-changed", true, describe(a), describe(b))
+          );
+        } else if (removed) {
+          out.push(narrowed(dir, location, a, b));
+        } else if (added) {
+          out.push(widened(dir, location, a, b));
+        }
+      }
+      return;
+    }
+    case "array":
+      if (a.items && b.items) {
+        compareSchema(dir, `${location}[]`, a.items, b.items, out);
+      }
+      return;
+    case "object":
+      compareObjects(dir, location, a, b, out);
+      return;
+    case "union":
+    case "ref":
+      if (JSON.stringify(a) !== JSON.stringify(b)) {
+        out.push(
+          change(location, "type-changed", true, describe(a), describe(b))
+        );
+      }
+      return;
+  }
+}
+
+function compareObjects(
+  dir: Direction,
+  location: string,
+  a: ContractSchema,
+  b: ContractSchema,
+  out: ContractChange[]
+): void {
+  if (a.additionalProperties && b.additionalProperties) {
+    compareSchema(
+      dir,
+      `${location}{}`,
+      a.additionalProperties,
+      b.additionalProperties,
+      out
+    );
+  }
+  const pa = a.properties ?? {};
+  const pb = b.properties ?? {};
+  const ra = new Set(a.required ?? []);
+  const rb = new Set(b.required ?? []);
+  for (const [name, schema] of Object.entries(pa)) {
+    const at = `${location}.${name}`;
+    const next = pb[name];
+    if (!next) {
+      out.push(
+        change(at, "field-removed", dir === "response", describe(schema), null)
+      );
+      continue;
+    }
+    if (!ra.has(name) && rb.has(name)) {
+      out.push(
+        change(
+          at,
+          "now-required",
+          dir === "request",
+          describe(schema),
+          describe(next)
+        )
+      );
+    } else if (ra.has(name) && !rb.has(name)) {
+      out.push(
+        change(
+          at,
+          "now-optional",
+          dir === "response",
+          describe(schema),
+          describe(next)
+        )
+      );
+    }
+    compareSchema(dir, at, schema, next, out);
+  }
+  for (const [name, schema] of Object.entries(pb)) {
+    if (pa[name]) continue;
+    // Clients never send a field that did not exist; a required one breaks them
+    out.push(
+      change(
+        `${location}.${name}`,
+        "field-added",
+        dir === "request" && rb.has(name),
+        null,
+        describe(schema)
+      )
+    );
+  }
+}
+
+function comparePathParams(
+  a: { name: string; type?: string }[],
+  b: { name: string; type?: string }[],
+  out: ContractChange[]
+): void {
+  // Path parameters are positional: a rename does not change the URL clients build
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    const location = `path.${b[i].name}`;
+    if (a[i].name !== b[i].name) {
+      out.push(change(location, "param-renamed", false, a[i].name, b[i].name));
+    }
+    compareParamTypes(location, a[i].type, b[i].type, out);
+  }
+}
+
+function compareNamedParams(
+  scope: "query" | "header",
+  a: { name: string; type?: string; required?: boolean }[],
+  b: { name: string; type?: string; required?: boolean }[],
+  out: ContractChange[]
+): void {
+  // HTTP header names are case-insensitive
+  const key = (name: string) =>
+    scope === "header" ? name.toLowerCase() : name;
+  const prev = new Map(a.map((p) => [key(p.name), p]));
+  const next = new Map(b.map((p) => [key(p.name), p]));
+  for (const [k, p] of prev) {
+    const n = next.get(k);
+    const location = `${scope}.${p.name}`;
+    if (!n) {
+      out.push(change(location, "param-removed", false, p.type ?? "any", null));
+      continue;
+    }
+    if (!p.required && n.required) {
+      out.push(
+        change(location, "now-required", true, p.type ?? "any", n.type ?? "any")
+      );
+    } else if (p.required && !n.required) {
+      out.push(
+        change(
+          location,
+          "now-optional",
+          false,
+          p.type ?? "any",
+          n.type ?? "any"
+        )
+      );
+    }
+    compareParamTypes(location, p.type, n.type, out);
+  }
+  for (const [k, n] of next) {
+    if (prev.has(k)) continue;
+    out.push(
+      change(
+        `${scope}.${n.name}`,
+        "param-added",
+        n.required === true,
+        null,
+        n.type ?? "any"
+      )
+    );
+  }
+}
+
+function compareParamTypes(
+  location: string,
+  a: string | undefined,
+  b: string | undefined,
+  out: ContractChange[]
+): void {
+  if (!a || !b) return;
+  const sa = parseDeclaredType(a);
+  const sb = parseDeclaredType(b);
+  if (!sa || !sb) return;
+  // A nullable type marks an optional parameter, which required/optional covers
+  compareSchema(
+    "request",
+    location,
+    { ...sa, nullable: undefined },
+    { ...sb, nullable: undefined },
+    out
+  );
+}
+
+function narrowed(
+  dir: Direction,
+  location: string,
+  a: ContractSchema,
+  b: ContractSchema
+): ContractChange {
+  return change(
+    location,
+    "type-narrowed",
+    dir === "request",
+    describe(a),
+    describe(b)
+  );
+}
+
+function widened(
+  dir: Direction,
+  location: string,
+  a: ContractSchema,
+  b: ContractSchema
+): ContractChange {
+  return change(
+    location,
+    "type-widened",
+    dir === "response",
+    describe(a),
+    describe(b)
+  );
+}
+
+function kindOf(s: ContractSchema): string {
+  if (s.type) return s.type;
+  if (s.anyOf) return "union";
+  if (s.ref) return "ref";
+  return "any";
+}
+
+/** Short rendering of a schema: `OrderDto`, `array<string>`, `"a"|"b"`, `integer?`. */
+function describe(s: ContractSchema): string {
+  const nullable = s.nullable ? "?" : "";
+  if (s.enum) return s.enum.map((v) => JSON.stringify(v)).join("|") + nullable;
+  if (s.anyOf) return s.anyOf.map(describe).join("|") + nullable;
+  switch (s.type) {
+    case "array":
+      return `array<${s.items ? describe(s.items) : "any"}>${nullable}`;
+    case "object":
+      if (s.ref) return s.ref + nullable;
+      if (s.additionalProperties) {
+        return `map<${describe(s.additionalProperties)}>${nullable}`;
+      }
+      return "object" + nullable;
+    case undefined:
+      return (s.ref ?? "any") + nullable;
+    default:
+      return (s.format ? `${s.type}(${s.format})` : s.type) + nullable;
+  }
+}
+
+function describeChange(c: ContractChange): string {
+  const what = c.kind.replace(/-/g, " ");
+  if (c.before != null && c.after != null) {
+    return `${what} (${c.before} -> ${c.after})`;
+  }
+  const value = c.after ?? c.before;
+  return value != null ? `${what} (${value})` : what;
+}
+
+function strip(declared: string): string {
+  return declared.replace(/^(:|->)\s*/, "").trim();
+}
+
+async function loadConsumedApis(
+  driver: Driver,
+  repoRoot: string
+): Promise<ConsumedRow[]> {
+  // Every consumed API of the other repositories, not only those already linked
+  // by CONSUMES_API_FROM: after a removal the edge may be gone although the
+  // calls remain
+  return runQuery<ConsumedRow>(
+    driver,
+    `
+    MATCH (c:Repository)-[:REPO_USES_API]->(u:API {direction: "consumed"})
+    WHERE c.repoRoot <> $repoRoot
+    OPTIONAL MATCH (fn:Function)-[:USES_API]->(u)
+    RETURN c.repoRoot AS repoRoot,
+           EXISTS { (c)-[:CONSUMES_API_FROM]->(:Repository {repoRoot: $repoRoot}) } AS linked,
+           u.method AS method, u.url AS url, u.file AS file,
+           collect(DISTINCT fn.name) AS functions
+    `,
+    { repoRoot }
+  );
+}
+
+function consumersOf(
+  endpoint: string,
+  rows: ConsumedRow[]
+): ContractConsumer[] {
+  const [method, path] = splitEndpoint(endpoint);
+  const provided = {
+    type: "API",
+    direction: "provided",
+    method,
+    path,
+  } as APIEntity;
+  const byRepo = new Map<string, ContractConsumer>();
+  for (const row of rows) {
+    if (!row.url) continue;
+    const consumed = {
+      type: "API",
+      direction: "consumed",
+      method: row.method ?? undefined,
+      url: row.url,
+    } as APIEntity;
+    if (!isAPIMatch(consumed, provided)) continue;
+    let consumer = byRepo.get(row.repoRoot);
+    if (!consumer) {
+      consumer = { repoRoot: row.repoRoot, linked: row.linked, calls: [] };
+      byRepo.set(row.repoRoot, consumer);
+    }
+    consumer.calls.push({
+      method: row.method,
+      url: row.url,
+      file: row.file,
+      functions: row.functions.filter(Boolean),
+    });
+  }
+  return [...byRepo.values()].sort(
+    (x, y) =>
+      Number(y.linked) - Number(x.linked) ||
+      x.repoRoot.localeCompare(y.repoRoot)
+  );
+}
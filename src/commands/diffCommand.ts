@@ -0,0 +1,217 @@
+import { Driver } from "neo4j-driver";
+import {
+  listSnapshots,
+  loadSnapshot,
+  ManifestEdge,
+  ManifestEntity,
+  SNAPSHOT_LABELS,
+  SnapshotInfo,
+} from "../neo4j/snapshots.js";
+import { OutputFormat, PageArgs, pageLists, renderJson } from "./output.js";
+
+/** `data` of the diff tool's JSON output */
+export interface SnapshotDiffReport {
+  repoRoot: string;
+  from: string; // resolved version (or the requested ref when unresolved)
+  to: string;
+  status: "ok" | "no_snapshots" | "unknown_version" | "missing_manifest";
+  available: SnapshotInfo[]; // newest first
+  entities: Record<
+    string,
+    {
+      added: ManifestEntity[];
+      removed: ManifestEntity[];
+      changed: ManifestEntity[];
+    }
+  >; // keyed by label
+  edges: { added: ManifestEdge[]; removed: ManifestEdge[] };
+}
+
+/**
+ * Structural diff between two scan snapshots of a repository:
+ * - Resolves "latest" / "previous" (or explicit snapshotVersion strings)
+ * - Compares Functions, APIs, DatabaseTables and Configs by logical key
+ *   (added / removed / changed when the fingerprint differs)
+ * - Compares dependency edges (added / removed)
+ */
+export async function runSnapshotDiff(
+  driver: Driver,
+  args: {
+    repoRoot: string;
+    from?: string;
+    to?: string;
+    format?: OutputFormat;
+  } & PageArgs
+): Promise<string> {
+  const repoRoot = args.repoRoot;
+  const snapshots = await listSnapshots(driver, repoRoot);
+
+  // JSON output pages the snapshots and every added / removed / changed list
+  const json = (report: SnapshotDiffReport): string => {
+    const { data, page } = pageLists(
+      args,
+      (slice): SnapshotDiffReport => ({
+        ...report,
+        available: slice(report.available),
+        entities: Object.fromEntries(
+          Object.entries(report.entities).map(([label, d]) => [
+            label,
+            {
+              added: slice(d.added),
+              removed: slice(d.removed),
+              changed: slice(d.changed),
+            },
+          ])
+        ),
+        edges: {
+          added: slice(report.edges.added),
+          removed: slice(report.edges.removed),
+        },
+      })
+    );
+    return renderJson("diff", data, page);
+  };
+  const header = (from: string, to: string) => [
+    "Snapshot Diff",
+    `- Repository: ${repoRoot}`,
+    `- From: ${from}`,
+    `- To: ${to}`,
+    "",
+  ];
+  const empty = (
+    status: SnapshotDiffReport["status"],
+    from: string,
+    to: string,
+    message: string[]
+  ): string =>
+    args.format === "json"
+      ? json({
+          repoRoot,
+          from,
+          to,
+          status,
+          available: snapshots,
+          entities: {},
+          edges: { added: [], removed: [] },
+        })
+      : [...header(from, to), ...message].join("\n");
+
+  if (snapshots.length === 0) {
+    return empty("no_snapshots", args.from ?? "previous", args.to ?? "latest", [
+      "No snapshots recorded for this repository. Run the 'scan' tool first.",
+    ]);
+  }
+
+  const from = resolveVersion(snapshots, args.from ?? "previous");
+  const to = resolveVersion(snapshots, args.to ?? "latest");
+  if (!from || !to) {
+    return empty(
+      "unknown_version",
+      from ?? args.from ?? "previous",
+      to ?? args.to ?? "latest",
+      [
+        `Unknown snapshot version. Available (${snapshots.length}, newest first):`,
+        ...snapshots.slice(0, 20).map((s) => `  - ${s.version}`),
+      ]
+    );
+  }
+
+  const [a, b] = await Promise.all([
+    loadSnapshot(driver, repoRoot, from),
+    loadSnapshot(driver, repoRoot, to),
+  ]);
+  if (!a || !b) {
+    return empty("missing_manifest", from, to, [
+      "Snapshot manifest missing; it may have been garbage collected.",
+    ]);
+  }
+
+  const entities: SnapshotDiffReport["entities"] = {};
+  for (const label of SNAPSHOT_LABELS) {
+    entities[label] = diffEntities(
+      a.entities.filter((e) => e.label === label),
+      b.entities.filter((e) => e.label === label)
+    );
+  }
+  const edges = diffEdges(a.edges, b.edges);
+
+  if (args.format === "json") {
+    return json({
+      repoRoot,
+      from,
+      to,
+      status: "ok",
+      available: snapshots,
+      entities,
+      edges,
+    });
+  }
+
+  const lines = header(from, to);
+
+  for (const label of SNAPSHOT_LABELS) {
+    const d = entities[label];
+    lines.push(
+      `${label} (+${d.added.length} -${d.removed.length} ~${d.changed.length}):`
+    );
+    for (const e of d.added) lines.push(`  + ${describe(e)}`);
+    for (const e of d.removed) lines.push(`  - ${describe(e)}`);
+    for (const e of d.changed) lines.push(`  ~ ${describe(e)}`);
+    lines.push("");
+  }
+
+  lines.push(`Edges (+${edges.added.length} -${edges.removed.length}):`);
+  for (const e of edges.added) {
+    lines.push(`  + ${e.type} ${e.from} -> ${e.to}`);
+  }
+  for (const e of edges.removed) {
+    lines.push(`  - ${e.type} ${e.from} -> ${e.to}`);
+  }
+
+  return lines.join("\n");
+}
+
+/** Resolve "latest" / "previous" or an explicit snapshotVersion (null when unknown). */
+export function resolveVersion(
+  snapshots: SnapshotInfo[],
+  ref: string
+): string | null {
+  if (ref === "latest") return snapshots[0]?.version ?? null;
+  if (ref === "previous") return snapshots[1]?.version ?? null;
+  return snapshots.find((s) => s.version === ref)?.version ?? null;
+}
+
+function diffEntities(
+  before: ManifestEntity[],
+  after: ManifestEntity[]
+): {
+  added: ManifestEntity[];
+  removed: ManifestEntity[];
+  changed: ManifestEntity[];
+} {
+  const prev = new Map(before.map((e) => [e.key, e]));
+  const next = new Map(after.map((e) => [e.key, e]));
+  const added = after.filter((e) => !prev.has(e.key));
+  const removed = before.filter((e) => !next.has(e.key));
+  const changed = after.filter((e) => {
+    const p = prev.get(e.key);
+    return p != null && p.fingerprint !== e.fingerprint;
+  });
+  return { added, removed, changed };
+}
+
+function diffEdges(
+  before: ManifestEdge[],
+  after: ManifestEdge[]
+): { added: ManifestEdge[]; removed: ManifestEdge[] } {
+  const prev = new Set(before.map((e) => e.key));
+  const next = new Set(after.map((e) => e.key));
+  return {
+    added: after.filter((e) => !prev.has(e.key)),
+    removed: before.filter((e) => !next.has(e.key)),
+  };
+}
+
+function describe(e: ManifestEntity): string {
+  return e.file ? `${e.name}  [${e.file}]` : e.name;
+}
@@ -0,0 +1,458 @@
+import { Driver } from "neo4j-driver";
+import { relative, isAbsolute } from "path";
+import { runReadQuery, toNumber } from "../neo4j/connection.js";
+import { OutputFormat, PageArgs, pageLists, renderJson } from "./output.js";
+import {
+  ImpactSeed,
+  SymbolSeedArgs,
+  matchSeedById,
+  resolveSymbolSeeds,
+} from "./impactCommand.js";
+
+/** One end of an explanation: a file or a symbol, optionally in another repository. */
+export interface ExplainEndpoint extends SymbolSeedArgs {
+  file?: string;
+  repoRoot?: string;
+}
+
+export interface ExplainNode {
+  id: string;
+  label: string; // primary node label, e.g. "Function"
+  name: string; // readable identity: name, route, file or message
+  repoRoot: string | null;
+  file: string | null;
+  span: { start: number; end: number } | null;
+}
+
+export interface ExplainHop {
+  type: string; // relationship type
+  from: string; // node ids in traversal order
+  to: string;
+  reversed: boolean; // the stored relationship points from `to` to `from`
+  // Where the relationship comes from in code: the declared entity for
+  // DECLARES/CONTAINS/HAS_FUNCTION, else the node the relationship starts at
+  file: string | null;
+  span: { start: number; end: number } | null;
+}
+
+export interface ExplainPath {
+  length: number;
+  nodes: ExplainNode[];
+  hops: ExplainHop[];
+}
+
+/** `data` of the explain tool's JSON output */
+export interface ExplainReport {
+  from: { query: string; candidates: ImpactSeed[] };
+  to: { query: string; candidates: ImpactSeed[] };
+  maxHops: number;
+  directed: boolean;
+  status: "ok" | "not_found" | "no_path";
+  paths: ExplainPath[]; // shortest first
+}
+
+// Edges impact analysis walks between code entities. Repository links
+// (REPO_PROVIDES_API, REPO_USES_API, CONSUMES_API_FROM) join everything in a
+// repository, so they are left out
+const EXPLAIN_EDGES = [
+  "DECLARES",
+  "CONTAINS",
+  "HAS_FUNCTION",
+  "CALLS",
+  "USES_API",
+  "PROVIDES_API",
+  "QUERIES",
+  "USES_CONFIG",
+  "EMITS_ERROR",
+  "USES_TYPE",
+  "RETURNS_TYPE",
+  "API_RETURNS_TYPE",
+  "API_ACCEPTS_TYPE",
+  "SPECIFIES",
+  "TESTS",
+  "IMPORTS",
+  "EXTENDS",
+  "IMPLEMENTS",
+  "OVERRIDES",
+  "ACCESSES_TABLE",
+  "REPOSITORY_QUERIES_TABLE",
+].join("|");
+
+// File hub edges: only followed out of a file that is one of the endpoints, never
+// through a file in the middle of a path ("both are declared in the same file")
+const HUB_EDGES = ["DECLARES", "CONTAINS"];
+
+const STRUCTURAL_EDGES = new Set(["DECLARES", "CONTAINS", "HAS_FUNCTION"]);
+
+// Matches per endpoint beyond which an identifier is too vague to explain
+const MAX_CANDIDATES = 20;
+
+/**
+ * Explain why two entities are related: the shortest dependency paths between
+ * them, then longer ones up to k, with each hop's relationship type, file and
+ * line span.
+ * - Endpoints are a file, function, class, API route or table (as for impact)
+ * - Edges are followed in both directions unless `directed`, since impact also
+ *   walks incoming edges (callers, declaring files); reversed hops are marked
+ * - File and Repository hubs are not walked through (see EXPLAIN_EDGES and
+ *   HUB_EDGES); paths through files via IMPORTS or TESTS rank after the others
+ */
+export async function runExplain(
+  driver: Driver,
+  args: {
+    repoRoot?: string;
+    from: ExplainEndpoint;
+    to: ExplainEndpoint;
+    k?: number;
+    maxHops?: number;
+    directed?: boolean;
+    format?: OutputFormat;
+  } & PageArgs
+): Promise<string> {
+  const k = Math.max(1, Math.min(20, Math.floor(args.k ?? 3)));
+  // Variable-length bounds cannot be parameters; clamp to a safe integer instead
+  const maxHops = Math.max(1, Math.min(6, Math.floor(args.maxHops ?? 4)));
+  const directed = args.directed ?? false;
+
+  const from = await resolveEndpoint(driver, args.from, args.repoRoot, "from");
+  const to = await resolveEndpoint(driver, args.to, args.repoRoot, "to");
+
+  // JSON output pages the candidates of both endpoints and the paths
+  const json = (status: ExplainReport["status"], paths: ExplainPath[]) => {
+    const { data, page } = pageLists(
+      args,
+      (slice): ExplainReport => ({
+        from: { ...from, candidates: slice(from.candidates) },
+        to: { ...to, candidates: slice(to.candidates) },
+        maxHops,
+        directed,
+        status,
+        paths: slice(paths),
+      })
+    );
+    return renderJson("explain", data, page);
+  };
+  const header = [
+    "Path Explanation",
+    `- From: ${from.query}`,
+    `- To: ${to.query}`,
+    `- Max hops: ${maxHops}${directed ? " (directed)" : ""}`,
+  ];
+
+  const missing = [from, to].filter((e) => !e.candidates.length);
+  if (missing.length) {
+    if (args.format === "json") return json("not_found", []);
+    return [
+      ...header,
+      "",
+      ...missing.map(
+        (e) =>
+          `No ${e.query} found in graph. Check the name or run the 'scan' tool first.`
+      ),
+    ].join("\n");
+  }
+
+  const paths = await findPaths(
+    driver,
+    from.candidates.map((c) => c.id),
+    to.candidates.map((c) => c.id),
+    k,
+    maxHops,
+    directed
+  );
+
+  if (args.format === "json")
+    return json(paths.length ? "ok" : "no_path", paths);
+
+  const lines = [...header];
+  for (const end of [from, to]) {
+    if (end.candidates.length > 1) {
+      lines.push("");
+      lines.push(`Candidates for ${end.query} (${end.candidates.length}):`);
+      for (const c of end.candidates) lines.push(`  - ${c.label}`);
+    }
+  }
+  if (!paths.length) {
+    lines.push("");
+    lines.push(
+      `No path within ${maxHops} hops. Try a larger maxHops${
+        directed ? " or directed: false" : ""
+      }.`
+    );
+    return lines.join("\n");
+  }
+
+  paths.forEach((p, i) => {
+    lines.push("");
+    lines.push(
+      `${i === 0 ? "Shortest path" : `Path ${i + 1}`} (${p.length} hop${
+        p.length === 1 ? "" : "s"
+      }):`
+    );
+    lines.push(...formatPath(p));
+  });
+  return lines.join("\n");
+}
+
+async function resolveEndpoint(
+  driver: Driver,
+  end: ExplainEndpoint | undefined,
+  defaultRepoRoot: string | undefined,
+  which: "from" | "to"
+): Promise<{ query: string; candidates: ImpactSeed[] }> {
+  const repoRoot = end?.repoRoot || defaultRepoRoot;
+  if (!end || !repoRoot) {
+    throw new Error(
+      `Provide '${which}' with 'file' or one of 'function', 'class', 'api', 'table', and a 'repoRoot'`
+    );
+  }
+  const file = end.file
+    ? isAbsolute(end.file)
+      ? relative(repoRoot, end.file)
+      : end.file
+    : undefined;
+
+  let query: string;
+  let candidates: ImpactSeed[];
+  if (end.function || end.class || end.api || end.table) {
+    query = end.function
+      ? `function ${end.function}`
+      : end.class
+      ? `class ${end.class}`
+      : end.api
+      ? `API ${end.api}`
+      : `table ${end.table}`;
+    candidates = await resolveSymbolSeeds(driver, repoRoot, end, file);
+  } else if (file) {
+    query = `file ${file}`;
+    const rows = await runReadQuery<{ id: string; file: string }>(
+      driver,
+      `
+      MATCH (f:File {repoRoot: $repoRoot, file: $file})
+      RETURN f.id AS id, f.file AS file
+    `,
+      { repoRoot, file }
+    );
+    candidates = rows.map((r) => ({
+      id: r.id,
+      kind: "file",
+      label: r.file,
+      file: r.file,
+    }));
+  } else {
+    throw new Error(
+      `Provide '${which}' with 'file' or one of 'function', 'class', 'api', 'table'`
+    );
+  }
+
+  if (candidates.length > MAX_CANDIDATES) {
+    throw new Error(
+      `'${which}' matches ${candidates.length} entities for ${query}; pass 'file' or a qualified name to narrow it down`
+    );
+  }
+  return { query, candidates };
+}
+
+interface PathNodeRow {
+  id: string;
+  name: string | null;
+  file: string | null;
+  repoRoot: string | null;
+  method: string | null;
+  path: string | null;
+  url: string | null;
+  message: string | null;
+  spanStart: unknown;
+  spanEnd: unknown;
+  labels: string[];
+}
+
+interface PathRelRow {
+  type: string;
+  start: string; // id of the node the stored relationship starts at
+  line: unknown;
+}
+
+// Paths fetched per endpoint pair and pass, so hub-free paths can outrank the rest
+// and one pair cannot crowd out the others
+const PATHS_PER_PAIR = 20;
+
+/**
+ * Up to k distinct node sequences between the endpoints, shortest first:
+ * - the shortest paths of each pair (allShortestPaths, so hubs cost a breadth-first
+ *   search rather than an enumeration), ranked by how few File nodes they pass
+ *   through
+ * - when those are fewer than k, longer paths of each pair without repeated
+ *   nodes, up to maxHops
+ */
+async function findPaths(
+  driver: Driver,
+  fromIds: string[],
+  toIds: string[],
+  k: number,
+  maxHops: number,
+  directed: boolean
+): Promise<ExplainPath[]> {
+  const arrow = directed ? "->" : "-";
+  const hubFree =
+    "ALL(r IN relationships(p) WHERE NOT type(r) IN $hubEdges OR startNode(r) IN [a, b])";
+  const shortest = await queryPaths(
+    driver,
+    `
+    UNWIND $fromIds AS fromId
+    ${matchSeedById("fromId", "a")}
+    UNWIND $toIds AS toId
+    ${matchSeedById("toId", "b")}
+    WITH a, b WHERE a <> b
+    CALL {
+      WITH a, b
+      MATCH p = allShortestPaths((a)-[:${EXPLAIN_EDGES}*..${maxHops}]${arrow}(b))
+      WHERE ${hubFree}
+      RETURN p LIMIT ${PATHS_PER_PAIR}
+    }
+    `,
+    { fromIds, toIds }
+  );
+  const found = distinctPaths(shortest);
+  if (found.length >= k) return found.slice(0, k);
+
+  // Shortest length per pair; longer paths start one hop beyond it
+  const pairs = new Map<
+    string,
+    { fromId: string; toId: string; length: number }
+  >();
+  for (const p of shortest) {
+    const fromId = p.nodes[0].id;
+    const toId = p.nodes[p.nodes.length - 1].id;
+    const key = `${fromId}|${toId}`;
+    if (!pairs.has(key)) pairs.set(key, { fromId, toId, length: p.length });
+  }
+  const minHops = Math.min(...Array.from(pairs.values(), (p) => p.length)) + 1;
+  if (!pairs.size || minHops > maxHops) return found;
+  const longer = await queryPaths(
+    driver,
+    `
+    UNWIND $pairs AS pair
+    WITH pair, pair.fromId AS fromId, pair.toId AS toId
+    ${matchSeedById("fromId", "a")}
+    ${matchSeedById("toId", "b")}
+    CALL {
+      WITH a, b, pair
+      MATCH p = (a)-[:${EXPLAIN_EDGES}*${minHops}..${maxHops}]${arrow}(b)
+      WHERE length(p) > pair.length AND ${hubFree}
+        AND ALL(n IN nodes(p) WHERE single(m IN nodes(p) WHERE m = n))
+      RETURN p LIMIT ${PATHS_PER_PAIR}
+    }
+    `,
+    { pairs: Array.from(pairs.values()) }
+  );
+  return distinctPaths([...shortest, ...longer]).slice(0, k);
+}
+
+// Run a query binding `p` to paths between `a` and `b`, returning them typed
+async function queryPaths(
+  driver: Driver,
+  match: string,
+  params: Record<string, unknown>
+): Promise<ExplainPath[]> {
+  const rows = await runReadQuery<{ nodes: PathNodeRow[]; rels: PathRelRow[] }>(
+    driver,
+    `
+    ${match}
+    RETURN
+      [n IN nodes(p) | n {
+        .id, .name, .file, .repoRoot, .method, .path, .url, .message,
+        .spanStart, .spanEnd, labels: labels(n)
+      }] AS nodes,
+      [r IN relationships(p) | {type: type(r), start: startNode(r).id, line: r.line}] AS rels
+    `,
+    { ...params, hubEdges: HUB_EDGES }
+  );
+  return rows.map(toExplainPath);
+}
+
+// DECLARES and CONTAINS often link the same pair; keep one path per node sequence,
+// shortest and least file-bound first
+function distinctPaths(paths: ExplainPath[]): ExplainPath[] {
+  const found = new Map<string, ExplainPath>();
+  for (const path of paths) {
+    const key = path.nodes.map((n) => n.id).join("|");
+    if (!found.has(key)) found.set(key, path);
+  }
+  return [...found.values()].sort(
+    (x, y) => x.length - y.length || hubCount(x) - hubCount(y)
+  );
+}
+
+function toExplainPath(row: {
+  nodes: PathNodeRow[];
+  rels: PathRelRow[];
+}): ExplainPath {
+  const nodes: ExplainNode[] = row.nodes.map((n) => ({
+    id: n.id,
+    label: n.labels[0] ?? "",
+    name: nodeName(n),
+    repoRoot: n.repoRoot ?? null,
+    file: n.file ?? null,
+    span: toSpan(n.spanStart, n.spanEnd),
+  }));
+  const hops: ExplainHop[] = row.rels.map((r, i) => {
+    const a = row.nodes[i];
+    const b = row.nodes[i + 1];
+    const reversed = r.start !== a.id;
+    const start = reversed ? b : a;
+    const end = reversed ? a : b;
+    const site = STRUCTURAL_EDGES.has(r.type) ? end : start;
+    const line = r.line == null ? null : toNumber(r.line);
+    return {
+      type: r.type,
+      from: a.id,
+      to: b.id,
+      reversed,
+      file: site.file ?? null,
+      span: line
+        ? { start: line, end: line }
+        : toSpan(site.spanStart, site.spanEnd),
+    };
+  });
+  return { length: hops.length, nodes, hops };
+}
+
+function nodeName(n: PathNodeRow): string {
+  if (n.labels.includes("API")) {
+    return `${(n.method || "GET").toUpperCase()} ${n.path ?? n.url ?? n.name}`;
+  }
+  if (n.labels.includes("File")) return n.file ?? n.name ?? n.id;
+  return n.name ?? n.message ?? n.repoRoot ?? n.id;
+}
+
+// Intermediate File nodes: paths through them say "same file" rather than
+// "depends on"
+function hubCount(path: ExplainPath): number {
+  return path.nodes.slice(1, -1).filter((n) => n.label === "File").length;
+}
+
+function formatPath(path: ExplainPath): string[] {
+  const byId = new Map(path.nodes.map((n) => [n.id, n]));
+  const describe = (n: ExplainNode) =>
+    `${n.label} ${n.name}${
+      n.file && n.label !== "File" ? `  [${n.file}]` : ""
+    }`;
+  const out = [`  ${describe(path.nodes[0])}`];
+  for (const hop of path.hops) {
+    const lines = !hop.span
+      ? ""
+      : hop.span.start === hop.span.end
+      ? `:${hop.span.start}`
+      : `:${hop.span.start}-${hop.span.end}`;
+    const where = hop.file ? `  (${hop.file}${lines})` : "";
+    const edge = hop.reversed ? `<-[:${hop.type}]-` : `-[:${hop.type}]->`;
+    out.push(`    ${edge} ${describe(byId.get(hop.to)!)}${where}`);
+  }
+  return out;
+}
+
+function toSpan(start: unknown, end: unknown): ExplainNode["span"] {
+  const s = toNumber(start);
+  return s ? { start: s, end: toNumber(end) || s } : null;
+}
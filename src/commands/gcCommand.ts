@@ -0,0 +1,124 @@
+import { Driver } from "neo4j-driver";
+import { runQuery } from "../neo4j/connection.js";
+import {
+  applyRetention,
+  RetentionPolicy,
+  RetentionResult,
+} from "../neo4j/retention.js";
+import { OutputFormat, PageArgs, pageLists, renderJson } from "./output.js";
+
+/** `data` of the gc tool's JSON output */
+export interface GarbageCollectionReport {
+  dryRun: boolean;
+  policy: RetentionPolicy;
+  results: RetentionResult[]; // one per repository
+  totals: { snapshotsRemoved: number; relationshipVersionsRemoved: number };
+}
+
+/**
+ * Garbage collection of snapshot history:
+ * - Applies the retention policy (keep last N snapshots and/or last N days)
+ * - Prunes or collapses old relationship versions so traversals see one edge per relKey
+ * - Runs for one repository, or every repository in the graph when repoRoot is omitted
+ */
+export async function runGarbageCollection(
+  driver: Driver,
+  args: RetentionPolicy & {
+    repoRoot?: string;
+    dryRun?: boolean;
+    format?: OutputFormat;
+  } & PageArgs
+): Promise<string> {
+  const policy: RetentionPolicy = {
+    keepLast: args.keepLast,
+    keepDays: args.keepDays,
+    collapse: args.collapse,
+  };
+
+  let repoRoots: string[];
+  if (args.repoRoot) {
+    repoRoots = [args.repoRoot];
+  } else {
+    const rows = await runQuery<{ repoRoot: string }>(
+      driver,
+      `
+      MATCH (n)
+      WHERE (n:Repository OR n:Snapshot) AND n.repoRoot IS NOT NULL
+      RETURN DISTINCT n.repoRoot AS repoRoot
+      ORDER BY repoRoot
+    `
+    );
+    repoRoots = rows.map((r) => r.repoRoot);
+  }
+
+  const results: RetentionResult[] = [];
+  for (const repoRoot of repoRoots) {
+    results.push(
+      await applyRetention(driver, repoRoot, policy, { dryRun: args.dryRun })
+    );
+  }
+
+  const totalSnapshots = results.reduce((s, r) => s + r.snapshotsRemoved, 0);
+  const totalRels = results.reduce(
+    (s, r) => s + r.relationshipVersionsRemoved,
+    0
+  );
+
+  // Every repository is collected; JSON output pages the results and their
+  // retained versions, the totals count them all
+  if (args.format === "json") {
+    const { data, page } = pageLists(
+      args,
+      (slice): GarbageCollectionReport => ({
+        dryRun: Boolean(args.dryRun),
+        policy,
+        results: slice(results).map((r) => ({
+          ...r,
+          retainedVersions: slice(r.retainedVersions),
+        })),
+        totals: {
+          snapshotsRemoved: totalSnapshots,
+          relationshipVersionsRemoved: totalRels,
+        },
+      })
+    );
+    return renderJson("gc", data, page);
+  }
+
+  const lines: string[] = [];
+  lines.push(
+    args.dryRun ? "Garbage Collection (dry run)" : "Garbage Collection"
+  );
+  lines.push(`- Keep last: ${policy.keepLast ?? "all"}`);
+  lines.push(`- Keep days: ${policy.keepDays ?? "all"}`);
+  lines.push(`- Collapse relationship versions: ${Boolean(policy.collapse)}`);
+  lines.push("");
+
+  if (!results.length) {
+    lines.push("No repositories found in graph. Nothing to collect.");
+    return lines.join("\n");
+  }
+
+  const verb = args.dryRun ? "Would remove" : "Removed";
+  for (const r of results) {
+    lines.push(`${r.repoRoot}:`);
+    lines.push(
+      `  ${verb} ${r.snapshotsRemoved} snapshots, ${r.relationshipVersionsRemoved} relationship versions`
+    );
+    lines.push(`  Retained snapshots (${r.retainedVersions.length}):`);
+    for (const v of r.retainedVersions.slice(0, 20)) {
+      lines.push(`    - ${v}`);
+    }
+    if (r.retainedVersions.length > 20)
+      lines.push(`    ...and ${r.retainedVersions.length - 20} more`);
+  }
+
+  lines.push("");
+  lines.push(
+    `Total: ${verb.toLowerCase()} ${totalSnapshots} snapshots, ${totalRels} relationship versions across ${
+      results.length
+    } repositories`
+  );
+
+  return lines.join("\n");
+}
@@ -1,185 +1,763 @@
 import { Driver } from "neo4j-driver";
-import { runQuery } from "../neo4j/connection.js";
+import { runQuery, toNumber } from "../neo4j/connection.js";
 import { relative, isAbsolute } from "path";
+import { OutputFormat, PageArgs, pageLists, renderJson } from "./output.js";
+import { isAPIMatch } from "../scanner/relationshipBuilder.js";
+import { APIEntity } from "../scanner/types.js";
+
+export interface ImpactResult {
+  affectedFiles: string[];
+  providedApis: {
+    method: string | null;
+    path: string | null;
+    file: string | null;
+  }[];
+  consumedApis: {
+    method: string | null;
+    url: string | null;
+    file: string | null;
+  }[];
+  tables: string[];
+  configs: string[];
+  errors: { message: string | null; file: string | null }[];
+  functions: { name: string | null; file: string | null }[];
+  classes: { name: string | null; file: string | null }[];
+  tests: string[];
+  // upstream only
+  callers: { name: string | null; file: string | null }[];
+  consumingRepositories: string[];
+}
+
+export type ImpactDirection = "upstream" | "downstream" | "both";
+
+export interface ImpactSection {
+  title: string;
+  items: { key: string; text: string }[];
+}
+
+export type ImpactSeedKind = "file" | "function" | "class" | "api" | "table";
+
+export interface ImpactSeed {
+  id: string;
+  kind: ImpactSeedKind;
+  label: string; // human-readable name used for attribution
+  file: string | null;
+}
+
+/** `data` of the impact tool's JSON output */
+export interface ImpactReport {
+  repoRoot: string;
+  file: string | null;
+  symbol: string | null; // e.g. "function OrderService.cancel"
+  depth: number;
+  direction: ImpactDirection;
+  status: "ok" | "not_found" | "ambiguous" | "no_impact";
+  seeds: ImpactSeed[]; // candidates when ambiguous
+  impact: ImpactResult | null; // union over all seeds
+}
+
+export interface SymbolSeedArgs {
+  function?: string; // "cancel" or qualified "OrderService.cancel"
+  class?: string;
+  api?: string; // "GET /v1/orders" or "/v1/orders"
+  table?: string;
+}
+
+const DEPENDENCY_EDGES =
+  "CALLS|USES_API|PROVIDES_API|QUERIES|USES_CONFIG|EMITS_ERROR";
+// Incoming edges meaning "depends on the target"
+const UPSTREAM_EDGES =
+  "CALLS|USES_API|PROVIDES_API|QUERIES|USES_CONFIG|USES_TYPE|RETURNS_TYPE|API_RETURNS_TYPE|API_ACCEPTS_TYPE|TESTS|OVERRIDES|EXTENDS|IMPLEMENTS";
+// Labels of the nodes seeds resolve to, each with a unique id constraint
+const SEED_LABELS = [
+  "File",
+  "Function",
+  "Class",
+  "TypeDefinition",
+  "API",
+  "DatabaseTable",
+];
+
+/**
+ * Cypher subquery binding `node` to the seed whose id is in `idVar`, one id index
+ * seek per seed label: a label-less `({id: ...})` lookup scans every node.
+ */
+export function matchSeedById(idVar: string, node = "s"): string {
+  const branches = SEED_LABELS.map(
+    (label) =>
+      `WITH ${idVar} MATCH (${node}:${label} {id: ${idVar}}) RETURN ${node}`
+  );
+  return `CALL { ${branches.join(" UNION ")} }`;
+}
 
 /**
- * Impact analysis for a file:
- * - Starts from (File {repoRoot, file})
- * - Traverses declared/contained entities
- * - Follows dependency edges (CALLS, USES_API, PROVIDES_API, QUERIES, USES_CONFIG, EMITS_ERROR)
+ * Impact analysis for a file or a single symbol:
+ * - Starts from (File {repoRoot, file}), or from a Function / Class / API route /
+ *   DatabaseTable when one is given (`file` then only disambiguates)
+ * - Traverses declared/contained entities (and class methods)
+ * - downstream: follows dependency edges (CALLS, USES_API, PROVIDES_API, QUERIES, USES_CONFIG, EMITS_ERROR)
+ * - upstream: walks incoming CALLS, USES_TYPE / RETURNS_TYPE and TESTS edges to
+ *   callers and tests, OVERRIDES / EXTENDS / IMPLEMENTS to the subclasses and
+ *   implementations of a class or method, and API_RETURNS_TYPE / API_ACCEPTS_TYPE to
+ *   the endpoints returning or accepting a type (or a type embedding it), then to the
+ *   APIs exposing them and the repositories consuming those (a consumed API of a
+ *   CONSUMES_API_FROM repository matching one of them)
+ * - Defaults to downstream for files and both directions for symbol seeds
  * - Resolves back to Files containing affected entities
- * - Returns a human-readable summary
+ * - Returns a human-readable summary, or an ImpactReport with `format: "json"`
  */
 export async function runImpactAnalysis(
   driver: Driver,
-  args: { file: string; repoRoot: string; depth?: number }
+  args: {
+    file?: string;
+    repoRoot: string;
+    depth?: number;
+    direction?: ImpactDirection;
+    format?: OutputFormat;
+  } & SymbolSeedArgs &
+    PageArgs
 ): Promise<string> {
   const depth = typeof args.depth === "number" ? Math.max(1, args.depth) : 3;
   const repoRoot = args.repoRoot;
   // Normalize to relative path under repoRoot if absolute
-  const fileRel = isAbsolute(args.file)
-    ? relative(repoRoot, args.file)
-    : args.file;
+  const fileRel = args.file
+    ? isAbsolute(args.file)
+      ? relative(repoRoot, args.file)
+      : args.file
+    : undefined;
 
-  // Ensure file exists in graph
-  const seed = await runQuery<{
-    id: string;
-    file: string;
-  }>(
-    driver,
-    `
-    MATCH (f:File {repoRoot: $repoRoot, file: $file})
-    RETURN f.id as id, f.file as file
-  `,
-    { repoRoot, file: fileRel }
-  );
+  const symbol = describeSymbol(args);
+  const direction = args.direction ?? (symbol ? "both" : "downstream");
+  const header = [
+    "Impact Analysis",
+    `- Repository: ${repoRoot}`,
+    ...(symbol ? [`- Seed: ${symbol}`] : []),
+    ...(fileRel ? [`- File: ${fileRel}`] : []),
+  ];
+  const report = (
+    status: ImpactReport["status"],
+    seeds: ImpactSeed[],
+    impact: ImpactResult | null
+  ): ImpactReport => ({
+    repoRoot,
+    file: fileRel ?? null,
+    symbol,
+    depth,
+    direction,
+    status,
+    seeds,
+    impact,
+  });
+  // JSON output pages the seeds and every impact list
+  const json = (
+    status: ImpactReport["status"],
+    seeds: ImpactSeed[],
+    impact: ImpactResult | null
+  ): string => {
+    const { data, page } = pageLists(args, (slice) =>
+      report(status, slice(seeds), impact && sliceImpact(impact, slice))
+    );
+    return renderJson("impact", data, page);
+  };
+  // Early exits: a message for text output, the bare report for JSON
+  const stop = (
+    status: ImpactReport["status"],
+    seeds: ImpactSeed[],
+    message: string[]
+  ): string =>
+    args.format === "json"
+      ? json(status, seeds, null)
+      : [...header, "", ...message].join("\n");
+
+  let seeds: ImpactSeed[];
+  if (symbol) {
+    seeds = await resolveSymbolSeeds(driver, repoRoot, args, fileRel);
+    if (!seeds.length) {
+      return stop(
+        "not_found",
+        [],
+        [
+          `No ${symbol} found in graph${
+            fileRel ? " for this file" : ""
+          }. Check the name or run the 'scan' tool first.`,
+        ]
+      );
+    }
+    const files = new Set(seeds.map((s) => s.file));
+    if (
+      !fileRel &&
+      files.size > 1 &&
+      seeds.every((s) => s.kind === "function" || s.kind === "class")
+    ) {
+      return stop("ambiguous", seeds, [
+        `Ambiguous seed: ${seeds.length} matches. Pass 'file' to pick one:`,
+        ...seeds.slice(0, 50).map((s) => `  - ${s.label}`),
+      ]);
+    }
+  } else {
+    if (!fileRel) {
+      throw new Error(
+        "Provide 'file' or one of 'function', 'class', 'api', 'table'"
+      );
+    }
+    // Ensure file exists in graph
+    const rows = await runQuery<{
+      id: string;
+      file: string;
+    }>(
+      driver,
+      `
+      MATCH (f:File {repoRoot: $repoRoot, file: $file})
+      RETURN f.id as id, f.file as file
+    `,
+      { repoRoot, file: fileRel }
+    );
 
-  if (!seed.length) {
-    return [
-      "Impact Analysis",
-      `- Repository: ${repoRoot}`,
-      `- File: ${fileRel}`,
-      "",
-      "No File node found in graph. Run the 'scan' tool first to ingest this repository.",
-    ].join("\n");
+    if (!rows.length) {
+      return stop(
+        "not_found",
+        [],
+        [
+          "No File node found in graph. Run the 'scan' tool first to ingest this repository.",
+        ]
+      );
+    }
+    seeds = [
+      { id: rows[0].id, kind: "file", label: rows[0].file, file: rows[0].file },
+    ];
   }
 
-  // Traverse out: declared/contained entities -> dependency edges -> related entities
-  // Then map back to files containing/declaring them
-  const results = await runQuery<any>(
+  const bySeed = await collectImpact(
     driver,
-    `
-    // starting file
-    MATCH (f:File {repoRoot: $repoRoot, file: $file})
-
-    // entities declared/contained by file
-    OPTIONAL MATCH path1=(f)-[:DECLARES|CONTAINS*1..]->(e)
-
-    // follow dependency-like edges to related items
-    OPTIONAL MATCH path2=(e)-[:CALLS|USES_API|PROVIDES_API|QUERIES|USES_CONFIG|EMITS_ERROR*1..$depth]->(rel)
-
-    WITH f, collect(distinct e) as entities, collect(distinct rel) as related
-
-    WITH f, apoc.coll.toSet(entities + related) as touched
-
-    // back to files
-    OPTIONAL MATCH (touched)<-[:DECLARES|CONTAINS*1..]-(af:File)
-    WITH f, touched, collect(distinct af) as affectedFiles
-
-    // classify touched nodes
-    WITH f, touched, affectedFiles,
-      [x IN touched WHERE x:API AND coalesce(x.direction,'') = 'provided'] as providedApis,
-      [x IN touched WHERE x:API AND coalesce(x.direction,'') = 'consumed'] as consumedApis,
-      [x IN touched WHERE x:DatabaseTable] as dbTables,
-      [x IN touched WHERE x:Config] as configs,
-      [x IN touched WHERE x:ErrorMessage] as errors,
-      [x IN touched WHERE x:Function] as functions,
-      [x IN touched WHERE x:Class] as classes,
-      [x IN touched WHERE x:Test] as tests
-
-    RETURN
-      [af in affectedFiles | af.file] as affectedFilePaths,
-      [p in providedApis | {method: p.method, path: p.path, file: p.file}] as providedEndpoints,
-      [c in consumedApis | {method: c.method, url: c.url, file: c.file}] as consumedEndpoints,
-      [t in dbTables | {table: t.name}] as tables,
-      [cfg in configs | cfg.name] as configKeys,
-      [err in errors | {message: err.message, file: err.file}] as errorMessages,
-      [fn in functions | {name: fn.name, file: fn.file}] as functionNames,
-      [cl in classes | {name: cl.name, file: cl.file}] as classNames,
-      [tt in tests | {name: tt.name, file: tt.file}] as testFiles
-    `,
-    { repoRoot, file: fileRel, depth }
+    seeds.map((s) => s.id),
+    depth,
+    direction
   );
 
-  if (!results.length) {
-    return [
-      "Impact Analysis",
-      `- Repository: ${repoRoot}`,
-      `- File: ${fileRel}`,
-      "",
-      "No impact detected.",
-    ].join("\n");
+  if (!bySeed.size) {
+    return stop("no_impact", seeds, ["No impact detected."]);
   }
 
-  const row = results[0];
-
-  const affectedFiles = dedupe(row.affectedFilePaths || []);
-  const provided = row.providedEndpoints || [];
-  const consumed = row.consumedEndpoints || [];
-  const tables = dedupe((row.tables || []).map((t: any) => t.table));
-  const configs = dedupe(row.configKeys || []);
-  const errors = row.errorMessages || [];
-  const testFiles = dedupe((row.testFiles || []).map((t: any) => t.file));
-  const functions = row.functionNames || [];
-  const classes = row.classNames || [];
-
-  const lines: string[] = [];
-  lines.push("Impact Analysis");
-  lines.push(`- Repository: ${repoRoot}`);
-  lines.push(`- File: ${fileRel}`);
-  lines.push(`- Depth: ${depth}`);
-  lines.push("");
-
-  lines.push(`Affected files (${affectedFiles.length}):`);
-  for (const f of affectedFiles.slice(0, 50)) {
-    lines.push(`  - ${f}`);
-  }
-  if (affectedFiles.length > 50)
-    lines.push(`  ...and ${affectedFiles.length - 50} more`);
-
-  lines.push("");
-  lines.push(`Provided APIs (${provided.length}):`);
-  for (const p of provided.slice(0, 50)) {
-    const method = (p.method || "").toUpperCase();
-    lines.push(`  - ${method} ${p.path}  [${p.file}]`);
+  if (args.format === "json") {
+    return json("ok", seeds, combineImpact(Array.from(bySeed.values())));
   }
 
-  lines.push("");
-  lines.push(`Consumed APIs (${consumed.length}):`);
-  for (const c of consumed.slice(0, 50)) {
-    const method = (c.method || "GET").toUpperCase();
-    lines.push(`  - ${method} ${c.url}  [${c.file}]`);
+  const lines: string[] = [
+    ...header,
+    `- Depth: ${depth}`,
+    `- Direction: ${direction}`,
+  ];
+  if (seeds.length > 1) {
+    lines.push("");
+    lines.push(`Seeds (${seeds.length}):`);
+    for (const s of seeds) lines.push(`  - ${s.label}`);
   }
 
-  lines.push("");
-  lines.push(`Database tables (${tables.length}):`);
-  for (const t of tables.slice(0, 50)) {
-    lines.push(`  - ${t}`);
+  for (const section of mergeImpactSections(seeds, bySeed)) {
+    lines.push("");
+    lines.push(`${section.title} (${section.items.length}):`);
+    for (const item of section.items.slice(0, 50)) {
+      lines.push(
+        seeds.length > 1
+          ? `  - ${item.text}  ← ${item.seeds.join(", ")}`
+          : `  - ${item.text}`
+      );
+    }
+    if (section.items.length > 50)
+      lines.push(`  ...and ${section.items.length - 50} more`);
   }
 
-  lines.push("");
-  lines.push(`Configs used (${configs.length}):`);
-  for (const k of configs.slice(0, 50)) {
-    lines.push(`  - ${k}`);
-  }
+  return lines.join("\n");
+}
+
+/** Validate a tool argument as an impact direction (undefined when absent). */
+export function parseImpactDirection(
+  value: unknown
+): ImpactDirection | undefined {
+  if (value == null || value === "") return undefined;
+  if (value === "upstream" || value === "downstream" || value === "both")
+    return value;
+  throw new Error(
+    `Invalid direction '${value}'. Use "upstream", "downstream" or "both".`
+  );
+}
+
+function describeSymbol(args: SymbolSeedArgs): string | null {
+  if (args.function) return `function ${args.function}`;
+  if (args.class) return `class ${args.class}`;
+  if (args.api) return `API ${args.api}`;
+  if (args.table) return `table ${args.table}`;
+  return null;
+}
+
+/**
+ * Find the graph entities named by a symbol seed within a repository.
+ * Functions may be qualified with their class ("OrderService.cancel", "OrderService::cancel");
+ * API routes may carry a method ("GET /v1/orders"); table names match case-insensitively.
+ */
+export async function resolveSymbolSeeds(
+  driver: Driver,
+  repoRoot: string,
+  symbol: SymbolSeedArgs,
+  file?: string
+): Promise<ImpactSeed[]> {
+  const params: Record<string, unknown> = { repoRoot, file: file ?? null };
+  let cypher: string;
+  let kind: ImpactSeedKind;
 
-  lines.push("");
-  lines.push(`Errors emitted (${errors.length}):`);
-  for (const e of (errors as any[]).slice(0, 50)) {
-    lines.push(`  - ${e.message}  [${e.file}]`);
+  if (symbol.function) {
+    kind = "function";
+    const m = symbol.function.match(/^(.*?)(?:\.|::|#)([^.:#]+)$/);
+    params.owner = m ? m[1] : null;
+    params.name = m ? m[2] : symbol.function;
+    cypher = `
+      MATCH (n:Function {repoRoot: $repoRoot, name: $name})
+      WHERE ($file IS NULL OR n.file = $file)
+        AND ($owner IS NULL OR (:Class {name: $owner})-[:HAS_FUNCTION]->(n))
+      OPTIONAL MATCH (c:Class)-[:HAS_FUNCTION]->(n)
+      WITH n, head(collect(c.name)) AS owner
+      RETURN n.id AS id, n.file AS file,
+             CASE WHEN owner IS NULL THEN n.name ELSE owner + '.' + n.name END AS name,
+             n.spanStart AS spanStart, n.spanEnd AS spanEnd
+      ORDER BY file, spanStart
+    `;
+  } else if (symbol.class) {
+    kind = "class";
+    params.name = symbol.class;
+    cypher = `
+      MATCH (n {repoRoot: $repoRoot, name: $name})
+      WHERE (n:Class OR n:TypeDefinition)
+        AND ($file IS NULL OR n.file = $file)
+      RETURN n.id AS id, n.file AS file, n.name AS name,
+             n.spanStart AS spanStart, n.spanEnd AS spanEnd
+      ORDER BY file, spanStart
+    `;
+  } else if (symbol.api) {
+    kind = "api";
+    const m = symbol.api.trim().match(/^([A-Za-z]+)\s+(\S+)$/);
+    params.method = m ? m[1].toUpperCase() : null;
+    params.path = m ? m[2] : symbol.api.trim();
+    cypher = `
+      MATCH (n:API {repoRoot: $repoRoot})
+      WHERE coalesce(n.path, n.url) = $path
+        AND ($method IS NULL OR toUpper(coalesce(n.method, 'GET')) = $method)
+        AND ($file IS NULL OR n.file = $file)
+      RETURN n.id AS id, n.file AS file,
+             toUpper(coalesce(n.method, 'GET')) + ' ' + coalesce(n.path, n.url) +
+               ' (' + n.direction + ')' AS name,
+             n.spanStart AS spanStart, n.spanEnd AS spanEnd
+      ORDER BY file, spanStart
+    `;
+  } else if (symbol.table) {
+    kind = "table";
+    params.name = symbol.table;
+    cypher = `
+      MATCH (n:DatabaseTable {repoRoot: $repoRoot})
+      WHERE toLower(n.name) = toLower($name)
+      RETURN n.id AS id, n.file AS file, n.name AS name,
+             n.spanStart AS spanStart, n.spanEnd AS spanEnd
+    `;
+  } else {
+    return [];
   }
 
-  lines.push("");
-  lines.push(`Functions touched (${functions.length}):`);
-  for (const fn of (functions as any[]).slice(0, 50)) {
-    lines.push(`  - ${fn.name}  [${fn.file}]`);
+  const rows = await runQuery<{
+    id: string;
+    file: string | null;
+    name: string;
+    spanStart: any;
+    spanEnd: any;
+  }>(driver, cypher, params);
+
+  return rows.map((r) => {
+    const start = toNumber(r.spanStart);
+    const where = r.file
+      ? start
+        ? ` [${r.file}:${start}-${toNumber(r.spanEnd)}]`
+        : ` [${r.file}]`
+      : "";
+    return { id: r.id, kind, label: `${r.name}${where}`, file: r.file };
+  });
+}
+
+/**
+ * Traverse from each seed entity (a File, Function, Class, ...) and return its impact.
+ * File seeds expand to everything they DECLARE/CONTAIN, classes to their methods.
+ * - downstream: what the seed depends on (outgoing dependency edges)
+ * - upstream: who depends on the seed (incoming CALLS/USES_TYPE/TESTS, types
+ *   embedding it, the APIs exposing, returning or accepting it and the repositories
+ *   consuming those APIs)
+ * The result map is keyed by seed id; seeds not found in the graph are absent.
+ */
+export async function collectImpact(
+  driver: Driver,
+  seedIds: string[],
+  depth: number,
+  direction: ImpactDirection = "downstream"
+): Promise<Map<string, ImpactResult>> {
+  const out = new Map<string, ImpactResult>();
+  if (!seedIds.length) return out;
+  // Variable-length bounds cannot be parameters; clamp to a safe integer instead
+  const hops = Math.max(1, Math.min(10, Math.floor(depth)));
+
+  if (direction !== "upstream") {
+    const rows = await runQuery<any>(
+      driver,
+      `
+      UNWIND $seedIds AS seedId
+      ${matchSeedById("seedId")}
+
+      // the seed plus entities declared/contained by it (methods for classes)
+      OPTIONAL MATCH (s)-[:DECLARES|CONTAINS|HAS_FUNCTION]->(d)
+      WITH seedId, [s] + collect(DISTINCT d) AS entities
+
+      // follow dependency-like edges to related items
+      UNWIND entities AS e
+      OPTIONAL MATCH (e)-[:${DEPENDENCY_EDGES}*1..${hops}]->(rel)
+      WITH seedId, entities, collect(DISTINCT rel) AS related
+      UNWIND entities + related AS t
+      WITH seedId, collect(DISTINCT t) AS touched
+
+      // back to files
+      UNWIND touched AS t
+      OPTIONAL MATCH (af:File)-[:DECLARES|CONTAINS]->(t)
+      WITH seedId, touched, collect(DISTINCT af.file) AS affectedFilePaths
+
+      RETURN
+        seedId,
+        affectedFilePaths,
+        [p IN touched WHERE p:API AND coalesce(p.direction,'') = 'provided' | {method: p.method, path: p.path, file: p.file}] as providedEndpoints,
+        [c IN touched WHERE c:API AND coalesce(c.direction,'') = 'consumed' | {method: c.method, url: c.url, file: c.file}] as consumedEndpoints,
+        [t IN touched WHERE t:DatabaseTable | t.name] as tables,
+        [cfg IN touched WHERE cfg:Config | cfg.name] as configKeys,
+        [err IN touched WHERE err:ErrorMessage | {message: err.message, file: err.file}] as errorMessages,
+        [fn IN touched WHERE fn:Function | {name: fn.name, file: fn.file}] as functionNames,
+        [cl IN touched WHERE cl:Class | {name: cl.name, file: cl.file}] as classNames,
+        [tt IN touched WHERE tt:Test | tt.file] as testFiles
+      `,
+      { seedIds }
+    );
+    for (const row of rows) mergeImpact(out, row.seedId, toImpactResult(row));
   }
 
-  lines.push("");
-  lines.push(`Classes touched (${classes.length}):`);
-  for (const cl of (classes as any[]).slice(0, 50)) {
-    lines.push(`  - ${cl.name}  [${cl.file}]`);
+  if (direction !== "downstream") {
+    const rows = await runQuery<any>(
+      driver,
+      `
+      UNWIND $seedIds AS seedId
+      ${matchSeedById("seedId")}
+      OPTIONAL MATCH (s)-[:DECLARES|CONTAINS|HAS_FUNCTION]->(d)
+      WITH seedId, [s] + collect(DISTINCT d) AS entities
+
+      // types embedding the seed: a field of type Address makes Order depend on it
+      UNWIND entities AS e
+      OPTIONAL MATCH (holder)-[:USES_TYPE*1..${hops}]->(e)
+      WHERE holder:Class OR holder:TypeDefinition
+      WITH seedId, entities, collect(DISTINCT holder) AS holders
+
+      // direct dependents: callers, users of a type/table/route/config, tests,
+      // overriding methods and subclasses
+      UNWIND entities + holders AS e
+      OPTIONAL MATCH (u)-[:${UPSTREAM_EDGES}]->(e)
+      WITH seedId, entities, holders + collect(DISTINCT u) AS direct
+
+      // transitive callers through incoming CALLS
+      UNWIND (CASE WHEN size(direct) = 0 THEN [null] ELSE direct END) AS x
+      OPTIONAL MATCH (caller:Function)-[:CALLS*1..${hops}]->(x)
+      WITH seedId, entities, direct, collect(DISTINCT caller) AS chain
+      WITH seedId, entities, [x IN direct + chain WHERE NOT x IN entities] AS dependents
+
+      // tests exercising the dependents
+      UNWIND (CASE WHEN size(dependents) = 0 THEN [null] ELSE dependents END) AS x
+      OPTIONAL MATCH (t)-[:TESTS]->(x)
+      WITH seedId, entities, dependents, collect(DISTINCT t) AS tests
+
+      // provided APIs exposing the seed or its callers, and repositories consuming them
+      UNWIND entities + dependents AS y
+      OPTIONAL MATCH (y)-[:PROVIDES_API]->(api:API)
+      WITH seedId, dependents, tests,
+           collect(DISTINCT api) + [a IN entities + dependents WHERE a:API AND coalesce(a.direction,'') = 'provided'] AS exposed
+      // CONSUMES_API_FROM names no API: keep the consumed APIs to match against each one
+      UNWIND (CASE WHEN size(exposed) = 0 THEN [null] ELSE exposed END) AS api
+      OPTIONAL MATCH (provider:Repository)-[:REPO_PROVIDES_API]->(api)
+      OPTIONAL MATCH (consumer:Repository)-[:CONSUMES_API_FROM]->(provider)
+      OPTIONAL MATCH (consumer)-[:REPO_USES_API]->(used:API {direction: "consumed"})
+      WITH seedId, dependents, tests, exposed, api,
+           collect(DISTINCT {repoRoot: consumer.repoRoot, method: used.method, url: used.url, protocol: used.protocol}) AS uses
+      WITH seedId, dependents, tests, exposed,
+           collect({method: api.method, path: api.path, protocol: api.protocol, uses: uses}) AS consumption
+
+      // back to files
+      UNWIND (CASE WHEN size(dependents + tests) = 0 THEN [null] ELSE dependents + tests END) AS z
+      OPTIONAL MATCH (af:File)-[:DECLARES|CONTAINS]->(z)
+      WITH seedId, dependents, tests, exposed, consumption,
+           collect(DISTINCT af.file) + [f IN dependents + tests WHERE f:File | f.file] AS affectedFilePaths
+
+      RETURN
+        seedId,
+        affectedFilePaths,
+        [p IN exposed | {method: p.method, path: p.path, file: p.file}] as providedEndpoints,
+        [x IN dependents WHERE NOT x:Test AND NOT x:File AND NOT x:API | {name: x.name, file: x.file}] as callerNames,
+        [t IN dependents + tests WHERE t:Test OR t:File | t.file] as testFiles,
+        consumption
+      `,
+      { seedIds }
+    );
+    for (const row of rows) {
+      mergeImpact(
+        out,
+        row.seedId,
+        toImpactResult({
+          ...row,
+          consumingRepos: matchingConsumers(row.consumption ?? []),
+        })
+      );
+    }
   }
 
-  lines.push("");
-  lines.push(`Tests related (${testFiles.length}):`);
-  for (const tf of testFiles.slice(0, 50)) {
-    lines.push(`  - ${tf}`);
+  return out;
+}
+
+/**
+ * Repositories with a consumed API matching one of the exposed APIs, by method and
+ * path as relationshipBuilder links them (isAPIMatch).
+ */
+function matchingConsumers(
+  consumption: {
+    method: string | null;
+    path: string | null;
+    protocol: string | null;
+    uses: {
+      repoRoot: string | null;
+      method: string | null;
+      url: string | null;
+      protocol: string | null;
+    }[];
+  }[]
+): string[] {
+  const repos = new Set<string>();
+  for (const api of consumption) {
+    if (!api.path) continue;
+    const provided = {
+      type: "API",
+      direction: "provided",
+      method: api.method ?? undefined,
+      path: api.path,
+      protocol: api.protocol ?? undefined,
+    } as APIEntity;
+    for (const u of api.uses) {
+      if (!u.repoRoot || !u.url || repos.has(u.repoRoot)) continue;
+      const consumed = {
+        type: "API",
+        direction: "consumed",
+        method: u.method ?? undefined,
+        url: u.url,
+        protocol: u.protocol ?? undefined,
+      } as APIEntity;
+      if (isAPIMatch(consumed, provided)) repos.add(u.repoRoot);
+    }
   }
+  return Array.from(repos);
+}
 
-  return lines.join("\n");
+/** Union several impact results into one, de-duplicating every list. */
+export function combineImpact(results: ImpactResult[]): ImpactResult {
+  const acc = new Map<string, ImpactResult>();
+  for (const r of results) mergeImpact(acc, "", r);
+  return acc.get("") ?? toImpactResult({});
+}
+
+/** The same window of every list of an impact result (see pageLists). */
+export function sliceImpact(
+  result: ImpactResult,
+  slice: <I>(list: I[]) => I[]
+): ImpactResult {
+  return Object.fromEntries(
+    Object.entries(result).map(([key, list]) => [key, slice(list)])
+  ) as unknown as ImpactResult;
+}
+
+function toImpactResult(row: any): ImpactResult {
+  return {
+    affectedFiles: row.affectedFilePaths || [],
+    providedApis: row.providedEndpoints || [],
+    consumedApis: row.consumedEndpoints || [],
+    tables: row.tables || [],
+    configs: row.configKeys || [],
+    errors: row.errorMessages || [],
+    functions: row.functionNames || [],
+    classes: row.classNames || [],
+    tests: row.testFiles || [],
+    callers: row.callerNames || [],
+    consumingRepositories: row.consumingRepos || [],
+  };
+}
+
+/** Combine a partial result into the seed's entry; lists are de-duplicated. */
+function mergeImpact(
+  out: Map<string, ImpactResult>,
+  seedId: string,
+  next: ImpactResult
+): void {
+  const prev = out.get(seedId);
+  const byNameFile = (x: { name: string | null; file: string | null }) =>
+    `${x.name}|${x.file}`;
+  const join = <T>(key: keyof ImpactResult) =>
+    ((prev?.[key] as T[] | undefined) ?? []).concat(next[key] as T[]);
+  out.set(seedId, {
+    affectedFiles: dedupe(join<string>("affectedFiles")),
+    providedApis: dedupeBy(
+      join<ImpactResult["providedApis"][number]>("providedApis"),
+      (p) => `${p.method}|${p.path}|${p.file}`
+    ),
+    consumedApis: dedupeBy(
+      join<ImpactResult["consumedApis"][number]>("consumedApis"),
+      (c) => `${c.method}|${c.url}|${c.file}`
+    ),
+    tables: dedupe(join<string>("tables")),
+    configs: dedupe(join<string>("configs")),
+    errors: dedupeBy(
+      join<ImpactResult["errors"][number]>("errors"),
+      (e) => `${e.message}|${e.file}`
+    ),
+    functions: dedupeBy(join("functions"), byNameFile),
+    classes: dedupeBy(join("classes"), byNameFile),
+    tests: dedupe(join<string>("tests")),
+    callers: dedupeBy(join("callers"), byNameFile),
+    consumingRepositories: dedupe(join<string>("consumingRepositories")),
+  });
+}
+
+/**
+ * Flatten an impact result into titled sections with a stable key per item,
+ * so callers can format, union or attribute items uniformly.
+ */
+export function impactSections(result: ImpactResult): ImpactSection[] {
+  const sections: ImpactSection[] = [
+    {
+      title: "Affected files",
+      items: result.affectedFiles.map((f) => ({ key: f, text: f })),
+    },
+    {
+      title: "Callers",
+      items: result.callers.map((c) => ({
+        key: `${c.name}|${c.file}`,
+        text: `${c.name}  [${c.file}]`,
+      })),
+    },
+    {
+      title: "Provided APIs",
+      items: result.providedApis.map((p) => {
+        const method = (p.method || "").toUpperCase();
+        return {
+          key: `${method} ${p.path}|${p.file}`,
+          text: `${method} ${p.path}  [${p.file}]`,
+        };
+      }),
+    },
+    {
+      title: "Consumed APIs",
+      items: result.consumedApis.map((c) => {
+        const method = (c.method || "GET").toUpperCase();
+        return {
+          key: `${method} ${c.url}|${c.file}`,
+          text: `${method} ${c.url}  [${c.file}]`,
+        };
+      }),
+    },
+    {
+      title: "Database tables",
+      items: result.tables.map((t) => ({ key: t, text: t })),
+    },
+    {
+      title: "Configs used",
+      items: result.configs.map((k) => ({ key: k, text: k })),
+    },
+    {
+      title: "Errors emitted",
+      items: result.errors.map((e) => ({
+        key: `${e.message}|${e.file}`,
+        text: `${e.message}  [${e.file}]`,
+      })),
+    },
+    {
+      title: "Functions touched",
+      items: result.functions.map((fn) => ({
+        key: `${fn.name}|${fn.file}`,
+        text: `${fn.name}  [${fn.file}]`,
+      })),
+    },
+    {
+      title: "Classes touched",
+      items: result.classes.map((cl) => ({
+        key: `${cl.name}|${cl.file}`,
+        text: `${cl.name}  [${cl.file}]`,
+      })),
+    },
+    {
+      title: "Tests related",
+      items: result.tests.map((t) => ({ key: t, text: t })),
+    },
+    {
+      title: "Consuming repositories",
+      items: result.consumingRepositories.map((r) => ({ key: r, text: r })),
+    },
+  ];
+  // Upstream-only sections are omitted when empty so downstream output stays unchanged
+  return sections.filter(
+    (s) =>
+      (s.title !== "Callers" && s.title !== "Consuming repositories") ||
+      s.items.length > 0
+  );
+}
+
+/**
+ * Union the impact of several seeds section by section, remembering which seeds
+ * (by label) reached each item.
+ */
+export function mergeImpactSections(
+  seeds: ImpactSeed[] | { id: string; label: string }[],
+  bySeed: Map<string, ImpactResult>
+): {
+  title: string;
+  items: { key: string; text: string; seeds: string[] }[];
+}[] {
+  const union = new Map<
+    string,
+    Map<string, { key: string; text: string; seeds: string[] }>
+  >();
+  for (const seed of seeds) {
+    const result = bySeed.get(seed.id);
+    if (!result) continue;
+    for (const section of impactSections(result)) {
+      if (!union.has(section.title)) union.set(section.title, new Map());
+      const items = union.get(section.title)!;
+      for (const item of section.items) {
+        const existing = items.get(item.key);
+        if (!existing) {
+          items.set(item.key, { ...item, seeds: [seed.label] });
+        } else if (!existing.seeds.includes(seed.label)) {
+          existing.seeds.push(seed.label);
+        }
+      }
+    }
+  }
+  return Array.from(union, ([title, items]) => ({
+    title,
+    items: Array.from(items.values()),
+  }));
 }
 
 function dedupe<T>(arr: T[]): T[] {
   return Array.from(new Set(arr));
 }
+
+function dedupeBy<T>(arr: T[], keyOf: (item: T) => string): T[] {
+  const seen = new Set<string>();
+  return arr.filter((item) => {
+    const key = keyOf(item);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
@@ -0,0 +1,245 @@
+import { Driver } from "neo4j-driver";
+import { runQuery, toNumber } from "../neo4j/connection.js";
+import {
+  ChangedFile,
+  parseUnifiedDiff,
+  rangesOverlap,
+  readGitDiff,
+} from "../scanner/gitDiff.js";
+import {
+  collectImpact,
+  combineImpact,
+  ImpactDirection,
+  ImpactResult,
+  mergeImpactSections,
+  sliceImpact,
+} from "./impactCommand.js";
+import { OutputFormat, PageArgs, pageLists, renderJson } from "./output.js";
+
+export interface DiffSeed {
+  id: string;
+  label: string; // human-readable attribution
+  file: string;
+}
+
+/** `data` of the impactDiff tool's JSON output */
+export interface ImpactDiffReport {
+  repoRoot: string;
+  source: string;
+  depth: number;
+  direction: ImpactDirection;
+  // `seeding` describes how the file was seeded; null when it is not in the graph
+  changedFiles: (ChangedFile & { seeding: string | null })[];
+  seeds: DiffSeed[];
+  impact: ImpactResult | null; // union over all seeds
+  bySeed: Record<string, ImpactResult>; // keyed by seed id
+}
+
+/**
+ * Impact analysis for a git diff:
+ * - Reads `git diff base head` locally (or takes a unified diff as-is)
+ * - Maps changed line hunks onto Function spans stored in the graph; a file whose
+ *   changes fall outside every function is seeded as a whole
+ * - Runs impact per seed (both directions by default) and unions the results,
+ *   attributing each item to its seeds
+ */
+export async function runDiffImpactAnalysis(
+  driver: Driver,
+  args: {
+    repoRoot: string;
+    base?: string;
+    head?: string;
+    diff?: string;
+    depth?: number;
+    direction?: ImpactDirection;
+    format?: OutputFormat;
+  } & PageArgs
+): Promise<string> {
+  const depth = typeof args.depth === "number" ? Math.max(1, args.depth) : 3;
+  const direction = args.direction ?? "both";
+  const repoRoot = args.repoRoot;
+
+  let diffText: string;
+  let source: string;
+  if (args.diff) {
+    diffText = args.diff;
+    source = "provided unified diff";
+  } else if (args.base) {
+    diffText = readGitDiff(repoRoot, args.base, args.head);
+    source = `git diff ${args.base}${
+      args.head ? ` ${args.head}` : " (working tree)"
+    }`;
+  } else {
+    throw new Error(
+      "Provide either 'diff' or a 'base' ref (and optional 'head')"
+    );
+  }
+
+  const changed = parseUnifiedDiff(diffText);
+  const { seeds, perFile } = changed.length
+    ? await resolveDiffSeeds(driver, repoRoot, changed)
+    : { seeds: [], perFile: new Map<string, string>() };
+  const bySeed = await collectImpact(
+    driver,
+    seeds.map((s) => s.id),
+    depth,
+    direction
+  );
+
+  if (args.format === "json") {
+    const impact = bySeed.size
+      ? combineImpact(Array.from(bySeed.values()))
+      : null;
+    // Every seed keeps its bySeed entry, with its lists paged like the others
+    const { data, page } = pageLists(
+      args,
+      (slice): ImpactDiffReport => ({
+        repoRoot,
+        source,
+        depth,
+        direction,
+        changedFiles: slice(changed).map((c) => ({
+          ...c,
+          seeding: perFile.get(c.file) ?? null,
+        })),
+        seeds: slice(seeds),
+        impact: impact && sliceImpact(impact, slice),
+        bySeed: Object.fromEntries(
+          Array.from(bySeed, ([id, result]) => [id, sliceImpact(result, slice)])
+        ),
+      })
+    );
+    return renderJson("impactDiff", data, page);
+  }
+
+  const lines: string[] = [];
+  lines.push("Diff Impact Analysis");
+  lines.push(`- Repository: ${repoRoot}`);
+  lines.push(`- Source: ${source}`);
+  lines.push(`- Depth: ${depth}`);
+  lines.push(`- Direction: ${direction}`);
+  lines.push("");
+
+  if (!changed.length) {
+    lines.push("No changed files in diff.");
+    return lines.join("\n");
+  }
+
+  lines.push(`Changed files (${changed.length}):`);
+  for (const c of changed) {
+    const note = perFile.get(c.file) ?? "not in graph (run 'scan')";
+    lines.push(`  - ${c.file} (${c.status}) → ${note}`);
+  }
+  lines.push("");
+
+  if (!seeds.length) {
+    lines.push(
+      "None of the changed files are in the graph. No impact computed."
+    );
+    return lines.join("\n");
+  }
+
+  lines.push(`Seeds (${seeds.length}):`);
+  for (const s of seeds) lines.push(`  - ${s.label}`);
+
+  for (const section of mergeImpactSections(seeds, bySeed)) {
+    lines.push("");
+    lines.push(`${section.title} (${section.items.length}):`);
+    for (const item of section.items.slice(0, 50)) {
+      lines.push(`  - ${item.text}  ← ${item.seeds.join(", ")}`);
+    }
+    if (section.items.length > 50)
+      lines.push(`  ...and ${section.items.length - 50} more`);
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Map changed files/hunks to seed entities: Functions whose span overlaps a hunk,
+ * or the File itself when no function is touched.
+ */
+export async function resolveDiffSeeds(
+  driver: Driver,
+  repoRoot: string,
+  changed: ChangedFile[]
+): Promise<{ seeds: DiffSeed[]; perFile: Map<string, string> }> {
+  const paths = new Set<string>();
+  for (const c of changed) {
+    paths.add(c.file);
+    if (c.oldFile) paths.add(c.oldFile);
+  }
+
+  const rows = await runQuery<{
+    file: string;
+    fileId: string;
+    functions: {
+      id: string | null;
+      name: string;
+      start: any;
+      end: any;
+    }[];
+  }>(
+    driver,
+    `
+    UNWIND $files AS file
+    MATCH (f:File {repoRoot: $repoRoot, file: file})
+    OPTIONAL MATCH (f)-[:DECLARES]->(fn:Function)
+    RETURN file, f.id AS fileId,
+           collect({id: fn.id, name: fn.name, start: fn.spanStart, end: fn.spanEnd}) AS functions
+  `,
+    { repoRoot, files: Array.from(paths) }
+  );
+  const byPath = new Map(rows.map((r) => [r.file, r]));
+
+  const seeds: DiffSeed[] = [];
+  const seen = new Set<string>();
+  const perFile = new Map<string, string>();
+
+  for (const c of changed) {
+    // Renamed files may be stored under either path depending on when they were scanned
+    const row =
+      byPath.get(c.file) ?? (c.oldFile ? byPath.get(c.oldFile) : undefined);
+    if (!row) continue;
+
+    const hunks = c.status === "deleted" ? c.oldHunks : c.hunks;
+    const touched = row.functions.filter(
+      (fn) =>
+        fn.id != null &&
+        fn.start != null &&
+        fn.end != null &&
+        rangesOverlap(hunks, toNumber(fn.start), toNumber(fn.end))
+    );
+
+    if (!touched.length) {
+      perFile.set(c.file, "whole file (no function spans touched)");
+      if (!seen.has(row.fileId)) {
+        seen.add(row.fileId);
+        seeds.push({
+          id: row.fileId,
+          label: `${row.file} (file)`,
+          file: row.file,
+        });
+      }
+      continue;
+    }
+
+    perFile.set(
+      c.file,
+      `${touched.length} function${touched.length === 1 ? "" : "s"}`
+    );
+    for (const fn of touched) {
+      if (seen.has(fn.id!)) continue;
+      seen.add(fn.id!);
+      seeds.push({
+        id: fn.id!,
+        label: `${fn.name} (${row.file}:${toNumber(fn.start)}-${toNumber(
+          fn.end
+        )})`,
+        file: row.file,
+      });
+    }
+  }
+
+  return { seeds, perFile };
+}
@@ -1,124 +1,202 @@
 import { Driver } from "neo4j-driver";
-import { runQuery } from "../neo4j/connection.js";
+import { OutputFormat, PageArgs, pageLists, renderJson } from "./output.js";
+import { runReadQuery, toNumber } from "../neo4j/connection.js";
+import { NODE_LABEL_DESCRIPTIONS, SCHEMA_EDGES } from "../neo4j/graphSchema.js";
+import { isAPIMatch } from "../scanner/relationshipBuilder.js";
+import { APIEntity } from "../scanner/types.js";
+import { Logger } from "../utils/logger.js";
 
-/**
- * Learn command: Onboarding walkthrough of the repository graph.
- * Explains:
- *  - What nodes and relationships exist
- *  - How to run core queries
- *  - Quick checks to validate ingestion
- */
-export async function runLearn(_driver: Driver): Promise<string> {
-  const lines: string[] = [];
+const logger = new Logger("Learn");
 
-  lines.push("MCP Code Relationship Navigator — Learn");
-  lines.push("");
-  lines.push("What this graph contains");
-  lines.push("- Repository → Files → Classes/Functions/Variables");
-  lines.push("- APIs (provided and consumed) via simple heuristics");
-  lines.push("- Config keys used in code (e.g., process.env.XYZ, os.getenv)");
-  lines.push("- Database tables (basic heuristics; extend for SQL parsing)");
-  lines.push("- Test files and basic framework detection");
-  lines.push("- Error messages emitted (throw new Error, logger.error)");
-  lines.push("");
-  lines.push("Node labels");
-  lines.push("- Repository (reserved for future ingestion expansion)");
-  lines.push("- File");
-  lines.push("- Class");
-  lines.push("- Function");
-  lines.push("- Variable");
-  lines.push("- API (direction: provided | consumed)");
-  lines.push("- DatabaseTable");
-  lines.push("- DatabaseColumn (planned extension)");
-  lines.push("- Config");
-  lines.push("- Test");
-  lines.push("- ErrorMessage");
-  lines.push("");
-  lines.push("Relationship types");
-  lines.push("- CONTAINS: File → any entity it contains");
-  lines.push("- DECLARES: File → Class|Function|Variable declared in it");
-  lines.push("- HAS_FUNCTION: Class → Function (span within class)");
-  lines.push("- CALLS: Function → Function");
-  lines.push("- PROVIDES_API: Function → API(direction='provided')");
-  lines.push("- USES_API: Function → API(direction='consumed')");
-  lines.push("- QUERIES: Function → DatabaseTable");
-  lines.push("- USES_CONFIG: Function → Config");
-  lines.push("- EMITS_ERROR: Function → ErrorMessage (line within span)");
-  lines.push("");
-  lines.push("Core MCP tools");
-  lines.push(
-    "- scan: Parse repositories with Tree-sitter, store nodes/relationships. Supports `watch` for incremental updates."
-  );
-  lines.push(
-    "- impact --file path/to/file: Show affected files/APIs/tables/tests via dependency traversal."
-  );
-  lines.push(
-    '- query "natural language": Convert to Cypher; or pass raw Cypher with `CYPHER:`.'
-  );
-  lines.push("- learn: This guide.");
-  lines.push("");
-  lines.push("Quick validation queries (use the `query` tool with CYPHER:)");
-  lines.push("1) Count by label");
-  lines.push(`CYPHER:
-MATCH (n)
+/** `data` of the learn tool's JSON output */
+export interface LearnGuide {
+  title: string;
+  contents: string[];
+  nodeLabels: string[];
+  relationshipTypes: { type: string; description: string }[];
+  tools: { name: string; usage: string }[];
+  validationQueries: { title: string; cypher: string }[];
+  advancedQueries: { title: string; cypher: string }[];
+  tips: string[];
+  nextSteps: string[];
+  tour: LearnTour | null; // null when the database could not be read
+}
+
+/** What the connected graph holds, per scanned repository */
+export interface LearnTour {
+  repositories: RepositoryTour[];
+  examples: { title: string; tool: string; args: Record<string, unknown> }[];
+}
+
+export interface RepositoryTour {
+  repoRoot: string;
+  name: string;
+  counts: Record<string, number>; // nodes per label
+  providedApis: {
+    method: string;
+    path: string;
+    file: string | null;
+    consumers: number; // repositories with a consumed API matching it
+    callers: number; // functions calling its handler
+  }[];
+  calledFunctions: { name: string; file: string | null; callers: number }[];
+  busiestTables: {
+    name: string;
+    accessors: number; // functions and Spring Data repositories using it
+    sharedWith: string[]; // other repositories with a table of that name
+  }[];
+  teams: {
+    name: string;
+    source: string | null; // codeowners | metadata | inferred
+    ownedPaths: string[];
+    members: number;
+  }[];
+}
+
+const GUIDE: Omit<LearnGuide, "tour"> = {
+  title: "MCP Code Relationship Navigator — Learn",
+  contents: [
+    "Repository → Files → Classes/Functions/Variables",
+    "Module dependencies: File IMPORTS File, File USES_PACKAGE Package",
+    "Class hierarchy: Class EXTENDS / IMPLEMENTS Class, Function OVERRIDES Function",
+    "Types: Function RETURNS_TYPE / USES_TYPE, Class USES_TYPE, API API_RETURNS_TYPE / API_ACCEPTS_TYPE to Class / TypeDefinition",
+    "APIs (provided and consumed) via simple heuristics",
+    "OpenAPI / Swagger operations (source='openapi') SPECIFIES the code routes they document",
+    "GraphQL root fields (protocol='graphql', path like Query.orders) from schemas and resolvers, and the fields client operations select",
+    "gRPC methods (protocol='grpc', path like /orders.v1.OrderService/GetOrder) of .proto services, implemented by servers and called through client stubs; proto messages as TypeDefinitions",
+    'Config keys used in code (e.g., process.env.XYZ, os.getenv, IConfiguration["Key"])',
+    "Database tables (basic heuristics; extend for SQL parsing)",
+    "Test files and cases linked to the code they exercise (TESTS via imports, calls, naming)",
+    "Error messages emitted (throw new Error, logger.error)",
+    "Spring Data repositories, security components and type definitions",
+    "Developers, teams and commits from git history and CODEOWNERS",
+  ],
+  nodeLabels: Object.entries(NODE_LABEL_DESCRIPTIONS).map(
+    ([label, description]) => `${label} — ${description}`
+  ),
+  relationshipTypes: describeRelationshipTypes(),
+  tools: [
+    {
+      name: "scan",
+      usage:
+        "Parse repositories with Tree-sitter, store nodes/relationships. Supports `watch` for incremental updates.",
+    },
+    {
+      name: "impact --file path/to/file",
+      usage:
+        "Show affected files/APIs/tables/tests via dependency traversal; also accepts a function, class, API route or table.",
+    },
+    {
+      name: "impactDiff",
+      usage: "Impact of a git diff, seeded from the functions its hunks touch.",
+    },
+    {
+      name: "selectTests",
+      usage:
+        "Minimal test files and cases to run for changed files or a diff, with reasons.",
+    },
+    {
+      name: "explain",
+      usage:
+        "Why two entities are related: the shortest paths with each hop's relationship, file and lines.",
+    },
+    {
+      name: 'query "natural language"',
+      usage:
+        "Templates for common questions, then a schema-aware planner that joins the labels and verbs it recognises (\"which tables are queried by functions in file 'src/db.ts'\"); or raw Cypher with `CYPHER:`.",
+    },
+    {
+      name: "queries",
+      usage:
+        "List the team's saved queries; run one with query { savedQuery, params }.",
+    },
+    {
+      name: "diff",
+      usage: "Structural changes between two scan snapshots.",
+    },
+    {
+      name: "exportOpenApi",
+      usage:
+        "OpenAPI 3.1 document of a repository's provided APIs, with drift between its spec files and the code.",
+    },
+    {
+      name: "contractCheck",
+      usage:
+        "Breaking and non-breaking changes to provided API contracts between two snapshots, with the repositories calling each endpoint.",
+    },
+    { name: "gc", usage: "Apply snapshot retention." },
+    {
+      name: "reset",
+      usage:
+        "Delete the graph, a repository or a snapshot (confirmation token required).",
+    },
+    {
+      name: "learn",
+      usage: "This guide, with a tour of the connected graph.",
+    },
+  ],
+  validationQueries: [
+    {
+      title: "Count by label",
+      cypher: `MATCH (n)
 WITH labels(n) AS labs
 UNWIND labs AS l
 RETURN l AS label, count(*) AS cnt
-ORDER BY cnt DESC`);
-  lines.push("");
-  lines.push("2) Recent APIs detected");
-  lines.push(`CYPHER:
-MATCH (a:API)
+ORDER BY cnt DESC`,
+    },
+    {
+      title: "Recent APIs detected",
+      cypher: `MATCH (a:API)
 RETURN a.direction AS dir, coalesce(a.method,'GET') AS method, coalesce(a.path, a.url) AS route, a.file AS file
-LIMIT 25`);
-  lines.push("");
-  lines.push("3) Function call edges");
-  lines.push(`CYPHER:
-MATCH (a:Function)-[:CALLS]->(b:Function)
+LIMIT 25`,
+    },
+    {
+      title: "Function call edges",
+      cypher: `MATCH (a:Function)-[:CALLS]->(b:Function)
 RETURN a.name AS caller, b.name AS callee
-LIMIT 25`);
-  lines.push("");
-  lines.push("4) Config usage by file");
-  lines.push(`CYPHER:
-MATCH (f:File)-[:DECLARES|CONTAINS*1..]->(fn:Function)-[:USES_CONFIG]->(c:Config)
+LIMIT 25`,
+    },
+    {
+      title: "Config usage by file",
+      cypher: `MATCH (f:File)-[:DECLARES|CONTAINS*1..]->(fn:Function)-[:USES_CONFIG]->(c:Config)
 RETURN f.file AS file, collect(distinct c.name) AS keys
 ORDER BY file
-LIMIT 50`);
-  lines.push("");
-  lines.push("5) Impact surface for a file (manual)");
-  lines.push(`CYPHER:
-MATCH (f:File {file: "src/example.ts"})
+LIMIT 50`,
+    },
+    {
+      title: "Impact surface for a file (manual)",
+      cypher: `MATCH (f:File {file: "src/example.ts"})
 OPTIONAL MATCH (f)-[:DECLARES|CONTAINS*1..]->(e)
 OPTIONAL MATCH (e)-[:CALLS|USES_API|PROVIDES_API|QUERIES|USES_CONFIG|EMITS_ERROR*1..3]->(rel)
 WITH collect(distinct e) + collect(distinct rel) AS touched
 UNWIND touched AS t
 MATCH (af:File)-[:DECLARES|CONTAINS*1..]->(t)
 RETURN distinct af.file
-LIMIT 100`);
-  lines.push("");
-  lines.push("Advanced analyses");
-  lines.push("");
-  lines.push("A) Circular function-call dependencies (optional path scope)");
-  lines.push(`CYPHER:
-MATCH p=(a:Function)-[:CALLS*1..8]->(a)
+LIMIT 100`,
+    },
+  ],
+  advancedQueries: [
+    {
+      title: "Circular function-call dependencies (optional path scope)",
+      cypher: `MATCH p=(a:Function)-[:CALLS*1..8]->(a)
 WITH p, nodes(p) AS fns
 UNWIND fns AS fn
 OPTIONAL MATCH (f:File)-[:DECLARES|CONTAINS*1..]->(fn)
 WITH p, collect(distinct fn.name) AS functions, collect(distinct f.file) AS files
 RETURN size(nodes(p)) AS cycleLength, functions, files
 ORDER BY cycleLength DESC
-LIMIT 25`);
-  lines.push("");
-  lines.push("B) Repository-level API consumption cycles");
-  lines.push(`CYPHER:
-MATCH p=(r:Repository)-[:CONSUMES_API_FROM*1..5]->(r)
+LIMIT 25`,
+    },
+    {
+      title: "Repository-level API consumption cycles",
+      cypher: `MATCH p=(r:Repository)-[:CONSUMES_API_FROM*1..5]->(r)
 RETURN [x IN nodes(p) | coalesce(x.name, x.repoRoot)] AS repositories, length(p) AS hops
 ORDER BY hops DESC
-LIMIT 25`);
-  lines.push("");
-  lines.push("C) Impact of API response change for endpoint '/api/test'");
-  lines.push(`CYPHER:
-MATCH (prov:API {direction:"provided"})
+LIMIT 25`,
+    },
+    {
+      title: "Impact of API response change for endpoint '/api/test'",
+      cypher: `MATCH (prov:API {direction:"provided"})
 WHERE toLower(coalesce(prov.path,"")) CONTAINS toLower("/api/test")
 OPTIONAL MATCH (pf:Function)-[:PROVIDES_API]->(prov)
 OPTIONAL MATCH (pfile:File)-[:DECLARES|CONTAINS*1..]->(pf)
@@ -137,26 +215,507 @@ RETURN coalesce(prov.method,"GET") AS method,
        internalFiles AS internalAffectedFiles,
        collect(distinct cffile.repoRoot) AS consumerRepos,
        collect(distinct cffile.file) AS consumerFiles
-LIMIT 25`);
+LIMIT 25`,
+    },
+  ],
+  tips: [
+    "For large repositories, run scan without watch first, then enable watch.",
+    "Extend language coverage by adding more Tree-sitter grammars and language-specific analyzers.",
+    "For ambiguous API detection, add small AI classification hooks on code snippets (planned extension).",
+    "If you don't see results, ensure your Neo4j credentials in .env and that APOC is enabled for merge utilities (or adjust queries to pure MERGE).",
+  ],
+  nextSteps: [
+    'Run: scan (optionally with { paths: ["."], watch: true })',
+    "Explore: query \"list provided apis in path 'src'\"",
+    "Ask: query \"which developers modified file 'src/index.ts'\"",
+    "Analyze: impact --file path/to/changed/file",
+  ],
+};
+
+/**
+ * Learn command: Onboarding walkthrough of the repository graph.
+ * Explains:
+ *  - What nodes and relationships exist
+ *  - What the connected graph holds per repository (counts, top APIs,
+ *    most-called functions, busiest tables, owning teams)
+ *  - How to run core queries, with examples using names from the graph
+ *  - Quick checks to validate ingestion
+ */
+export async function runLearn(
+  driver: Driver,
+  args: {
+    repoRoot?: string;
+    top?: number;
+    format?: OutputFormat;
+  } & PageArgs = {}
+): Promise<string> {
+  const top = Math.max(1, Math.floor(args.top ?? 5));
+  let tour: LearnTour | null = null;
+  try {
+    tour = await buildTour(driver, args.repoRoot, top);
+  } catch (error) {
+    logger.warn(
+      `Could not read the graph, showing the generic guide: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+  const guide: LearnGuide = { ...personalize(GUIDE, tour), tour };
+  if (args.format === "json") {
+    // The lists that grow with the schema and the graph are paged
+    const { data, page } = pageLists(
+      args,
+      (slice): LearnGuide => ({
+        ...guide,
+        nodeLabels: slice(guide.nodeLabels),
+        relationshipTypes: slice(guide.relationshipTypes),
+        tour: tour && { ...tour, repositories: slice(tour.repositories) },
+      })
+    );
+    return renderJson("learn", data, page);
+  }
+
+  const lines: string[] = [];
+
+  lines.push(guide.title);
+  lines.push("");
+  lines.push("What this graph contains");
+  for (const c of guide.contents) lines.push(`- ${c}`);
+  lines.push("");
+  if (tour) {
+    lines.push(...formatTour(tour, args.repoRoot));
+    lines.push("");
+  }
+  lines.push("Node labels");
+  for (const l of guide.nodeLabels) lines.push(`- ${l}`);
+  lines.push("");
+  lines.push("Relationship types");
+  for (const r of guide.relationshipTypes) {
+    lines.push(`- ${r.type}: ${r.description}`);
+  }
+  lines.push("");
+  lines.push("Core MCP tools");
+  for (const t of guide.tools) lines.push(`- ${t.name}: ${t.usage}`);
+  lines.push("");
+  lines.push("Quick validation queries (use the `query` tool with CYPHER:)");
+  guide.validationQueries.forEach((q, i) => {
+    lines.push(`${i + 1}) ${q.title}`);
+    lines.push(`CYPHER:\n${q.cypher}`);
+    lines.push("");
+  });
+  lines.push("Advanced analyses");
   lines.push("");
+  guide.advancedQueries.forEach((q, i) => {
+    lines.push(`${String.fromCharCode(65 + i)}) ${q.title}`);
+    lines.push(`CYPHER:\n${q.cypher}`);
+    lines.push("");
+  });
   lines.push("Tips");
-  lines.push(
-    "- For large repositories, run scan without watch first, then enable watch."
+  for (const t of guide.tips) lines.push(`- ${t}`);
+  lines.push("");
+  lines.push("Next steps");
+  for (const n of guide.nextSteps) lines.push(`- ${n}`);
+
+  return lines.join("\n");
+}
+
+async function buildTour(
+  driver: Driver,
+  repoRoot: string | undefined,
+  top: number
+): Promise<LearnTour> {
+  const repoRows = await runReadQuery<{ repoRoot: string; name: string }>(
+    driver,
+    `
+      MATCH (r:Repository)
+      WHERE $repoRoot IS NULL OR r.repoRoot = $repoRoot OR r.name = $repoRoot
+      RETURN r.repoRoot AS repoRoot, coalesce(r.name, r.repoRoot) AS name
+      ORDER BY name
+    `,
+    { repoRoot: repoRoot ?? null }
   );
-  lines.push(
-    "- Extend language coverage by adding more Tree-sitter grammars and language-specific analyzers."
+  const repositories = new Map<string, RepositoryTour>(
+    repoRows.map((r) => [
+      r.repoRoot,
+      {
+        repoRoot: r.repoRoot,
+        name: r.name,
+        counts: {},
+        providedApis: [],
+        calledFunctions: [],
+        busiestTables: [],
+        teams: [],
+      },
+    ])
   );
-  lines.push(
-    "- For ambiguous API detection, add small AI classification hooks on code snippets (planned extension)."
+  if (!repositories.size) return { repositories: [], examples: [] };
+  const params = { repos: [...repositories.keys()], top };
+
+  const counts = await runReadQuery<{
+    repo: string;
+    label: string;
+    count: unknown;
+  }>(
+    driver,
+    `
+      UNWIND $repos AS repo
+      MATCH (n {repoRoot: repo})
+      WHERE NOT n:Snapshot
+      UNWIND labels(n) AS label
+      RETURN repo, label, count(*) AS count
+      ORDER BY repo, count DESC, label
+    `,
+    params
   );
-  lines.push(
-    "- If you don't see results, ensure your Neo4j credentials in .env and that APOC is enabled for merge utilities (or adjust queries to pure MERGE)."
+  for (const row of counts) {
+    repositories.get(row.repo)!.counts[row.label] = toNumber(row.count);
+  }
+
+  const provided = await runReadQuery<{
+    repo: string;
+    method: string | null;
+    path: string | null;
+    file: string | null;
+    protocol: string | null;
+    callers: unknown;
+  }>(
+    driver,
+    `
+      UNWIND $repos AS repo
+      MATCH (a:API {repoRoot: repo, direction: "provided"})
+      OPTIONAL MATCH (caller:Function)-[:CALLS]->(:Function)-[:PROVIDES_API]->(a)
+      RETURN repo, a.method AS method, coalesce(a.path, a.url, a.name) AS path,
+             a.file AS file, a.protocol AS protocol,
+             count(DISTINCT caller) AS callers
+    `,
+    params
   );
-  lines.push("");
-  lines.push("Next steps");
-  lines.push('- Run: scan (optionally with { paths: ["."], watch: true })');
-  lines.push("- Explore: query \"list provided apis in path 'src'\"");
-  lines.push("- Analyze: impact --file path/to/changed/file");
+  // CONSUMES_API_FROM keeps one API per pair of repositories, so consumers are
+  // counted from the consumed APIs of the linked repositories (as contractCheck does)
+  const consumed = await runReadQuery<{
+    repo: string;
+    consumer: string;
+    method: string | null;
+    url: string | null;
+    protocol: string | null;
+  }>(
+    driver,
+    `
+      UNWIND $repos AS repo
+      MATCH (c:Repository)-[:CONSUMES_API_FROM]->(:Repository {repoRoot: repo})
+      MATCH (c)-[:REPO_USES_API]->(u:API {direction: "consumed"})
+      RETURN DISTINCT repo, c.repoRoot AS consumer, u.method AS method,
+             u.url AS url, u.protocol AS protocol
+    `,
+    params
+  );
+  for (const [repo, tour] of repositories) {
+    const uses = consumed.filter((u) => u.repo === repo && u.url);
+    tour.providedApis = provided
+      .filter((a) => a.repo === repo)
+      .map((a) => {
+        const api = {
+          type: "API",
+          direction: "provided",
+          method: a.method ?? undefined,
+          path: a.path ?? undefined,
+          protocol: a.protocol ?? undefined,
+        } as APIEntity;
+        const consumers = new Set(
+          uses
+            .filter((u) =>
+              isAPIMatch(
+                {
+                  type: "API",
+                  direction: "consumed",
+                  method: u.method ?? undefined,
+                  url: u.url!,
+                  protocol: u.protocol ?? undefined,
+                } as APIEntity,
+                api
+              )
+            )
+            .map((u) => u.consumer)
+        );
+        return {
+          method: a.method ?? "GET",
+          path: a.path ?? "",
+          file: a.file ?? null,
+          consumers: consumers.size,
+          callers: toNumber(a.callers),
+        };
+      })
+      .sort(
+        (x, y) =>
+          y.consumers - x.consumers ||
+          y.callers - x.callers ||
+          x.path.localeCompare(y.path)
+      )
+      .slice(0, top);
+  }
 
-  return lines.join("\n");
+  const functions = await runReadQuery<{ repo: string; functions: any[] }>(
+    driver,
+    `
+      UNWIND $repos AS repo
+      MATCH (caller:Function)-[:CALLS]->(fn:Function {repoRoot: repo})
+      WITH repo, fn, count(DISTINCT caller) AS callers
+      ORDER BY callers DESC, fn.name
+      RETURN repo, collect({name: fn.name, file: fn.file, callers: callers})[..$top] AS functions
+    `,
+    params
+  );
+  for (const row of functions) {
+    repositories.get(row.repo)!.calledFunctions = row.functions.map((f) => ({
+      name: f.name,
+      file: f.file ?? null,
+      callers: toNumber(f.callers),
+    }));
+  }
+
+  const tables = await runReadQuery<{ repo: string; tables: any[] }>(
+    driver,
+    `
+      UNWIND $repos AS repo
+      MATCH (user)-[:QUERIES|ACCESSES_TABLE|REPOSITORY_QUERIES_TABLE]->(t:DatabaseTable {repoRoot: repo})
+      WITH repo, t, count(DISTINCT user) AS accessors
+      OPTIONAL MATCH (other:DatabaseTable {name: t.name})
+      WHERE other.repoRoot <> repo
+      OPTIONAL MATCH (otherRepo:Repository {repoRoot: other.repoRoot})
+      WITH repo, t, accessors,
+           collect(DISTINCT coalesce(otherRepo.name, other.repoRoot)) AS sharedWith
+      ORDER BY accessors DESC, t.name
+      RETURN repo, collect({name: t.name, accessors: accessors, sharedWith: sharedWith})[..$top] AS tables
+    `,
+    params
+  );
+  for (const row of tables) {
+    repositories.get(row.repo)!.busiestTables = row.tables.map((t) => ({
+      name: t.name,
+      accessors: toNumber(t.accessors),
+      sharedWith: t.sharedWith ?? [],
+    }));
+  }
+
+  const teams = await runReadQuery<{ repo: string; teams: any[] }>(
+    driver,
+    `
+      UNWIND $repos AS repo
+      MATCH (t:Team {repoRoot: repo})
+      OPTIONAL MATCH (d:Developer)-[:BELONGS_TO]->(t)
+      WITH repo, t, count(DISTINCT d) AS members
+      ORDER BY members DESC, t.name
+      RETURN repo, collect({
+        name: t.name,
+        source: t.source,
+        ownedPaths: coalesce(t.ownedPaths, []),
+        members: members
+      }) AS teams
+    `,
+    params
+  );
+  for (const row of teams) {
+    repositories.get(row.repo)!.teams = row.teams.map((t) => ({
+      name: t.name,
+      source: t.source ?? null,
+      ownedPaths: t.ownedPaths,
+      members: toNumber(t.members),
+    }));
+  }
+
+  const tours = [...repositories.values()];
+  return { repositories: tours, examples: buildExamples(tours) };
+}
+
+// Example invocations filled with the busiest names found in the graph
+function buildExamples(repos: RepositoryTour[]): LearnTour["examples"] {
+  const examples: LearnTour["examples"] = [];
+  const first = <T>(pick: (r: RepositoryTour) => T | undefined) => {
+    for (const r of repos) {
+      const v = pick(r);
+      if (v !== undefined) return { repo: r, value: v };
+    }
+    return undefined;
+  };
+
+  const fn = first((r) => r.calledFunctions[0]);
+  if (fn) {
+    examples.push({
+      title: `Callers of ${fn.value.name}`,
+      tool: "query",
+      args: { prompt: `who calls function '${fn.value.name}'` },
+    });
+    examples.push({
+      title: `Impact of changing ${fn.value.name}`,
+      tool: "impact",
+      args: {
+        repoRoot: fn.repo.repoRoot,
+        function: fn.value.name,
+        ...(fn.value.file ? { file: fn.value.file } : {}),
+      },
+    });
+  }
+  const api = first((r) => r.providedApis[0]);
+  if (api) {
+    examples.push({
+      title: `Impact of changing ${api.value.method} ${api.value.path}`,
+      tool: "impact",
+      args: {
+        repoRoot: api.repo.repoRoot,
+        api: `${api.value.method} ${api.value.path}`,
+      },
+    });
+  }
+  const table = first((r) => r.busiestTables[0]);
+  if (table) {
+    examples.push({
+      title: `Functions querying ${table.value.name}`,
+      tool: "query",
+      args: { prompt: `which functions query table '${table.value.name}'` },
+    });
+  }
+  const file = fn?.value.file ?? api?.value.file;
+  if (file) {
+    examples.push({
+      title: `Config keys read in ${file}`,
+      tool: "query",
+      args: { prompt: `what configs are used in file '${file}'` },
+    });
+  }
+  const team = first((r) => r.teams[0]);
+  if (team) {
+    examples.push({
+      title: `Members of ${team.value.name}`,
+      tool: "query",
+      args: { prompt: `which developers belong to team '${team.value.name}'` },
+    });
+  }
+  return examples;
+}
+
+// Swap the placeholder file and route in the sample Cypher for real ones
+function personalize(
+  guide: Omit<LearnGuide, "tour">,
+  tour: LearnTour | null
+): Omit<LearnGuide, "tour"> {
+  const repos = tour?.repositories ?? [];
+  const file =
+    repos.flatMap((r) => r.calledFunctions).find((f) => f.file)?.file ??
+    repos.flatMap((r) => r.providedApis).find((a) => a.file)?.file;
+  const route = repos.flatMap((r) => r.providedApis)[0]?.path;
+  if (!file && !route) return guide;
+
+  const fill = (text: string) => {
+    let out = text;
+    if (file) out = out.split('"src/example.ts"').join(JSON.stringify(file));
+    if (route) {
+      out = out
+        .split('"/api/test"')
+        .join(JSON.stringify(route))
+        .split("'/api/test'")
+        .join(`'${route}'`);
+    }
+    return out;
+  };
+  const fillQueries = (queries: { title: string; cypher: string }[]) =>
+    queries.map((q) => ({ title: fill(q.title), cypher: fill(q.cypher) }));
+  return {
+    ...guide,
+    validationQueries: fillQueries(guide.validationQueries),
+    advancedQueries: fillQueries(guide.advancedQueries),
+  };
+}
+
+function formatTour(tour: LearnTour, repoRoot?: string): string[] {
+  const lines = ["Your system"];
+  if (!tour.repositories.length) {
+    lines.push(
+      repoRoot
+        ? `- Repository ${repoRoot} has not been scanned yet. Run scan first.`
+        : "- No repositories scanned yet. Run scan first."
+    );
+    return lines;
+  }
+
+  for (const repo of tour.repositories) {
+    const counts = Object.entries(repo.counts)
+      .map(([label, n]) => `${label} ${n}`)
+      .join(", ");
+    lines.push(`- Repository: ${repo.name} (${repo.repoRoot})`);
+    lines.push(`  - Nodes: ${counts || "(none)"}`);
+    for (const t of repo.teams) {
+      const origin =
+        t.source === "codeowners" && t.ownedPaths.length
+          ? `CODEOWNERS ${t.ownedPaths.join(" ")}`
+          : t.source ?? "team";
+      lines.push(
+        `  - Team: ${t.name} (${origin}; ${t.members} member${
+          t.members === 1 ? "" : "s"
+        })`
+      );
+    }
+    if (repo.providedApis.length) {
+      lines.push(`  Top provided APIs (${repo.providedApis.length}):`);
+      for (const a of repo.providedApis) {
+        lines.push(
+          `    - ${a.method} ${a.path}${a.file ? ` [${a.file}]` : ""} — ${
+            a.consumers
+          } consuming repos, ${a.callers} internal callers`
+        );
+      }
+    }
+    if (repo.calledFunctions.length) {
+      lines.push(`  Most-called functions (${repo.calledFunctions.length}):`);
+      for (const f of repo.calledFunctions) {
+        lines.push(
+          `    - ${f.name}${f.file ? ` [${f.file}]` : ""} — ${
+            f.callers
+          } callers`
+        );
+      }
+    }
+    if (repo.busiestTables.length) {
+      lines.push(`  Busiest tables (${repo.busiestTables.length}):`);
+      for (const t of repo.busiestTables) {
+        lines.push(
+          `    - ${t.name} — ${t.accessors} accessors${
+            t.sharedWith.length ? `; also in ${t.sharedWith.join(", ")}` : ""
+          }`
+        );
+      }
+    }
+  }
+
+  if (tour.examples.length) {
+    lines.push("", `Try these (${tour.examples.length}):`);
+    for (const e of tour.examples) {
+      lines.push(`  - ${e.title}: ${e.tool} ${JSON.stringify(e.args)}`);
+    }
+  }
+  return lines;
+}
+
+// One line per relationship type: "From|From2 → To|To2 (note)"
+function describeRelationshipTypes(): LearnGuide["relationshipTypes"] {
+  const byType = new Map<
+    string,
+    { from: Set<string>; to: Set<string>; notes: string[] }
+  >();
+  for (const e of SCHEMA_EDGES) {
+    const entry = byType.get(e.type) ?? {
+      from: new Set(),
+      to: new Set(),
+      notes: [],
+    };
+    entry.from.add(e.from);
+    entry.to.add(e.to);
+    if (e.note) entry.notes.push(e.note);
+    byType.set(e.type, entry);
+  }
+  return [...byType].map(([type, { from, to, notes }]) => ({
+    type,
+    description: `${[...from].join("|")} → ${[...to].join("|")}${
+      notes.length ? ` (${notes.join("; ")})` : ""
+    }`,
+  }));
 }
@@ -0,0 +1,523 @@
+import { Driver } from "neo4j-driver";
+import { mkdir, writeFile } from "fs/promises";
+import { basename, dirname, resolve } from "path";
+import { stringify as stringifyYaml } from "yaml";
+import { runQuery } from "../neo4j/connection.js";
+import { listSnapshots } from "../neo4j/snapshots.js";
+import {
+  ApiContract,
+  ContractSchema,
+  parseDeclaredType,
+} from "../scanner/apiContracts.js";
+import { compareContracts, ContractChange } from "./contractCheckCommand.js";
+import { OutputFormat, renderJson } from "./output.js";
+
+export interface OpenApiDrift {
+  // undocumented: a code route no operation describes (only reported for
+  // repositories with a spec); unimplemented: an operation no code route serves;
+  // mismatch: both exist but their contracts differ
+  kind: "undocumented" | "unimplemented" | "mismatch";
+  endpoint: string; // "GET /api/orders/{id}" as the code (or the spec) writes it
+  file: string | null; // code file
+  specFile: string | null;
+  operationId: string | null;
+  changes: ContractChange[]; // mismatch: spec -> code; breaking = code breaks the spec
+}
+
+/** `data` of the exportOpenApi tool's JSON output */
+export interface OpenApiExportReport {
+  repoRoot: string;
+  status: "ok" | "no_apis";
+  outputFile: string | null; // where the document was written, when requested
+  operations: number;
+  specDocuments: string[]; // ingested OpenAPI / Swagger files
+  drift: OpenApiDrift[];
+  document: Record<string, unknown> | null; // the OpenAPI 3.1 document
+}
+
+interface ApiRow {
+  id: string;
+  method: string | null;
+  path: string | null;
+  file: string | null;
+  source: string | null;
+  operationId: string | null;
+  summary: string | null;
+  tags: string[] | null;
+  responseType: string | null;
+  requestType: string | null;
+  responseSchemaJson: string | null;
+  requestSchemaJson: string | null;
+  pathParamsJson: string | null;
+  queryParamsJson: string | null;
+  headersJson: string | null;
+  specifies: string[];
+}
+
+interface Endpoint {
+  method: string;
+  path: string; // OpenAPI template
+  code: ApiRow | null;
+  specs: ApiRow[];
+}
+
+/**
+ * Generate an OpenAPI 3.1 document for a repository from the graph:
+ * - One operation per provided API: code routes, merged with the OpenAPI /
+ *   Swagger operations that SPECIFIES them (operationId, summary, tags, and
+ *   schemas or parameters the code does not declare); operations found only in
+ *   a spec are kept
+ * - Request / response bodies from the stored schemas; the repository types they
+ *   name (TypeDefinitions and classes) become `components.schemas`
+ * - Drift between spec and code: undocumented routes, unimplemented operations
+ *   and contract mismatches, classified like contractCheck with the spec as the
+ *   promised contract
+ */
+export async function runOpenApiExport(
+  driver: Driver,
+  args: { repoRoot: string; outputFile?: string; format?: OutputFormat }
+): Promise<string> {
+  const repoRoot = args.repoRoot;
+  const rows = await runQuery<{ api: ApiRow }>(
+    driver,
+    `
+    MATCH (a:API {repoRoot: $repoRoot, direction: "provided"})
+    WHERE coalesce(a.protocol, "http") = "http"
+    OPTIONAL MATCH (a)-[:SPECIFIES]->(c:API)
+    WITH a, collect(DISTINCT c.id) AS specifies
+    RETURN a {.id, .method, .path, .file, .source, .operationId, .summary,
+              .tags, .responseType, .requestType, .responseSchemaJson,
+              .requestSchemaJson, .pathParamsJson, .queryParamsJson,
+              .headersJson, specifies: specifies} AS api
+    ORDER BY a.path, a.method, a.file
+    `,
+    { repoRoot }
+  );
+  const apis = rows.map((r) => r.api).filter((a) => a.path != null);
+
+  const specs = apis.filter((a) => a.source === "openapi");
+  const routes = apis.filter((a) => a.source !== "openapi");
+  const specDocuments = [
+    ...new Set(specs.map((s) => s.file).filter((f): f is string => !!f)),
+  ].sort();
+
+  if (apis.length === 0) {
+    const report: OpenApiExportReport = {
+      repoRoot,
+      status: "no_apis",
+      outputFile: null,
+      operations: 0,
+      specDocuments,
+      drift: [],
+      document: null,
+    };
+    return args.format === "json"
+      ? renderJson("exportOpenApi", report)
+      : [
+          "OpenAPI Export",
+          `- Repository: ${repoRoot}`,
+          "",
+          "No provided APIs found for this repository. Run the 'scan' tool first.",
+        ].join("\n");
+  }
+
+  // Code routes first, each with the spec operations documenting it; then the
+  // operations no route serves
+  const endpoints = new Map<string, Endpoint>();
+  const linked = new Set<string>();
+  for (const route of routes) {
+    const method = (route.method ?? "GET").toUpperCase();
+    const path = openApiPath(route.path!);
+    const key = `${method} ${path.toLowerCase()}`;
+    const documenting = specs.filter((s) => s.specifies.includes(route.id));
+    for (const s of documenting) linked.add(s.id);
+    const existing = endpoints.get(key);
+    if (existing) {
+      existing.specs.push(...documenting);
+      continue;
+    }
+    endpoints.set(key, { method, path, code: route, specs: documenting });
+  }
+  for (const spec of specs) {
+    if (linked.has(spec.id)) continue;
+    const method = (spec.method ?? "GET").toUpperCase();
+    const path = openApiPath(spec.path!);
+    const key = `${method} ${path.toLowerCase()}`;
+    const existing = endpoints.get(key);
+    if (existing) existing.specs.push(spec);
+    else endpoints.set(key, { method, path, code: null, specs: [spec] });
+  }
+
+  const drift: OpenApiDrift[] = [];
+  for (const e of endpoints.values()) {
+    const spec = e.specs[0] ?? null;
+    if (!e.code) {
+      drift.push(driftOf("unimplemented", e, null, spec, []));
+    } else if (!spec) {
+      if (specs.length)
+        drift.push(driftOf("undocumented", e, e.code, null, []));
+    } else {
+      const code = unnamed(contractOf(e.code));
+      const changes = compareContracts(
+        promised(unnamed(contractOf(spec)), code),
+        code
+      );
+      if (changes.length) {
+        drift.push(driftOf("mismatch", e, e.code, spec, changes));
+      }
+    }
+  }
+
+  const document = buildDocument(
+    repoRoot,
+    (await listSnapshots(driver, repoRoot))[0]?.version ?? "0.0.0",
+    [...endpoints.values()]
+  );
+
+  let outputFile: string | null = null;
+  if (args.outputFile) {
+    outputFile = resolve(repoRoot, args.outputFile);
+    const body = /\.ya?ml$/i.test(outputFile)
+      ? stringifyYaml(document)
+      : JSON.stringify(document, null, 2) + "\n";
+    await mkdir(dirname(outputFile), { recursive: true });
+    await writeFile(outputFile, body, "utf-8");
+  }
+
+  if (args.format === "json") {
+    const report: OpenApiExportReport = {
+      repoRoot,
+      status: "ok",
+      outputFile,
+      operations: endpoints.size,
+      specDocuments,
+      drift,
+      document,
+    };
+    return renderJson("exportOpenApi", report);
+  }
+
+  const lines = [
+    "OpenAPI Export",
+    `- Repository: ${repoRoot}`,
+    `- Operations: ${endpoints.size}`,
+    `- Spec documents: ${
+      specDocuments.length ? specDocuments.join(", ") : "none"
+    }`,
+    "",
+  ];
+  if (specDocuments.length) {
+    lines.push(`Drift between spec and code (${drift.length}):`);
+    if (drift.length === 0) lines.push("  (none)");
+    for (const d of drift.slice(0, 50)) {
+      const where =
+        d.kind === "unimplemented" ? d.specFile ?? "" : d.file ?? "";
+      lines.push(`  - ${d.kind}: ${d.endpoint}${where ? `  [${where}]` : ""}`);
+      for (const c of d.changes) {
+        const tag = c.breaking ? "breaks spec" : "differs";
+        const values =
+          c.before != null && c.after != null
+            ? ` (spec ${c.before}, code ${c.after})`
+            : c.before != null
+            ? ` (spec ${c.before})`
+            : c.after != null
+            ? ` (code ${c.after})`
+            : "";
+        lines.push(
+          `      [${tag}] ${c.location}: ${c.kind.replace(/-/g, " ")}${values}`
+        );
+      }
+    }
+    lines.push("");
+  }
+  if (outputFile) {
+    lines.push(`Written to ${outputFile}`);
+  } else {
+    lines.push(stringifyYaml(document).trimEnd());
+  }
+  return lines.join("\n");
+}
+
+function driftOf(
+  kind: OpenApiDrift["kind"],
+  e: Endpoint,
+  code: ApiRow | null,
+  spec: ApiRow | null,
+  changes: ContractChange[]
+): OpenApiDrift {
+  return {
+    kind,
+    endpoint: `${e.method} ${(code ?? spec)?.path ?? e.path}`,
+    file: code?.file ?? null,
+    specFile: spec?.file ?? null,
+    operationId: spec?.operationId ?? null,
+    changes,
+  };
+}
+
+function contractOf(row: ApiRow): ApiContract {
+  const contract: ApiContract = {
+    responseType: row.responseType ?? undefined,
+    requestType: row.requestType ?? undefined,
+    response: parseJson(row.responseSchemaJson),
+    request: parseJson(row.requestSchemaJson),
+    pathParams: parseJson(row.pathParamsJson),
+    queryParams: parseJson(row.queryParamsJson),
+    headers: parseJson(row.headersJson),
+  };
+  for (const k of Object.keys(contract) as (keyof ApiContract)[]) {
+    if (contract[k] === undefined) delete contract[k];
+  }
+  return contract;
+}
+
+// Specs and code name the same shape differently (Order / OrderDto): compare
+// the shapes only
+function unnamed(contract: ApiContract): ApiContract {
+  const strip = (schema: ContractSchema): ContractSchema => {
+    const { ref, ...rest } = schema;
+    const out: ContractSchema = { ...rest };
+    if (rest.items) out.items = strip(rest.items);
+    if (rest.additionalProperties) {
+      out.additionalProperties = strip(rest.additionalProperties);
+    }
+    if (rest.anyOf) out.anyOf = rest.anyOf.map(strip);
+    if (rest.properties) {
+      out.properties = Object.fromEntries(
+        Object.entries(rest.properties).map(([k, v]) => [k, strip(v)])
+      );
+    }
+    return out;
+  };
+  return {
+    ...contract,
+    response: contract.response && strip(contract.response),
+    request: contract.request && strip(contract.request),
+  };
+}
+
+// The parts of the spec's contract the code also declares: what the scanner
+// cannot see in code (untyped JS handlers, parameters read from the request
+// object) is not drift
+function promised(spec: ApiContract, code: ApiContract): ApiContract {
+  const out: ApiContract = {};
+  if (code.response !== undefined || code.responseType !== undefined) {
+    out.response = spec.response;
+    out.responseType = spec.responseType;
+  }
+  if (code.request !== undefined || code.requestType !== undefined) {
+    out.request = spec.request;
+    out.requestType = spec.requestType;
+  }
+  if (code.pathParams) out.pathParams = spec.pathParams;
+  if (code.queryParams) out.queryParams = spec.queryParams;
+  if (code.headers) out.headers = spec.headers;
+  return out;
+}
+
+function buildDocument(
+  repoRoot: string,
+  version: string,
+  endpoints: Endpoint[]
+): Record<string, unknown> {
+  const components: Record<string, unknown> = {};
+  const referenced = new Set<string>();
+  const schemaOf = (s: ContractSchema) => toOpenApi(s, components, referenced);
+
+  const paths: Record<string, Record<string, unknown>> = {};
+  const operationIds = new Set<string>();
+  const sorted = [...endpoints].sort(
+    (a, b) => a.path.localeCompare(b.path) || a.method.localeCompare(b.method)
+  );
+  for (const e of sorted) {
+    const spec = e.specs[0] ? contractOf(e.specs[0]) : {};
+    const code = e.code ? contractOf(e.code) : {};
+    // Code wins where it declares something; the spec fills the gaps
+    const response = code.response ?? spec.response;
+    const request = code.request ?? spec.request;
+    const pathParams = code.pathParams ?? spec.pathParams ?? [];
+    const queryParams = code.queryParams ?? spec.queryParams ?? [];
+    const headers = code.headers ?? spec.headers ?? [];
+
+    const parameters: Record<string, unknown>[] = [];
+    const templateNames = [...e.path.matchAll(/\{([^}]+)\}/g)].map((m) => m[1]);
+    templateNames.forEach((name, i) => {
+      const declared = pathParams.find((p) => p.name === name) ?? pathParams[i];
+      parameters.push({
+        name,
+        in: "path",
+        required: true,
+        schema: paramSchema(declared?.type, schemaOf) ?? { type: "string" },
+      });
+    });
+    for (const [place, list] of [
+      ["query", queryParams],
+      ["header", headers],
+    ] as const) {
+      for (const p of list) {
+        parameters.push({
+          name: p.name,
+          in: place,
+          required: p.required === true,
+          schema: paramSchema(p.type, schemaOf) ?? {},
+        });
+      }
+    }
+
+    const specRow = e.specs[0];
+    const operation: Record<string, unknown> = {
+      operationId: uniqueOperationId(
+        specRow?.operationId ?? defaultOperationId(e.method, e.path),
+        operationIds
+      ),
+    };
+    if (specRow?.summary) operation.summary = specRow.summary;
+    if (specRow?.tags?.length) operation.tags = specRow.tags;
+    if (parameters.length) operation.parameters = parameters;
+    if (request) {
+      operation.requestBody = {
+        required: true,
+        content: { "application/json": { schema: schemaOf(request) } },
+      };
+    }
+    operation.responses = {
+      "200": response
+        ? {
+            description: "Successful response",
+            content: { "application/json": { schema: schemaOf(response) } },
+          }
+        : { description: "Successful response" },
+    };
+
+    paths[e.path] = paths[e.path] ?? {};
+    paths[e.path][e.method.toLowerCase()] = operation;
+  }
+
+  // Types a body names but the repository does not define (or a cycle cut short)
+  for (const name of referenced) {
+    if (!(name in components)) {
+      components[name] = { description: "Not resolved from the repository" };
+    }
+  }
+
+  return {
+    openapi: "3.1.0",
+    info: { title: basename(repoRoot), version },
+    paths,
+    ...(Object.keys(components).length
+      ? { components: { schemas: sortKeys(components) } }
+      : {}),
+  };
+}
+
+/**
+ * OpenAPI 3.1 (JSON Schema 2020-12) form of a contract schema. Objects, enums and
+ * unions coming from a named type become `$ref`s to `components.schemas`; null is
+ * a type of its own in 3.1 (`type: ["string", "null"]`).
+ */
+function toOpenApi(
+  s: ContractSchema,
+  components: Record<string, unknown>,
+  referenced: Set<string>
+): Record<string, unknown> {
+  const named =
+    s.ref != null && (s.type === "object" || s.enum != null || s.anyOf != null);
+  if (s.ref != null && (named || !s.type)) {
+    const ref = { $ref: `#/components/schemas/${s.ref}` };
+    referenced.add(s.ref);
+    if (named && !(s.ref in components)) {
+      components[s.ref] = {}; // claimed first, so a cycle refers back to it
+      components[s.ref] = toOpenApi(
+        { ...s, ref: undefined, nullable: undefined },
+        components,
+        referenced
+      );
+    }
+    return s.nullable ? { anyOf: [ref, { type: "null" }] } : ref;
+  }
+
+  const out: Record<string, unknown> = {};
+  if (s.anyOf) {
+    const members = s.anyOf.map((m) => toOpenApi(m, components, referenced));
+    if (s.nullable) members.push({ type: "null" });
+    return { anyOf: members };
+  }
+  if (s.type) out.type = s.nullable ? [s.type, "null"] : s.type;
+  if (s.format) out.format = s.format;
+  if (s.enum) out.enum = s.nullable ? [...s.enum, null] : s.enum;
+  if (s.items) out.items = toOpenApi(s.items, components, referenced);
+  if (s.properties) {
+    out.properties = Object.fromEntries(
+      Object.entries(s.properties).map(([k, v]) => [
+        k,
+        toOpenApi(v, components, referenced),
+      ])
+    );
+  }
+  if (s.required?.length) out.required = s.required;
+  if (s.additionalProperties) {
+    out.additionalProperties = toOpenApi(
+      s.additionalProperties,
+      components,
+      referenced
+    );
+  }
+  return out;
+}
+
+function paramSchema(
+  type: string | undefined,
+  schemaOf: (s: ContractSchema) => Record<string, unknown>
+): Record<string, unknown> | undefined {
+  const s = type ? parseDeclaredType(type) : undefined;
+  // A nullable parameter type only says the parameter is optional
+  return s ? schemaOf({ ...s, nullable: undefined }) : undefined;
+}
+
+/** `/orders/:id`, `/orders/<int:id>` → `/orders/{id}` */
+function openApiPath(path: string): string {
+  const p = path
+    .split("?")[0]
+    .replace(/<(?:[^:>]+:)?([^>]+)>/g, "{$1}")
+    .replace(/:([A-Za-z_]\w*)/g, "{$1}")
+    .replace(/\/{2,}/g, "/");
+  const trimmed = p.length > 1 ? p.replace(/\/+$/, "") : p;
+  return trimmed.startsWith("/") ? trimmed : "/" + trimmed;
+}
+
+// getOrdersById for GET /orders/{id}
+function defaultOperationId(method: string, path: string): string {
+  const words = path
+    .split("/")
+    .filter(Boolean)
+    .map((seg) => (seg.startsWith("{") ? `By ${seg.slice(1, -1)}` : seg))
+    .join(" ")
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean);
+  return (
+    method.toLowerCase() +
+    words.map((w) => w[0].toUpperCase() + w.slice(1)).join("")
+  );
+}
+
+function uniqueOperationId(id: string, used: Set<string>): string {
+  let candidate = id;
+  for (let i = 2; used.has(candidate); i++) candidate = `${id}${i}`;
+  used.add(candidate);
+  return candidate;
+}
+
+function sortKeys(o: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(o).sort(([a], [b]) => a.localeCompare(b))
+  );
+}
+
+function parseJson<T = any>(value: string | null): T | undefined {
+  if (value == null) return undefined;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,133 @@
+import { isInt } from "neo4j-driver";
+
+/**
+ * Output formats shared by all tools:
+ * - "text" (default): human-readable summary, long lists truncated
+ * - "json": a stable envelope { tool, schemaVersion, data, page, error } with untruncated
+ *   lists, paged by `limit`/`cursor` where they grow with the graph; the shape of
+ *   `data` per tool is documented in the README ("JSON output")
+ */
+export type OutputFormat = "text" | "json";
+
+// Bump when a documented `data` shape changes incompatibly
+export const JSON_SCHEMA_VERSION = 1;
+
+export interface PageInfo {
+  cursor: string | null; // cursor this page was requested with
+  nextCursor: string | null; // pass back as `cursor` for the next page; null on the last page
+  pageSize: number;
+}
+
+export interface JsonEnvelope<T> {
+  tool: string;
+  schemaVersion: number;
+  data: T;
+  page: PageInfo | null;
+  error: { message: string } | null;
+}
+
+/** Validate a tool argument as an output format (text when absent). */
+export function parseOutputFormat(value: unknown): OutputFormat {
+  if (value == null || value === "" || value === "text") return "text";
+  if (value === "json") return "json";
+  throw new Error(`Invalid format '${value}'. Use "text" or "json".`);
+}
+
+export function renderJson<T>(
+  tool: string,
+  data: T,
+  page: PageInfo | null = null
+): string {
+  const envelope: JsonEnvelope<T> = {
+    tool,
+    schemaVersion: JSON_SCHEMA_VERSION,
+    data,
+    page,
+    error: null,
+  };
+  return JSON.stringify(envelope, jsonReplacer, 2);
+}
+
+/** JSON envelope for a failed tool call (data is null). */
+export function renderJsonError(tool: string, message: string): string {
+  const envelope: JsonEnvelope<null> = {
+    tool,
+    schemaVersion: JSON_SCHEMA_VERSION,
+    data: null,
+    page: null,
+    error: { message },
+  };
+  return JSON.stringify(envelope, null, 2);
+}
+
+/** Paging arguments of the tools whose JSON output pages its long lists */
+export interface PageArgs {
+  limit?: number;
+  cursor?: string;
+}
+
+export const DEFAULT_PAGE_SIZE = 100;
+
+/** Paging arguments of a tool call; values of the wrong type are ignored. */
+export function parsePageArgs(
+  args: Record<string, unknown> | undefined
+): PageArgs {
+  return {
+    limit: typeof args?.limit === "number" ? args.limit : undefined,
+    cursor: typeof args?.cursor === "string" ? args.cursor : undefined,
+  };
+}
+
+/**
+ * Page the long lists of a JSON report: `build` passes each of them through
+ * `slice`, which keeps the same window (`limit` items from the cursor's offset) of
+ * every list; `nextCursor` is set while any list has items past the window.
+ */
+export function pageLists<T>(
+  args: PageArgs,
+  build: (slice: <I>(list: I[]) => I[]) => T
+): { data: T; page: PageInfo } {
+  const offset = decodeCursor(args.cursor);
+  const pageSize = Math.max(1, Math.floor(args.limit ?? DEFAULT_PAGE_SIZE));
+  let more = false;
+  const data = build((list) => {
+    if (list.length > offset + pageSize) more = true;
+    return list.slice(offset, offset + pageSize);
+  });
+  return {
+    data,
+    page: {
+      cursor: args.cursor ?? null,
+      nextCursor: more ? encodeCursor(offset + pageSize) : null,
+      pageSize,
+    },
+  };
+}
+
+/** Opaque cursor for offset-based pagination. */
+export function encodeCursor(offset: number): string {
+  return Buffer.from(JSON.stringify({ offset }), "utf8").toString("base64url");
+}
+
+export function decodeCursor(cursor: string | null | undefined): number {
+  if (!cursor) return 0;
+  try {
+    const parsed = JSON.parse(
+      Buffer.from(cursor, "base64url").toString("utf8")
+    );
+    if (Number.isInteger(parsed?.offset) && parsed.offset >= 0) {
+      return parsed.offset;
+    }
+  } catch {
+    // fall through
+  }
+  throw new Error(`Invalid cursor '${cursor}'`);
+}
+
+// Neo4j integers serialize as {low, high}; emit plain numbers instead
+function jsonReplacer(_key: string, value: unknown): unknown {
+  if (isInt(value)) {
+    return value.inSafeRange() ? value.toNumber() : value.toString();
+  }
+  return value;
+}
@@ -0,0 +1,331 @@
+import neo4j, { Driver } from "neo4j-driver";
+import { existsSync, readFileSync } from "fs";
+import { join, resolve } from "path";
+import { parse as parseYaml } from "yaml";
+import { stripCypherLiterals } from "../neo4j/cypherGuard.js";
+import { OutputFormat, renderJson } from "./output.js";
+
+export type SavedQueryParamType = "string" | "number" | "boolean" | "list";
+
+export interface SavedQueryParam {
+  name: string;
+  type: SavedQueryParamType;
+  description: string;
+  required: boolean; // required params have no default
+  default: unknown;
+}
+
+export interface SavedQuery {
+  name: string;
+  description: string;
+  params: SavedQueryParam[];
+  cypher: string;
+}
+
+/** `data` of the queries tool's JSON output */
+export interface QueryLibrary {
+  path: string;
+  exists: boolean;
+  queries: SavedQuery[];
+}
+
+const PARAM_TYPES: SavedQueryParamType[] = [
+  "string",
+  "number",
+  "boolean",
+  "list",
+];
+
+/**
+ * Location of the saved query library: QUERY_LIBRARY when set (relative paths
+ * resolve against the repository), else `.glass/queries.yaml` in the repository.
+ */
+export function queryLibraryPath(repoRoot?: string): string {
+  const base = repoRoot || process.cwd();
+  const configured = process.env.QUERY_LIBRARY;
+  return configured
+    ? resolve(base, configured)
+    : join(base, ".glass", "queries.yaml");
+}
+
+/**
+ * Load and validate the saved query library. The file is read on every call so
+ * edits apply without restarting the server. A missing file is an empty library.
+ *
+ * ```yaml
+ * queries:
+ *   - name: endpointsOfRepo
+ *     description: Provided APIs of a repository
+ *     params:
+ *       - { name: repo, type: string, description: repoRoot substring }
+ *     cypher: |
+ *       MATCH (a:API {direction: "provided"}) WHERE a.repoRoot CONTAINS $repo
+ *       RETURN a.method AS method, a.path AS path
+ * ```
+ */
+export function loadQueryLibrary(repoRoot?: string): QueryLibrary {
+  const path = queryLibraryPath(repoRoot);
+  if (!existsSync(path)) return { path, exists: false, queries: [] };
+
+  let doc: any;
+  try {
+    doc = parseYaml(readFileSync(path, "utf8"));
+  } catch (error) {
+    throw new Error(
+      `Invalid query library ${path}: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+
+  const entries = doc?.queries ?? [];
+  if (!Array.isArray(entries)) {
+    throw new Error(`Invalid query library ${path}: 'queries' must be a list`);
+  }
+
+  const queries: SavedQuery[] = [];
+  for (const [i, entry] of entries.entries()) {
+    const query = parseSavedQuery(entry, `${path}: queries[${i}]`);
+    if (queries.some((q) => q.name === query.name)) {
+      throw new Error(
+        `Invalid query library ${path}: duplicate query '${query.name}'`
+      );
+    }
+    queries.push(query);
+  }
+  return { path, exists: true, queries };
+}
+
+/** Find a saved query by name; the error lists the available names. */
+export function findSavedQuery(
+  library: QueryLibrary,
+  name: string
+): SavedQuery {
+  const query = library.queries.find((q) => q.name === name);
+  if (query) return query;
+  if (!library.exists) {
+    throw new Error(
+      `Saved query '${name}' not found: no query library at ${library.path}`
+    );
+  }
+  const names = library.queries.map((q) => q.name);
+  throw new Error(
+    `Saved query '${name}' not found in ${library.path}. Available: ${
+      names.length ? names.join(", ") : "(none)"
+    }`
+  );
+}
+
+/**
+ * Turn tool arguments into Cypher parameters: unknown arguments are rejected,
+ * defaults filled in, and values coerced to the declared types.
+ */
+export function bindSavedQueryParams(
+  query: SavedQuery,
+  args: Record<string, unknown>
+): Record<string, unknown> {
+  for (const key of Object.keys(args)) {
+    if (!query.params.some((p) => p.name === key)) {
+      throw new Error(
+        `Saved query '${
+          query.name
+        }' has no parameter '${key}'. Parameters: ${describeParams(query)}`
+      );
+    }
+  }
+
+  const bound: Record<string, unknown> = {};
+  for (const param of query.params) {
+    const value = args[param.name];
+    if (value === undefined || value === null || value === "") {
+      if (param.required) {
+        throw new Error(
+          `Saved query '${query.name}' requires parameter '${
+            param.name
+          }'. Parameters: ${describeParams(query)}`
+        );
+      }
+      bound[param.name] =
+        param.default == null
+          ? param.default
+          : coerce(param.default, param, query.name);
+      continue;
+    }
+    bound[param.name] = coerce(value, param, query.name);
+  }
+  return bound;
+}
+
+/**
+ * List the saved queries of the project library with their parameters.
+ */
+export async function runListQueries(
+  _driver: Driver,
+  args: { repoRoot?: string; format?: OutputFormat } = {}
+): Promise<string> {
+  const library = loadQueryLibrary(args.repoRoot);
+  if (args.format === "json") return renderJson("queries", library);
+
+  const lines = ["Saved queries", `- Library: ${library.path}`];
+  if (!library.exists) {
+    lines.push(
+      "",
+      "No query library found. Create it (or point QUERY_LIBRARY at one) to register named queries:",
+      "",
+      "queries:",
+      "  - name: endpointsOfRepo",
+      "    description: Provided APIs of a repository",
+      "    params:",
+      "      - { name: repo, type: string }",
+      "    cypher: |",
+      '      MATCH (a:API {direction: "provided"}) WHERE a.repoRoot CONTAINS $repo',
+      "      RETURN a.method AS method, a.path AS path"
+    );
+    return lines.join("\n");
+  }
+
+  lines.push("", `Queries (${library.queries.length}):`);
+  for (const q of library.queries) {
+    lines.push(
+      `  - ${q.name}(${q.params.map(formatParamSignature).join(", ")})${
+        q.description ? ` — ${q.description}` : ""
+      }`
+    );
+    for (const p of q.params) {
+      if (p.description) lines.push(`      ${p.name}: ${p.description}`);
+    }
+  }
+  lines.push(
+    "",
+    'Run one with the query tool: { "savedQuery": "<name>", "params": { ... } }'
+  );
+  return lines.join("\n");
+}
+
+function parseSavedQuery(entry: any, where: string): SavedQuery {
+  if (!entry || typeof entry !== "object") {
+    throw new Error(`Invalid query library ${where}: expected a mapping`);
+  }
+  const name = String(entry.name ?? "");
+  if (!/^[A-Za-z][\w.-]*$/.test(name)) {
+    throw new Error(
+      `Invalid query library ${where}: 'name' must start with a letter and contain only letters, digits, '_', '.' or '-'`
+    );
+  }
+  const cypher = typeof entry.cypher === "string" ? entry.cypher.trim() : "";
+  if (!cypher) {
+    throw new Error(
+      `Invalid query library ${where} (${name}): missing 'cypher'`
+    );
+  }
+
+  const rawParams = entry.params ?? [];
+  if (!Array.isArray(rawParams)) {
+    throw new Error(
+      `Invalid query library ${where} (${name}): 'params' must be a list`
+    );
+  }
+  const params = rawParams.map((p: any) => parseParam(p, `${where} (${name})`));
+
+  // Every $parameter in the Cypher must be declared, so a call cannot leave one unbound
+  const used = new Set(
+    [...stripCypherLiterals(cypher).matchAll(/\$([A-Za-z]\w*)/g)].map(
+      (m) => m[1]
+    )
+  );
+  const undeclared = [...used].filter(
+    (u) => !params.some((p: SavedQueryParam) => p.name === u)
+  );
+  if (undeclared.length) {
+    throw new Error(
+      `Invalid query library ${where} (${name}): undeclared parameters ${undeclared
+        .map((u) => `$${u}`)
+        .join(", ")}`
+    );
+  }
+
+  return {
+    name,
+    description: String(entry.description ?? ""),
+    params,
+    cypher,
+  };
+}
+
+function parseParam(raw: any, where: string): SavedQueryParam {
+  const spec = typeof raw === "string" ? { name: raw } : raw;
+  const name = String(spec?.name ?? "");
+  // Leading letter keeps them apart from the query tool's paging parameters
+  if (!/^[A-Za-z]\w*$/.test(name)) {
+    throw new Error(
+      `Invalid query library ${where}: parameter name '${name}' must be an identifier starting with a letter`
+    );
+  }
+  const type = (spec.type ?? "string") as SavedQueryParamType;
+  if (!PARAM_TYPES.includes(type)) {
+    throw new Error(
+      `Invalid query library ${where}: parameter '${name}' has unknown type '${type}' (${PARAM_TYPES.join(
+        ", "
+      )})`
+    );
+  }
+  const hasDefault = spec.default !== undefined;
+  return {
+    name,
+    type,
+    description: String(spec.description ?? ""),
+    required: !hasDefault && spec.required !== false,
+    default: hasDefault ? spec.default : null,
+  };
+}
+
+function coerce(
+  value: unknown,
+  param: SavedQueryParam,
+  queryName: string
+): unknown {
+  const fail = (): never => {
+    throw new Error(
+      `Saved query '${queryName}': parameter '${param.name}' expects a ${
+        param.type
+      }, got ${JSON.stringify(value)}`
+    );
+  };
+
+  switch (param.type) {
+    case "number": {
+      const n = typeof value === "number" ? value : Number(value);
+      if (!Number.isFinite(n)) return fail();
+      // JS numbers reach Neo4j as floats, which LIMIT and SKIP refuse
+      return Number.isSafeInteger(n) ? neo4j.int(n) : n;
+    }
+    case "boolean":
+      if (typeof value === "boolean") return value;
+      if (value === "true" || value === "false") return value === "true";
+      return fail();
+    case "list":
+      if (Array.isArray(value)) return value;
+      if (typeof value === "string") {
+        return value
+          .split(",")
+          .map((s) => s.trim())
+          .filter(Boolean);
+      }
+      return fail();
+    default:
+      return typeof value === "object" ? fail() : String(value);
+  }
+}
+
+function formatParamSignature(p: SavedQueryParam): string {
+  const base = `${p.name}${p.required ? "" : "?"}: ${p.type}`;
+  return p.required || p.default === null
+    ? base
+    : `${base} = ${JSON.stringify(p.default)}`;
+}
+
+function describeParams(query: SavedQuery): string {
+  return query.params.length
+    ? query.params.map(formatParamSignature).join(", ")
+    : "(none)";
+}
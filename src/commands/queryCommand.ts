@@ -1,217 +1,296 @@
 import { Driver } from "neo4j-driver";
-import { runQuery } from "../neo4j/connection.js";
+import { runQuery, runReadQuery } from "../neo4j/connection.js";
+import {
+  assertReadOnlyCypher,
+  procedureAllowlistFromEnv,
+  readOnlyModeFromEnv,
+  stripCypherLiterals,
+} from "../neo4j/cypherGuard.js";
+import {
+  decodeCursor,
+  encodeCursor,
+  OutputFormat,
+  renderJson,
+} from "./output.js";
+import {
+  bindSavedQueryParams,
+  findSavedQuery,
+  loadQueryLibrary,
+} from "./queriesCommand.js";
+import { planQuery } from "./queryPlanner.js";
+import { introspectSchema } from "../neo4j/graphSchema.js";
+
+/** `data` of the query tool's JSON output (rows of the current page) */
+export interface QueryReport {
+  prompt: string;
+  // set when a saved query from the library was run
+  savedQuery: { name: string; params: Record<string, unknown> } | null;
+  // steps of the schema-aware planner when it composed the Cypher
+  plan: string[] | null;
+  cypher: string;
+  rows: Record<string, unknown>[];
+}
+
+/**
+ * A natural-language template: `match` recognizes the prompt, `params` turns the
+ * regex captures into named Cypher parameters. Values from the prompt are only ever
+ * bound as parameters, never spliced into the Cypher text.
+ */
+interface QueryTemplate {
+  name: string;
+  match: RegExp;
+  cypher: string;
+  params?: (m: RegExpExecArray) => Record<string, unknown>;
+}
+
+// Tried in order; the advanced analyses come first
+const QUERY_TEMPLATES: QueryTemplate[] = [
+  {
+    // A1) Circular function-call dependencies (optionally scoped by path/repo)
+    name: "circular-function-calls",
+    match:
+      /(circular|cycle|cyclic).*(function|call|dependency)(?:.*["'`](.+?)["'`])?/i,
+    cypher: `
+      MATCH p=(a:Function)-[:CALLS*1..8]->(a)
+      WITH p, nodes(p) AS fns
+      UNWIND fns AS fn
+      OPTIONAL MATCH (f:File)-[:DECLARES|CONTAINS*1..]->(fn)
+      WITH p, collect(distinct fn.name) AS functions, collect(distinct f.file) AS files
+      WHERE $scope IS NULL
+         OR ANY(x IN files WHERE toLower(coalesce(x,"")) CONTAINS toLower($scope))
+      RETURN size(nodes(p)) AS cycleLength, functions, files
+      ORDER BY cycleLength DESC
+    `,
+    params: (m) => ({ scope: m[3] ?? null }),
+  },
+  {
+    // A2) Repository-level API consumption cycles
+    name: "circular-repository-apis",
+    match: /(circular|cycle|cyclic).*(api).*(repo|repository)/i,
+    cypher: `
+      MATCH p=(r:Repository)-[:CONSUMES_API_FROM*1..5]->(r)
+      RETURN [x IN nodes(p) | coalesce(x.name, x.repoRoot)] AS repositories, length(p) AS hops
+      ORDER BY hops DESC
+    `,
+  },
+  {
+    // A3) Impact of API response change for specified endpoint
+    name: "api-change-impact",
+    match:
+      /(impact|affected|affect).*(api|endpoint).*(GET|POST|PUT|DELETE|PATCH|OPTIONS|HEAD)?[^"'`]*["'`](.+?)["'`]/i,
+    cypher: `
+      MATCH (prov:API {direction:"provided"})
+      WHERE toLower(coalesce(prov.path,"")) CONTAINS toLower($endpoint)
+        AND ($method IS NULL OR toUpper(coalesce(prov.method,"GET")) = $method)
+      OPTIONAL MATCH (pf:Function)-[:PROVIDES_API]->(prov)
+      OPTIONAL MATCH (pfile:File)-[:DECLARES|CONTAINS*1..]->(pf)
+      WITH prov, pf, pfile
+      OPTIONAL MATCH (caller:Function)-[:CALLS*1..3]->(pf)
+      OPTIONAL MATCH (cfile:File)-[:DECLARES|CONTAINS*1..]->(caller)
+      WITH prov, pfile, collect(distinct cfile.file) AS internalFiles
+      OPTIONAL MATCH (consumed:API {direction:"consumed"})
+      WHERE toLower(coalesce(consumed.url,"")) CONTAINS toLower(coalesce(prov.path,""))
+        AND toUpper(coalesce(consumed.method,"GET")) = coalesce($method, toUpper(coalesce(prov.method,"GET")))
+      OPTIONAL MATCH (cf:Function)-[:USES_API]->(consumed)
+      OPTIONAL MATCH (cffile:File)-[:DECLARES|CONTAINS*1..]->(cf)
+      RETURN coalesce(prov.method,"GET") AS method,
+             coalesce(prov.path, prov.url) AS route,
+             pfile.repoRoot AS providerRepo,
+             pfile.file AS providerFile,
+             internalFiles AS internalAffectedFiles,
+             collect(distinct cffile.repoRoot) AS consumerRepos,
+             collect(distinct cffile.file) AS consumerFiles
+    `,
+    params: (m) => ({
+      method: m[3] ? m[3].toUpperCase() : null,
+      endpoint: m[4] || "",
+    }),
+  },
+  {
+    // 1) Impact of a file change
+    name: "file-change-impact",
+    match:
+      /(affected|impact).*(files|apis|tables|tests).*(for|if).*(file\s+)?["'`](.+?)["'`]/i,
+    cypher: `
+      MATCH (f:File {file: $file})
+      OPTIONAL MATCH (f)-[:DECLARES|CONTAINS*1..]->(e)
+      OPTIONAL MATCH (e)-[:CALLS|USES_API|PROVIDES_API|QUERIES|USES_CONFIG|EMITS_ERROR*1..3]->(rel)
+      WITH f, collect(distinct e) + collect(distinct rel) AS found
+      UNWIND found AS t
+      WITH f, collect(distinct t) AS touched
+      UNWIND touched AS t
+      OPTIONAL MATCH (af:File)-[:DECLARES|CONTAINS*1..]->(t)
+      WITH f, touched, collect(distinct af.file) AS affectedFiles
+      RETURN affectedFiles,
+             [x IN touched WHERE x:API AND coalesce(x.direction,'')='provided' | {method:x.method, path:x.path, file:x.file}] AS providedApis,
+             [x IN touched WHERE x:API AND coalesce(x.direction,'')='consumed' | {method:x.method, url:x.url, file:x.file}] AS consumedApis,
+             [x IN touched WHERE x:DatabaseTable | {table:x.name}] AS tables,
+             [x IN touched WHERE x:Config | x.name] AS configKeys,
+             [x IN touched WHERE x:ErrorMessage | {message:x.message, file:x.file}] AS errors
+    `,
+    params: (m) => ({ file: m[5] }),
+  },
+  {
+    // 2) List provided APIs in a repository path
+    name: "provided-apis",
+    match:
+      /(list|show).*(provided\s+apis|apis\s+provided).*?(in|for).*(repo|repository|path)\s+["'`](.+?)["'`]/i,
+    cypher: `
+      MATCH (a:API {direction:"provided"})
+      WHERE a.repoRoot CONTAINS $path
+      RETURN a.method as method, a.path as path, a.file as file
+      ORDER BY a.file, a.path
+    `,
+    params: (m) => ({ path: m[6] }),
+  },
+  {
+    // 3) List consumed APIs in a repository path
+    name: "consumed-apis",
+    match:
+      /(list|show).*(consumed\s+apis|apis\s+consumed).*?(in|for).*(repo|repository|path)\s+["'`](.+?)["'`]/i,
+    cypher: `
+      MATCH (a:API {direction:"consumed"})
+      WHERE a.repoRoot CONTAINS $path
+      RETURN a.method as method, a.url as url, a.file as file
+      ORDER BY a.file, a.url
+    `,
+    params: (m) => ({ path: m[6] }),
+  },
+  {
+    // 4) Who calls function X
+    name: "function-callers",
+    match: /(who|which).*(calls|invokes).*(function)\s+["'`](.+?)["'`]/i,
+    cypher: `
+      MATCH (callee:Function {name: $name})
+      MATCH (caller:Function)-[:CALLS]->(callee)
+      OPTIONAL MATCH (f:File)-[:DECLARES|CONTAINS*1..]->(caller)
+      RETURN caller.name as caller, f.file as file
+      ORDER BY file, caller
+    `,
+    params: (m) => ({ name: m[4] }),
+  },
+  {
+    // 5) Configs used by a file
+    name: "file-configs",
+    match:
+      /(what|which).*(configs|config).*(used|uses).*file\s+["'`](.+?)["'`]/i,
+    cypher: `
+      MATCH (f:File {file: $file})-[:DECLARES|CONTAINS*1..]->(fn:Function)
+      MATCH (fn)-[:USES_CONFIG]->(cfg:Config)
+      RETURN cfg.name as key, f.file as file
+      ORDER BY key
+    `,
+    params: (m) => ({ file: m[4] }),
+  },
+];
 
 /**
- * Natural language → Cypher conversion with simple heuristics.
- * Also supports raw Cypher when prompt starts with "CYPHER:".
+ * Natural language → Cypher conversion: fixed templates for common intents, then the
+ * schema-aware planner (see queryPlanner.ts), then a label-aware word search.
+ * Also supports raw Cypher when prompt starts with "CYPHER:", and named queries from
+ * the project's saved query library (`savedQuery` + `params`, see the queries tool).
+ * Results are paged: `limit` rows per page, `cursor` continues from a previous page.
+ * In read-only mode (default, QUERY_READ_ONLY) raw Cypher is checked for writes and
+ * disallowed procedure calls, and every query runs in a READ transaction.
  */
 export async function runNaturalLanguageQuery(
   driver: Driver,
-  args: { prompt: string; limit?: number }
+  args: {
+    prompt?: string;
+    savedQuery?: string;
+    params?: Record<string, unknown>;
+    repoRoot?: string; // locates the saved query library
+    limit?: number;
+    cursor?: string;
+    format?: OutputFormat;
+  }
 ): Promise<string> {
   const prompt = (args.prompt || "").trim();
+  if (!prompt && !args.savedQuery) {
+    throw new Error("Provide a prompt or a savedQuery name");
+  }
   const limit = Number.isFinite(args.limit as number)
     ? Math.max(0, Math.floor(args.limit as number))
     : 100;
+  const offset = decodeCursor(args.cursor);
+  // Fetch one extra row to know whether another page exists
+  const fetch = limit + 1;
+  const readOnly = readOnlyModeFromEnv();
+  const execute = readOnly ? runReadQuery : runQuery;
+
+  const run = async (
+    cypher: string,
+    params: Record<string, unknown>,
+    source: Pick<Partial<QueryReport>, "savedQuery" | "plan"> = {}
+  ): Promise<string> => {
+    const paging = applyPaging(cypher);
+    let rows = await execute<any>(driver, paging.cypher, {
+      ...params,
+      [SKIP_PARAM]: offset,
+      [LIMIT_PARAM]: fetch,
+    });
+    // Statements without a final RETURN (e.g. SHOW ...) are paged client-side
+    if (!paging.paged) rows = rows.slice(offset, offset + fetch);
+
+    const nextCursor =
+      limit > 0 && rows.length > limit ? encodeCursor(offset + limit) : null;
+    const page = rows.slice(0, limit);
+    if (args.format === "json") {
+      const report: QueryReport = {
+        prompt,
+        savedQuery: source.savedQuery ?? null,
+        plan: source.plan ?? null,
+        cypher: paging.cypher.trim(),
+        rows: page,
+      };
+      return renderJson("query", report, {
+        cursor: args.cursor ?? null,
+        nextCursor,
+        pageSize: limit,
+      });
+    }
+    const text = formatResult(paging.cypher, page, source.plan ?? undefined);
+    return nextCursor ? `${text}\n\nNext cursor: ${nextCursor}` : text;
+  };
+
+  // Saved query from the project library; its Cypher is user-authored like raw Cypher
+  if (args.savedQuery) {
+    const saved = findSavedQuery(
+      loadQueryLibrary(args.repoRoot),
+      args.savedQuery
+    );
+    const params = bindSavedQueryParams(saved, args.params ?? {});
+    if (readOnly)
+      assertReadOnlyCypher(saved.cypher, procedureAllowlistFromEnv());
+    return run(saved.cypher, params, {
+      savedQuery: { name: saved.name, params },
+    });
+  }
 
   // Raw Cypher passthrough
   if (/^\s*CYPHER\s*:/i.test(prompt)) {
     const cypher = prompt.replace(/^\s*CYPHER\s*:/i, "").trim();
-    const rows = await runQuery<any>(
-      driver,
-      `${cypher} LIMIT toInteger($limit)`,
-      { limit }
-    );
-    return formatResult(cypher, rows);
+    if (readOnly) assertReadOnlyCypher(cypher, procedureAllowlistFromEnv());
+    return run(cypher, {});
   }
 
-  // Advanced heuristic templates
-  const advancedTemplates: {
-    match: RegExp;
-    cypher: (m: RegExpExecArray) => string;
-  }[] = [
-    {
-      // A1) Circular function-call dependencies (optionally scoped by path/repo)
-      match:
-        /(circular|cycle|cyclic).*(function|call|dependency)(?:.*["'`](.+?)["'`])?/i,
-      cypher: (m) => {
-        const scope = m[3] ? escapeForCypher(m[3]) : null;
-        const scopeWhere = scope
-          ? `WHERE ANY(x IN files WHERE toLower(coalesce(x,"")) CONTAINS toLower("${scope}"))`
-          : "";
-        return `
-          MATCH p=(a:Function)-[:CALLS*1..8]->(a)
-          WITH p, nodes(p) AS fns
-          UNWIND fns AS fn
-          OPTIONAL MATCH (f:File)-[:DECLARES|CONTAINS*1..]->(fn)
-          WITH p, collect(distinct fn.name) AS functions, collect(distinct f.file) AS files
-          ${scopeWhere}
-          RETURN size(nodes(p)) AS cycleLength, functions, files
-          ORDER BY cycleLength DESC
-        `;
-      },
-    },
-    {
-      // A2) Repository-level API consumption cycles
-      match: /(circular|cycle|cyclic).*(api).*(repo|repository)/i,
-      cypher: () => `
-        MATCH p=(r:Repository)-[:CONSUMES_API_FROM*1..5]->(r)
-        RETURN [x IN nodes(p) | coalesce(x.name, x.repoRoot)] AS repositories, length(p) AS hops
-        ORDER BY hops DESC
-      `,
-    },
-    {
-      // A3) Impact of API response change for specified endpoint
-      match:
-        /(impact|affected|affect).*(api|endpoint).*(GET|POST|PUT|DELETE|PATCH|OPTIONS|HEAD)?[^"'`]*["'`](.+?)["'`]/i,
-      cypher: (m) => {
-        const method = (m[3] || "").toUpperCase();
-        const endpoint = escapeForCypher(m[4] || "");
-        const methodClauseProvided = method
-          ? `AND toUpper(coalesce(prov.method,"GET")) = "${method}"`
-          : "";
-        const methodClauseConsumed = method
-          ? `AND toUpper(coalesce(consumed.method,"GET")) = "${method}"`
-          : `AND toUpper(coalesce(consumed.method,"GET")) = toUpper(coalesce(prov.method,"GET"))`;
-        return `
-          MATCH (prov:API {direction:"provided"})
-          WHERE toLower(coalesce(prov.path,"")) CONTAINS toLower("${endpoint}")
-          ${methodClauseProvided}
-          OPTIONAL MATCH (pf:Function)-[:PROVIDES_API]->(prov)
-          OPTIONAL MATCH (pfile:File)-[:DECLARES|CONTAINS*1..]->(pf)
-          WITH prov, pf, pfile
-          OPTIONAL MATCH (caller:Function)-[:CALLS*1..3]->(pf)
-          OPTIONAL MATCH (cfile:File)-[:DECLARES|CONTAINS*1..]->(caller)
-          WITH prov, pfile, collect(distinct cfile.file) AS internalFiles
-          OPTIONAL MATCH (consumed:API {direction:"consumed"})
-          WHERE toLower(coalesce(consumed.url,"")) CONTAINS toLower(coalesce(prov.path,""))
-          ${methodClauseConsumed}
-          OPTIONAL MATCH (cf:Function)-[:USES_API]->(consumed)
-          OPTIONAL MATCH (cffile:File)-[:DECLARES|CONTAINS*1..]->(cf)
-          RETURN coalesce(prov.method,"GET") AS method,
-                 coalesce(prov.path, prov.url) AS route,
-                 pfile.repoRoot AS providerRepo,
-                 pfile.file AS providerFile,
-                 internalFiles AS internalAffectedFiles,
-                 collect(distinct cffile.repoRoot) AS consumerRepos,
-                 collect(distinct cffile.file) AS consumerFiles
-        `;
-      },
-    },
-  ];
-
-  // Heuristic templates
-  const templates: { match: RegExp; cypher: (m: RegExpExecArray) => string }[] =
-    [
-      // 1) Impact of a file change
-      {
-        match:
-          /(affected|impact).*(files|apis|tables|tests).*(for|if).*(file\s+)?["'`](.+?)["'`]/i,
-        cypher: (m) => {
-          const file = m[5];
-          return `
-          MATCH (f:File {file: "${escapeForCypher(file)}"})
-          OPTIONAL MATCH (f)-[:DECLARES|CONTAINS*1..]->(e)
-          OPTIONAL MATCH (e)-[:CALLS|USES_API|PROVIDES_API|QUERIES|USES_CONFIG|EMITS_ERROR*1..3]->(rel)
-          WITH f, collect(distinct e) + collect(distinct rel) as touched
-          WITH f, apoc.coll.toSet(touched) as touched
-          OPTIONAL MATCH (touched)<-[:DECLARES|CONTAINS*1..]-(af:File)
-          WITH f,
-               collect(distinct af.file) as affectedFiles,
-               [x IN touched WHERE x:API AND coalesce(x.direction,'')='provided' | {method:x.method, path:x.path, file:x.file}] as providedApis,
-               [x IN touched WHERE x:API AND coalesce(x.direction,'')='consumed' | {method:x.method, url:x.url, file:x.file}] as consumedApis,
-               [x IN touched WHERE x:DatabaseTable | {table:x.name}] as tables,
-               [x IN touched WHERE x:Config | x.name] as configKeys,
-               [x IN touched WHERE x:ErrorMessage | {message:x.message, file:x.file}] as errors
-          RETURN affectedFiles, providedApis, consumedApis, tables, configKeys, errors
-        `;
-        },
-      },
-
-      // 2) List provided APIs in a repository path
-      {
-        match:
-          /(list|show).*(provided\s+apis|apis\s+provided).*?(in|for).*(repo|repository|path)\s+["'`](.+?)["'`]/i,
-        cypher: (m) => {
-          const path = m[6];
-          return `
-          MATCH (a:API {direction:"provided"})
-          WHERE a.repoRoot CONTAINS "${escapeForCypher(path)}"
-          RETURN a.method as method, a.path as path, a.file as file
-          ORDER BY a.file, a.path
-        `;
-        },
-      },
-
-      // 3) List consumed APIs in a repository path
-      {
-        match:
-          /(list|show).*(consumed\s+apis|apis\s+consumed).*?(in|for).*(repo|repository|path)\s+["'`](.+?)["'`]/i,
-        cypher: (m) => {
-          const path = m[6];
-          return `
-          MATCH (a:API {direction:"consumed"})
-          WHERE a.repoRoot CONTAINS "${escapeForCypher(path)}"
-          RETURN a.method as method, a.url as url, a.file as file
-          ORDER BY a.file, a.url
-        `;
-        },
-      },
-
-      // 4) Who calls function X
-      {
-        match: /(who|which).*(calls|invokes).*(function)\s+["'`](.+?)["'`]/i,
-        cypher: (m) => {
-          const fn = m[4];
-          return `
-          MATCH (callee:Function {name: "${escapeForCypher(fn)}"})
-          MATCH (caller:Function)-[:CALLS]->(callee)
-          OPTIONAL MATCH (f:File)-[:DECLARES|CONTAINS*1..]->(caller)
-          RETURN caller.name as caller, f.file as file
-          ORDER BY file, caller
-        `;
-        },
-      },
-
-      // 5) Configs used by a file
-      {
-        match:
-          /(what|which).*(configs|config).*(used|uses).*file\s+["'`](.+?)["'`]/i,
-        cypher: (m) => {
-          const file = m[4];
-          return `
-          MATCH (f:File {file: "${escapeForCypher(
-            file
-          )}"})-[:DECLARES|CONTAINS*1..]->(fn:Function)
-          MATCH (fn)-[:USES_CONFIG]->(cfg:Config)
-          RETURN cfg.name as key, f.file as file
-          ORDER BY key
-        `;
-        },
-      },
-    ];
-
-  // Try advanced templates first
-  for (const t of advancedTemplates) {
+  for (const t of QUERY_TEMPLATES) {
     const m = t.match.exec(prompt);
-    if (m) {
-      const cypher = withLimit(t.cypher(m), limit);
-      const rows = await runQuery<any>(driver, cypher, {});
-      return formatResult(cypher, rows);
-    }
+    if (m) return run(t.cypher, t.params ? t.params(m) : {});
   }
 
-  // Then basic templates
-  for (const t of templates) {
-    const m = t.match.exec(prompt);
-    if (m) {
-      const cypher = withLimit(t.cypher(m), limit);
-      const rows = await runQuery<any>(driver, cypher, {});
-      return formatResult(cypher, rows);
-    }
-  }
+  const plan = planQuery(prompt, await introspectSchema(driver));
+  if (plan) return run(plan.cypher, plan.params, { plan: plan.steps });
+
+  const fallback = buildFallback(prompt);
+  return run(fallback.cypher, fallback.params);
+}
 
-  // Smarter label-aware fallback
+/** Smarter label-aware fallback: search the words of the prompt. */
+function buildFallback(prompt: string): {
+  cypher: string;
+  params: Record<string, unknown>;
+} {
   const words = prompt
     .toLowerCase()
     .replace(/[^a-z0-9_\/\.-]+/g, " ")
@@ -223,82 +302,123 @@ export async function runNaturalLanguageQuery(
   const hasFunc = /(function|call|invoke|caller|callee)/i.test(prompt);
   const hasFile = /(file|path)/i.test(prompt) || /[\/\.]/.test(prompt);
 
-  const wordsArray = words.map((w) => escapeForCypher(w));
-  const wordsList = wordsArray.map((w) => `"${w}"`).join(", ");
-
-  let fallbackCypher = "";
-
   if (hasApi) {
     // Focus on API nodes and common properties
-    fallbackCypher = `
-    WITH [${wordsList}] AS ws
-    MATCH (a:API)
-    WHERE ANY(w IN ws WHERE toLower(coalesce(a.path, a.url, "")) CONTAINS w
-                      OR toLower(coalesce(a.method, "")) = w
-                      OR toLower(coalesce(a.repoRoot, "")) CONTAINS w)
-    RETURN a.direction AS direction,
-           coalesce(a.method,"GET") AS method,
-           coalesce(a.path, a.url) AS route,
-           a.file AS file,
-           a.repoRoot AS repoRoot
-    ORDER BY repoRoot, file, route
-    LIMIT ${limit}
-    `;
-  } else if (hasFunc) {
+    return {
+      cypher: `
+      MATCH (a:API)
+      WHERE ANY(w IN $words WHERE toLower(coalesce(a.path, a.url, "")) CONTAINS w
+                             OR toLower(coalesce(a.method, "")) = w
+                             OR toLower(coalesce(a.repoRoot, "")) CONTAINS w)
+      RETURN a.direction AS direction,
+             coalesce(a.method,"GET") AS method,
+             coalesce(a.path, a.url) AS route,
+             a.file AS file,
+             a.repoRoot AS repoRoot
+      ORDER BY repoRoot, file, route
+      `,
+      params: { words },
+    };
+  }
+  if (hasFunc) {
     // Surface function names and CALLS edges
-    fallbackCypher = `
-    WITH [${wordsList}] AS ws
-    OPTIONAL MATCH (caller:Function)-[:CALLS]->(callee:Function)
-    WITH ws, caller, callee
-    WHERE ANY(w IN ws WHERE toLower(coalesce(caller.name,"")) CONTAINS w
-                      OR toLower(coalesce(callee.name,"")) CONTAINS w)
-    OPTIONAL MATCH (cf:File)-[:DECLARES|CONTAINS*1..]->(caller)
-    OPTIONAL MATCH (ff:File)-[:DECLARES|CONTAINS*1..]->(callee)
-    RETURN caller.name AS caller, cf.file AS callerFile, callee.name AS callee, ff.file AS calleeFile
-    ORDER BY callerFile, caller, callee
-    LIMIT ${limit}
-    `;
-  } else if (hasFile) {
+    return {
+      cypher: `
+      MATCH (caller:Function)-[:CALLS]->(callee:Function)
+      WHERE ANY(w IN $words WHERE toLower(coalesce(caller.name,"")) CONTAINS w
+                             OR toLower(coalesce(callee.name,"")) CONTAINS w)
+      OPTIONAL MATCH (cf:File)-[:DECLARES|CONTAINS*1..]->(caller)
+      OPTIONAL MATCH (ff:File)-[:DECLARES|CONTAINS*1..]->(callee)
+      RETURN caller.name AS caller, cf.file AS callerFile, callee.name AS callee, ff.file AS calleeFile
+      ORDER BY callerFile, caller, callee
+      `,
+      params: { words },
+    };
+  }
+  if (hasFile) {
     // File-centric search using file path and repoRoot
-    fallbackCypher = `
-    WITH [${wordsList}] AS ws
-    MATCH (f:File)
-    WHERE ANY(w IN ws WHERE toLower(coalesce(f.file,"")) CONTAINS w
-                      OR toLower(coalesce(f.repoRoot,"")) CONTAINS w)
-    RETURN f.file AS file, f.repoRoot AS repoRoot
-    ORDER BY repoRoot, file
-    LIMIT ${limit}
-    `;
-  } else {
-    // Generic cross-label property search (as before)
-    const genericWhere = words
-      .map(
-        (w) =>
-          `ANY(k IN keys(n) WHERE toString(n[k]) CONTAINS "${escapeForCypher(
-            w
-          )}")`
-      )
-      .join(" AND ");
-    fallbackCypher = `
-    MATCH (n)
-    WHERE ${genericWhere}
-    RETURN labels(n) as labels, n.id as id, n.name as name, n.file as file, n.repoRoot as repoRoot
-    LIMIT ${limit}
-    `;
+    return {
+      cypher: `
+      MATCH (f:File)
+      WHERE ANY(w IN $words WHERE toLower(coalesce(f.file,"")) CONTAINS w
+                             OR toLower(coalesce(f.repoRoot,"")) CONTAINS w)
+      RETURN f.file AS file, f.repoRoot AS repoRoot
+      ORDER BY repoRoot, file
+      `,
+      params: { words },
+    };
   }
+  // Generic cross-label property search: every word must appear in some property
+  return {
+    cypher: `
+      MATCH (n)
+      WHERE ALL(w IN $words WHERE ANY(k IN keys(n) WHERE toString(n[k]) CONTAINS w))
+      RETURN labels(n) as labels, n.id as id, n.name as name, n.file as file, n.repoRoot as repoRoot
+    `,
+    params: { words },
+  };
+}
 
-  const rows = await runQuery<any>(driver, fallbackCypher, {});
-  return formatResult(fallbackCypher, rows);
+// Parameter names reserved for paging; unlikely to clash with template parameters
+const SKIP_PARAM = "_pageSkip";
+const LIMIT_PARAM = "_pageLimit";
+
+/**
+ * Add SKIP/LIMIT paging to a statement, looking at its top-level clauses only
+ * (strings, comments and subquery bodies are ignored):
+ * - single query ending in RETURN: append SKIP/LIMIT after it (also after ORDER BY)
+ * - UNION, or a final RETURN that already has SKIP/LIMIT: wrap in CALL { ... } RETURN *
+ *   and page the combined result, keeping the query's own LIMIT as an upper bound
+ * - no final RETURN (SHOW, standalone CALL): leave unchanged (`paged: false`)
+ */
+function applyPaging(cypher: string): { cypher: string; paged: boolean } {
+  const body = cypher.trim().replace(/;\s*$/, "");
+  const clauses = topLevelKeywords(stripCypherLiterals(body));
+  const returns = clauses.filter((c) => c.keyword === "RETURN");
+  if (!returns.length) return { cypher: body, paged: false };
+
+  const lastReturn = returns[returns.length - 1].index;
+  const hasUnion = clauses.some((c) => c.keyword === "UNION");
+  const hasOwnPaging = clauses.some(
+    (c) =>
+      (c.keyword === "LIMIT" || c.keyword === "SKIP") && c.index > lastReturn
+  );
+  const paging = `SKIP toInteger($${SKIP_PARAM}) LIMIT toInteger($${LIMIT_PARAM})`;
+
+  if (hasUnion || hasOwnPaging) {
+    return { cypher: `CALL {\n${body}\n}\nRETURN *\n${paging}`, paged: true };
+  }
+  return { cypher: `${body}\n${paging}`, paged: true };
 }
 
-function withLimit(cypher: string, limit: number): string {
-  // Append LIMIT unless query already contains explicit LIMIT
-  if (/limit\s+\d+/i.test(cypher)) return cypher;
-  return `${cypher}\nLIMIT ${limit}`;
+function topLevelKeywords(code: string): { keyword: string; index: number }[] {
+  // depth at each offset: (), [] and {} nest; keywords inside do not count
+  const depthAt: number[] = [];
+  let depth = 0;
+  for (let i = 0; i < code.length; i++) {
+    const ch = code[i];
+    if (ch === ")" || ch === "]" || ch === "}") depth = Math.max(0, depth - 1);
+    depthAt.push(depth);
+    if (ch === "(" || ch === "[" || ch === "{") depth++;
+  }
+
+  const found: { keyword: string; index: number }[] = [];
+  // not a property, label, parameter or alias (`AS limit`)
+  const keywords = /(?<![\w.:$])(?<!\bAS\s+)(UNION|RETURN|LIMIT|SKIP)\b/gi;
+  for (const m of code.matchAll(keywords)) {
+    if (depthAt[m.index!] === 0) {
+      found.push({ keyword: m[1].toUpperCase(), index: m.index! });
+    }
+  }
+  return found;
 }
 
-function formatResult(cypher: string, rows: any[]): string {
+function formatResult(cypher: string, rows: any[], plan?: string[]): string {
+  const planLines = plan
+    ? ["Plan", "----", ...plan.map((p) => `- ${p}`), ""]
+    : [];
   return [
+    ...planLines,
     "Query",
     "-----",
     cypher.trim(),
@@ -307,7 +427,3 @@ function formatResult(cypher: string, rows: any[]): string {
     JSON.stringify(rows, null, 2),
   ].join("\n");
 }
-
-function escapeForCypher(s: string): string {
-  return s.replace(/\\/g, "\\\\").replace(/"/g, '\\"');
-}
@@ -0,0 +1,812 @@
+import { EntityType, RelationshipType } from "../scanner/types.js";
+import {
+  GraphSchema,
+  hasProperty,
+  identifyingProperties,
+} from "../neo4j/graphSchema.js";
+
+/** Cypher composed from a prompt, with a readable account of how. */
+export interface QueryPlan {
+  cypher: string;
+  params: Record<string, unknown>;
+  steps: string[];
+}
+
+interface Mention {
+  label: string;
+  start: number; // offsets in the prompt
+  end: number;
+  value?: string;
+  role?: "from" | "to"; // "callers" / "callees"
+  direction?: "provided" | "consumed"; // API adjectives
+  implicit?: boolean; // inferred from a verb, not named in the prompt
+}
+
+interface Verb {
+  type: string;
+  start: number;
+  end: number;
+}
+
+interface EdgeLike {
+  type: string;
+  from: string;
+  to: string;
+}
+
+interface Hop {
+  edge: EdgeLike;
+  forward: boolean; // walked from -> to
+  label: string; // label reached by this hop
+}
+
+const MAX_HOPS = 3;
+// Costlier joins are guesses; the word search does better with those prompts
+const MAX_PATH_COST = 7;
+const MAX_MENTIONS = 4;
+
+// Words naming each label; longer phrases win over their prefixes
+const LABEL_WORDS: Record<EntityType, string[]> = {
+  Repository: [
+    "repository",
+    "repositories",
+    "repo",
+    "repos",
+    "service",
+    "services",
+  ],
+  File: ["file", "files", "module", "modules"],
+  Class: ["class", "classes"],
+  Function: [
+    "function",
+    "functions",
+    "method",
+    "methods",
+    "func",
+    "caller",
+    "callers",
+    "callee",
+    "callees",
+    "handler",
+    "handlers",
+  ],
+  Variable: ["variable", "variables", "var", "vars"],
+  API: ["api", "apis", "endpoint", "endpoints", "route", "routes"],
+  Package: [
+    "package",
+    "packages",
+    "dependency",
+    "dependencies",
+    "library",
+    "libraries",
+  ],
+  DatabaseTable: ["table", "tables", "database table", "database tables"],
+  DatabaseColumn: ["column", "columns"],
+  Config: [
+    "config",
+    "configs",
+    "configuration",
+    "configurations",
+    "setting",
+    "settings",
+    "env var",
+    "env vars",
+    "environment variable",
+    "environment variables",
+  ],
+  Test: ["test", "tests", "spec", "specs"],
+  ErrorMessage: [
+    "error",
+    "errors",
+    "error message",
+    "error messages",
+    "exception",
+    "exceptions",
+  ],
+  SpringDataRepository: [
+    "spring data repository",
+    "spring data repositories",
+    "jpa repository",
+    "jpa repositories",
+    "data repository",
+    "data repositories",
+  ],
+  SecurityComponent: [
+    "security component",
+    "security components",
+    "security filter",
+    "security filters",
+    "security config",
+  ],
+  TypeDefinition: [
+    "type",
+    "types",
+    "type definition",
+    "type definitions",
+    "dto",
+    "dtos",
+    "interface",
+    "interfaces",
+  ],
+  Developer: [
+    "developer",
+    "developers",
+    "author",
+    "authors",
+    "contributor",
+    "contributors",
+    "dev",
+    "devs",
+    "people",
+  ],
+  Team: ["team", "teams", "owner", "owners"],
+  Commit: ["commit", "commits"],
+};
+
+const ROLE_WORDS: Record<string, "from" | "to"> = {
+  caller: "from",
+  callers: "from",
+  callee: "to",
+  callees: "to",
+};
+
+const USE = String.raw`us(?:e|es|ed|ing)|consum(?:e|es|ed|ing)|depend(?:s|ed|ing)?\s+on`;
+const PROVIDE = String.raw`provid(?:e|es|ed|ing)|expos(?:e|es|ed|ing)|serv(?:e|es|ed|ing)|handl(?:e|es|ed|ing)`;
+const QUERY = String.raw`quer(?:y|ies|ied|ying)|read(?:s|ing)?|select(?:s|ed|ing)?|access(?:es|ed|ing)?`;
+const RETURN = String.raw`return(?:s|ed|ing)?|respond(?:s|ed)?\s+with`;
+const ACCEPT = String.raw`accept(?:s|ed|ing)?|tak(?:e|es|ing)|request\s+bod(?:y|ies)`;
+const COMMIT = String.raw`commit(?:s|ted)?|author(?:s|ed)?`;
+
+// Verbs that hint at each relationship type (whole-word, case-insensitive)
+const RELATIONSHIP_WORDS: Record<RelationshipType, string> = {
+  CONTAINS: String.raw`contain(?:s|ed|ing)?|inside`,
+  DECLARES: String.raw`declar(?:e|es|ed|ing)|defin(?:e|es|ed|ing)`,
+  HAS_FUNCTION: String.raw`ha(?:s|ve)\s+(?:functions?|methods?)`,
+  CALLS: String.raw`call(?:s|ed|ing|ers?)?|invok(?:e|es|ed|ing)|callees?`,
+  USES_API: USE,
+  PROVIDES_API: PROVIDE,
+  QUERIES: QUERY,
+  HAS_COLUMN: String.raw`ha(?:s|ve)\s+columns?`,
+  USES_CONFIG: `${USE}|read(?:s|ing)?`,
+  TESTS: String.raw`test(?:s|ed|ing)?|cover(?:s|ed|ing)?`,
+  EMITS_ERROR: String.raw`emit(?:s|ted|ting)?|throw(?:s|n|ing)?|rais(?:e|es|ed|ing)|log(?:s|ged)?`,
+  REPO_PROVIDES_API: PROVIDE,
+  REPO_USES_API: USE,
+  CONSUMES_API_FROM: USE,
+  REPO_DEPENDS_ON_PACKAGE: `${USE}|import(?:s|ed|ing)?`,
+  SHARES_PACKAGE_WITH: String.raw`shar(?:e|es|ed|ing)`,
+  READS_FROM: String.raw`read(?:s|ing)?`,
+  WRITES_TO: String.raw`writ(?:e|es|ing|ten)|assign(?:s|ed)?|mutat(?:e|es|ed)`,
+  TRANSFORMS: String.raw`transform(?:s|ed|ing)?`,
+  PASSES_TO: String.raw`pass(?:es|ed|ing)?`,
+  DERIVES_FROM: String.raw`deriv(?:e|es|ed|ing)`,
+  DEPENDS_ON: String.raw`depend(?:s|ed|ing)?`,
+  IMPORTS: String.raw`import(?:s|ed|ing)?|requir(?:e|es|ed|ing)`,
+  USES_PACKAGE: `${USE}|import(?:s|ed|ing)?`,
+  EXTENDS: String.raw`extend(?:s|ed|ing)?|inherit(?:s|ed|ing)?|subclass(?:es|ed)?`,
+  IMPLEMENTS: String.raw`implement(?:s|ed|ing)?`,
+  OVERRIDES: String.raw`overrid(?:e|es|den|ing)`,
+  REPOSITORY_FOR_ENTITY: String.raw`manag(?:e|es|ed|ing)|persist(?:s|ed)?`,
+  REPOSITORY_QUERIES_TABLE: QUERY,
+  REPOSITORY_HAS_METHOD: String.raw`ha(?:s|ve)\s+(?:functions?|methods?)`,
+  SECURED_BY: String.raw`secur(?:e|es|ed|ing)|protect(?:s|ed|ing)?`,
+  AUTHENTICATES: String.raw`authenticat(?:e|es|ed|ing)`,
+  PROVIDES_USER_DETAILS: String.raw`user\s+details`,
+  USES_SECURITY_FILTER: String.raw`filter(?:s|ed)?`,
+  ACCESSES_TABLE: QUERY,
+  QUERIES_COLUMN: QUERY,
+  SECURES_API: String.raw`secur(?:e|es|ed|ing)|protect(?:s|ed|ing)?`,
+  USED_BY: USE,
+  RETURNS_TYPE: RETURN,
+  USES_TYPE: `${USE}|${ACCEPT}`,
+  IMPLEMENTS_TYPE: String.raw`implement(?:s|ed|ing)?|extend(?:s|ed|ing)?`,
+  API_RETURNS_TYPE: RETURN,
+  API_ACCEPTS_TYPE: ACCEPT,
+  SPECIFIES: String.raw`specif(?:y|ies|ied|ying)|document(?:s|ed|ing)?`,
+  BELONGS_TO: String.raw`belong(?:s|ed|ing)?|members?\s+of`,
+  CONTRIBUTED_TO: String.raw`contribut(?:e|es|ed|ing|ors?)|work(?:s|ed)?\s+on`,
+  OWNS_REPOSITORY: String.raw`own(?:s|ed|ing|ers?)?|maintain(?:s|ed|ers?)?`,
+  COMMITTED: COMMIT,
+  CONTAINS_COMMIT: COMMIT,
+  MODIFIED_FILE: String.raw`modif(?:y|ies|ied)|chang(?:e|es|ed)|touch(?:es|ed)?|edit(?:s|ed)?`,
+  COLLABORATES_WITH: String.raw`collaborat(?:e|es|ed|ing|ors?)|work(?:s|ed)?\s+with`,
+  AUTHORED_BY: String.raw`author(?:s|ed)?`,
+  MANAGES_TEAM: String.raw`manag(?:e|es|ed|ing|ers?)|lead(?:s|ers?)?`,
+  HAS_MEMBER: String.raw`members?`,
+};
+
+// Result column names for labels whose lower-cased name reads badly
+const COLUMN_NAMES: Partial<Record<EntityType, string>> = {
+  API: "api",
+  DatabaseTable: "table",
+  DatabaseColumn: "column",
+  ErrorMessage: "error",
+  SpringDataRepository: "springRepository",
+  SecurityComponent: "securityComponent",
+  TypeDefinition: "type",
+};
+
+const STRUCTURAL = new Set(["DECLARES", "CONTAINS", "HAS_FUNCTION"]);
+
+/**
+ * Plan a prompt against the graph schema, without any model:
+ * 1. quoted values ('x', "x", `x`) and code-like tokens (getUser, src/a.ts) become anchors
+ * 2. label words (functions, tables, repos, ...) become nodes, in prompt order
+ * 3. verbs (calls, queries, provides, ...) hint relationship types; "X-ed by" flips direction
+ * 4. consecutive nodes are joined by the cheapest path of at most 3 hops over the
+ *    schema edges that exist in the graph (hinted edges cheapest, then structural ones)
+ * 5. "how many" counts, "most"/"top N" ranks, "in repo 'x'" / "in path 'x'" scope
+ * Returns null when the prompt names no label and no value.
+ */
+export function planQuery(
+  prompt: string,
+  schema: GraphSchema
+): QueryPlan | null {
+  const values: { value: string; start: number; end: number }[] = [];
+  // Blank quoted values so their words are not read as labels or verbs
+  let text = prompt.replace(
+    /(^|[^\w])(["'`])(.+?)\2(?=[^\w]|$)/g,
+    (all, pre: string, _q: string, value: string, offset: number) => {
+      const start = offset + pre.length;
+      values.push({ value, start, end: start + value.length + 2 });
+      return pre + " ".repeat(all.length - pre.length);
+    }
+  );
+
+  let pathScope: string | undefined;
+  const anchors = values.filter((v) => {
+    const before = text.slice(0, v.start);
+    const m =
+      /\b(?:in|under|within|inside)\s+(?:the\s+)?(?:path|folder|directory|dir)\s*$/i.exec(
+        before
+      );
+    if (!m) return true;
+    pathScope = v.value;
+    text = blank(text, m.index, v.start);
+    return false;
+  });
+
+  const mentions = findLabelMentions(text, schema);
+  const mentionEnds = new Set(mentions.map((m) => m.end));
+
+  // Unquoted code-like tokens right after a label word, or anywhere when unmistakable
+  for (const t of text.matchAll(/[A-Za-z_$\/.@][\w$.\/#:@-]*/g)) {
+    const start = t.index!;
+    const token = t[0].replace(/[.:]+$/, "");
+    if (mentions.some((m) => start < m.end && m.start < start + token.length)) {
+      continue;
+    }
+    const afterLabel = [...mentionEnds].some((end) =>
+      /^\s+(?:named\s+|called\s+)?$/i.test(text.slice(end, start))
+    );
+    if (isCodeLike(token) || (afterLabel && /^[A-Z]\w*$/.test(token))) {
+      anchors.push({ value: token, start, end: start + token.length });
+      text = blank(text, start, start + token.length);
+    }
+  }
+  anchors.sort((a, b) => a.start - b.start);
+
+  // "function named 'x'": "named"/"called" there is not a verb
+  for (const v of anchors) {
+    const m = /\b(?:named|called)\s*$/i.exec(text.slice(0, v.start));
+    if (m) text = blank(text, m.index, v.start);
+  }
+
+  for (const v of anchors) attachValue(v, mentions, text);
+  if (!mentions.length) return null;
+
+  // Label words like "callers" or "commits" name nodes, not relationships
+  const verbs = findVerbs(text, schema).filter(
+    (v) => !mentions.some((m) => v.start < m.end && m.start < v.end)
+  );
+  const passive = /\b\w+(?:ed|en|wn)\s+by\b/i.test(text);
+
+  // Only one node: the verb names the other end
+  if (mentions.length === 1 && verbs.length) {
+    addImplicitMention(mentions, verbs, schema);
+  }
+  for (const m of mentions) {
+    if (m.label === "API") {
+      const before = text.slice(Math.max(0, m.start - 12), m.start);
+      if (/\b(?:provided|exposed|served)\s+$/i.test(before)) {
+        m.direction = "provided";
+      } else if (/\b(?:consumed|used|external|outgoing)\s+$/i.test(before)) {
+        m.direction = "consumed";
+      }
+    }
+  }
+
+  // "in repo 'x'" narrows the other nodes unless repositories are what is asked about
+  let repoScope: string | undefined;
+  const repoIndex = mentions.findIndex(
+    (m) =>
+      m.label === "Repository" &&
+      m.value !== undefined &&
+      /\b(?:in|of|within|from|for)\s+(?:the\s+)?$/i.test(text.slice(0, m.start))
+  );
+  if (
+    repoIndex >= 0 &&
+    mentions.length > 1 &&
+    !verbs.some((v) =>
+      schema.edges.some(
+        (e) =>
+          e.type === v.type &&
+          (e.from === "Repository" || e.to === "Repository")
+      )
+    )
+  ) {
+    repoScope = mentions[repoIndex].value;
+    mentions.splice(repoIndex, 1);
+  }
+
+  mentions.splice(MAX_MENTIONS);
+
+  // Join consecutive nodes
+  const chain: Hop[][] = [];
+  for (let i = 0; i + 1 < mentions.length; i++) {
+    const a = mentions[i];
+    const b = mentions[i + 1];
+    const hints = pairHints(verbs, mentions, i);
+    let sameLabelForward = !passive;
+    if (a.role === "to" || b.role === "from") sameLabelForward = false;
+    if (a.role === "from" || b.role === "to") sameLabelForward = true;
+    const path = findPath(a.label, b.label, schema, hints, sameLabelForward);
+    if (!path) return null;
+    chain.push(path);
+  }
+  joinConsumers(mentions, chain, schema);
+
+  const targetIndex = targetOf(mentions);
+
+  return buildCypher(mentions, chain, targetIndex, schema, text, {
+    repoScope,
+    pathScope,
+  });
+}
+
+function findLabelMentions(text: string, schema: GraphSchema): Mention[] {
+  const phrases: { phrase: string; label: string }[] = [];
+  for (const [label, words] of Object.entries(LABEL_WORDS)) {
+    for (const w of words) phrases.push({ phrase: w, label });
+  }
+  // Labels by their own name (also labels the catalog does not know)
+  for (const label of schema.labels) {
+    phrases.push({ phrase: label.toLowerCase(), label });
+  }
+  phrases.sort((a, b) => b.phrase.length - a.phrase.length);
+
+  const lower = text.toLowerCase();
+  const taken = new Array<boolean>(text.length).fill(false);
+  const mentions: Mention[] = [];
+  for (const { phrase, label } of phrases) {
+    const pattern = new RegExp(
+      `\\b${escapeRegex(phrase).replace(/ /g, "\\s+")}\\b`,
+      "g"
+    );
+    for (const m of lower.matchAll(pattern)) {
+      const start = m.index!;
+      const end = start + m[0].length;
+      if (taken.slice(start, end).some(Boolean)) continue;
+      taken.fill(true, start, end);
+      mentions.push({ label, start, end, role: ROLE_WORDS[phrase] });
+    }
+  }
+  return mentions.sort((a, b) => a.start - b.start);
+}
+
+function findVerbs(text: string, schema: GraphSchema): Verb[] {
+  const verbs: Verb[] = [];
+  const available = new Set<string>(schema.edges.map((e) => e.type));
+  for (const [type, words] of Object.entries(RELATIONSHIP_WORDS)) {
+    if (!available.has(type)) continue;
+    for (const m of text.matchAll(new RegExp(`\\b(?:${words})\\b`, "gi"))) {
+      verbs.push({ type, start: m.index!, end: m.index! + m[0].length });
+    }
+  }
+  // Relationship types written out (CONSUMES_API_FROM, "consumes api from")
+  for (const type of schema.relationshipTypes) {
+    const pattern = new RegExp(`\\b${type.replace(/_/g, "[\\s_]+")}\\b`, "gi");
+    for (const m of text.matchAll(pattern)) {
+      verbs.push({ type, start: m.index!, end: m.index! + m[0].length });
+    }
+  }
+  return verbs.sort(
+    (a, b) => a.start - b.start || a.type.localeCompare(b.type)
+  );
+}
+
+function attachValue(
+  v: { value: string; start: number; end: number },
+  mentions: Mention[],
+  text: string
+): void {
+  // "function 'x'", "table named users"
+  const before = [...mentions]
+    .reverse()
+    .find(
+      (m) =>
+        m.end <= v.start &&
+        m.value === undefined &&
+        /^\s*(?:(?:named|called|with\s+name|=|:)\s*)?$/i.test(
+          text.slice(m.end, v.start)
+        )
+    );
+  if (before) {
+    before.value = v.value;
+    return;
+  }
+  // "'users' table"
+  const after = mentions.find(
+    (m) =>
+      m.start >= v.end &&
+      m.value === undefined &&
+      /^\s*$/.test(text.slice(v.end, m.start))
+  );
+  if (after) {
+    after.value = v.value;
+    return;
+  }
+  mentions.push({
+    label: guessLabel(v.value),
+    start: v.start,
+    end: v.end,
+    value: v.value,
+    implicit: true,
+  });
+  mentions.sort((a, b) => a.start - b.start);
+}
+
+// Label of a bare value: paths look like files, routes like APIs, the rest like functions
+function guessLabel(value: string): string {
+  if (/^(?:\/|https?:)/i.test(value)) return "API";
+  if (/[\/\\]|\.(?:[jt]sx?|py|java|cs|go|rb|kt)$/i.test(value)) return "File";
+  return "Function";
+}
+
+function addImplicitMention(
+  mentions: Mention[],
+  verbs: Verb[],
+  schema: GraphSchema
+): void {
+  const m = mentions[0];
+  for (const verb of verbs) {
+    const edge = schema.edges.find(
+      (e) => e.type === verb.type && (e.from === m.label || e.to === m.label)
+    );
+    if (!edge) continue;
+    // The unnamed end sits on the other side of the verb ("who calls getUser");
+    // voice then decides the direction like for named nodes
+    const at = m.start >= verb.end ? verb.start : verb.end;
+    mentions.push({
+      label: edge.from === m.label ? edge.to : edge.from,
+      start: at,
+      end: at,
+      implicit: true,
+    });
+    mentions.sort((a, b) => a.start - b.start);
+    return;
+  }
+}
+
+// The node asked for: the first open one the prompt names ("most called functions"),
+// else one a verb implies ("who calls getUser")
+function targetOf(mentions: Mention[]): number {
+  const named = mentions.findIndex((m) => m.value === undefined && !m.implicit);
+  if (named >= 0) return named;
+  return Math.max(
+    0,
+    mentions.findIndex((m) => m.value === undefined)
+  );
+}
+
+/**
+ * Consumed and provided APIs are separate nodes, so a repository using APIs that
+ * another provides never meets it through an API: such a join, when the API is not
+ * asked for, becomes consumer -[:CONSUMES_API_FROM]-> provider.
+ */
+function joinConsumers(
+  mentions: Mention[],
+  chain: Hop[][],
+  schema: GraphSchema
+): void {
+  const edge = schema.edges.find((e) => e.type === "CONSUMES_API_FROM");
+  if (!edge) return;
+  for (let i = 1; i + 1 < mentions.length; i++) {
+    const [before, after] = [chain[i - 1], chain[i]];
+    const types = [before, after].map((hops) =>
+      hops.length === 1 ? hops[0].edge.type : ""
+    );
+    if (
+      mentions[i].label !== "API" ||
+      mentions[i].value !== undefined ||
+      targetOf(mentions) === i ||
+      !types.includes("REPO_USES_API") ||
+      !types.includes("REPO_PROVIDES_API")
+    ) {
+      continue;
+    }
+    const forward = types[0] === "REPO_USES_API";
+    mentions.splice(i, 1);
+    chain.splice(i - 1, 2, [{ edge, forward, label: edge.to }]);
+    i--;
+  }
+}
+
+/** Verbs between two consecutive nodes, else verbs not between any pair. */
+function pairHints(verbs: Verb[], mentions: Mention[], i: number): Set<string> {
+  const between = (j: number) =>
+    verbs.filter(
+      (v) => v.start >= mentions[j].end && v.end <= mentions[j + 1].start
+    );
+  const own = between(i);
+  if (own.length) return new Set(own.map((v) => v.type));
+  const claimed = new Set<Verb>();
+  for (let j = 0; j + 1 < mentions.length; j++) {
+    for (const v of between(j)) claimed.add(v);
+  }
+  return new Set(verbs.filter((v) => !claimed.has(v)).map((v) => v.type));
+}
+
+/**
+ * Cheapest path from label `a` to label `b` (1..MAX_HOPS hops, edges walkable both
+ * ways). Cost per hop: hinted 1, structural 2, other 3; +3 when hints exist but the
+ * path uses none. Ties go to fewer hops, then to catalog order; null above MAX_PATH_COST.
+ */
+function findPath(
+  a: string,
+  b: string,
+  schema: GraphSchema,
+  hints: Set<string>,
+  sameLabelForward: boolean
+): Hop[] | null {
+  const edges: EdgeLike[] = [...schema.edges];
+  // Hinted types the catalog has no endpoints for connect the two nodes directly
+  for (const type of hints) {
+    if (!edges.some((e) => e.type === type))
+      edges.push({ type, from: a, to: b });
+  }
+
+  let best: { hops: Hop[]; cost: number } | null = null;
+  const visit = (label: string, hops: Hop[]) => {
+    if (hops.length && label === b) {
+      const hinted = hops.some((h) => hints.has(h.edge.type));
+      const cost =
+        hops.reduce(
+          (sum, h) =>
+            sum +
+            (hints.has(h.edge.type) ? 1 : STRUCTURAL.has(h.edge.type) ? 2 : 3),
+          0
+        ) + (hints.size && !hinted ? 3 : 0);
+      if (
+        !best ||
+        cost < best.cost ||
+        (cost === best.cost && hops.length < best.hops.length)
+      ) {
+        best = { hops: [...hops], cost };
+      }
+    }
+    if (hops.length >= MAX_HOPS) return;
+    const last = hops[hops.length - 1];
+    for (const edge of edges) {
+      const moves: Hop[] = [];
+      if (edge.from === edge.to) {
+        if (edge.from === label) {
+          moves.push({ edge, forward: sameLabelForward, label });
+        }
+      } else {
+        if (edge.from === label)
+          moves.push({ edge, forward: true, label: edge.to });
+        if (edge.to === label)
+          moves.push({ edge, forward: false, label: edge.from });
+      }
+      for (const move of moves) {
+        // Walking straight back over the same kind of edge adds nothing
+        if (last && last.edge === edge && last.forward !== move.forward)
+          continue;
+        hops.push(move);
+        visit(move.label, hops);
+        hops.pop();
+      }
+    }
+  };
+  visit(a, []);
+  const found = best as { hops: Hop[]; cost: number } | null;
+  return found && found.cost <= MAX_PATH_COST ? found.hops : null;
+}
+
+function buildCypher(
+  mentions: Mention[],
+  chain: Hop[][],
+  targetIndex: number,
+  schema: GraphSchema,
+  text: string,
+  scope: { repoScope?: string; pathScope?: string }
+): QueryPlan {
+  const params: Record<string, unknown> = {};
+  const steps: string[] = [
+    `Schema: ${
+      schema.live
+        ? `live (${schema.labels.length} labels, ${schema.relationshipTypes.length} relationship types)`
+        : "static catalog"
+    }`,
+  ];
+  const where: string[] = [];
+
+  const nodePattern = (m: Mention, i: number) => {
+    const props = m.direction ? ` {direction: $direction${i}}` : "";
+    if (m.direction) params[`direction${i}`] = m.direction;
+    return `(n${i}:${quoteName(m.label)}${props})`;
+  };
+
+  let pattern = nodePattern(mentions[0], 0);
+  let hopVar = 0;
+  chain.forEach((hops, i) => {
+    hops.forEach((hop, h) => {
+      const rel = `[:${quoteName(hop.edge.type)}]`;
+      pattern += hop.forward ? `-${rel}->` : `<-${rel}-`;
+      pattern +=
+        h === hops.length - 1
+          ? nodePattern(mentions[i + 1], i + 1)
+          : `(x${++hopVar}:${quoteName(hop.label)})`;
+    });
+    steps.push(
+      `Join ${describe(mentions[i])} → ${describe(mentions[i + 1])}: ${hops
+        .map((h) =>
+          h.forward ? `-[:${h.edge.type}]->` : `<-[:${h.edge.type}]-`
+        )
+        .join(" ")}`
+    );
+  });
+
+  mentions.forEach((m, i) => {
+    if (m.value === undefined) return;
+    params[`value${i}`] = m.value;
+    params[`keys${i}`] = identifyingProperties(schema, m.label);
+    where.push(
+      `ANY(k IN $keys${i} WHERE toLower(toString(n${i}[k])) = toLower($value${i})` +
+        ` OR (k IN ["file", "path", "url"] AND toLower(toString(n${i}[k])) ENDS WITH toLower($value${i})))`
+    );
+    steps.push(`Anchor ${describe(m)}`);
+  });
+
+  const target = mentions[targetIndex];
+  const t = `n${targetIndex}`;
+  if (scope.repoScope !== undefined) {
+    params.repoScope = scope.repoScope;
+    where.push(
+      `toLower(coalesce(${t}.repoRoot, "")) CONTAINS toLower($repoScope)`
+    );
+    steps.push(`Scope: repoRoot contains '${scope.repoScope}'`);
+  }
+  if (scope.pathScope !== undefined) {
+    params.pathScope = scope.pathScope;
+    where.push(`coalesce(${t}.file, "") CONTAINS $pathScope`);
+    steps.push(`Scope: file path contains '${scope.pathScope}'`);
+  }
+
+  const lines = [`MATCH ${pattern}`];
+  if (where.length) lines.push(`WHERE ${where.join("\n  AND ")}`);
+
+  // Result columns: the target first, then the other named nodes
+  const used = new Set<string>();
+  const columnsFor = (i: number) => {
+    const m = mentions[i];
+    const v = `n${i}`;
+    const keys = identifyingProperties(schema, m.label);
+    const base = m.role
+      ? m.role === "from"
+        ? "caller"
+        : "callee"
+      : COLUMN_NAMES[m.label as EntityType] ??
+        m.label.charAt(0).toLowerCase() + m.label.slice(1);
+    let name = base;
+    for (let n = 2; used.has(name); n++) name = `${base}${n}`;
+    used.add(name);
+
+    const cols = [
+      {
+        expr:
+          keys.length === 1
+            ? `${v}.${keys[0]}`
+            : `coalesce(${keys.map((k) => `${v}.${k}`).join(", ")})`,
+        name,
+      },
+    ];
+    if (
+      !keys.includes("file") &&
+      m.label !== "Repository" &&
+      hasProperty(schema, m.label, "file")
+    ) {
+      cols.push({ expr: `${v}.file`, name: `${name}File` });
+    }
+    if (i === targetIndex && hasProperty(schema, m.label, "repoRoot")) {
+      cols.push({ expr: `${v}.repoRoot`, name: "repoRoot" });
+    }
+    return cols;
+  };
+  const order = [
+    targetIndex,
+    ...mentions.map((_, i) => i).filter((i) => i !== targetIndex),
+  ];
+  const targetColumns = columnsFor(targetIndex);
+  const columns = [
+    ...targetColumns,
+    ...order.slice(1).flatMap((i) => columnsFor(i)),
+  ];
+  steps.unshift(`Target: ${describe(target)}`);
+
+  const ranking = /\b(most|top|least|fewest|busiest|biggest|largest)\b/i.exec(
+    text
+  );
+  if (/\b(how\s+many|count|number\s+of)\b/i.test(text) && !ranking) {
+    lines.push(`RETURN count(DISTINCT ${t}) AS count`);
+    steps.push("Aggregate: count");
+  } else if (ranking) {
+    const ascending = /^(least|fewest)$/i.test(ranking[1]);
+    const other =
+      order.slice(1).find((i) => mentions[i].value === undefined) ?? order[1];
+    const score =
+      other === undefined
+        ? `size([(${t})--() | 1])`
+        : `count(DISTINCT n${other})`;
+    const top = /\btop\s+(\d+)\b/i.exec(text);
+    lines.push(
+      `WITH ${t}, ${score} AS score`,
+      `RETURN ${targetColumns
+        .map((c) => `${c.expr} AS ${c.name}`)
+        .join(", ")}, score`,
+      `ORDER BY score ${ascending ? "ASC" : "DESC"}, ${targetColumns[0].name}`
+    );
+    if (top) {
+      params.top = Number(top[1]);
+      lines.push("LIMIT toInteger($top)");
+    }
+    steps.push(
+      `Rank: ${
+        other === undefined
+          ? "relationship count"
+          : `distinct ${describe(mentions[other])}`
+      } ${ascending ? "ascending" : "descending"}${
+        top ? `, top ${top[1]}` : ""
+      }`
+    );
+  } else {
+    lines.push(
+      `RETURN DISTINCT ${columns
+        .map((c) => `${c.expr} AS ${c.name}`)
+        .join(",\n       ")}`,
+      `ORDER BY ${columns
+        .filter((c) => c.name !== "repoRoot")
+        .map((c) => c.name)
+        .join(", ")}`
+    );
+  }
+
+  return { cypher: lines.join("\n"), params, steps };
+}
+
+function describe(m: Mention): string {
+  const label = m.direction ? `${m.label}(${m.direction})` : m.label;
+  return m.value !== undefined ? `${label} '${m.value}'` : label;
+}
+
+function isCodeLike(token: string): boolean {
+  return (
+    /[a-z][A-Z]/.test(token) || // camelCase
+    /\w_\w/.test(token) || // snake_case
+    /\w\.\w/.test(token) || // Foo.bar, a.ts
+    /[\/#]|::/.test(token) // paths, routes, Class#method
+  );
+}
+
+function quoteName(name: string): string {
+  return /^[A-Za-z_]\w*$/.test(name) ? name : `\`${name.replace(/`/g, "``")}\``;
+}
+
+function blank(text: string, start: number, end: number): string {
+  return text.slice(0, start) + " ".repeat(end - start) + text.slice(end);
+}
+
+function escapeRegex(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
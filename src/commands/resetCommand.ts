@@ -1,70 +1,89 @@
-import { Driver } from "neo4j-driver";
+import { Driver, Session } from "neo4j-driver";
+import { createHash } from "crypto";
+import { toNumber } from "../neo4j/connection.js";
 import { Logger } from "../utils/logger.js";
+import { OutputFormat, renderJson } from "./output.js";
 
 const logger = new Logger("ResetCommand");
 
+const DEFAULT_BATCH_SIZE = 10000;
+
+export interface ResetScope {
+  repoRoot?: string; // only nodes of this repository
+  snapshotVersion?: string; // only data written by this scan
+}
+
+/** `data` of the reset tool's JSON output */
+export interface ResetReport {
+  scope: { repoRoot: string | null; snapshotVersion: string | null };
+  status: "dry_run" | "deleted" | "empty" | "token_mismatch";
+  counts: { nodes: number; relationships: number }; // in scope before deletion
+  deleted: { nodes: number; relationships: number; batches: number } | null;
+  // Pass back as `confirm` to delete; null once deleted or when nothing is in scope
+  confirmationToken: string | null;
+}
+
 /**
- * Reset the Neo4j database by deleting all nodes and relationships
+ * Reset the Neo4j database, or a slice of it:
+ * - Scope: whole database, one repository (repoRoot), one scan (snapshotVersion), or both
+ * - Without a matching `confirm` token (or with dryRun) only counts what would be deleted
+ *   and returns the token; the token is bound to the scope and the counts it was issued for
+ * - Deletes in batches of `batchSize`, one transaction per batch, so large graphs do not
+ *   exhaust transaction memory
  */
 export async function runReset(
   driver: Driver,
-  options?: { confirm?: boolean }
+  options: ResetScope & {
+    confirm?: string;
+    dryRun?: boolean;
+    batchSize?: number;
+    format?: OutputFormat;
+  } = {}
 ): Promise<string> {
+  const scope = {
+    repoRoot: options.repoRoot ?? null,
+    snapshotVersion: options.snapshotVersion ?? null,
+  };
+  const batchSize = Math.max(
+    100,
+    Math.min(100000, Math.floor(options.batchSize ?? DEFAULT_BATCH_SIZE))
+  );
   const session = driver.session();
-  
+
   try {
-    // First, get counts before deletion
-    const countResult = await session.run(`
-      MATCH (n)
-      WITH count(n) as nodeCount
-      MATCH ()-[r]->()
-      RETURN nodeCount, count(r) as relationshipCount
-    `);
-    
-    const nodeCount = countResult.records[0]?.get('nodeCount')?.toNumber() || 0;
-    const relationshipCount = countResult.records[0]?.get('relationshipCount')?.toNumber() || 0;
-    
-    if (nodeCount === 0 && relationshipCount === 0) {
-      return "Database is already empty. Nothing to reset.";
-    }
-    
-    // Delete all relationships first, then nodes
-    logger.info(`Resetting database: ${nodeCount} nodes, ${relationshipCount} relationships`);
-    
-    // Delete all relationships
-    await session.run(`
-      MATCH ()-[r]->()
-      DELETE r
-    `);
-    
-    // Delete all nodes
-    await session.run(`
-      MATCH (n)
-      DELETE n
-    `);
-    
-    // Verify deletion
-    const verifyResult = await session.run(`
-      MATCH (n)
-      RETURN count(n) as remaining
-    `);
-    
-    const remaining = verifyResult.records[0]?.get('remaining')?.toNumber() || 0;
-    
-    if (remaining === 0) {
-      logger.info("Database reset successful");
-      return `✅ Database reset complete!\n` +
-             `Deleted: ${nodeCount} nodes and ${relationshipCount} relationships\n` +
-             `Database is now empty and ready for a fresh scan.`;
-    } else {
-      logger.warn(`Reset incomplete: ${remaining} nodes remaining`);
-      return `⚠️ Database reset partially complete.\n` +
-             `Deleted most data but ${remaining} nodes remain.\n` +
-             `You may need to manually clear the database.`;
+    const counts = await countScope(session, scope);
+    const token = confirmationToken(scope, counts);
+    const report: ResetReport = {
+      scope,
+      status: "dry_run",
+      counts,
+      deleted: null,
+      confirmationToken: token,
+    };
+
+    if (counts.nodes === 0 && counts.relationships === 0) {
+      report.status = "empty";
+      report.confirmationToken = null;
+    } else if (!options.dryRun && options.confirm) {
+      if (options.confirm !== token) {
+        report.status = "token_mismatch";
+      } else {
+        logger.info(
+          `Resetting ${describeScope(scope)}: ${counts.nodes} nodes, ${
+            counts.relationships
+          } relationships`
+        );
+        report.deleted = await deleteScope(session, scope, batchSize);
+        report.status = "deleted";
+        report.confirmationToken = null;
+      }
     }
-    
+
+    return options.format === "json"
+      ? renderJson("reset", report)
+      : formatReport(report);
   } catch (error) {
-    logger.error("Failed to reset database", error);
+    logger.error(`Failed to reset ${describeScope(scope)}`, error);
     throw new Error(
       `Failed to reset database: ${
         error instanceof Error ? error.message : String(error)
@@ -76,36 +95,166 @@ export async function runReset(
 }
 
 /**
- * Alternative: Reset only specific repository data
+ * Reset only specific repository data
  */
 export async function runResetRepository(
   driver: Driver,
-  repoRoot: string
+  repoRoot: string,
+  options: { confirm?: string; dryRun?: boolean; format?: OutputFormat } = {}
 ): Promise<string> {
-  const session = driver.session();
-  
-  try {
-    // Delete all nodes and relationships for a specific repository
-    const result = await session.run(`
-      MATCH (n)
-      WHERE n.repoRoot = $repoRoot
-      DETACH DELETE n
-      RETURN count(n) as deletedCount
-    `, { repoRoot });
-    
-    const deletedCount = result.records[0]?.get('deletedCount')?.toNumber() || 0;
-    
-    return `Reset repository: ${repoRoot}\n` +
-           `Deleted ${deletedCount} nodes and their relationships.`;
-           
-  } catch (error) {
-    logger.error(`Failed to reset repository ${repoRoot}`, error);
-    throw new Error(
-      `Failed to reset repository: ${
-        error instanceof Error ? error.message : String(error)
-      }`
+  return runReset(driver, { ...options, repoRoot });
+}
+
+function nodeWhere(scope: ResetReport["scope"]): string {
+  const conditions: string[] = [];
+  if (scope.repoRoot) conditions.push("n.repoRoot = $repoRoot");
+  if (scope.snapshotVersion) {
+    conditions.push(
+      "(n.snapshotVersion = $snapshotVersion OR (n:Snapshot AND n.version = $snapshotVersion))"
     );
-  } finally {
-    await session.close();
   }
+  return conditions.length ? `WHERE ${conditions.join(" AND ")}` : "";
+}
+
+// Relationships written by a scan are removed even when both endpoints survive it
+function relWhere(scope: ResetReport["scope"]): string {
+  return scope.repoRoot
+    ? "WHERE r.snapshotVersion = $snapshotVersion AND a.repoRoot = $repoRoot"
+    : "WHERE r.snapshotVersion = $snapshotVersion";
+}
+
+async function countScope(
+  session: Session,
+  scope: ResetReport["scope"]
+): Promise<ResetReport["counts"]> {
+  if (!scope.repoRoot && !scope.snapshotVersion) {
+    // Whole database: separate count queries use the count store
+    const nodes = await session.run(`MATCH (n) RETURN count(n) AS c`);
+    const rels = await session.run(`MATCH ()-[r]->() RETURN count(r) AS c`);
+    return {
+      nodes: toNumber(nodes.records[0]?.get("c")),
+      relationships: toNumber(rels.records[0]?.get("c")),
+    };
+  }
+
+  const nodes = await session.run(
+    `MATCH (n) ${nodeWhere(scope)} RETURN count(n) AS c`,
+    scope
+  );
+  const rels = await session.run(
+    scope.snapshotVersion
+      ? `
+        CALL {
+          MATCH (a)-[r]->() ${relWhere(scope)} RETURN r
+          UNION
+          MATCH (n)-[r]-() ${nodeWhere(scope)} RETURN r
+        }
+        RETURN count(DISTINCT r) AS c
+      `
+      : `MATCH (n)-[r]-() ${nodeWhere(scope)} RETURN count(DISTINCT r) AS c`,
+    scope
+  );
+  return {
+    nodes: toNumber(nodes.records[0]?.get("c")),
+    relationships: toNumber(rels.records[0]?.get("c")),
+  };
+}
+
+async function deleteScope(
+  session: Session,
+  scope: ResetReport["scope"],
+  batchSize: number
+): Promise<NonNullable<ResetReport["deleted"]>> {
+  const deleted = { nodes: 0, relationships: 0, batches: 0 };
+  const params = { ...scope, batchSize };
+
+  const drain = async (cypher: string) => {
+    for (;;) {
+      const result = await session.run(cypher, params);
+      const updates = result.summary.counters.updates();
+      if (updates.nodesDeleted === 0 && updates.relationshipsDeleted === 0) {
+        return;
+      }
+      deleted.nodes += updates.nodesDeleted;
+      deleted.relationships += updates.relationshipsDeleted;
+      deleted.batches++;
+    }
+  };
+
+  if (scope.snapshotVersion) {
+    await drain(`
+      MATCH (a)-[r]->() ${relWhere(scope)}
+      WITH r LIMIT toInteger($batchSize)
+      DELETE r
+    `);
+  }
+  await drain(`
+    MATCH (n) ${nodeWhere(scope)}
+    WITH n LIMIT toInteger($batchSize)
+    DETACH DELETE n
+  `);
+
+  logger.info(
+    `Reset ${describeScope(scope)} complete: ${deleted.nodes} nodes, ${
+      deleted.relationships
+    } relationships in ${deleted.batches} batches`
+  );
+  return deleted;
+}
+
+function formatReport(report: ResetReport): string {
+  const scope = describeScope(report.scope);
+  const { nodes, relationships } = report.counts;
+
+  switch (report.status) {
+    case "empty":
+      return report.scope.repoRoot || report.scope.snapshotVersion
+        ? `Nothing to reset for ${scope}.`
+        : "Database is already empty. Nothing to reset.";
+    case "deleted": {
+      const d = report.deleted!;
+      const lines = [
+        "✅ Reset complete!",
+        `- Scope: ${scope}`,
+        `- Deleted: ${d.nodes} nodes and ${d.relationships} relationships (${d.batches} batches)`,
+      ];
+      if (!report.scope.repoRoot && !report.scope.snapshotVersion) {
+        lines.push("Database is now empty and ready for a fresh scan.");
+      }
+      return lines.join("\n");
+    }
+    case "token_mismatch":
+      return [
+        "⚠️ Confirmation token does not match the current scope and counts; nothing was deleted.",
+        `- Scope: ${scope}`,
+        `- Would delete: ${nodes} nodes, ${relationships} relationships`,
+        "",
+        `To proceed, call reset again with confirm: "${report.confirmationToken}"`,
+      ].join("\n");
+    default:
+      return [
+        "Reset (dry run)",
+        `- Scope: ${scope}`,
+        `- Would delete: ${nodes} nodes, ${relationships} relationships`,
+        "",
+        `To proceed, call reset again with the same scope and confirm: "${report.confirmationToken}"`,
+      ].join("\n");
+  }
+}
+
+function describeScope(scope: ResetReport["scope"]): string {
+  const parts: string[] = [];
+  if (scope.repoRoot) parts.push(`repository ${scope.repoRoot}`);
+  if (scope.snapshotVersion) parts.push(`snapshot ${scope.snapshotVersion}`);
+  return parts.length ? parts.join(", ") : "entire database";
+}
+
+function confirmationToken(
+  scope: ResetReport["scope"],
+  counts: ResetReport["counts"]
+): string {
+  return createHash("md5")
+    .update(JSON.stringify({ scope, counts }))
+    .digest("hex")
+    .slice(0, 12);
 }
@@ -0,0 +1,385 @@
+import { Driver } from "neo4j-driver";
+import { relative, isAbsolute } from "path";
+import { runQuery, toNumber } from "../neo4j/connection.js";
+import {
+  ChangedFile,
+  parseUnifiedDiff,
+  rangesOverlap,
+  readGitDiff,
+} from "../scanner/gitDiff.js";
+import { matchSeedById } from "./impactCommand.js";
+import { DiffSeed, resolveDiffSeeds } from "./impactDiffCommand.js";
+import { OutputFormat, PageArgs, pageLists, renderJson } from "./output.js";
+
+export interface SelectedTestCase {
+  name: string;
+  suite: string | null;
+  line: number | null;
+  reasons: string[];
+}
+
+export interface SelectedTestFile {
+  file: string;
+  framework: string | null;
+  // Run the whole file: it changed, or it is linked as a whole (imports, naming,
+  // calls from setup code). `cases` is then empty
+  wholeFile: boolean;
+  reasons: string[];
+  cases: SelectedTestCase[];
+}
+
+/** `data` of the selectTests tool's JSON output */
+export interface TestSelectionReport {
+  repoRoot: string;
+  source: string;
+  depth: number;
+  changedFiles: (ChangedFile & { seeding: string | null })[];
+  seeds: DiffSeed[];
+  tests: SelectedTestFile[];
+  uncovered: DiffSeed[]; // seeds no linked test reaches
+}
+
+interface LinkRow {
+  seedId: string;
+  target: string | null;
+  link: "direct" | "caller" | "file";
+  via: string[]; // caller chain, test-side first
+  reasons: string[] | null;
+  test: {
+    kind: string | null;
+    file: string;
+    name: string;
+    suite: string | null;
+    framework: string | null;
+    line: any;
+  };
+}
+
+/**
+ * Select the tests to run for a change, from the TESTS edges written at scan time:
+ * - Changes come from `files`, a unified `diff`, or `git diff base head`; hunks are
+ *   mapped onto Function spans as for impactDiff (whole file when none is touched)
+ * - A test is selected when it TESTS a changed function or file directly, or TESTS a
+ *   function reaching a changed one through up to `depth` CALLS hops
+ * - File-level links (imports, naming) of a changed function's file count only when
+ *   that test file has no function-level link into the file, keeping the set minimal
+ * - Changed test files select themselves: the cases whose span a hunk touches, or
+ *   the whole file
+ * - A test file linked as a whole replaces its individual cases
+ */
+export async function runSelectTests(
+  driver: Driver,
+  args: {
+    repoRoot: string;
+    files?: string[];
+    base?: string;
+    head?: string;
+    diff?: string;
+    depth?: number;
+    format?: OutputFormat;
+  } & PageArgs
+): Promise<string> {
+  const repoRoot = args.repoRoot;
+  // Variable-length bounds cannot be parameters; clamp to a safe integer instead
+  const depth =
+    typeof args.depth === "number"
+      ? Math.max(0, Math.min(10, Math.floor(args.depth)))
+      : 2;
+
+  let changed: ChangedFile[];
+  let source: string;
+  if (args.files?.length) {
+    changed = args.files.map((f) => ({
+      file: isAbsolute(f) ? relative(repoRoot, f) : f,
+      status: "modified",
+      hunks: [],
+      oldHunks: [],
+    }));
+    source = "changed files";
+  } else if (args.diff) {
+    changed = parseUnifiedDiff(args.diff);
+    source = "provided unified diff";
+  } else if (args.base) {
+    changed = parseUnifiedDiff(readGitDiff(repoRoot, args.base, args.head));
+    source = `git diff ${args.base}${
+      args.head ? ` ${args.head}` : " (working tree)"
+    }`;
+  } else {
+    throw new Error(
+      "Provide 'files', a 'diff', or a 'base' ref (and optional 'head')"
+    );
+  }
+
+  const { seeds, perFile } = changed.length
+    ? await resolveDiffSeeds(driver, repoRoot, changed)
+    : { seeds: [], perFile: new Map<string, string>() };
+
+  const selected = new Map<string, SelectedTestFile>();
+  const covered = new Set<string>();
+  const select = (
+    test: LinkRow["test"],
+    reason: string,
+    asWholeFile = test.kind !== "case"
+  ) => {
+    const entry = selected.get(test.file) ?? {
+      file: test.file,
+      framework: test.framework,
+      wholeFile: false,
+      reasons: [],
+      cases: [],
+    };
+    if (asWholeFile) {
+      entry.wholeFile = true;
+      if (!entry.reasons.includes(reason)) entry.reasons.push(reason);
+    } else {
+      let c = entry.cases.find(
+        (x) => x.name === test.name && x.suite === test.suite
+      );
+      if (!c) {
+        c = {
+          name: test.name,
+          suite: test.suite,
+          line: test.line == null ? null : toNumber(test.line),
+          reasons: [],
+        };
+        entry.cases.push(c);
+      }
+      if (!c.reasons.includes(reason)) c.reasons.push(reason);
+    }
+    selected.set(test.file, entry);
+  };
+
+  for (const row of await collectLinks(
+    driver,
+    seeds.map((s) => s.id),
+    depth
+  )) {
+    covered.add(row.seedId);
+    for (const reason of row.reasons ?? ["linked"]) {
+      select(row.test, describeLink(row, reason));
+    }
+  }
+  // Changed test files select themselves rather than count as uncovered code
+  const changedTestFiles = new Set<string>();
+  for (const { test, reason, wholeFile } of await changedTests(
+    driver,
+    repoRoot,
+    changed
+  )) {
+    changedTestFiles.add(test.file);
+    select(test, reason, wholeFile);
+  }
+
+  // A whole-file run covers every case; keep their reasons on the file
+  const tests = Array.from(selected.values())
+    .map((t) =>
+      t.wholeFile && t.cases.length
+        ? {
+            ...t,
+            reasons: [
+              ...t.reasons,
+              ...t.cases.flatMap((c) =>
+                c.reasons.map((r) => `${caseLabel(c)}: ${r}`)
+              ),
+            ],
+            cases: [],
+          }
+        : t
+    )
+    .sort((a, b) => a.file.localeCompare(b.file));
+  const uncovered = seeds.filter(
+    (s) => !covered.has(s.id) && !changedTestFiles.has(s.file)
+  );
+
+  if (args.format === "json") {
+    // A test file's cases stay with it, on the page listing the file
+    const { data, page } = pageLists(
+      args,
+      (slice): TestSelectionReport => ({
+        repoRoot,
+        source,
+        depth,
+        changedFiles: slice(changed).map((c) => ({
+          ...c,
+          seeding: perFile.get(c.file) ?? null,
+        })),
+        seeds: slice(seeds),
+        tests: slice(tests),
+        uncovered: slice(uncovered),
+      })
+    );
+    return renderJson("selectTests", data, page);
+  }
+
+  const lines: string[] = [];
+  lines.push("Test Selection");
+  lines.push(`- Repository: ${repoRoot}`);
+  lines.push(`- Source: ${source}`);
+  lines.push(`- Caller depth: ${depth}`);
+  lines.push("");
+
+  if (!changed.length) {
+    lines.push("No changed files.");
+    return lines.join("\n");
+  }
+
+  lines.push(`Changed files (${changed.length}):`);
+  for (const c of changed) {
+    const note = perFile.get(c.file) ?? "not in graph (run 'scan')";
+    lines.push(`  - ${c.file} (${c.status}) → ${note}`);
+  }
+  lines.push("");
+
+  if (!tests.length) {
+    lines.push("No linked tests found for these changes.");
+  } else {
+    const caseCount = tests.reduce((n, t) => n + t.cases.length, 0);
+    lines.push(
+      `Tests to run (${tests.length} file${tests.length === 1 ? "" : "s"}${
+        caseCount ? `, ${caseCount} case${caseCount === 1 ? "" : "s"}` : ""
+      }):`
+    );
+    for (const t of tests) {
+      const framework = t.framework ? ` [${t.framework}]` : "";
+      if (t.wholeFile) {
+        lines.push(`  - ${t.file}${framework} — whole file`);
+        for (const r of t.reasons.slice(0, 10)) lines.push(`      · ${r}`);
+        if (t.reasons.length > 10)
+          lines.push(`      ...and ${t.reasons.length - 10} more`);
+      } else {
+        lines.push(`  - ${t.file}${framework}`);
+        for (const c of t.cases) {
+          lines.push(
+            `      · ${caseLabel(c)}${c.line ? ` (line ${c.line})` : ""} — ${
+              c.reasons[0]
+            }${c.reasons.length > 1 ? ` (+${c.reasons.length - 1})` : ""}`
+          );
+        }
+      }
+    }
+  }
+
+  if (uncovered.length) {
+    lines.push("");
+    lines.push(`Not reached by any linked test (${uncovered.length}):`);
+    for (const s of uncovered.slice(0, 50)) lines.push(`  - ${s.label}`);
+    if (uncovered.length > 50)
+      lines.push(`  ...and ${uncovered.length - 50} more`);
+  }
+
+  return lines.join("\n");
+}
+
+/** TESTS links reaching the seeds: direct, through callers, or via the declaring file. */
+async function collectLinks(
+  driver: Driver,
+  seedIds: string[],
+  depth: number
+): Promise<LinkRow[]> {
+  if (!seedIds.length) return [];
+  const testProps = `{kind: t.kind, file: t.file, name: t.name, suite: t.suite,
+                      framework: t.framework, line: t.spanStart}`;
+  const callerBranch = depth
+    ? `
+        UNION
+        WITH target
+        MATCH p = (caller:Function)-[:CALLS*1..${depth}]->(target)
+        MATCH (t:Test)-[r:TESTS]->(caller)
+        RETURN t, r, "caller" AS link, [n IN nodes(p) | n.name] AS via`
+    : "";
+  return runQuery<LinkRow>(
+    driver,
+    `
+    UNWIND $seedIds AS seedId
+    ${matchSeedById("seedId")}
+    OPTIONAL MATCH (s)-[:DECLARES]->(d:Function)
+    WITH seedId, s, s:Function AS functionSeed, [s] + collect(DISTINCT d) AS targets
+    UNWIND targets AS target
+    CALL {
+        WITH target
+        MATCH (t:Test)-[r:TESTS]->(target)
+        RETURN t, r, "direct" AS link, [] AS via
+        ${callerBranch}
+        UNION
+        WITH target, functionSeed
+        MATCH (f:File)-[:DECLARES]->(target:Function)
+        MATCH (t:Test)-[r:TESTS]->(f)
+        WHERE functionSeed AND NOT EXISTS {
+          MATCH (f)-[:DECLARES]->(:Function)<-[:TESTS]-(x:Test)
+          WHERE x.repoRoot = t.repoRoot AND x.file = t.file
+        }
+        RETURN t, r, "file" AS link, [f.file] AS via
+    }
+    RETURN seedId, coalesce(target.name, target.file) AS target, link, via,
+           r.reasons AS reasons, ${testProps} AS test
+    `,
+    { seedIds }
+  );
+}
+
+/** Tests in changed test files: the cases a hunk touches, or the whole file. */
+async function changedTests(
+  driver: Driver,
+  repoRoot: string,
+  changed: ChangedFile[]
+): Promise<{ test: LinkRow["test"]; reason: string; wholeFile: boolean }[]> {
+  const live = changed.filter((c) => c.status !== "deleted");
+  if (!live.length) return [];
+  const rows = await runQuery<{
+    test: LinkRow["test"] & { end: any };
+  }>(
+    driver,
+    `
+    MATCH (t:Test {repoRoot: $repoRoot})
+    WHERE t.file IN $files
+    RETURN {kind: t.kind, file: t.file, name: t.name, suite: t.suite,
+            framework: t.framework, line: t.spanStart, end: t.spanEnd} AS test
+    `,
+    { repoRoot, files: live.map((c) => c.file) }
+  );
+
+  const out: { test: LinkRow["test"]; reason: string; wholeFile: boolean }[] =
+    [];
+  for (const c of live) {
+    const inFile = rows.map((r) => r.test).filter((t) => t.file === c.file);
+    const fileTest = inFile.find((t) => t.kind !== "case");
+    if (!fileTest) continue;
+    const cases = inFile.filter((t) => t.kind === "case");
+    const touched = cases.filter((t) =>
+      rangesOverlap(c.hunks, toNumber(t.line), toNumber(t.end))
+    );
+    // Hunks outside every case (imports, helpers, setup) may affect all cases
+    const outside = c.hunks.some(
+      (h) =>
+        !cases.some(
+          (t) => toNumber(t.line) <= h.startLine && toNumber(t.end) >= h.endLine
+        )
+    );
+    if (!c.hunks.length || outside || !touched.length) {
+      out.push({
+        test: fileTest,
+        reason: "test file changed",
+        wholeFile: true,
+      });
+    } else {
+      for (const t of touched) {
+        out.push({ test: t, reason: "test case changed", wholeFile: false });
+      }
+    }
+  }
+  return out;
+}
+
+function describeLink(row: LinkRow, reason: string): string {
+  if (row.link === "caller") {
+    return `${reason}, which reaches ${row.via.slice(1).join(" → ")}`;
+  }
+  if (row.link === "file") {
+    return `${reason}, which declares ${row.target}`;
+  }
+  return reason;
+}
+
+function caseLabel(c: { name: string; suite: string | null }): string {
+  return c.suite ? `${c.suite} > ${c.name}` : c.name;
+}
@@ -20,13 +20,40 @@ import { Logger } from "./utils/logger.js";
 import { getDriver, Neo4jConfig } from "./neo4j/connection.js";
 import { upsertEntitiesBatch } from "./neo4j/saveNodes.js";
 import { upsertRelationshipsBatch } from "./neo4j/saveRelationships.js";
+import {
+  ReconcileStats,
+  reconcileRepositories,
+  reconcileFiles,
+  removeFiles,
+} from "./neo4j/reconcile.js";
+import { recordSnapshot, recordDeltaSnapshot } from "./neo4j/snapshots.js";
+import { applyRetention, retentionPolicyFromEnv } from "./neo4j/retention.js";
 import { scanRepositories } from "./scanner/treeSitterParser.js";
 import { extractEntities } from "./scanner/astExtractor.js";
 import { buildRelationships } from "./scanner/relationshipBuilder.js";
-import { runImpactAnalysis } from "./commands/impactCommand.js";
+import {
+  parseImpactDirection,
+  runImpactAnalysis,
+} from "./commands/impactCommand.js";
+import { runDiffImpactAnalysis } from "./commands/impactDiffCommand.js";
+import { ExplainEndpoint, runExplain } from "./commands/explainCommand.js";
+import { runSelectTests } from "./commands/selectTestsCommand.js";
 import { runNaturalLanguageQuery } from "./commands/queryCommand.js";
+import { runListQueries } from "./commands/queriesCommand.js";
 import { runLearn } from "./commands/learnCommand.js";
+import { runSnapshotDiff } from "./commands/diffCommand.js";
+import { runContractCheck } from "./commands/contractCheckCommand.js";
+import { runOpenApiExport } from "./commands/openApiExportCommand.js";
+import { runGarbageCollection } from "./commands/gcCommand.js";
+import { runReset } from "./commands/resetCommand.js";
+import {
+  parseOutputFormat,
+  parsePageArgs,
+  renderJson,
+  renderJsonError,
+} from "./commands/output.js";
 import { extractDependencies } from "./scanner/dependencyExtractor.js";
+import { extractOpenApiSpecs } from "./scanner/openApiExtractor.js";
 
 // NEW: repository entity creation helpers
 import { AnyEntity } from "./scanner/types.js";
@@ -55,6 +82,69 @@ function makeRepositoryEntity(repoRoot: string): AnyEntity {
   };
 }
 
+/** `data` of the scan tool's JSON output */
+interface ScanReport {
+  snapshotVersion: string;
+  durationMs: number;
+  repositories: string[]; // repository roots scanned
+  filesScanned: number;
+  entities: number;
+  relationships: number;
+  staleRemoved: ReconcileStats;
+  watching: boolean;
+}
+
+// Accepted by every tool; "json" returns the envelope documented in the README
+const FORMAT_PROPERTY = {
+  type: "string",
+  enum: ["text", "json"],
+  description:
+    "Output format. 'json' returns a stable, documented schema with untruncated lists, paged by 'limit'/'cursor' where a tool takes them",
+  default: "text",
+};
+
+// Paging of long JSON lists (rows for query)
+const LIMIT_PROPERTY = {
+  type: "number",
+  description: "Max results per page",
+  default: 100,
+};
+const JSON_LIMIT_PROPERTY = {
+  ...LIMIT_PROPERTY,
+  description: "Max items per list and page of the JSON output",
+};
+const CURSOR_PROPERTY = {
+  type: "string",
+  description:
+    "Continue from a previous page (the 'nextCursor' / 'Next cursor' of the last result)",
+};
+
+// One endpoint of the explain tool: a file or a symbol
+const EXPLAIN_ENDPOINT = {
+  type: "object",
+  properties: {
+    file: {
+      type: "string",
+      description: "File path; with a symbol it only disambiguates",
+    },
+    function: {
+      type: "string",
+      description:
+        "Function, optionally qualified by class (e.g. 'OrderService.cancel')",
+    },
+    class: { type: "string", description: "Class name" },
+    api: {
+      type: "string",
+      description: "API route (e.g. 'GET /v1/orders' or '/v1/orders')",
+    },
+    table: { type: "string", description: "Database table name" },
+    repoRoot: {
+      type: "string",
+      description: "Repository of this endpoint when it differs from repoRoot",
+    },
+  },
+};
+
 // Available MCP tools
 const AVAILABLE_TOOLS: Tool[] = [
   {
@@ -86,6 +176,7 @@ const AVAILABLE_TOOLS: Tool[] = [
           description: "Optional exclude glob patterns",
           items: { type: "string" },
         },
+        format: FORMAT_PROPERTY,
       },
       required: [],
     },
@@ -93,47 +184,405 @@ const AVAILABLE_TOOLS: Tool[] = [
   {
     name: "impact",
     description:
-      "Impact analysis for a file. Returns affected files/APIs/tables/tests in a dependency graph.",
+      "Impact analysis for a file, or for a single function, class, API route or table. Returns affected files/APIs/tables/tests and, for symbols, their callers.",
     inputSchema: {
       type: "object",
       properties: {
-        file: { type: "string", description: "Path to the changed file" },
+        file: {
+          type: "string",
+          description:
+            "Path to the changed file; with a symbol seed it only disambiguates",
+        },
+        function: {
+          type: "string",
+          description:
+            "Function seed, optionally qualified by class (e.g. 'OrderService.cancel')",
+        },
+        class: { type: "string", description: "Class seed" },
+        api: {
+          type: "string",
+          description: "API route seed (e.g. 'GET /v1/orders' or '/v1/orders')",
+        },
+        table: { type: "string", description: "Database table seed" },
         repoRoot: {
           type: "string",
           description:
             "Repository root path for disambiguation (optional but recommended)",
         },
+        direction: {
+          type: "string",
+          enum: ["upstream", "downstream", "both"],
+          description:
+            "downstream: what the seed depends on; upstream: callers, tests and consuming repositories that depend on it; both",
+        },
         depth: {
           type: "number",
           description: "Traversal depth for relationships",
           default: 3,
         },
+        limit: JSON_LIMIT_PROPERTY,
+        cursor: CURSOR_PROPERTY,
+        format: FORMAT_PROPERTY,
+      },
+      required: [],
+    },
+  },
+  {
+    name: "impactDiff",
+    description:
+      "Impact analysis for a git diff. Maps changed hunks onto stored Function spans and returns the combined impact with per-seed attribution.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        repoRoot: {
+          type: "string",
+          description:
+            "Repository root path (defaults to current working directory); git runs here",
+        },
+        base: {
+          type: "string",
+          description:
+            "Base git ref (e.g. origin/main). Required unless 'diff' is given",
+        },
+        head: {
+          type: "string",
+          description:
+            "Head git ref. If omitted, base is compared against the working tree",
+        },
+        diff: {
+          type: "string",
+          description:
+            "Unified diff text to analyze instead of running git (e.g. output of 'git diff -U0')",
+        },
+        direction: {
+          type: "string",
+          enum: ["upstream", "downstream", "both"],
+          description:
+            "Traversal direction (default both). downstream: what the seed depends on; upstream: callers, tests and consuming repositories that depend on it; both",
+        },
+        depth: {
+          type: "number",
+          description: "Traversal depth for relationships",
+          default: 3,
+        },
+        limit: JSON_LIMIT_PROPERTY,
+        cursor: CURSOR_PROPERTY,
+        format: FORMAT_PROPERTY,
+      },
+      required: [],
+    },
+  },
+  {
+    name: "selectTests",
+    description:
+      "Select the test files and test cases to run for a change (changed files, a unified diff, or git refs), with the reasons each was picked: imports, called functions, callers of changed code, naming conventions.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        repoRoot: {
+          type: "string",
+          description:
+            "Repository root path (defaults to current working directory); git runs here",
+        },
+        files: {
+          type: "array",
+          items: { type: "string" },
+          description: "Changed files (each treated as changed as a whole)",
+        },
+        base: {
+          type: "string",
+          description:
+            "Base git ref (e.g. origin/main), when no 'files' or 'diff'",
+        },
+        head: {
+          type: "string",
+          description:
+            "Head git ref. If omitted, base is compared against the working tree",
+        },
+        diff: {
+          type: "string",
+          description:
+            "Unified diff text to analyze instead of running git (e.g. output of 'git diff -U0')",
+        },
+        depth: {
+          type: "number",
+          description:
+            "CALLS hops from a tested function to the changed one (default 2; 0 = direct links only)",
+        },
+        limit: JSON_LIMIT_PROPERTY,
+        cursor: CURSOR_PROPERTY,
+        format: FORMAT_PROPERTY,
       },
-      required: ["file"],
+      required: [],
+    },
+  },
+  {
+    name: "explain",
+    description:
+      "Explain why two entities are related: up to k dependency paths, shortest first, between a file, function, class, API route or table and another, with every hop's relationship type, file and line span.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        repoRoot: {
+          type: "string",
+          description:
+            "Repository root path for both endpoints (defaults to current working directory)",
+        },
+        from: { ...EXPLAIN_ENDPOINT, description: "Start entity" },
+        to: { ...EXPLAIN_ENDPOINT, description: "End entity" },
+        k: {
+          type: "number",
+          description:
+            "Number of paths to return, shortest first (default 3, at most 20)",
+        },
+        maxHops: {
+          type: "number",
+          description: "Longest path to consider (default 4, at most 6)",
+        },
+        directed: {
+          type: "boolean",
+          description:
+            "Only follow relationships in their stored direction (default false: hops against the direction are marked)",
+        },
+        limit: JSON_LIMIT_PROPERTY,
+        cursor: CURSOR_PROPERTY,
+        format: FORMAT_PROPERTY,
+      },
+      required: ["from", "to"],
     },
   },
   {
     name: "query",
     description:
-      "Run a natural language query. Converts to Cypher or accepts raw 'CYPHER: ...' queries.",
+      "Run a natural language query. Converts to Cypher, accepts raw 'CYPHER: ...' queries, or runs a named query from the saved query library.",
     inputSchema: {
       type: "object",
       properties: {
         prompt: { type: "string", description: "Natural language query" },
-        limit: {
+        savedQuery: {
+          type: "string",
+          description:
+            "Name of a saved query to run instead of a prompt (see the queries tool)",
+        },
+        params: {
+          type: "object",
+          description: "Arguments for the saved query's parameters",
+        },
+        repoRoot: {
+          type: "string",
+          description:
+            "Repository whose saved query library to use (default: current working directory)",
+        },
+        limit: LIMIT_PROPERTY,
+        cursor: CURSOR_PROPERTY,
+        format: FORMAT_PROPERTY,
+      },
+      required: [],
+    },
+  },
+  {
+    name: "queries",
+    description:
+      "List the saved queries of the project query library (.glass/queries.yaml or QUERY_LIBRARY) with their descriptions and parameters.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        repoRoot: {
+          type: "string",
+          description:
+            "Repository containing the library (default: current working directory)",
+        },
+        format: FORMAT_PROPERTY,
+      },
+      required: [],
+    },
+  },
+  {
+    name: "diff",
+    description:
+      "Structural diff between two scan snapshots of a repository: added/removed/changed Functions, APIs, DatabaseTables, Configs and dependency edges.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        repoRoot: {
+          type: "string",
+          description:
+            "Repository root path (defaults to current working directory)",
+        },
+        from: {
+          type: "string",
+          description:
+            "Base snapshot version (ISO timestamp from scan), or 'previous' / 'latest'",
+          default: "previous",
+        },
+        to: {
+          type: "string",
+          description:
+            "Target snapshot version (ISO timestamp from scan), or 'previous' / 'latest'",
+          default: "latest",
+        },
+        limit: JSON_LIMIT_PROPERTY,
+        cursor: CURSOR_PROPERTY,
+        format: FORMAT_PROPERTY,
+      },
+      required: [],
+    },
+  },
+  {
+    name: "contractCheck",
+    description:
+      "Compare the contracts of a repository's provided APIs between two scan snapshots (body schemas, path/query parameters, headers); classify each change as breaking or non-breaking and list the repositories consuming the affected endpoints.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        repoRoot: {
+          type: "string",
+          description:
+            "Repository root path (defaults to current working directory)",
+        },
+        from: {
+          type: "string",
+          description:
+            "Base snapshot version (ISO timestamp from scan), or 'previous' / 'latest'",
+          default: "previous",
+        },
+        to: {
+          type: "string",
+          description:
+            "Target snapshot version (ISO timestamp from scan), or 'previous' / 'latest'",
+          default: "latest",
+        },
+        api: {
+          type: "string",
+          description:
+            "Only this endpoint ('GET /api/orders/{id}') or paths starting with a prefix ('/api/orders')",
+        },
+        limit: JSON_LIMIT_PROPERTY,
+        cursor: CURSOR_PROPERTY,
+        format: FORMAT_PROPERTY,
+      },
+      required: [],
+    },
+  },
+  {
+    name: "exportOpenApi",
+    description:
+      "Generate an OpenAPI 3.1 document for a repository from the graph's provided APIs and their types, merged with the operations of its ingested OpenAPI / Swagger files, and report drift between spec and code (undocumented routes, unimplemented operations, contract mismatches).",
+    inputSchema: {
+      type: "object",
+      properties: {
+        repoRoot: {
+          type: "string",
+          description:
+            "Repository root path (defaults to current working directory)",
+        },
+        outputFile: {
+          type: "string",
+          description:
+            "Also write the document to this file (relative to repoRoot); YAML for .yaml/.yml, JSON otherwise",
+        },
+        format: FORMAT_PROPERTY,
+      },
+      required: [],
+    },
+  },
+  {
+    name: "gc",
+    description:
+      "Garbage-collect snapshot history: apply a retention policy (keep last N snapshots or last N days) and prune or collapse old relationship versions. Reports what was removed.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        repoRoot: {
+          type: "string",
+          description:
+            "Repository root path. If omitted, every repository in the graph is collected.",
+        },
+        keepLast: {
+          type: "number",
+          description: "Keep the newest N snapshots",
+        },
+        keepDays: {
+          type: "number",
+          description: "Keep snapshots taken within the last N days",
+        },
+        collapse: {
+          type: "boolean",
+          description:
+            "Keep only the newest version of every relationship, regardless of retention",
+          default: true,
+        },
+        dryRun: {
+          type: "boolean",
+          description: "Report what would be removed without deleting",
+          default: false,
+        },
+        limit: JSON_LIMIT_PROPERTY,
+        cursor: CURSOR_PROPERTY,
+        format: FORMAT_PROPERTY,
+      },
+      required: [],
+    },
+  },
+  {
+    name: "reset",
+    description:
+      "Delete graph data: the whole database, one repository, or one scan snapshot. Without a confirmation token it only reports counts and returns the token to confirm with.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        repoRoot: {
+          type: "string",
+          description:
+            "Only delete nodes (and their relationships) of this repository",
+        },
+        snapshotVersion: {
+          type: "string",
+          description:
+            "Only delete data written by this scan (relationships of that version and nodes last written by it)",
+        },
+        confirm: {
+          type: "string",
+          description:
+            "Confirmation token returned by a previous call with the same scope",
+        },
+        dryRun: {
+          type: "boolean",
+          description: "Only report counts, even when a token is given",
+          default: false,
+        },
+        batchSize: {
           type: "number",
-          description: "Max results",
-          default: 100,
+          description: "Nodes/relationships deleted per transaction",
+          default: 10000,
         },
+        format: FORMAT_PROPERTY,
       },
-      required: ["prompt"],
+      required: [],
     },
   },
   {
     name: "learn",
     description:
-      "Onboarding walkthrough of the repository graph. Explains schema, common queries, and examples.",
-    inputSchema: { type: "object", properties: {}, required: [] },
+      "Onboarding walkthrough of the repository graph. Explains schema and common queries, and summarizes the connected graph: node counts per repository, top provided APIs, most-called functions, busiest tables, owning teams, and example queries using real names.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        repoRoot: {
+          type: "string",
+          description:
+            "Limit the tour to one repository (repoRoot or name; default: all scanned)",
+        },
+        top: {
+          type: "number",
+          description: "Entries per ranked list (default 5)",
+        },
+        limit: JSON_LIMIT_PROPERTY,
+        cursor: CURSOR_PROPERTY,
+        format: FORMAT_PROPERTY,
+      },
+      required: [],
+    },
   },
 ];
 
@@ -165,6 +614,8 @@ server.setRequestHandler(CallToolRequestSchema, async (req) => {
   const driver = await getDriver(neoCfg);
 
   try {
+    const format = parseOutputFormat(args?.format);
+
     switch (name) {
       case "scan": {
         const roots = (args?.paths as string[] | undefined) ?? [process.cwd()];
@@ -187,7 +638,16 @@ server.setRequestHandler(CallToolRequestSchema, async (req) => {
         );
         const extracted = await extractEntities(repoFiles);
         const depEntities = await extractDependencies(roots);
-        const allEntities = [...repoEntities, ...extracted, ...depEntities];
+        // Specs belong to the repositories as scanRepositories resolved them
+        const specEntities = await extractOpenApiSpecs(
+          repoFiles.map((r) => r.repoRoot)
+        );
+        const allEntities = [
+          ...repoEntities,
+          ...extracted,
+          ...depEntities,
+          ...specEntities,
+        ];
 
         // 3) Build relationships between extracted entities
         const allRelationships = buildRelationships(allEntities);
@@ -200,9 +660,36 @@ server.setRequestHandler(CallToolRequestSchema, async (req) => {
           snapshotVersion
         );
 
+        // 5) Remove nodes/edges of the scanned repos that this scan no longer produced
+        const stale = await reconcileRepositories(
+          driver,
+          repoFiles.map((r) => r.repoRoot),
+          allEntities,
+          allRelationships
+        );
+
+        // 6) Record a snapshot manifest per repository for later diffs
+        for (const r of repoFiles) {
+          await recordSnapshot(
+            driver,
+            r.repoRoot,
+            snapshotVersion,
+            allEntities,
+            allRelationships
+          );
+        }
+
+        // 7) Apply the configured retention policy (SNAPSHOT_KEEP_LAST / SNAPSHOT_KEEP_DAYS)
+        const retention = retentionPolicyFromEnv();
+        if (retention) {
+          for (const r of repoFiles) {
+            await applyRetention(driver, r.repoRoot, retention);
+          }
+        }
+
         const ms = Date.now() - start;
 
-        // 5) Optional: enable file watcher for incremental updates
+        // 8) Optional: enable file watcher for incremental updates
         let watchMsg = "";
         if (watch) {
           const { startIncrementalWatcher } = await import(
@@ -222,26 +709,67 @@ server.setRequestHandler(CallToolRequestSchema, async (req) => {
               const sv = new Date().toISOString();
               await upsertEntitiesBatch(driver, merged, sv);
               await upsertRelationshipsBatch(driver, updatedRels, sv);
+              for (const r of delta) {
+                const changedFiles = r.files.map((f) => f.relPath);
+                await reconcileFiles(
+                  driver,
+                  r.repoRoot,
+                  changedFiles,
+                  merged,
+                  updatedRels
+                );
+                await recordDeltaSnapshot(driver, r.repoRoot, sv, {
+                  changedFiles,
+                  entities: merged,
+                  relationships: updatedRels,
+                });
+              }
+            },
+            async (repoRoot, relPaths) => {
+              await removeFiles(driver, repoRoot, relPaths);
+              await recordDeltaSnapshot(
+                driver,
+                repoRoot,
+                new Date().toISOString(),
+                { removedFiles: relPaths }
+              );
             }
           );
           watchMsg = "\nWatching for incremental changes (chokidar enabled).";
         }
 
+        const filesScanned = repoFiles.reduce((s, r) => s + r.files.length, 0);
+
+        if (format === "json") {
+          const report: ScanReport = {
+            snapshotVersion,
+            durationMs: ms,
+            repositories: repoFiles.map((r) => r.repoRoot),
+            filesScanned,
+            entities: allEntities.length,
+            relationships: allRelationships.length,
+            staleRemoved: stale,
+            watching: watch,
+          };
+          return {
+            content: [{ type: "text", text: renderJson("scan", report) }],
+          };
+        }
+
         const summary =
           `Scan complete in ${ms}ms\n` +
+          `Snapshot: ${snapshotVersion}\n` +
           `Repositories: ${roots.length}\n` +
-          `Files scanned: ${repoFiles.reduce(
-            (s, r) => s + r.files.length,
-            0
-          )}\n` +
+          `Files scanned: ${filesScanned}\n` +
           `Entities: ${allEntities.length}\n` +
-          `Relationships: ${allRelationships.length}${watchMsg}`;
+          `Relationships: ${allRelationships.length}\n` +
+          `Stale removed: ${stale.nodesRemoved} nodes, ${stale.relationshipsRemoved} relationships${watchMsg}`;
 
         return { content: [{ type: "text", text: summary }] };
       }
 
       case "impact": {
-        const file = String(args?.file);
+        const file = args?.file as string | undefined;
         const repoRoot = (args?.repoRoot as string) || process.cwd();
         const depth =
           typeof args?.depth === "number" ? (args?.depth as number) : 3;
@@ -250,21 +778,188 @@ server.setRequestHandler(CallToolRequestSchema, async (req) => {
           file,
           repoRoot,
           depth,
+          function: args?.function as string | undefined,
+          class: args?.class as string | undefined,
+          api: args?.api as string | undefined,
+          table: args?.table as string | undefined,
+          direction: parseImpactDirection(args?.direction),
+          format,
+          ...parsePageArgs(args),
         });
         return { content: [{ type: "text", text: result }] };
       }
 
+      case "selectTests": {
+        const text = await runSelectTests(driver, {
+          repoRoot: (args?.repoRoot as string) || process.cwd(),
+          files: Array.isArray(args?.files)
+            ? (args.files as unknown[]).map(String)
+            : undefined,
+          base: args?.base as string | undefined,
+          head: args?.head as string | undefined,
+          diff: args?.diff as string | undefined,
+          depth:
+            typeof args?.depth === "number"
+              ? (args.depth as number)
+              : undefined,
+          format,
+          ...parsePageArgs(args),
+        });
+        return { content: [{ type: "text", text }] };
+      }
+
+      case "explain": {
+        const text = await runExplain(driver, {
+          repoRoot: (args?.repoRoot as string) || process.cwd(),
+          from: args?.from as ExplainEndpoint,
+          to: args?.to as ExplainEndpoint,
+          k: typeof args?.k === "number" ? (args.k as number) : undefined,
+          maxHops:
+            typeof args?.maxHops === "number"
+              ? (args.maxHops as number)
+              : undefined,
+          directed: args?.directed === true,
+          format,
+          ...parsePageArgs(args),
+        });
+        return { content: [{ type: "text", text }] };
+      }
+
+      case "impactDiff": {
+        const repoRoot = (args?.repoRoot as string) || process.cwd();
+        const base = args?.base as string | undefined;
+        const head = args?.head as string | undefined;
+        const diff = args?.diff as string | undefined;
+        const depth =
+          typeof args?.depth === "number" ? (args?.depth as number) : 3;
+
+        const text = await runDiffImpactAnalysis(driver, {
+          repoRoot,
+          base,
+          head,
+          diff,
+          depth,
+          direction: parseImpactDirection(args?.direction),
+          format,
+          ...parsePageArgs(args),
+        });
+        return { content: [{ type: "text", text }] };
+      }
+
       case "query": {
-        const prompt = String(args?.prompt);
+        const prompt = args?.prompt as string | undefined;
+        const savedQuery = args?.savedQuery as string | undefined;
+        const params = args?.params as Record<string, unknown> | undefined;
+        const repoRoot = args?.repoRoot as string | undefined;
         const limit =
           typeof args?.limit === "number" ? (args?.limit as number) : 100;
 
-        const text = await runNaturalLanguageQuery(driver, { prompt, limit });
+        const cursor = args?.cursor as string | undefined;
+
+        const text = await runNaturalLanguageQuery(driver, {
+          prompt,
+          savedQuery,
+          params,
+          repoRoot,
+          limit,
+          cursor,
+          format,
+        });
+        return { content: [{ type: "text", text }] };
+      }
+
+      case "queries": {
+        const repoRoot = args?.repoRoot as string | undefined;
+        const text = await runListQueries(driver, { repoRoot, format });
+        return { content: [{ type: "text", text }] };
+      }
+
+      case "diff": {
+        const repoRoot = (args?.repoRoot as string) || process.cwd();
+        const from = (args?.from as string | undefined) ?? "previous";
+        const to = (args?.to as string | undefined) ?? "latest";
+
+        const text = await runSnapshotDiff(driver, {
+          repoRoot,
+          from,
+          to,
+          format,
+          ...parsePageArgs(args),
+        });
+        return { content: [{ type: "text", text }] };
+      }
+
+      case "exportOpenApi": {
+        const repoRoot = (args?.repoRoot as string) || process.cwd();
+        const text = await runOpenApiExport(driver, {
+          repoRoot,
+          outputFile: args?.outputFile as string | undefined,
+          format,
+        });
+        return { content: [{ type: "text", text }] };
+      }
+
+      case "contractCheck": {
+        const repoRoot = (args?.repoRoot as string) || process.cwd();
+        const text = await runContractCheck(driver, {
+          repoRoot,
+          from: (args?.from as string | undefined) ?? "previous",
+          to: (args?.to as string | undefined) ?? "latest",
+          api: args?.api as string | undefined,
+          format,
+          ...parsePageArgs(args),
+        });
+        return { content: [{ type: "text", text }] };
+      }
+
+      case "gc": {
+        const repoRoot = args?.repoRoot as string | undefined;
+        const keepLast =
+          typeof args?.keepLast === "number"
+            ? Math.max(1, Math.floor(args.keepLast as number))
+            : undefined;
+        const keepDays =
+          typeof args?.keepDays === "number"
+            ? Math.max(0, args.keepDays as number)
+            : undefined;
+        const collapse = Boolean(args?.collapse ?? true);
+        const dryRun = Boolean(args?.dryRun ?? false);
+
+        const text = await runGarbageCollection(driver, {
+          repoRoot,
+          keepLast,
+          keepDays,
+          collapse,
+          dryRun,
+          format,
+          ...parsePageArgs(args),
+        });
+        return { content: [{ type: "text", text }] };
+      }
+
+      case "reset": {
+        const text = await runReset(driver, {
+          repoRoot: (args?.repoRoot as string | undefined) || undefined,
+          snapshotVersion:
+            (args?.snapshotVersion as string | undefined) || undefined,
+          confirm: args?.confirm as string | undefined,
+          dryRun: Boolean(args?.dryRun ?? false),
+          batchSize:
+            typeof args?.batchSize === "number"
+              ? (args.batchSize as number)
+              : undefined,
+          format,
+        });
         return { content: [{ type: "text", text }] };
       }
 
       case "learn": {
-        const text = await runLearn(driver);
+        const text = await runLearn(driver, {
+          repoRoot: args?.repoRoot as string | undefined,
+          top: args?.top as number | undefined,
+          format,
+          ...parsePageArgs(args),
+        });
         return { content: [{ type: "text", text }] };
       }
 
@@ -273,13 +968,15 @@ server.setRequestHandler(CallToolRequestSchema, async (req) => {
     }
   } catch (err) {
     logger.error(`Tool ${name} failed`, err);
+    const message = err instanceof Error ? err.message : JSON.stringify(err);
     return {
       content: [
         {
           type: "text",
           text:
-            "Error: " +
-            (err instanceof Error ? err.message : JSON.stringify(err)),
+            args?.format === "json"
+              ? renderJsonError(name, message)
+              : "Error: " + message,
         },
       ],
     };
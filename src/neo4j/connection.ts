@@ -1,4 +1,4 @@
-import neo4j, { Driver } from "neo4j-driver";
+import neo4j, { Driver, isInt } from "neo4j-driver";
 
 export interface Neo4jConfig {
   uri: string;
@@ -30,6 +30,8 @@ async function initSchema(driver: Driver): Promise<void> {
       "Config",
       "Test",
       "ErrorMessage",
+      "TypeDefinition",
+      "Snapshot",
     ];
     for (const label of labels) {
       // Ensure 'id' uniqueness per label
@@ -47,6 +49,9 @@ async function initSchema(driver: Driver): Promise<void> {
     await session.run(
       "CREATE INDEX file_path IF NOT EXISTS FOR (n:File) ON (n.file)"
     );
+    await session.run(
+      "CREATE INDEX snapshot_repo IF NOT EXISTS FOR (n:Snapshot) ON (n.repoRoot, n.version)"
+    );
   } finally {
     await session.close();
   }
@@ -253,6 +258,43 @@ export async function runQuery<T = any>(
   }
 }
 
+/**
+ * Like runQuery, but inside a READ access-mode transaction: the server refuses writes.
+ */
+export async function runReadQuery<T = any>(
+  driver: Driver,
+  query: string,
+  params: Record<string, any> = {},
+  database?: string
+): Promise<T[]> {
+  const session = driver.session({
+    database: database || "neo4j",
+    defaultAccessMode: neo4j.session.READ,
+  });
+  try {
+    const res = await session.executeRead((tx) => tx.run(query, params), {
+      timeout: Number(process.env.NEO4J_QUERY_TIMEOUT_MS) || 30000,
+    });
+    return res.records.map((r) => r.toObject()) as T[];
+  } catch (e: any) {
+    if (/AccessMode|read access mode/i.test(`${e?.code} ${e?.message}`)) {
+      throw new Error(
+        `Read-only mode: the server rejected a write (${e.message}). Set QUERY_READ_ONLY=false to allow writes.`
+      );
+    }
+    throw e;
+  } finally {
+    await session.close();
+  }
+}
+
+/** A count or number read from Neo4j (Integer, number or numeric string); 0 when absent. */
+export function toNumber(value: unknown): number {
+  if (value == null) return 0;
+  if (typeof value === "number") return value;
+  return isInt(value) ? value.toNumber() : Number(value);
+}
+
 export async function closeDriver(): Promise<void> {
   if (driverSingleton) {
     try {
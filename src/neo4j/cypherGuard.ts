@@ -0,0 +1,140 @@
+/**
+ * Static checks for user-supplied Cypher (the query tool's `CYPHER:` passthrough).
+ * Read-only mode rejects write/admin clauses and procedure calls outside an allowlist
+ * before the query reaches the server; queries then also run in a READ transaction,
+ * so anything the checks miss is still refused by Neo4j.
+ */
+
+// Read-only procedures callable in read-only mode; a trailing ".*" allows a namespace
+export const DEFAULT_PROCEDURE_ALLOWLIST = [
+  "db.labels",
+  "db.relationshipTypes",
+  "db.propertyKeys",
+  "db.indexes",
+  "db.constraints",
+  "db.schema.*",
+  "apoc.meta.stats",
+  "apoc.meta.schema",
+];
+
+const WRITE_CLAUSES = [
+  "CREATE",
+  "MERGE",
+  "DELETE",
+  "DETACH",
+  "SET",
+  "REMOVE",
+  "DROP",
+  "FOREACH",
+  "LOAD CSV",
+  "GRANT",
+  "REVOKE",
+  "DENY",
+  "ALTER",
+  "RENAME",
+  "TERMINATE",
+  "START DATABASE",
+  "STOP DATABASE",
+];
+
+/** Read-only mode is on unless QUERY_READ_ONLY=false. */
+export function readOnlyModeFromEnv(): boolean {
+  return (process.env.QUERY_READ_ONLY ?? "true").toLowerCase() !== "false";
+}
+
+/** QUERY_PROCEDURE_ALLOWLIST (comma-separated) replaces the default allowlist. */
+export function procedureAllowlistFromEnv(): string[] {
+  const raw = process.env.QUERY_PROCEDURE_ALLOWLIST;
+  if (!raw) return DEFAULT_PROCEDURE_ALLOWLIST;
+  return raw
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Blank out string literals, quoted identifiers and comments (keeping offsets), so
+ * keyword scans only see Cypher syntax.
+ */
+export function stripCypherLiterals(cypher: string): string {
+  let out = "";
+  let i = 0;
+  while (i < cypher.length) {
+    const ch = cypher[i];
+    const next = cypher[i + 1];
+    if (ch === "/" && next === "/") {
+      const end = cypher.indexOf("\n", i);
+      const stop = end === -1 ? cypher.length : end;
+      out += " ".repeat(stop - i);
+      i = stop;
+    } else if (ch === "/" && next === "*") {
+      const end = cypher.indexOf("*/", i + 2);
+      const stop = end === -1 ? cypher.length : end + 2;
+      out += cypher.slice(i, stop).replace(/[^\n]/g, " ");
+      i = stop;
+    } else if (ch === "'" || ch === '"' || ch === "`") {
+      let j = i + 1;
+      while (j < cypher.length && cypher[j] !== ch) {
+        if (cypher[j] === "\\" && ch !== "`") j++;
+        j++;
+      }
+      const closed = j < cypher.length;
+      const innerEnd = Math.min(j, cypher.length);
+      // keep the quotes so tokens stay separated
+      out += ch + " ".repeat(innerEnd - i - 1) + (closed ? ch : "");
+      i = closed ? j + 1 : cypher.length;
+    } else {
+      out += ch;
+      i++;
+    }
+  }
+  return out;
+}
+
+/**
+ * Throw when the query writes, administers the database, or calls a procedure
+ * outside the allowlist.
+ */
+export function assertReadOnlyCypher(
+  cypher: string,
+  allowlist: string[] = DEFAULT_PROCEDURE_ALLOWLIST
+): void {
+  const code = stripCypherLiterals(cypher);
+
+  for (const clause of WRITE_CLAUSES) {
+    const pattern = new RegExp(
+      // not a property (n.set), label (:Set), parameter ($set) or map key ({set: 1})
+      `(?<![\\w.:$])${clause.replace(" ", "\\s+")}(?![\\w])(?!\\s*:)`,
+      "i"
+    );
+    if (pattern.test(code)) {
+      throw new Error(
+        `Read-only mode: '${clause}' is not allowed in raw Cypher. ` +
+          `Set QUERY_READ_ONLY=false to allow writes.`
+      );
+    }
+  }
+
+  const calls = code.matchAll(/(?<![\w.])CALL\s+(?!\{)([^\s(]*)/gi);
+  for (const m of calls) {
+    const name = m[1];
+    if (!isAllowed(name, allowlist)) {
+      throw new Error(
+        `Read-only mode: procedure '${
+          !name || name.includes("`") ? "(quoted name)" : name
+        }' is not in the allowlist (${allowlist.join(", ")}). ` +
+          `Extend it with QUERY_PROCEDURE_ALLOWLIST.`
+      );
+    }
+  }
+}
+
+function isAllowed(name: string, allowlist: string[]): boolean {
+  const lower = name.toLowerCase();
+  return allowlist.some((entry) => {
+    const e = entry.toLowerCase();
+    return e.endsWith(".*")
+      ? lower.startsWith(e.slice(0, -1)) && lower.length > e.length - 1
+      : lower === e;
+  });
+}
@@ -0,0 +1,326 @@
+import { Driver } from "neo4j-driver";
+import { runReadQuery } from "./connection.js";
+import { EntityType, RelationshipType } from "../scanner/types.js";
+import { Logger } from "../utils/logger.js";
+
+const logger = new Logger("GraphSchema");
+
+/** One kind of edge the scanner writes: (from)-[type]->(to). */
+export interface SchemaEdge {
+  type: RelationshipType;
+  from: EntityType;
+  to: EntityType;
+  note?: string;
+}
+
+export const NODE_LABEL_DESCRIPTIONS: Record<EntityType, string> = {
+  Repository: "a scanned repository (name, repoRoot)",
+  File: "source file (file path relative to repoRoot)",
+  Class: "class declaration",
+  Function: "function or method",
+  Variable: "variable declaration",
+  API: "HTTP endpoint, GraphQL root field or gRPC method (direction: provided | consumed; method, path/url; protocol: http | graphql | grpc; source: code | openapi)",
+  Package: "external package dependency",
+  DatabaseTable: "table referenced by queries or ORM mappings",
+  DatabaseColumn: "column of a DatabaseTable",
+  Config: "config key read by code (process.env.X, os.getenv, @Value)",
+  Test: "test case or test file",
+  ErrorMessage: "error message emitted (throw new Error, logger.error)",
+  SpringDataRepository: "Spring Data repository interface",
+  SecurityComponent: "Spring Security configuration, filter or provider",
+  TypeDefinition: "interface, type alias, class or enum used as a data shape",
+  Developer: "git author (name, email)",
+  Team: "team from CODEOWNERS or team metadata",
+  Commit: "git commit (hash, message)",
+};
+
+/**
+ * Edges written by the scanner, in planner preference order. Types in
+ * RelationshipType without an entry here are not produced by any analyzer yet.
+ */
+export const SCHEMA_EDGES: SchemaEdge[] = [
+  { type: "DECLARES", from: "File", to: "Function" },
+  { type: "DECLARES", from: "File", to: "Class" },
+  { type: "DECLARES", from: "File", to: "Variable" },
+  {
+    type: "HAS_FUNCTION",
+    from: "Class",
+    to: "Function",
+    note: "span within class",
+  },
+  {
+    type: "CALLS",
+    from: "Function",
+    to: "Function",
+    note: "confidence 0..1, resolution",
+  },
+  {
+    type: "PROVIDES_API",
+    from: "Function",
+    to: "API",
+    note: "direction='provided'",
+  },
+  {
+    type: "USES_API",
+    from: "Function",
+    to: "API",
+    note: "direction='consumed'",
+  },
+  { type: "QUERIES", from: "Function", to: "DatabaseTable" },
+  { type: "USES_CONFIG", from: "Function", to: "Config" },
+  {
+    type: "EMITS_ERROR",
+    from: "Function",
+    to: "ErrorMessage",
+    note: "line within span",
+  },
+  { type: "TESTS", from: "Test", to: "Function" },
+  { type: "TESTS", from: "Test", to: "File" },
+  { type: "CONTAINS", from: "File", to: "API" },
+  { type: "CONTAINS", from: "File", to: "Config" },
+  { type: "CONTAINS", from: "File", to: "ErrorMessage" },
+  { type: "CONTAINS", from: "File", to: "Test" },
+  { type: "CONTAINS", from: "File", to: "TypeDefinition" },
+  { type: "CONTAINS", from: "File", to: "DatabaseTable" },
+  { type: "CONTAINS", from: "File", to: "SpringDataRepository" },
+  { type: "CONTAINS", from: "File", to: "SecurityComponent" },
+  { type: "READS_FROM", from: "Function", to: "Variable" },
+  { type: "WRITES_TO", from: "Function", to: "Variable" },
+  { type: "TRANSFORMS", from: "Function", to: "Variable" },
+  { type: "DERIVES_FROM", from: "Variable", to: "Variable" },
+  { type: "PASSES_TO", from: "Variable", to: "Function" },
+  { type: "HAS_COLUMN", from: "DatabaseTable", to: "DatabaseColumn" },
+  { type: "REPO_PROVIDES_API", from: "Repository", to: "API" },
+  { type: "REPO_USES_API", from: "Repository", to: "API" },
+  { type: "CONSUMES_API_FROM", from: "Repository", to: "Repository" },
+  { type: "IMPORTS", from: "File", to: "File" },
+  { type: "USES_PACKAGE", from: "File", to: "Package" },
+  { type: "REPO_DEPENDS_ON_PACKAGE", from: "Repository", to: "Package" },
+  { type: "SHARES_PACKAGE_WITH", from: "Repository", to: "Repository" },
+  { type: "ACCESSES_TABLE", from: "SpringDataRepository", to: "DatabaseTable" },
+  {
+    type: "QUERIES_COLUMN",
+    from: "SpringDataRepository",
+    to: "DatabaseColumn",
+  },
+  { type: "REPOSITORY_FOR_ENTITY", from: "SpringDataRepository", to: "Class" },
+  {
+    type: "REPOSITORY_QUERIES_TABLE",
+    from: "SpringDataRepository",
+    to: "DatabaseTable",
+  },
+  {
+    type: "REPOSITORY_HAS_METHOD",
+    from: "SpringDataRepository",
+    to: "Function",
+  },
+  { type: "SECURES_API", from: "SecurityComponent", to: "API" },
+  { type: "USED_BY", from: "SecurityComponent", to: "Class" },
+  {
+    type: "RETURNS_TYPE",
+    from: "Function",
+    to: "TypeDefinition",
+    note: "declaredType; generic arguments, arrays and unions included",
+  },
+  { type: "RETURNS_TYPE", from: "Function", to: "Class" },
+  { type: "USES_TYPE", from: "Function", to: "TypeDefinition", note: "param" },
+  { type: "USES_TYPE", from: "Function", to: "Class", note: "param" },
+  { type: "USES_TYPE", from: "Class", to: "Class", note: "field" },
+  { type: "USES_TYPE", from: "Class", to: "TypeDefinition", note: "field" },
+  {
+    type: "USES_TYPE",
+    from: "TypeDefinition",
+    to: "TypeDefinition",
+    note: "field",
+  },
+  { type: "USES_TYPE", from: "TypeDefinition", to: "Class", note: "field" },
+  { type: "EXTENDS", from: "Class", to: "Class" },
+  {
+    type: "IMPLEMENTS",
+    from: "Class",
+    to: "Class",
+    note: "target kind='interface'",
+  },
+  { type: "IMPLEMENTS_TYPE", from: "Class", to: "TypeDefinition" },
+  {
+    type: "OVERRIDES",
+    from: "Function",
+    to: "Function",
+    note: "same-named method of a base type",
+  },
+  {
+    type: "API_RETURNS_TYPE",
+    from: "API",
+    to: "TypeDefinition",
+    note: "response type of a provided API",
+  },
+  { type: "API_RETURNS_TYPE", from: "API", to: "Class" },
+  {
+    type: "API_ACCEPTS_TYPE",
+    from: "API",
+    to: "TypeDefinition",
+    note: "request body type of a provided API",
+  },
+  { type: "API_ACCEPTS_TYPE", from: "API", to: "Class" },
+  {
+    type: "SPECIFIES",
+    from: "API",
+    to: "API",
+    note: "OpenAPI / Swagger operation (source='openapi') to the code route it documents",
+  },
+  { type: "BELONGS_TO", from: "Developer", to: "Team" },
+  { type: "HAS_MEMBER", from: "Team", to: "Developer" },
+  { type: "MANAGES_TEAM", from: "Developer", to: "Team" },
+  { type: "OWNS_REPOSITORY", from: "Team", to: "Repository" },
+  { type: "CONTRIBUTED_TO", from: "Developer", to: "Repository" },
+  { type: "COMMITTED", from: "Developer", to: "Commit" },
+  { type: "CONTAINS_COMMIT", from: "Repository", to: "Commit" },
+  { type: "MODIFIED_FILE", from: "Commit", to: "File" },
+  { type: "COLLABORATES_WITH", from: "Developer", to: "Developer" },
+];
+
+// Properties that identify a node to a reader, most specific first
+const LABEL_IDENTITY: Partial<Record<EntityType, string[]>> = {
+  File: ["file"],
+  API: ["path", "url", "name"],
+  ErrorMessage: ["message", "name"],
+  Developer: ["name", "email"],
+  Commit: ["hash", "name"],
+};
+
+// Labels whose nodes are not tied to a source file
+const FILELESS_LABELS = new Set<string>([
+  "Repository",
+  "Package",
+  "Developer",
+  "Team",
+  "Commit",
+]);
+
+/** What the live database contains, with the static catalog as a fallback. */
+export interface GraphSchema {
+  labels: string[];
+  relationshipTypes: string[];
+  propertyKeys: Record<string, string[]>; // per label; "*" holds all keys
+  edges: SchemaEdge[]; // catalog edges whose labels and type exist
+  live: boolean; // false when introspection failed or the graph is empty
+}
+
+const CACHE_TTL_MS = 60_000;
+let cached: { driver: Driver; at: number; schema: GraphSchema } | null = null;
+
+/**
+ * Introspect labels, relationship types and property keys (db.labels,
+ * db.relationshipTypes, db.schema.nodeTypeProperties / db.propertyKeys).
+ * Cached for a minute; an empty or unreachable graph yields the static catalog.
+ */
+export async function introspectSchema(driver: Driver): Promise<GraphSchema> {
+  if (cached?.driver === driver && Date.now() - cached.at < CACHE_TTL_MS) {
+    return cached.schema;
+  }
+
+  let schema: GraphSchema;
+  try {
+    const labels = (
+      await runReadQuery<{ label: string }>(
+        driver,
+        "CALL db.labels() YIELD label RETURN label"
+      )
+    ).map((r) => r.label);
+    const relationshipTypes = (
+      await runReadQuery<{ relationshipType: string }>(
+        driver,
+        "CALL db.relationshipTypes() YIELD relationshipType RETURN relationshipType"
+      )
+    ).map((r) => r.relationshipType);
+    const propertyKeys = await introspectPropertyKeys(driver);
+
+    schema = labels.length
+      ? {
+          labels,
+          relationshipTypes,
+          propertyKeys,
+          edges: SCHEMA_EDGES.filter(
+            (e) =>
+              labels.includes(e.from) &&
+              labels.includes(e.to) &&
+              relationshipTypes.includes(e.type)
+          ),
+          live: true,
+        }
+      : staticSchema();
+  } catch (error) {
+    logger.warn(
+      `Schema introspection failed, using the static catalog: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+    schema = staticSchema();
+  }
+
+  cached = { driver, at: Date.now(), schema };
+  return schema;
+}
+
+/** The catalog alone, for planning without a database. */
+export function staticSchema(): GraphSchema {
+  return {
+    labels: Object.keys(NODE_LABEL_DESCRIPTIONS),
+    relationshipTypes: [...new Set(SCHEMA_EDGES.map((e) => e.type))],
+    propertyKeys: {},
+    edges: SCHEMA_EDGES,
+    live: false,
+  };
+}
+
+/** Identifying properties of a label, limited to keys the schema has for it when known. */
+export function identifyingProperties(
+  schema: GraphSchema,
+  label: string
+): string[] {
+  const candidates = LABEL_IDENTITY[label as EntityType] ?? ["name"];
+  const keys = schema.propertyKeys[label] ?? schema.propertyKeys["*"];
+  if (!keys) return candidates;
+  const present = candidates.filter((k) => keys.includes(k));
+  return present.length ? present : candidates;
+}
+
+/** Whether nodes of a label carry a property (from the catalog when the schema does not say). */
+export function hasProperty(
+  schema: GraphSchema,
+  label: string,
+  key: string
+): boolean {
+  const keys = schema.propertyKeys[label] ?? schema.propertyKeys["*"];
+  if (keys) return keys.includes(key);
+  return !(key === "file" && FILELESS_LABELS.has(label));
+}
+
+async function introspectPropertyKeys(
+  driver: Driver
+): Promise<Record<string, string[]>> {
+  const keys: Record<string, string[]> = {};
+  try {
+    const rows = await runReadQuery<{
+      nodeLabels: string[];
+      propertyName: string | null;
+    }>(
+      driver,
+      "CALL db.schema.nodeTypeProperties() YIELD nodeLabels, propertyName RETURN nodeLabels, propertyName"
+    );
+    for (const row of rows) {
+      if (!row.propertyName) continue;
+      for (const label of row.nodeLabels) {
+        (keys[label] ??= []).push(row.propertyName);
+      }
+    }
+  } catch {
+    // Older servers: global keys only
+    const rows = await runReadQuery<{ propertyKey: string }>(
+      driver,
+      "CALL db.propertyKeys() YIELD propertyKey RETURN propertyKey"
+    );
+    keys["*"] = rows.map((r) => r.propertyKey);
+  }
+  return keys;
+}
@@ -0,0 +1,233 @@
+import { Driver, Session } from "neo4j-driver";
+import { AnyEntity, Relationship } from "../scanner/types.js";
+import { Logger } from "../utils/logger.js";
+import { toNumber } from "./connection.js";
+import { relKeyOf } from "./saveRelationships.js";
+
+const logger = new Logger("Reconcile");
+
+export interface ReconcileStats {
+  nodesRemoved: number;
+  relationshipsRemoved: number;
+}
+
+async function deleteRelationships(
+  session: Session,
+  rows: { fromId: string; relKey: string }[]
+): Promise<number> {
+  if (!rows.length) return 0;
+  // Every snapshot version of a stale relKey goes, not just the latest one
+  const res = await session.run(
+    `
+    UNWIND $rows AS row
+    MATCH (a {id: row.fromId})-[r {relKey: row.relKey}]->()
+    DELETE r
+    RETURN count(r) AS removed
+  `,
+    { rows }
+  );
+  return toNumber(res.records[0]?.get("removed"));
+}
+
+async function deleteNodes(session: Session, ids: string[]): Promise<number> {
+  if (!ids.length) return 0;
+  const res = await session.run(
+    `
+    UNWIND $ids AS id
+    MATCH (n {id: id})
+    DETACH DELETE n
+    RETURN count(n) AS removed
+  `,
+    { ids }
+  );
+  return toNumber(res.records[0]?.get("removed"));
+}
+
+/**
+ * Delete nodes that are no longer contained by any File.
+ * Shared nodes (Config keys, tables, APIs) survive as long as another file still contains them.
+ */
+async function deleteOrphans(session: Session, ids: string[]): Promise<number> {
+  if (!ids.length) return 0;
+  const res = await session.run(
+    `
+    UNWIND $ids AS id
+    MATCH (n {id: id})
+    WHERE NOT n:File AND NOT (:File)-[:CONTAINS]->(n)
+    DETACH DELETE n
+    RETURN count(n) AS removed
+  `,
+    { ids }
+  );
+  return toNumber(res.records[0]?.get("removed"));
+}
+
+/**
+ * Full-scan reconciliation: make the stored graph of the scanned repositories mirror
+ * the entities and relationships produced by this scan.
+ * - Nodes of a scanned repo whose id was not produced are removed (Package nodes are
+ *   global and shared between repos, so they are kept; their edges are reconciled;
+ *   Snapshot nodes are history, not code).
+ * - Relationships between nodes of scanned repos whose relKey was not produced are removed.
+ *   Edges towards repositories outside this scan are left alone, since this scan cannot
+ *   know whether they still hold.
+ */
+export async function reconcileRepositories(
+  driver: Driver,
+  repoRoots: string[],
+  entities: AnyEntity[],
+  relationships: Relationship[]
+): Promise<ReconcileStats> {
+  if (!repoRoots.length) return { nodesRemoved: 0, relationshipsRemoved: 0 };
+
+  const keepIds = new Set(entities.map((e) => e.id));
+  const keepRelKeys = new Set(relationships.map(relKeyOf));
+
+  const session = driver.session();
+  try {
+    const existingRels = await session.run(
+      `
+      MATCH (a)-[r]->(b)
+      WHERE a.repoRoot IN $repoRoots
+        AND (b.repoRoot IN $repoRoots OR b:Package)
+        AND r.relKey IS NOT NULL
+      RETURN DISTINCT a.id AS fromId, r.relKey AS relKey
+    `,
+      { repoRoots }
+    );
+    const staleRels = existingRels.records
+      .map((r) => ({
+        fromId: r.get("fromId") as string,
+        relKey: r.get("relKey") as string,
+      }))
+      .filter((r) => !keepRelKeys.has(r.relKey));
+    const relationshipsRemoved = await deleteRelationships(session, staleRels);
+
+    const existingNodes = await session.run(
+      `
+      MATCH (n)
+      WHERE n.repoRoot IN $repoRoots AND NOT n:Package AND NOT n:Snapshot
+        AND n.id IS NOT NULL
+      RETURN n.id AS id
+    `,
+      { repoRoots }
+    );
+    const staleIds = existingNodes.records
+      .map((r) => r.get("id") as string)
+      .filter((id) => !keepIds.has(id));
+    const nodesRemoved = await deleteNodes(session, staleIds);
+
+    logger.info(
+      `Reconciled ${repoRoots.length} repositories: removed ${nodesRemoved} stale nodes, ${relationshipsRemoved} stale relationships`
+    );
+    return { nodesRemoved, relationshipsRemoved };
+  } finally {
+    await session.close();
+  }
+}
+
+/**
+ * Per-file reconciliation after an incremental re-extraction of `files`.
+ * Only edges whose both ends belong to the file (the File node or entities it CONTAINS)
+ * are authoritative for a delta, so only those are compared; cross-file edges are
+ * refreshed by the next full scan. Entities that disappeared from the file are removed
+ * once no other File contains them.
+ */
+export async function reconcileFiles(
+  driver: Driver,
+  repoRoot: string,
+  files: string[],
+  entities: AnyEntity[],
+  relationships: Relationship[]
+): Promise<ReconcileStats> {
+  const keepIds = new Set(entities.map((e) => e.id));
+  const keepRelKeys = new Set(relationships.map(relKeyOf));
+  const stats: ReconcileStats = { nodesRemoved: 0, relationshipsRemoved: 0 };
+
+  const session = driver.session();
+  try {
+    for (const file of files) {
+      const existing = await session.run(
+        `
+        MATCH (f:File {repoRoot: $repoRoot, file: $file})
+        OPTIONAL MATCH (f)-[:CONTAINS]->(n)
+        WITH f, [x IN collect(n) WHERE x IS NOT NULL] AS contained
+        WITH contained, contained + [f] AS scope
+        UNWIND scope AS a
+        OPTIONAL MATCH (a)-[r]->(b)
+        WHERE b IN scope AND r.relKey IS NOT NULL
+        RETURN [x IN contained | x.id] AS containedIds,
+               collect(DISTINCT {fromId: a.id, relKey: r.relKey}) AS rels
+      `,
+        { repoRoot, file }
+      );
+      const row = existing.records[0];
+      if (!row) continue;
+
+      const staleRels = ((row.get("rels") as any[]) || []).filter(
+        (r) => r.relKey != null && !keepRelKeys.has(r.relKey)
+      );
+      stats.relationshipsRemoved += await deleteRelationships(
+        session,
+        staleRels
+      );
+
+      const staleIds = ((row.get("containedIds") as string[]) || []).filter(
+        (id) => !keepIds.has(id)
+      );
+      stats.nodesRemoved += await deleteOrphans(session, staleIds);
+    }
+  } finally {
+    await session.close();
+  }
+
+  if (stats.nodesRemoved || stats.relationshipsRemoved) {
+    logger.info(
+      `Reconciled ${files.length} files in ${repoRoot}: removed ${stats.nodesRemoved} stale nodes, ${stats.relationshipsRemoved} stale relationships`
+    );
+  }
+  return stats;
+}
+
+/**
+ * Remove deleted files from the graph: the File node and every entity that no other
+ * File still contains.
+ */
+export async function removeFiles(
+  driver: Driver,
+  repoRoot: string,
+  files: string[]
+): Promise<ReconcileStats> {
+  const stats: ReconcileStats = { nodesRemoved: 0, relationshipsRemoved: 0 };
+  if (!files.length) return stats;
+
+  const session = driver.session();
+  try {
+    for (const file of files) {
+      const res = await session.run(
+        `
+        MATCH (f:File {repoRoot: $repoRoot, file: $file})
+        OPTIONAL MATCH (f)-[:CONTAINS]->(n)
+        WITH f, [x IN collect(n) WHERE x IS NOT NULL | x.id] AS containedIds
+        DETACH DELETE f
+        RETURN containedIds, count(f) AS removed
+      `,
+        { repoRoot, file }
+      );
+      const row = res.records[0];
+      if (!row) continue;
+      stats.nodesRemoved += toNumber(row.get("removed"));
+      stats.nodesRemoved += await deleteOrphans(
+        session,
+        (row.get("containedIds") as string[]) || []
+      );
+    }
+  } finally {
+    await session.close();
+  }
+
+  logger.info(
+    `Removed ${files.length} deleted files from ${repoRoot} (${stats.nodesRemoved} nodes)`
+  );
+  return stats;
+}
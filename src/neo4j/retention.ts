@@ -0,0 +1,126 @@
+import { Driver } from "neo4j-driver";
+import { runQuery, toNumber } from "./connection.js";
+import { listSnapshots } from "./snapshots.js";
+import { Logger } from "../utils/logger.js";
+
+const logger = new Logger("Retention");
+
+export interface RetentionPolicy {
+  keepLast?: number; // keep the newest N snapshots
+  keepDays?: number; // keep snapshots taken within the last N days
+  collapse?: boolean; // keep only the newest version of every relationship
+}
+
+export interface RetentionResult {
+  repoRoot: string;
+  retainedVersions: string[];
+  snapshotsRemoved: number;
+  relationshipVersionsRemoved: number;
+}
+
+/**
+ * Policy configured through SNAPSHOT_KEEP_LAST / SNAPSHOT_KEEP_DAYS / SNAPSHOT_COLLAPSE.
+ * Returns null when no retention is configured, in which case nothing is pruned automatically.
+ */
+export function retentionPolicyFromEnv(): RetentionPolicy | null {
+  const keepLast = Number(process.env.SNAPSHOT_KEEP_LAST);
+  const keepDays = Number(process.env.SNAPSHOT_KEEP_DAYS);
+  const collapse = process.env.SNAPSHOT_COLLAPSE === "true";
+  const policy: RetentionPolicy = {
+    keepLast: keepLast > 0 ? keepLast : undefined,
+    keepDays: keepDays > 0 ? keepDays : undefined,
+    collapse,
+  };
+  if (!policy.keepLast && !policy.keepDays && !policy.collapse) return null;
+  return policy;
+}
+
+/**
+ * Apply a retention policy to one repository.
+ * - Snapshots are retained when they satisfy keepLast OR keepDays; the latest is always kept.
+ * - Relationship versions older than the oldest retained snapshot are deleted (all of them
+ *   except the newest when `collapse` is set). The newest version of every relKey always
+ *   survives, so the live graph is never thinned out, only its duplicates.
+ */
+export async function applyRetention(
+  driver: Driver,
+  repoRoot: string,
+  policy: RetentionPolicy,
+  opts?: { dryRun?: boolean }
+): Promise<RetentionResult> {
+  const dryRun = Boolean(opts?.dryRun);
+  const snapshots = await listSnapshots(driver, repoRoot);
+
+  const dayCutoff =
+    policy.keepDays != null
+      ? new Date(Date.now() - policy.keepDays * 86_400_000).toISOString()
+      : null;
+  const unbounded = policy.keepLast == null && dayCutoff == null;
+  const retained = snapshots
+    .filter(
+      (s, i) =>
+        unbounded ||
+        i === 0 ||
+        (policy.keepLast != null && i < policy.keepLast) ||
+        (dayCutoff != null && s.version >= dayCutoff)
+    )
+    .map((s) => s.version);
+  const removedSnapshots = snapshots
+    .map((s) => s.version)
+    .filter((v) => !retained.includes(v));
+
+  // Relationship versions older than this are eligible for pruning
+  const cutoff = unbounded
+    ? ""
+    : retained.length
+    ? retained[retained.length - 1]
+    : dayCutoff ?? "";
+
+  const relRows = await runQuery<{ removed: any }>(
+    driver,
+    `
+    MATCH (a)-[r]->()
+    WHERE a.repoRoot = $repoRoot AND r.relKey IS NOT NULL
+    WITH r.relKey AS relKey, collect(r) AS rels
+    WHERE size(rels) > 1
+    WITH rels, reduce(m = "", x IN rels |
+      CASE WHEN coalesce(x.snapshotVersion, "") > m
+           THEN coalesce(x.snapshotVersion, "") ELSE m END) AS newest
+    UNWIND rels AS r
+    WITH r, newest
+    WHERE coalesce(r.snapshotVersion, "") < newest
+      AND ($collapse OR coalesce(r.snapshotVersion, "") < $cutoff)
+    ${dryRun ? "" : "DELETE r"}
+    RETURN count(r) AS removed
+  `,
+    { repoRoot, collapse: Boolean(policy.collapse), cutoff }
+  );
+
+  let snapshotsRemoved = removedSnapshots.length;
+  if (!dryRun && removedSnapshots.length) {
+    const rows = await runQuery<{ removed: any }>(
+      driver,
+      `
+      MATCH (s:Snapshot {repoRoot: $repoRoot})
+      WHERE s.version IN $versions
+      DELETE s
+      RETURN count(s) AS removed
+    `,
+      { repoRoot, versions: removedSnapshots }
+    );
+    snapshotsRemoved = toNumber(rows[0]?.removed);
+  }
+
+  const result: RetentionResult = {
+    repoRoot,
+    retainedVersions: retained,
+    snapshotsRemoved,
+    relationshipVersionsRemoved: toNumber(relRows[0]?.removed),
+  };
+  if (!dryRun) {
+    logger.info(
+      `Retention for ${repoRoot}: removed ${result.snapshotsRemoved} snapshots, ${result.relationshipVersionsRemoved} relationship versions`
+    );
+  }
+  return result;
+}
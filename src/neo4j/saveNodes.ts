@@ -29,6 +29,10 @@ function serializeMeta(
   return out;
 }
 
+function jsonOrNull(value: unknown): string | null {
+  return value == null ? null : JSON.stringify(value);
+}
+
 export async function upsertEntitiesBatch(
   driver: Driver,
   entities: AnyEntity[],
@@ -54,6 +58,18 @@ export async function upsertEntitiesBatch(
         method?: string;
         url?: string;
         path?: string;
+        responseType?: string;
+        requestType?: string;
+        responseSchema?: object;
+        requestSchema?: object;
+        pathParams?: object[];
+        queryParams?: object[];
+        headers?: object[];
+        protocol?: string;
+        source?: string;
+        operationId?: string;
+        summary?: string;
+        tags?: string[];
         meta?: Record<string, unknown>;
         span?: { startLine: number; endLine: number };
         language?: string;
@@ -97,6 +113,18 @@ export async function upsertEntitiesBatch(
           existing.file = existing.file ?? e.file;
           existing.language = existing.language ?? e.language;
           existing.span = existing.span ?? e.span;
+          existing.responseType = existing.responseType ?? e.responseType;
+          existing.requestType = existing.requestType ?? e.requestType;
+          existing.responseSchema = existing.responseSchema ?? e.responseSchema;
+          existing.requestSchema = existing.requestSchema ?? e.requestSchema;
+          existing.pathParams = existing.pathParams ?? e.pathParams;
+          existing.queryParams = existing.queryParams ?? e.queryParams;
+          existing.headers = existing.headers ?? e.headers;
+          existing.protocol = existing.protocol ?? e.protocol;
+          existing.source = existing.source ?? e.source;
+          existing.operationId = existing.operationId ?? e.operationId;
+          existing.summary = existing.summary ?? e.summary;
+          existing.tags = existing.tags ?? e.tags;
           if (e.meta) {
             existing.meta = { ...(existing.meta || {}), ...e.meta };
           }
@@ -116,6 +144,19 @@ export async function upsertEntitiesBatch(
         method: e.method ?? null,
         path: e.path ?? null,
         url: e.url ?? null,
+        responseType: e.responseType ?? null,
+        requestType: e.requestType ?? null,
+        // Contract parts as JSON strings, like metaJson
+        responseSchemaJson: jsonOrNull(e.responseSchema),
+        requestSchemaJson: jsonOrNull(e.requestSchema),
+        pathParamsJson: jsonOrNull(e.pathParams),
+        queryParamsJson: jsonOrNull(e.queryParams),
+        headersJson: jsonOrNull(e.headers),
+        protocol: e.protocol ?? "http",
+        source: e.source ?? "code",
+        operationId: e.operationId ?? null,
+        summary: e.summary ?? null,
+        tags: e.tags ?? null,
         snapshotVersion: snapshotVersion ?? null,
         // Store metadata as JSON string to satisfy Neo4j property constraints
         metaJson: e.meta ? JSON.stringify(serializeMeta(e.meta)) : null,
@@ -149,6 +190,18 @@ export async function upsertEntitiesBatch(
             api.method = row.method,
             api.path = row.path,
             api.url = row.url,
+            api.responseType = row.responseType,
+            api.requestType = row.requestType,
+            api.responseSchemaJson = row.responseSchemaJson,
+            api.requestSchemaJson = row.requestSchemaJson,
+            api.pathParamsJson = row.pathParamsJson,
+            api.queryParamsJson = row.queryParamsJson,
+            api.headersJson = row.headersJson,
+            api.protocol = row.protocol,
+            api.source = row.source,
+            api.operationId = row.operationId,
+            api.summary = row.summary,
+            api.tags = row.tags,
             api.metaJson = row.metaJson,
             api.snapshotVersion = row.snapshotVersion,
             api.updatedAt = timestamp()
@@ -182,6 +235,10 @@ export async function upsertEntitiesBatch(
           valueSample: (e as any).valueSample ?? null,
           framework: (e as any).framework ?? null,
           message: (e as any).message ?? null,
+          source: (e as any).source ?? null,
+          ownedPaths: (e as any).ownedPaths ?? null,
+          kind: (e as any).kind ?? null,
+          suite: (e as any).suite ?? null,
         })
       );
 
@@ -13,6 +13,13 @@ function groupByType(
   return map;
 }
 
+/**
+ * Version-independent identity of a relationship, stored as `r.relKey`.
+ */
+export function relKeyOf(r: Relationship): string {
+  return `${r.fromId}|${r.type}|${r.toId}`;
+}
+
 export async function upsertRelationshipsBatch(
   driver: Driver,
   relationships: Relationship[],
@@ -45,7 +52,7 @@ export async function upsertRelationshipsBatch(
       const rows = rels.map((r) => ({
         fromId: r.fromId,
         toId: r.toId,
-        relKey: `${r.fromId}|${type}|${r.toId}`,
+        relKey: relKeyOf(r),
         snapshotVersion: snapshotVersion ?? null,
         properties: r.properties ?? {},
       }));
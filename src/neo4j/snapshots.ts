@@ -0,0 +1,365 @@
+import { Driver } from "neo4j-driver";
+import { createHash } from "crypto";
+import {
+  AnyEntity,
+  Relationship,
+  RelationshipType,
+  FunctionEntity,
+  APIEntity,
+  DatabaseTableEntity,
+  ConfigEntity,
+} from "../scanner/types.js";
+import { ApiContract, contractOf } from "../scanner/apiContracts.js";
+import { runQuery, toNumber } from "./connection.js";
+import { Logger } from "../utils/logger.js";
+
+const logger = new Logger("Snapshots");
+
+/**
+ * Labels whose structural state is recorded per snapshot and compared by `diff`.
+ */
+export const SNAPSHOT_LABELS = [
+  "Function",
+  "API",
+  "DatabaseTable",
+  "Config",
+] as const;
+export type SnapshotLabel = (typeof SNAPSHOT_LABELS)[number];
+
+/**
+ * Dependency edges recorded per snapshot. Structural edges (CONTAINS, DECLARES) and
+ * developer analytics are left out; they follow from the entities themselves.
+ */
+const SNAPSHOT_EDGE_TYPES: RelationshipType[] = [
+  "CALLS",
+  "USES_API",
+  "PROVIDES_API",
+  "QUERIES",
+  "USES_CONFIG",
+  "CONSUMES_API_FROM",
+  "REPO_DEPENDS_ON_PACKAGE",
+  "IMPORTS",
+  "USES_PACKAGE",
+  "EXTENDS",
+  "IMPLEMENTS",
+  "SPECIFIES",
+];
+
+export interface ManifestEntity {
+  key: string; // logical identity, stable across line shifts
+  label: SnapshotLabel;
+  name: string;
+  file: string | null;
+  fingerprint: string; // hash of the properties that make up a "change"
+  contract?: ApiContract; // provided APIs: body schemas and parameters
+}
+
+export interface ManifestEdge {
+  key: string;
+  type: RelationshipType;
+  from: string; // logical key of source
+  to: string; // logical key of target
+  fromFile: string | null;
+  toFile: string | null;
+}
+
+export interface SnapshotManifest {
+  entities: ManifestEntity[];
+  edges: ManifestEdge[];
+}
+
+export interface SnapshotInfo {
+  version: string;
+  createdAt: number | null;
+  entityCount: number;
+  edgeCount: number;
+}
+
+function stableId(parts: string[]): string {
+  return createHash("md5").update(parts.join("|")).digest("hex");
+}
+
+function hash(value: unknown): string {
+  return createHash("md5").update(JSON.stringify(value)).digest("hex");
+}
+
+function fingerprintOf(e: AnyEntity): string {
+  switch (e.type) {
+    case "Function": {
+      const fn = e as FunctionEntity;
+      const lines = fn.span ? fn.span.endLine - fn.span.startLine : null;
+      return hash([
+        fn.params ?? null,
+        fn.paramTypes ?? null,
+        fn.returns ?? null,
+        fn.isAsync ?? null,
+        lines,
+      ]);
+    }
+    case "API": {
+      const api = e as APIEntity;
+      return hash([
+        api.method ?? null,
+        api.path ?? null,
+        api.url ?? null,
+        api.file ?? null,
+        api.responseType ?? null,
+      ]);
+    }
+    case "DatabaseTable": {
+      const t = e as DatabaseTableEntity;
+      return hash([t.schema ?? null, t.entityClass ?? null]);
+    }
+    case "Config":
+      return hash([(e as ConfigEntity).valueSample ?? null]);
+    default:
+      return hash([e.name ?? null]);
+  }
+}
+
+/**
+ * Assign every entity a logical key that survives re-extraction. Function ids embed
+ * their line span, so functions are keyed by file + name (+ ordinal for overloads).
+ */
+function logicalKeys(entities: AnyEntity[]): Map<string, string> {
+  const keyById = new Map<string, string>();
+  const seen = new Map<string, number>();
+  for (const e of entities) {
+    if (keyById.has(e.id)) continue;
+    let key: string;
+    switch (e.type) {
+      case "Function":
+      case "Class":
+        key = `${e.type}:${e.file ?? ""}:${e.name ?? ""}`;
+        break;
+      case "API": {
+        const api = e as APIEntity;
+        // Spec operations get their own keys so that code routes keep theirs
+        const kind = api.source === "openapi" ? "openapi" : api.direction;
+        key = `API:${kind}:${api.method ?? "GET"} ${api.path ?? api.url ?? ""}`;
+        break;
+      }
+      case "DatabaseTable":
+      case "Config":
+      case "Package":
+        key = `${e.type}:${e.name ?? e.id}`;
+        break;
+      case "Repository":
+        key = `Repository:${e.repoRoot}`;
+        break;
+      case "File":
+        key = `File:${e.file ?? ""}`;
+        break;
+      default:
+        key = `${e.type}:${e.id}`;
+    }
+    const n = seen.get(key) ?? 0;
+    seen.set(key, n + 1);
+    keyById.set(e.id, n === 0 ? key : `${key}#${n}`);
+  }
+  return keyById;
+}
+
+/**
+ * Build the manifest recorded for one repository.
+ */
+export function buildManifest(
+  entities: AnyEntity[],
+  relationships: Relationship[]
+): SnapshotManifest {
+  const keyById = logicalKeys(entities);
+  const byId = new Map<string, AnyEntity>();
+  for (const e of entities) if (!byId.has(e.id)) byId.set(e.id, e);
+
+  const tracked = new Set<string>(SNAPSHOT_LABELS);
+  const manifestEntities: ManifestEntity[] = [];
+  const seenKeys = new Set<string>();
+  for (const e of byId.values()) {
+    if (!tracked.has(e.type)) continue;
+    const key = keyById.get(e.id)!;
+    if (seenKeys.has(key)) continue;
+    seenKeys.add(key);
+    const entry: ManifestEntity = {
+      key,
+      label: e.type as SnapshotLabel,
+      name: e.name ?? (e as any).message ?? e.id,
+      file: e.file ?? null,
+      fingerprint: fingerprintOf(e),
+    };
+    if (e.type === "API" && (e as APIEntity).direction === "provided") {
+      const contract = contractOf(e as APIEntity);
+      if (contract) entry.contract = contract;
+    }
+    manifestEntities.push(entry);
+  }
+
+  const edgeTypes = new Set<string>(SNAPSHOT_EDGE_TYPES);
+  const edges = new Map<string, ManifestEdge>();
+  for (const r of relationships) {
+    if (!edgeTypes.has(r.type)) continue;
+    const from = keyById.get(r.fromId);
+    const to = keyById.get(r.toId);
+    if (!from || !to) continue;
+    const key = `${r.type}|${from}|${to}`;
+    if (edges.has(key)) continue;
+    edges.set(key, {
+      key,
+      type: r.type,
+      from,
+      to,
+      fromFile: byId.get(r.fromId)?.file ?? null,
+      toFile: byId.get(r.toId)?.file ?? null,
+    });
+  }
+
+  return { entities: manifestEntities, edges: Array.from(edges.values()) };
+}
+
+async function saveSnapshot(
+  driver: Driver,
+  repoRoot: string,
+  version: string,
+  manifest: SnapshotManifest
+): Promise<void> {
+  await runQuery(
+    driver,
+    `
+    MERGE (s:Snapshot {id: $id})
+    ON CREATE SET s.createdAt = timestamp()
+    SET s.repoRoot = $repoRoot,
+        s.version = $version,
+        s.entityCount = $entityCount,
+        s.edgeCount = $edgeCount,
+        s.manifestJson = $manifestJson
+  `,
+    {
+      id: stableId([repoRoot, "Snapshot", version]),
+      repoRoot,
+      version,
+      entityCount: manifest.entities.length,
+      edgeCount: manifest.edges.length,
+      manifestJson: JSON.stringify(manifest),
+    }
+  );
+}
+
+/**
+ * Record the manifest of a full scan of `repoRoot` as snapshot `version`.
+ */
+export async function recordSnapshot(
+  driver: Driver,
+  repoRoot: string,
+  version: string,
+  entities: AnyEntity[],
+  relationships: Relationship[]
+): Promise<void> {
+  const repoEntities = entities.filter((e) => e.repoRoot === repoRoot);
+  const ids = new Set(repoEntities.map((e) => e.id));
+  const repoRels = relationships.filter((r) => ids.has(r.fromId));
+  const manifest = buildManifest(repoEntities, repoRels);
+  await saveSnapshot(driver, repoRoot, version, manifest);
+  logger.info(
+    `Recorded snapshot ${version} for ${repoRoot}: ${manifest.entities.length} entities, ${manifest.edges.length} edges`
+  );
+}
+
+/**
+ * Record snapshot `version` after an incremental update: the latest manifest with the
+ * entries of `changedFiles` replaced by the re-extracted ones and those of
+ * `removedFiles` dropped. Mirrors reconcileFiles: only edges between changed files are
+ * replaced, cross-file edges are carried over until the next full scan.
+ */
+export async function recordDeltaSnapshot(
+  driver: Driver,
+  repoRoot: string,
+  version: string,
+  delta: {
+    changedFiles?: string[];
+    removedFiles?: string[];
+    entities?: AnyEntity[];
+    relationships?: Relationship[];
+  }
+): Promise<void> {
+  const latest = (await listSnapshots(driver, repoRoot))[0];
+  // Without a full-scan baseline a delta manifest would be misleading
+  if (!latest) return;
+  const base = await loadSnapshot(driver, repoRoot, latest.version);
+  if (!base) return;
+
+  const changed = new Set(delta.changedFiles ?? []);
+  const removed = new Set(delta.removedFiles ?? []);
+  const touched = (f: string | null) =>
+    f != null && (changed.has(f) || removed.has(f));
+
+  const next = buildManifest(
+    (delta.entities ?? []).filter((e) => e.repoRoot === repoRoot),
+    delta.relationships ?? []
+  );
+
+  const entities = new Map<string, ManifestEntity>();
+  for (const e of base.entities) if (!touched(e.file)) entities.set(e.key, e);
+  for (const e of next.entities) entities.set(e.key, e);
+
+  const edges = new Map<string, ManifestEdge>();
+  for (const e of base.edges) {
+    if (removed.has(e.fromFile ?? "") || removed.has(e.toFile ?? "")) continue;
+    if (touched(e.fromFile) && touched(e.toFile)) continue;
+    edges.set(e.key, e);
+  }
+  for (const e of next.edges) edges.set(e.key, e);
+
+  await saveSnapshot(driver, repoRoot, version, {
+    entities: Array.from(entities.values()),
+    edges: Array.from(edges.values()),
+  });
+}
+
+/**
+ * Snapshots of a repository, newest first.
+ */
+export async function listSnapshots(
+  driver: Driver,
+  repoRoot: string
+): Promise<SnapshotInfo[]> {
+  const rows = await runQuery<any>(
+    driver,
+    `
+    MATCH (s:Snapshot {repoRoot: $repoRoot})
+    RETURN s.version AS version, s.createdAt AS createdAt,
+           s.entityCount AS entityCount, s.edgeCount AS edgeCount
+    ORDER BY s.version DESC
+  `,
+    { repoRoot }
+  );
+  return rows.map((r) => ({
+    version: r.version,
+    createdAt: r.createdAt == null ? null : toNumber(r.createdAt),
+    entityCount: toNumber(r.entityCount),
+    edgeCount: toNumber(r.edgeCount),
+  }));
+}
+
+export async function loadSnapshot(
+  driver: Driver,
+  repoRoot: string,
+  version: string
+): Promise<SnapshotManifest | null> {
+  const rows = await runQuery<{ manifestJson: string | null }>(
+    driver,
+    `
+    MATCH (s:Snapshot {repoRoot: $repoRoot, version: $version})
+    RETURN s.manifestJson AS manifestJson
+  `,
+    { repoRoot, version }
+  );
+  const raw = rows[0]?.manifestJson;
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as SnapshotManifest;
+  } catch (e) {
+    logger.warn(`Corrupt manifest for snapshot ${version} of ${repoRoot}`, {
+      error: (e as Error)?.message,
+    });
+    return null;
+  }
+}
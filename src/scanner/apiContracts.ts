@@ -0,0 +1,392 @@
+import {
+  AnyEntity,
+  APIEntity,
+  ClassEntity,
+  Relationship,
+  TypeDefinitionEntity,
+} from "./types.js";
+
+/** JSON-Schema-like shape of a request or response body. */
+export interface ContractSchema {
+  type?: "object" | "array" | "string" | "integer" | "number" | "boolean";
+  format?: string; // "date-time" for date types
+  ref?: string; // the named type the shape comes from (OrderDto, JsonNode)
+  nullable?: boolean;
+  enum?: string[];
+  properties?: Record<string, ContractSchema>;
+  required?: string[];
+  items?: ContractSchema; // arrays
+  additionalProperties?: ContractSchema; // maps
+  anyOf?: ContractSchema[]; // unions of several types
+}
+
+/** What a consumer of a provided API relies on; recorded per snapshot. */
+export interface ApiContract {
+  responseType?: string;
+  requestType?: string;
+  response?: ContractSchema;
+  request?: ContractSchema;
+  pathParams?: { name: string; type?: string }[];
+  queryParams?: { name: string; type?: string; required?: boolean }[];
+  headers?: { name: string; type?: string; required?: boolean }[];
+}
+
+type TypeNode = ClassEntity | TypeDefinitionEntity;
+
+// Nesting beyond which a type is left as a `ref`
+export const MAX_SCHEMA_DEPTH = 6;
+
+// Generic types whose first argument is the payload
+const WRAPPERS = new Set([
+  "Promise",
+  "Task",
+  "ValueTask",
+  "CompletableFuture",
+  "CompletionStage",
+  "Future",
+  "Mono",
+  "Observable",
+  "ResponseEntity",
+  "HttpEntity",
+  "ActionResult",
+  "Awaitable",
+  "Annotated",
+  "Readonly",
+  "Partial",
+]);
+const ARRAYS = new Set([
+  "Array",
+  "ReadonlyArray",
+  "List",
+  "ArrayList",
+  "LinkedList",
+  "IList",
+  "IEnumerable",
+  "ICollection",
+  "IReadOnlyList",
+  "IReadOnlyCollection",
+  "Collection",
+  "Iterable",
+  "Set",
+  "HashSet",
+  "ISet",
+  "SortedSet",
+  "Flux",
+  "Stream",
+  "Sequence",
+  "list",
+  "set",
+  "frozenset",
+  "tuple",
+]);
+const MAPS = new Set([
+  "Map",
+  "HashMap",
+  "TreeMap",
+  "LinkedHashMap",
+  "Dictionary",
+  "IDictionary",
+  "IReadOnlyDictionary",
+  "Record",
+  "Mapping",
+  "dict",
+  "Dict",
+]);
+const SCALARS: Record<string, ContractSchema> = {};
+for (const n of "string String str char Character Guid UUID Uuid".split(" "))
+  SCALARS[n] = { type: "string" };
+for (const n of "int integer Integer long Long short Short byte Byte uint ulong BigInteger bigint".split(
+  " "
+))
+  SCALARS[n] = { type: "integer" };
+for (const n of "number float Float double Double decimal Decimal BigDecimal".split(
+  " "
+))
+  SCALARS[n] = { type: "number" };
+for (const n of "boolean Boolean bool".split(" "))
+  SCALARS[n] = { type: "boolean" };
+for (const n of "Date DateTime DateTimeOffset DateOnly LocalDate LocalDateTime OffsetDateTime ZonedDateTime Instant datetime date".split(
+  " "
+))
+  SCALARS[n] = { type: "string", format: "date-time" };
+// Types saying nothing about the body, and unions members meaning "absent"
+const OPAQUE = new Set(
+  "any unknown object Object dynamic Any JsonNode JsonElement IActionResult IResult ActionResult Response".split(
+    " "
+  )
+);
+const ABSENT = new Set(["null", "undefined", "None", "void"]);
+const NO_BODY = new Set(["void", "Void", "None", "Unit", "NoReturn"]);
+
+/**
+ * Resolve the body schemas of provided APIs (`responseSchema` / `requestSchema`)
+ * from their `responseType` / `requestType`, following the type edges the builder
+ * wrote: API_RETURNS_TYPE / API_ACCEPTS_TYPE to the body type, then USES_TYPE (by
+ * `field`) into nested types. Class fields and TS interface properties become
+ * object properties, required unless optional or nullable; enums become string
+ * enums; wrappers (Promise, Task, ResponseEntity, ActionResult) are unwrapped and
+ * collections become arrays or maps. Types outside the repository stay a `ref`.
+ */
+export function attachApiSchemas(
+  entities: AnyEntity[],
+  relationships: Relationship[]
+): void {
+  const typesById = new Map<string, TypeNode>();
+  for (const e of entities) {
+    if (e.type === "Class" || e.type === "TypeDefinition") {
+      typesById.set(e.id, e as TypeNode);
+    }
+  }
+  // Resolved type names per declaring slot: `${fromId}|${field}` ("" when none)
+  const slots = new Map<string, Map<string, TypeNode>>();
+  for (const r of relationships) {
+    const target = typesById.get(r.toId);
+    if (!target) continue;
+    let slot: string;
+    if (r.type === "API_RETURNS_TYPE") slot = "response";
+    else if (r.type === "API_ACCEPTS_TYPE") slot = "request";
+    else if (r.type === "USES_TYPE") slot = String(r.properties?.field ?? "");
+    else continue;
+    const key = `${r.fromId}|${slot}`;
+    const names = slots.get(key) ?? new Map<string, TypeNode>();
+    if (!names.has(target.name)) names.set(target.name, target);
+    slots.set(key, names);
+  }
+
+  const schemaOf = (
+    owner: string,
+    slot: string,
+    declared: string | undefined,
+    seen: Set<string>
+  ): ContractSchema | undefined => {
+    const names = slots.get(`${owner}|${slot}`);
+    return parseDeclaredType(declared ?? "", (name) => {
+      const t = names?.get(name);
+      if (!t) return undefined;
+      if (seen.has(t.id) || seen.size >= MAX_SCHEMA_DEPTH)
+        return { ref: t.name };
+      return typeSchema(t, new Set(seen).add(t.id));
+    });
+  };
+
+  const typeSchema = (t: TypeNode, seen: Set<string>): ContractSchema => {
+    if (t.type === "TypeDefinition") {
+      if (t.kind === "enum") {
+        return { type: "string", ref: t.name, enum: t.values ?? [] };
+      }
+      if (t.kind === "type") {
+        const aliased =
+          typeof t.definition === "string"
+            ? schemaOf(t.id, "", t.definition, seen)
+            : undefined;
+        return { ...(aliased ?? {}), ref: t.name };
+      }
+    }
+    const members =
+      t.type === "TypeDefinition"
+        ? (t.properties ?? []).map((p) => ({ ...p, visible: true }))
+        : (t.fields ?? []).map((f) => ({
+            name: f.name,
+            type: f.type,
+            optional: false,
+            // Serializers skip non-public C# / TS members and `_private` Python ones
+            visible:
+              !(
+                (t.language === "csharp" || t.language === "typescript") &&
+                /^(private|protected)$/.test(f.visibility ?? "")
+              ) && !(t.language === "python" && f.name.startsWith("_")),
+          }));
+    const properties: Record<string, ContractSchema> = {};
+    const required: string[] = [];
+    for (const m of members) {
+      if (!m.visible || m.name in properties) continue;
+      const schema = schemaOf(t.id, m.name, m.type, seen) ?? {};
+      properties[m.name] = schema;
+      if (!m.optional && !schema.nullable) required.push(m.name);
+    }
+    return {
+      type: "object",
+      ref: t.name,
+      properties,
+      ...(required.length ? { required } : {}),
+    };
+  };
+
+  for (const e of entities) {
+    if (e.type !== "API") continue;
+    const api = e as APIEntity;
+    // Spec operations keep the schemas their document declares
+    if (api.direction !== "provided" || api.source === "openapi") continue;
+    const root = new Set<string>();
+    api.responseSchema = schemaOf(api.id, "response", api.responseType, root);
+    api.requestSchema = schemaOf(api.id, "request", api.requestType, root);
+  }
+}
+
+/** The contract of a provided API, or null when nothing about it is known. */
+export function contractOf(api: APIEntity): ApiContract | null {
+  const contract: ApiContract = {
+    responseType: api.responseType,
+    requestType: api.requestType,
+    response: api.responseSchema as ContractSchema | undefined,
+    request: api.requestSchema as ContractSchema | undefined,
+    pathParams: api.pathParams,
+    queryParams: api.queryParams,
+    headers: api.headers,
+  };
+  for (const k of Object.keys(contract) as (keyof ApiContract)[]) {
+    if (contract[k] === undefined) delete contract[k];
+  }
+  return Object.keys(contract).length ? contract : null;
+}
+
+/**
+ * Schema of a declared type as written in any of the supported languages:
+ * `Promise<Order[]>`, `ResponseEntity<List<OrderDto>>`, `Optional[List["Tag"]]`,
+ * `'open' | 'closed'`, `int?`, `{ id: string; tags?: Tag[] }`. `named` resolves a
+ * simple type name to the schema of a repository type. Undefined for no body.
+ */
+export function parseDeclaredType(
+  declared: string,
+  named: (name: string) => ContractSchema | undefined = () => undefined
+): ContractSchema | undefined {
+  const t = declared
+    .trim()
+    .replace(/^(:|->)\s*/, "")
+    .trim();
+  if (!t || NO_BODY.has(t)) return undefined;
+
+  const union = splitTopLevel(t, "|");
+  if (union.length > 1) return unionSchema(union, named);
+  if (/^(['"]).*\1$/.test(t)) {
+    const inner = t.slice(1, -1);
+    // Python forward references are quoted class names: List["Order"]
+    return /^[A-Z][\w.]*$/.test(inner)
+      ? parseDeclaredType(inner, named)
+      : { type: "string", enum: [inner] };
+  }
+  if (/^-?\d+(\.\d+)?$/.test(t)) return { type: "number" };
+  if (t === "true" || t === "false") return { type: "boolean" };
+  if (t.endsWith("[]")) {
+    return { type: "array", items: parseDeclaredType(t.slice(0, -2), named) };
+  }
+  if (t.endsWith("?")) {
+    const inner = parseDeclaredType(t.slice(0, -1), named);
+    return inner ? { ...inner, nullable: true } : undefined;
+  }
+  if (/^\{[\s\S]*\}$/.test(t))
+    return objectLiteralSchema(t.slice(1, -1), named);
+  if (/^\([\s\S]*\)$/.test(t)) return parseDeclaredType(t.slice(1, -1), named);
+
+  const generic = t.match(/^([\w.$]+)\s*[<[]([\s\S]*)[>\]]$/);
+  if (generic) {
+    const base = generic[1].split(".").pop()!;
+    const args = splitTopLevel(generic[2], ",");
+    if (base === "Optional" || base === "Nullable") {
+      const inner = parseDeclaredType(args[0], named);
+      return inner ? { ...inner, nullable: true } : undefined;
+    }
+    if (base === "Union") return unionSchema(args, named);
+    if (base === "Literal") {
+      return {
+        type: "string",
+        enum: args.map((a) => a.trim().replace(/^['"]|['"]$/g, "")),
+      };
+    }
+    if (WRAPPERS.has(base)) return parseDeclaredType(args[0], named);
+    if (ARRAYS.has(base)) {
+      return { type: "array", items: parseDeclaredType(args[0], named) };
+    }
+    if (MAPS.has(base)) {
+      return {
+        type: "object",
+        additionalProperties: parseDeclaredType(args[args.length - 1], named),
+      };
+    }
+    return named(base) ?? { ref: base };
+  }
+
+  const name = t
+    .replace(/^(readonly|final)\s+/, "")
+    .split(".")
+    .pop()!;
+  if (SCALARS[name]) return { ...SCALARS[name] };
+  if (OPAQUE.has(name)) return {};
+  if (ARRAYS.has(name)) return { type: "array" };
+  if (MAPS.has(name)) return { type: "object" };
+  return named(name) ?? { ref: name };
+}
+
+function unionSchema(
+  members: string[],
+  named: (name: string) => ContractSchema | undefined
+): ContractSchema | undefined {
+  const present = members.filter((m) => !ABSENT.has(m.trim()));
+  const nullable = present.length < members.length;
+  const literals = present.filter((m) => /^(['"]).*\1$/.test(m.trim()));
+  let schema: ContractSchema | undefined;
+  if (present.length && literals.length === present.length) {
+    schema = {
+      type: "string",
+      enum: literals.map((m) => m.trim().slice(1, -1)),
+    };
+  } else if (present.length === 1) {
+    schema = parseDeclaredType(present[0], named);
+  } else if (present.length) {
+    schema = {
+      anyOf: present.map((m) => parseDeclaredType(m, named) ?? {}),
+    };
+  }
+  if (!schema) return nullable ? { nullable: true } : undefined;
+  return nullable ? { ...schema, nullable: true } : schema;
+}
+
+// `{ id: string; tags?: Tag[] }` without its braces
+function objectLiteralSchema(
+  body: string,
+  named: (name: string) => ContractSchema | undefined
+): ContractSchema {
+  const properties: Record<string, ContractSchema> = {};
+  const required: string[] = [];
+  for (const member of splitTopLevel(body, ";,\n")) {
+    const m = member
+      .trim()
+      .match(/^(?:readonly\s+)?(['"]?)([\w$-]+)\1(\?)?\s*:\s*([\s\S]+)$/);
+    if (!m) continue;
+    const schema = parseDeclaredType(m[4], named) ?? {};
+    properties[m[2]] = schema;
+    if (!m[3] && !schema.nullable) required.push(m[2]);
+  }
+  return {
+    type: "object",
+    properties,
+    ...(required.length ? { required } : {}),
+  };
+}
+
+// Split on any of `separators` outside brackets, braces, parens and quotes
+function splitTopLevel(text: string, separators: string): string[] {
+  const out: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let current = "";
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quote) {
+      if (ch === quote && text[i - 1] !== "\\") quote = null;
+    } else if (ch === "'" || ch === '"' || ch === "`") {
+      quote = ch;
+    } else if ("<[({".includes(ch)) {
+      depth++;
+    } else if (">])}".includes(ch) && !(ch === ">" && text[i - 1] === "=")) {
+      depth--;
+    } else if (depth === 0 && separators.includes(ch)) {
+      if (current.trim()) out.push(current.trim());
+      current = "";
+      continue;
+    }
+    current += ch;
+  }
+  if (current.trim()) out.push(current.trim());
+  return out;
+}
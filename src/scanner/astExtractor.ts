@@ -51,8 +51,42 @@ import {
   extractParameterTypes,
   extractTSTypeDefinitions,
   extractClassFields,
+  extractClassHeritage,
   extractSpringResponseSchema,
 } from "./returnTypeExtractor.js";
+import { TestCaseInfo, extractTestCases, isTestPath } from "./testAnalyzer.js";
+import {
+  createPathAliasLoader,
+  extractImports,
+  extractModuleInfo,
+  toImportRefs,
+} from "./importAnalyzer.js";
+import {
+  PythonWebFile,
+  extractPythonWeb,
+  resolvePythonRoutes,
+} from "./pythonWebAnalyzer.js";
+import {
+  GraphQLDocument,
+  GraphQLResolver,
+  findGraphQLDocuments,
+  findGraphQLResolvers,
+  graphqlClientOf,
+  graphqlPath,
+  isGraphQLFile,
+  parseGraphQL,
+} from "./graphqlAnalyzer.js";
+import {
+  GrpcCall,
+  GrpcServer,
+  ProtoFile,
+  ProtoService,
+  findGrpcCalls,
+  findGrpcServers,
+  grpcPath,
+  isProtoFile,
+  parseProto,
+} from "./grpcAnalyzer.js";
 import {
   extractDevelopersFromGit,
   extractTeamFromCodeowners,
@@ -127,6 +161,7 @@ function stripTemplatePlaceholders(input: string): string {
 function makeFileEntity(
   repoRoot: string,
   relPath: string,
+  language?: LanguageId | "unknown",
   size?: number
 ): FileEntity {
   return {
@@ -135,6 +170,7 @@ function makeFileEntity(
     name: relPath.split(/[\\/]/).pop() || relPath,
     repoRoot,
     file: relPath,
+    language,
     meta: size != null ? { size } : undefined,
   };
 }
@@ -165,6 +201,48 @@ function makeFunctionEntity(
   };
 }
 
+// A call expression in a file: callee as written (`foo`, `this.repo.save`) and its line
+interface CallSite {
+  callee: string;
+  line: number;
+}
+
+// A route a file serves; `line` is where its handler is declared, when known, and
+// `requestType` the declared type of its request body
+interface ProvidedRoute {
+  method: string;
+  path: string;
+  line?: number;
+  requestType?: string;
+  pathParams?: { name: string; type?: string }[];
+  queryParams?: { name: string; type?: string; required?: boolean }[];
+  headers?: { name: string; type?: string; required?: boolean }[];
+}
+
+// Callees of the calls a function makes itself: within its span and not inside a
+// named function nested in it (anonymous callbacks count for their enclosing function)
+function callsWithin(
+  fn: { name: string; start: number; end: number },
+  functions: { name: string; start: number; end: number }[],
+  calls: CallSite[]
+): string[] {
+  const nested = functions.filter(
+    (g) =>
+      g !== fn &&
+      g.name !== "anonymous" &&
+      g.start >= fn.start &&
+      g.end <= fn.end &&
+      (g.start > fn.start || g.end < fn.end)
+  );
+  const out = new Set<string>();
+  for (const c of calls) {
+    if (c.line < fn.start || c.line > fn.end) continue;
+    if (nested.some((g) => c.line >= g.start && c.line <= g.end)) continue;
+    out.add(c.callee);
+  }
+  return Array.from(out);
+}
+
 function makeClassEntity(
   repoRoot: string,
   relPath: string,
@@ -260,6 +338,291 @@ function makeAPIEntityConsumed(
   };
 }
 
+// Root fields selected by GraphQL operations, as consumed routes (`QUERY Query.orders`)
+function graphqlConsumedRoutes(
+  docs: GraphQLDocument[]
+): { method: string; url: string; operation?: string }[] {
+  return docs.flatMap((d) =>
+    d.operations.flatMap((op) =>
+      op.fields.map((field) => ({
+        method: op.operation.toUpperCase(),
+        url: graphqlPath(op.operation, field),
+        operation: op.name,
+      }))
+    )
+  );
+}
+
+/**
+ * GraphQL APIs and types of a file: schema root fields and the fields of resolvers
+ * are provided (their ids depend on the field alone, so a schema field and its
+ * resolver in another file make one API), operations' root fields are consumed.
+ * `returns` holds the return types of the file's functions by start line.
+ */
+function makeGraphQLEntities(
+  repoRoot: string,
+  relPath: string,
+  language: LanguageId | "unknown",
+  docs: GraphQLDocument[],
+  resolvers: GraphQLResolver[],
+  returns: Map<number, string>,
+  client?: string
+): AnyEntity[] {
+  const entities: AnyEntity[] = [];
+  for (const field of docs.flatMap((d) => d.fields)) {
+    const api = makeAPIEntityProvided(
+      repoRoot,
+      relPath,
+      field.operation,
+      graphqlPath(field.operation, field.name)
+    );
+    api.protocol = "graphql";
+    api.language = language;
+    api.span = { startLine: field.line, endLine: field.line };
+    api.responseType = field.type;
+    if (field.args.length) api.queryParams = field.args;
+    entities.push(api);
+  }
+  for (const r of resolvers) {
+    const api = makeAPIEntityProvided(
+      repoRoot,
+      relPath,
+      r.operation,
+      graphqlPath(r.operation, r.field)
+    );
+    api.protocol = "graphql";
+    api.language = language;
+    api.responseType =
+      r.returnType ?? (r.start != null ? returns.get(r.start) : undefined);
+    api.meta = { framework: r.framework, handler: r.handler ?? null };
+    entities.push(api);
+  }
+  for (const c of graphqlConsumedRoutes(docs)) {
+    const api = makeAPIEntityConsumed(repoRoot, relPath, c.url, c.method);
+    api.protocol = "graphql";
+    api.language = language;
+    api.meta = { operation: c.operation ?? null, client: client ?? null };
+    entities.push(api);
+  }
+  for (const t of docs.flatMap((d) => d.types)) {
+    entities.push({
+      id: stableId([
+        repoRoot,
+        "TypeDefinition",
+        relPath,
+        t.name,
+        String(t.startLine),
+      ]),
+      type: "TypeDefinition",
+      name: t.name,
+      kind: t.kind,
+      properties: t.properties,
+      values: t.values,
+      repoRoot,
+      file: relPath,
+      language,
+      span: { startLine: t.startLine, endLine: t.endLine },
+    });
+  }
+  return entities;
+}
+
+// Messages, enums and services of a .proto file; a service lists its RPCs as
+// `(Request) => Response` properties
+function makeProtoTypeDefinitions(
+  repoRoot: string,
+  relPath: string,
+  proto: ProtoFile
+): TypeDefinitionEntity[] {
+  const defs: {
+    name: string;
+    kind: TypeDefinitionEntity["kind"];
+    properties?: TypeDefinitionEntity["properties"];
+    values?: string[];
+    startLine: number;
+    endLine: number;
+  }[] = [
+    ...proto.messages.map((m) => ({
+      ...m,
+      kind: "type" as const,
+      properties: m.fields,
+    })),
+    ...proto.enums.map((e) => ({ ...e, kind: "enum" as const })),
+    ...proto.services.map((svc) => ({
+      ...svc,
+      kind: "interface" as const,
+      properties: svc.rpcs.map((r) => ({
+        name: r.name,
+        type: `(${r.requestType}) => ${r.responseType}`,
+      })),
+    })),
+  ];
+  return defs.map((d) => ({
+    id: stableId([
+      repoRoot,
+      "TypeDefinition",
+      relPath,
+      d.name,
+      String(d.startLine),
+    ]),
+    type: "TypeDefinition",
+    name: d.name,
+    kind: d.kind,
+    properties: d.properties,
+    values: d.values,
+    repoRoot,
+    file: relPath,
+    language: "unknown",
+    span: { startLine: d.startLine, endLine: d.endLine },
+    meta: proto.package ? { package: proto.package } : undefined,
+  }));
+}
+
+// Functions a resolver or handler names: those of its file, else the only one of
+// the repository with that name
+function functionsNamed(
+  functions: FunctionEntity[],
+  name: string | undefined,
+  relPath: string
+): FunctionEntity[] {
+  const named = functions.filter((fn) => fn.name === name);
+  const inFile = named.filter((fn) => fn.file === relPath);
+  return inFile.length ? inFile : named.length === 1 ? named : [];
+}
+
+/**
+ * gRPC APIs of a repository: the RPCs its services implement (provided, linked to
+ * the implementing methods) and those its stubs call (consumed, linked to the
+ * innermost function around the call). RPCs resolve against the repository's .proto
+ * services, for the package in their path, their message types and telling RPCs
+ * from other methods; without one, the names of the code are kept
+ * (`/OrderService/GetOrder`).
+ */
+function makeGrpcEntities(
+  repoRoot: string,
+  protos: { relPath: string; proto: ProtoFile }[],
+  files: {
+    relPath: string;
+    language: LanguageId;
+    servers: GrpcServer[];
+    calls: GrpcCall[];
+  }[],
+  entities: AnyEntity[]
+): AnyEntity[] {
+  const apis: AnyEntity[] = [];
+  if (!files.length) return apis;
+  const services = new Map<string, { pkg?: string; service: ProtoService }>();
+  for (const { proto } of protos) {
+    for (const service of proto.services) {
+      if (!services.has(service.name)) {
+        services.set(service.name, { pkg: proto.package, service });
+      }
+    }
+  }
+  const functions = entities.filter(
+    (e): e is FunctionEntity => e.type === "Function" && e.repoRoot === repoRoot
+  );
+  const classes = entities.filter(
+    (e): e is ClassEntity => e.type === "Class" && e.repoRoot === repoRoot
+  );
+  const rpcOf = (service: string, method: string) => {
+    const known = services.get(service);
+    const rpc = known?.service.rpcs.find(
+      (r) => r.name.toLowerCase() === method.toLowerCase()
+    );
+    if (known && !rpc) return undefined;
+    const name = rpc?.name ?? method.charAt(0).toUpperCase() + method.slice(1);
+    return { path: grpcPath(service, name, known?.pkg), rpc };
+  };
+
+  for (const f of files) {
+    const fileFunctions = functions.filter((fn) => fn.file === f.relPath);
+    for (const server of f.servers) {
+      // Implementing functions: a servicer class declared in another module, a
+      // function named by the implementation object, or one declared in place
+      const methods: { name: string; handlers: FunctionEntity[] }[] =
+        server.className
+          ? classes
+              .filter((c) => c.name === server.className)
+              .flatMap((c) =>
+                functions.filter(
+                  (fn) =>
+                    fn.file === c.file &&
+                    !fn.name.startsWith("_") &&
+                    fn.span!.startLine > c.span!.startLine &&
+                    fn.span!.endLine <= c.span!.endLine
+                )
+              )
+              .map((fn) => ({ name: fn.name, handlers: [fn] }))
+          : server.methods.map((m) => ({
+              name: m.name,
+              handlers: m.handler
+                ? functionsNamed(functions, m.handler, f.relPath)
+                : fileFunctions.filter(
+                    (fn) =>
+                      fn.span?.startLine === m.start &&
+                      fn.span?.endLine === m.end
+                  ),
+            }));
+      for (const m of methods) {
+        const target = rpcOf(server.service, m.name);
+        if (!target) continue;
+        const api = makeAPIEntityProvided(
+          repoRoot,
+          f.relPath,
+          "RPC",
+          target.path
+        );
+        api.protocol = "grpc";
+        api.language = f.language;
+        api.requestType = target.rpc?.requestType;
+        api.responseType = target.rpc?.responseType;
+        api.meta = {
+          framework: server.framework,
+          service: server.service,
+          streaming: target.rpc?.streaming ?? null,
+        };
+        apis.push(api);
+        for (const fn of m.handlers) {
+          (fn.apisProvided ??= []).push({ method: "RPC", path: target.path });
+        }
+      }
+    }
+    for (const call of f.calls) {
+      const target = rpcOf(call.service, call.method);
+      if (!target) continue;
+      const api = makeAPIEntityConsumed(
+        repoRoot,
+        f.relPath,
+        target.path,
+        "RPC"
+      );
+      api.protocol = "grpc";
+      api.language = f.language;
+      api.meta = {
+        service: call.service,
+        streaming: target.rpc?.streaming ?? null,
+      };
+      apis.push(api);
+      const [caller] = fileFunctions
+        .filter(
+          (fn) =>
+            fn.span!.startLine <= call.line && call.line <= fn.span!.endLine
+        )
+        .sort(
+          (a, b) =>
+            a.span!.endLine -
+            a.span!.startLine -
+            (b.span!.endLine - b.span!.startLine)
+        );
+      if (caller) {
+        (caller.apisUsed ??= []).push({ method: "RPC", url: target.path });
+      }
+    }
+  }
+  return apis;
+}
+
 function makeTable(
   repoRoot: string,
   relPath: string,
@@ -309,6 +672,7 @@ function makeConfig(
 function makeTest(
   repoRoot: string,
   relPath: string,
+  language: LanguageId | "unknown",
   framework: string
 ): TestEntity {
   return {
@@ -316,11 +680,41 @@ function makeTest(
     type: "Test",
     name: relPath,
     file: relPath,
+    language,
     framework,
     repoRoot,
   };
 }
 
+function makeTestCase(
+  repoRoot: string,
+  relPath: string,
+  language: LanguageId | "unknown",
+  framework: string,
+  c: TestCaseInfo
+): TestEntity {
+  return {
+    id: stableId([
+      repoRoot,
+      "Test",
+      relPath,
+      c.suite ?? "",
+      c.name,
+      String(c.start),
+    ]),
+    type: "Test",
+    name: c.name,
+    file: relPath,
+    language,
+    framework,
+    repoRoot,
+    kind: "case",
+    suite: c.suite,
+    span: { startLine: c.start, endLine: c.end },
+    calls: c.calls,
+  };
+}
+
 function makeRepositoryEntity(repoRoot: string): RepositoryEntity {
   const name = repoRoot.split(/[\\/]/).pop() || repoRoot;
   return {
@@ -659,6 +1053,7 @@ function findNodeAtPosition(
           if (
             node.type === "function_declaration" ||
             node.type === "method_declaration" ||
+            node.type === "constructor_declaration" ||
             node.type === "function_definition" ||
             node.type === "arrow_function" ||
             node.type === "function_expression" ||
@@ -669,7 +1064,11 @@ function findNodeAtPosition(
         } else if (nodeType === "class") {
           if (
             node.type === "class_declaration" ||
-            node.type === "class_definition"
+            node.type === "class_definition" ||
+            node.type === "abstract_class_declaration" ||
+            node.type === "interface_declaration" ||
+            node.type === "record_declaration" ||
+            node.type === "struct_declaration"
           ) {
             result = node;
           }
@@ -762,7 +1161,7 @@ function analyzeJsTs(root: any, code: string) {
     errors: { message: string; line: number }[];
     tables: { name: string }[];
     testFramework?: string;
-    calls: string[];
+    calls: CallSite[];
     functions: { name: string; start: number; end: number }[];
     classes: { name: string; start: number; end: number }[];
     variables: { name: string; start: number; end: number }[];
@@ -959,7 +1358,7 @@ function analyzeJsTs(root: any, code: string) {
     }
 
     // Class
-    if (type === "class_declaration") {
+    if (type === "class_declaration" || type === "abstract_class_declaration") {
       const nameNode = n.childForFieldName?.("name") || n.child(1);
       const name = nameNode?.text ?? "AnonymousClass";
       findings.classes.push({
@@ -1000,7 +1399,9 @@ function analyzeJsTs(root: any, code: string) {
     if (type === "call_expression") {
       const fnNode = n.childForFieldName?.("function") || n.child(0);
       const fnText = fnNode?.text ?? "";
-      if (fnText) findings.calls.push(fnText);
+      if (fnText) {
+        findings.calls.push({ callee: fnText, line: n.startPosition.row + 1 });
+      }
 
       // Lineage: PASSES_TO mapping and argument reads
       const key = enclosingFunctionKey(n);
@@ -1187,18 +1588,22 @@ function analyzeJsTs(root: any, code: string) {
   return findings;
 }
 
-function analyzePython(root: any, code: string) {
+function analyzePython(root: any, code: string, relPath: string) {
+  // Routes are resolved per repository (prefixes and URLconfs span modules), so
+  // `provided` is filled once every file has been analyzed
+  const web = extractPythonWeb(root, relPath, code);
   const findings = {
     functions: [] as { name: string; start: number; end: number }[],
     classes: [] as { name: string; start: number; end: number }[],
     variables: [] as { name: string; start: number; end: number }[],
-    consumed: [] as { method?: string; url: string }[],
+    consumed: web.consumed as { method?: string; url: string }[],
     provided: [] as { method: string; path: string }[],
     configs: [] as string[],
     tables: [] as { name: string }[],
     errors: [] as { message: string; line: number }[],
-    calls: [] as string[],
+    calls: [...web.dependencyCalls] as CallSite[],
     testFramework: undefined as string | undefined,
+    web: web.file,
   };
 
   walk(root, (n) => {
@@ -1244,17 +1649,8 @@ function analyzePython(root: any, code: string) {
     if (type === "call") {
       const fnNode = n.child(0);
       const fnText = fnNode?.text ?? "";
-      if (fnText) findings.calls.push(fnText);
-
-      // requests.get("https://..."), requests.post(...)
-      if (/^(requests\.(get|post|put|delete|patch))$/i.test(fnText)) {
-        const argNode = n.child(1);
-        const urlArg = argNode?.namedChildren?.[0];
-        const urlText = urlArg?.text ?? "";
-        if (urlText) {
-          const cleaned = urlText.replace(/^['"`]/, "").replace(/['"`]$/, "");
-          findings.consumed.push({ url: cleaned });
-        }
+      if (fnText) {
+        findings.calls.push({ callee: fnText, line: n.startPosition.row + 1 });
       }
     }
 
@@ -1294,12 +1690,12 @@ function analyzeJavaLike(root: any, code: string) {
     classes: [] as { name: string; start: number; end: number }[],
     variables: [] as { name: string; start: number; end: number }[],
     consumed: [] as { method?: string; url: string }[],
-    provided: [] as { method: string; path: string }[],
+    provided: [] as ProvidedRoute[],
     configs: [] as string[],
     tables: [] as { name: string }[],
     columns: [] as { table: string; column: string }[],
     errors: [] as { message: string; line: number }[],
-    calls: [] as string[],
+    calls: [] as CallSite[],
     testFramework: undefined as string | undefined,
     springRepositories: [] as {
       name: string;
@@ -1331,6 +1727,54 @@ function analyzeJavaLike(root: any, code: string) {
     const mods = node.namedChildren.find((c: any) => c.type === "modifiers");
     return mods || null;
   }
+  // `@PathVariable`, `@RequestParam` and `@RequestHeader` parameters of a handler
+  // method; a param is optional with `required = false`, a `defaultValue` or Optional<T>
+  function requestParams(
+    method: any
+  ): Pick<ProvidedRoute, "pathParams" | "queryParams" | "headers"> {
+    const pathParams: { name: string; type?: string }[] = [];
+    const queryParams: { name: string; type?: string; required?: boolean }[] =
+      [];
+    const headers: { name: string; type?: string; required?: boolean }[] = [];
+    for (const p of method.childForFieldName?.("parameters")?.namedChildren ??
+      []) {
+      const type = p.childForFieldName?.("type")?.text;
+      const name = p.childForFieldName?.("name")?.text;
+      for (const a of getModifiers(p)?.namedChildren ?? []) {
+        const anno = annotationName(a);
+        const args = a.childForFieldName?.("arguments")?.text ?? "";
+        const alias =
+          args.match(/^\(\s*"([^"]*)"/)?.[1] ??
+          args.match(/\b(?:value|name)\s*=\s*"([^"]*)"/)?.[1] ??
+          name;
+        if (!alias) continue;
+        const required =
+          !/\brequired\s*=\s*false\b/.test(args) &&
+          !/\bdefaultValue\s*=/.test(args) &&
+          !/^Optional</.test(type ?? "");
+        if (anno === "PathVariable") pathParams.push({ name: alias, type });
+        else if (anno === "RequestParam")
+          queryParams.push({ name: alias, type, required });
+        else if (anno === "RequestHeader")
+          headers.push({ name: alias, type, required });
+      }
+    }
+    return {
+      pathParams: pathParams.length ? pathParams : undefined,
+      queryParams: queryParams.length ? queryParams : undefined,
+      headers: headers.length ? headers : undefined,
+    };
+  }
+  // Type of the `@RequestBody` parameter of a handler method
+  function requestBodyType(method: any): string | undefined {
+    const params = method.childForFieldName?.("parameters")?.namedChildren;
+    const body = (params ?? []).find((p: any) =>
+      getModifiers(p)?.namedChildren?.some(
+        (a: any) => annotationName(a) === "RequestBody"
+      )
+    );
+    return body?.childForFieldName?.("type")?.text;
+  }
   function annotationName(anno: any): string {
     // Works for both 'annotation' and 'marker_annotation'
     const raw = anno?.text ?? "";
@@ -1499,6 +1943,18 @@ function analyzeJavaLike(root: any, code: string) {
   walk(root, (n) => {
     const type = n.type as string;
 
+    // Calls, as `receiver.name` or `name`
+    if (type === "method_invocation") {
+      const object = n.childForFieldName?.("object")?.text;
+      const name = n.childForFieldName?.("name")?.text;
+      if (name) {
+        findings.calls.push({
+          callee: object ? `${object}.${name}` : name,
+          line: n.startPosition.row + 1,
+        });
+      }
+    }
+
     // Method invocations - for consumed APIs and errors
     if (type === "method_invocation") {
       const methodName = n.child(2)?.text ?? "";
@@ -1586,8 +2042,12 @@ function analyzeJavaLike(root: any, code: string) {
       }
     }
 
-    // Class declarations
-    if (type === "class_declaration") {
+    // Class declarations; interfaces and records are classes too
+    if (
+      type === "class_declaration" ||
+      type === "interface_declaration" ||
+      type === "record_declaration"
+    ) {
       const nameNode = n.childForFieldName?.("name") || n.child(1);
       const name = nameNode?.text ?? "Class";
       findings.classes.push({
@@ -1657,7 +2117,13 @@ function analyzeJavaLike(root: any, code: string) {
           }
           if (!fullPath) fullPath = "/";
           if (!fullPath.startsWith("/")) fullPath = "/" + fullPath;
-          findings.provided.push({ method: httpMethod, path: fullPath });
+          findings.provided.push({
+            method: httpMethod,
+            path: fullPath,
+            line: n.startPosition.row + 1,
+            requestType: requestBodyType(n),
+            ...requestParams(n),
+          });
         }
       }
     }
@@ -1666,10 +2132,428 @@ function analyzeJavaLike(root: any, code: string) {
   const lower = code.toLowerCase();
   if (lower.includes("junit") || lower.includes("@test")) {
     findings.testFramework = "junit";
-  } else if (lower.includes("xunit")) {
+  }
+
+  return findings;
+}
+
+// HttpClient methods issuing a request, by HTTP method
+const HTTP_CLIENT_METHODS: Record<string, string> = {
+  GetAsync: "GET",
+  GetStringAsync: "GET",
+  GetStreamAsync: "GET",
+  GetByteArrayAsync: "GET",
+  GetFromJsonAsync: "GET",
+  PostAsync: "POST",
+  PostAsJsonAsync: "POST",
+  PutAsync: "PUT",
+  PutAsJsonAsync: "PUT",
+  PatchAsync: "PATCH",
+  PatchAsJsonAsync: "PATCH",
+  DeleteAsync: "DELETE",
+  DeleteFromJsonAsync: "DELETE",
+};
+
+/**
+ * EF Core table names of a repository's `DbSet<T>` properties: the entity's
+ * `[Table("name")]` or `modelBuilder.Entity<T>().ToTable("name")`, else the
+ * property name (EF Core's convention). Scanned up front since the context and its
+ * entities usually live in different files.
+ */
+function collectEfCoreTables(files: RepoFiles["files"]): Map<string, string> {
+  const tableByEntity = new Map<string, string>();
+  const dbSets: [entity: string, property: string][] = [];
+  for (const f of files) {
+    if (f.language !== "csharp") continue;
+    for (const m of f.content.matchAll(
+      /\[\s*Table\s*\(\s*@?"([^"]+)"[^\]]*\]\s*(?:\[[^\]]*\]\s*)*(?:\w+\s+)*?(?:class|record)\s+(\w+)/g
+    )) {
+      tableByEntity.set(m[2], m[1]);
+    }
+    for (const m of f.content.matchAll(
+      /Entity<\s*(\w+)\s*>\s*\(\s*\)\s*\.\s*ToTable\(\s*"([^"]+)"/g
+    )) {
+      tableByEntity.set(m[1], m[2]);
+    }
+    for (const m of f.content.matchAll(/DbSet<\s*([\w.]+)\s*>\s+(\w+)/g)) {
+      dbSets.push([m[1].split(".").pop()!, m[2]]);
+    }
+  }
+  return new Map(
+    dbSets.map(([entity, property]) => [
+      property,
+      tableByEntity.get(entity) ?? property,
+    ])
+  );
+}
+
+// Parameter types bound from the route or query string rather than the body
+const SIMPLE_TYPES =
+  /^(string|int|uint|long|ulong|short|byte|bool|decimal|double|float|char|Guid|DateTime|DateTimeOffset|DateOnly|TimeSpan|CancellationToken)\??$/;
+
+/**
+ * C# with ASP.NET Core conventions:
+ * - Provided APIs: actions of `[ApiController]` / `*Controller` classes, combining
+ *   class and action `[Route]` templates (`[controller]` / `[action]` tokens, `~/`
+ *   overrides) with `[HttpGet("...")]`-style verbs; minimal APIs `app.MapGet("/x", ...)`,
+ *   prefixed by the `MapGroup("/prefix")` they are declared on
+ * - Consumed APIs: HttpClient calls (`GetAsync`, `PostAsJsonAsync`, ...) on a
+ *   client-like receiver or with an absolute URL, `new HttpRequestMessage(HttpMethod.X, url)`
+ * - Config: `configuration["Key"]`, `GetValue<T>("Key")`, `GetSection("Key")`,
+ *   `GetConnectionString("Name")`, `Environment.GetEnvironmentVariable("KEY")`
+ * - Tables: `[Table("name")]` entities, EF Core `DbSet<T>` properties and their use
+ *   through a context (`_db.Orders`), named via `efTables`
+ * - Errors: `throw new XException("...")`, `LogError` / `LogCritical` messages
+ * - Test framework: xUnit, NUnit or MSTest from the usings
+ */
+function analyzeCSharp(root: any, code: string, efTables: Map<string, string>) {
+  const findings = {
+    functions: [] as { name: string; start: number; end: number }[],
+    classes: [] as { name: string; start: number; end: number }[],
+    variables: [] as { name: string; start: number; end: number }[],
+    consumed: [] as { method?: string; url: string }[],
+    provided: [] as ProvidedRoute[],
+    configs: [] as string[],
+    tables: [] as { name: string }[],
+    errors: [] as { message: string; line: number }[],
+    calls: [] as CallSite[],
+    testFramework: undefined as string | undefined,
+  };
+
+  // Literal value of a (verbatim, raw or interpolated) string; `{x}` holes stay as is
+  function stringValue(node: any): string | null {
+    if (
+      !node ||
+      !/^(string_literal|verbatim_string_literal|raw_string_literal|interpolated_string_expression)$/.test(
+        node.type
+      )
+    ) {
+      return null;
+    }
+    return node.text.replace(/^[$@]*"+/, "").replace(/"+$/, "");
+  }
+  function argValues(node: any): any[] {
+    const list =
+      node?.childForFieldName?.("arguments") ??
+      node?.namedChildren?.find((c: any) => c.type === "argument_list");
+    return (list?.namedChildren ?? [])
+      .filter((a: any) => a.type === "argument")
+      .map((a: any) => a.namedChildren[a.namedChildren.length - 1]);
+  }
+  function attributesOf(
+    node: any
+  ): { name: string; template: string | null }[] {
+    const out: { name: string; template: string | null }[] = [];
+    for (const list of node.namedChildren ?? []) {
+      if (list.type !== "attribute_list") continue;
+      for (const attr of list.namedChildren ?? []) {
+        if (attr.type !== "attribute") continue;
+        const name = (attr.childForFieldName?.("name")?.text ?? "")
+          .split(".")
+          .pop()!
+          .replace(/Attribute$/, "");
+        let template: string | null = null;
+        const args = attr.namedChildren?.find(
+          (c: any) => c.type === "attribute_argument_list"
+        );
+        for (const arg of args?.namedChildren ?? []) {
+          const named = arg.text.match(/^\s*(\w+)\s*[=:]/);
+          if (named && named[1] !== "Template") continue;
+          const str = arg.namedChildren?.find(
+            (c: any) => stringValue(c) != null
+          );
+          if (str) {
+            template = stringValue(str);
+            break;
+          }
+        }
+        out.push({ name, template });
+      }
+    }
+    return out;
+  }
+  // `{id:int}` / `{id:int?}` → `{id}`, so routes match their consumers' URLs
+  function joinRoute(base: string, template: string): string {
+    const path = `/${base}/${template}`
+      .replace(/\{(\**\w+)[^}]*\}/g, "{$1}")
+      .replace(/\/{2,}/g, "/");
+    return path.length > 1 ? path.replace(/\/$/, "") : path;
+  }
+  function isControllerClass(cls: any): boolean {
+    if (attributesOf(cls).some((a) => a.name === "ApiController")) return true;
+    const name = cls.childForFieldName?.("name")?.text ?? "";
+    const bases =
+      cls.namedChildren?.find((c: any) => c.type === "base_list")?.text ?? "";
+    return /Controller$/.test(name) && /\bController(Base)?\b/.test(bases);
+  }
+  // Type of an action's request body: the `[FromBody]` parameter, else the single
+  // complex-typed one without a binding source (as [ApiController] infers it)
+  function requestBodyType(method: any): string | undefined {
+    const params = (
+      method.childForFieldName?.("parameters")?.namedChildren ?? []
+    ).filter((p: any) => p.type === "parameter");
+    const typeOf = (p: any): string =>
+      p.childForFieldName?.("type")?.text ?? "";
+    const explicit = params.find((p: any) =>
+      attributesOf(p).some((a) => a.name === "FromBody")
+    );
+    if (explicit) return typeOf(explicit) || undefined;
+    const inferred = params.filter(
+      (p: any) =>
+        typeOf(p) &&
+        !attributesOf(p).some((a) => /^From/.test(a.name)) &&
+        !SIMPLE_TYPES.test(typeOf(p)) &&
+        !/^I[A-Z]/.test(typeOf(p))
+    );
+    return inferred.length === 1 ? typeOf(inferred[0]) : undefined;
+  }
+  // Route, query and header parameters of an action for one of its routes: `{id}`
+  // in the template or [FromRoute] → path, [FromQuery] or another simple type →
+  // query, [FromHeader] → headers; optional when nullable or defaulted
+  function requestParams(
+    method: any,
+    path: string
+  ): Pick<ProvidedRoute, "pathParams" | "queryParams" | "headers"> {
+    const inPath = new Set(
+      Array.from(path.matchAll(/\{\**(\w+)\}/g), (m) => m[1].toLowerCase())
+    );
+    const pathParams: { name: string; type?: string }[] = [];
+    const queryParams: { name: string; type?: string; required?: boolean }[] =
+      [];
+    const headers: { name: string; type?: string; required?: boolean }[] = [];
+    for (const p of method.childForFieldName?.("parameters")?.namedChildren ??
+      []) {
+      const nameNode = p.childForFieldName?.("name");
+      const type = p.childForFieldName?.("type")?.text ?? "";
+      if (p.type !== "parameter" || !nameNode) continue;
+      const attrs = attributesOf(p).map((a) => a.name);
+      const name = p.text.match(/\bName\s*=\s*"([^"]*)"/)?.[1] ?? nameNode.text;
+      const required =
+        !/\?$/.test(type) &&
+        !p.text.slice(nameNode.endIndex - p.startIndex).includes("=");
+      if (attrs.includes("FromHeader")) {
+        headers.push({ name, type, required });
+      } else if (
+        attrs.includes("FromRoute") ||
+        inPath.has(nameNode.text.toLowerCase())
+      ) {
+        pathParams.push({ name, type });
+      } else if (
+        attrs.includes("FromQuery") ||
+        (!attrs.some((a) => /^From/.test(a)) &&
+          SIMPLE_TYPES.test(type) &&
+          !/^CancellationToken/.test(type))
+      ) {
+        queryParams.push({ name, type, required });
+      }
+    }
+    return {
+      pathParams: pathParams.length ? pathParams : undefined,
+      queryParams: queryParams.length ? queryParams : undefined,
+      headers: headers.length ? headers : undefined,
+    };
+  }
+  function controllerRoutes(method: any): ProvidedRoute[] {
+    let cls = method.parent;
+    while (cls && cls.type !== "class_declaration") cls = cls.parent;
+    if (!cls || !isControllerClass(cls)) return [];
+    const controller = (cls.childForFieldName?.("name")?.text ?? "").replace(
+      /Controller$/,
+      ""
+    );
+    const action = method.childForFieldName?.("name")?.text ?? "";
+    const classRoutes = attributesOf(cls)
+      .filter((a) => a.name === "Route" && a.template != null)
+      .map((a) => a.template!);
+    const attrs = attributesOf(method);
+    const actionRoutes = attrs
+      .filter((a) => a.name === "Route" && a.template != null)
+      .map((a) => a.template!);
+    const routes: ProvidedRoute[] = [];
+    const line = method.startPosition.row + 1;
+    const requestType = requestBodyType(method);
+    for (const a of attrs) {
+      const verb = a.name.match(
+        /^Http(Get|Post|Put|Delete|Patch|Head|Options)$/
+      );
+      if (!verb) continue;
+      const templates =
+        a.template != null
+          ? [a.template]
+          : actionRoutes.length
+          ? actionRoutes
+          : [""];
+      for (const t of templates) {
+        for (const base of classRoutes.length ? classRoutes : [""]) {
+          // `/x` and `~/x` on an action ignore the controller's route
+          const path = joinRoute(
+            /^~?\//.test(t) ? "" : base,
+            t.replace(/^~/, "")
+          )
+            .replace(/\[controller\]/gi, controller)
+            .replace(/\[action\]/gi, action);
+          routes.push({
+            method: verb[1].toUpperCase(),
+            path,
+            line,
+            requestType,
+            ...requestParams(method, path),
+          });
+        }
+      }
+    }
+    return routes;
+  }
+
+  // Route prefixes of `MapGroup` builders, by variable name
+  const groups = new Map<string, string>();
+  function groupPrefix(node: any): string {
+    if (!node) return "";
+    if (node.type === "identifier") return groups.get(node.text) ?? "";
+    if (node.type !== "invocation_expression") return "";
+    const fn = node.childForFieldName?.("function");
+    if (fn?.type !== "member_access_expression") return "";
+    const receiver = groupPrefix(fn.childForFieldName?.("expression"));
+    if (fn.childForFieldName?.("name")?.text !== "MapGroup") return receiver;
+    return joinRoute(receiver, stringValue(argValues(node)[0]) ?? "");
+  }
+
+  walk(root, (n) => {
+    const type = n.type as string;
+    const line = n.startPosition.row + 1;
+
+    if (
+      type === "class_declaration" ||
+      type === "interface_declaration" ||
+      type === "record_declaration" ||
+      type === "struct_declaration"
+    ) {
+      findings.classes.push({
+        name: n.childForFieldName?.("name")?.text ?? "Class",
+        start: line,
+        end: n.endPosition.row + 1,
+      });
+      const table = attributesOf(n).find((a) => a.name === "Table")?.template;
+      if (table) findings.tables.push({ name: table });
+    } else if (
+      type === "method_declaration" ||
+      type === "constructor_declaration"
+    ) {
+      findings.functions.push({
+        name: n.childForFieldName?.("name")?.text ?? "method",
+        start: line,
+        end: n.endPosition.row + 1,
+      });
+      if (type === "method_declaration") {
+        findings.provided.push(...controllerRoutes(n));
+      }
+    } else if (type === "property_declaration") {
+      // public DbSet<Order> Orders { get; set; }
+      const propType = n.childForFieldName?.("type")?.text ?? "";
+      const name = n.childForFieldName?.("name")?.text ?? "";
+      if (/^DbSet</.test(propType) && name) {
+        findings.tables.push({ name: efTables.get(name) ?? name });
+      }
+    } else if (type === "variable_declarator") {
+      // var api = app.MapGroup("/api");
+      const init = n.namedChildren?.[n.namedChildren.length - 1];
+      const name = n.childForFieldName?.("name")?.text;
+      if (name && init?.type === "invocation_expression") {
+        const fn = init.childForFieldName?.("function");
+        if (/\.MapGroup$/.test(fn?.text ?? "") || groupPrefix(init)) {
+          groups.set(name, groupPrefix(init));
+        }
+      }
+    } else if (type === "member_access_expression") {
+      // _db.Orders.Where(...)
+      const name = n.childForFieldName?.("name")?.text ?? "";
+      const receiver = n.childForFieldName?.("expression")?.text ?? "";
+      if (efTables.has(name) && /(db|context)$/i.test(receiver)) {
+        findings.tables.push({ name: efTables.get(name)! });
+      }
+    } else if (type === "element_access_expression") {
+      // _configuration["Payments:Url"]
+      const receiver = n.childForFieldName?.("expression")?.text ?? "";
+      const key = stringValue(
+        n.childForFieldName?.("subscript")?.namedChildren?.[0]
+          ?.namedChildren?.[0]
+      );
+      if (key && /config(uration)?$/i.test(receiver))
+        findings.configs.push(key);
+    } else if (type === "object_creation_expression") {
+      const created = n.childForFieldName?.("type")?.text ?? "";
+      const args = argValues(n);
+      if (created === "HttpRequestMessage") {
+        const method = args[0]?.text?.match(/^HttpMethod\.(\w+)$/)?.[1];
+        const url = stringValue(args[1]);
+        if (method && url) {
+          findings.consumed.push({ method: method.toUpperCase(), url });
+        }
+      }
+      if (
+        n.parent?.type === "throw_statement" ||
+        n.parent?.type === "throw_expression"
+      ) {
+        const message = stringValue(args[0]);
+        if (message) findings.errors.push({ message, line });
+      }
+    } else if (type === "invocation_expression") {
+      const fn = n.childForFieldName?.("function");
+      const fnText = fn?.text ?? "";
+      if (fnText) findings.calls.push({ callee: fnText, line });
+      if (fn?.type !== "member_access_expression") return;
+
+      const method = (fn.childForFieldName?.("name")?.text ?? "").replace(
+        /<[\s\S]*>$/,
+        ""
+      );
+      const receiverNode = fn.childForFieldName?.("expression");
+      const receiver = receiverNode?.text ?? "";
+      const args = argValues(n);
+      const first = stringValue(args[0]);
+
+      const mapped = method.match(/^Map(Get|Post|Put|Delete|Patch)$/);
+      if (mapped && first != null) {
+        findings.provided.push({
+          method: mapped[1].toUpperCase(),
+          path: joinRoute(groupPrefix(receiverNode), first),
+        });
+      } else if (
+        HTTP_CLIENT_METHODS[method] &&
+        first != null &&
+        (/(http|client)\w*$/i.test(receiver) || /^https?:\/\//.test(first))
+      ) {
+        findings.consumed.push({
+          method: HTTP_CLIENT_METHODS[method],
+          url: first,
+        });
+      } else if (first && /config(uration)?$/i.test(receiver)) {
+        if (/^(GetValue|GetSection|GetRequiredSection)$/.test(method)) {
+          findings.configs.push(first);
+        } else if (method === "GetConnectionString") {
+          findings.configs.push(`ConnectionStrings:${first}`);
+        }
+      } else if (first && fnText === "Environment.GetEnvironmentVariable") {
+        findings.configs.push(first);
+      } else if (first && /^Log(Error|Critical)$/.test(method)) {
+        findings.errors.push({ message: first, line });
+      }
+    }
+  });
+
+  // Tables and keys are typically used several times per file
+  findings.configs = Array.from(new Set(findings.configs));
+  findings.tables = Array.from(
+    new Set(findings.tables.map((t) => t.name)),
+    (name) => ({ name })
+  );
+
+  if (/\busing\s+Xunit\b/.test(code)) {
     findings.testFramework = "xunit";
-  } else if (lower.includes("nunit")) {
+  } else if (/\busing\s+NUnit\b/.test(code)) {
     findings.testFramework = "nunit";
+  } else if (/\bVisualStudio\.TestTools\.UnitTesting\b/.test(code)) {
+    findings.testFramework = "mstest";
   }
 
   return findings;
@@ -1727,10 +2611,48 @@ export async function extractEntities(
       );
     }
 
+    const pathAliases = createPathAliasLoader(repo.repoRoot);
+    const efTables = collectEfCoreTables(repo.files);
+    // Python routes, resolved once all modules are known
+    const pythonWeb: PythonWebFile[] = [];
+    const pythonFunctions = new Map<string, FunctionEntity[]>();
+    // GraphQL resolvers naming a function instead of declaring one
+    const graphqlHandlers: { relPath: string; resolver: GraphQLResolver }[] =
+      [];
+    // gRPC services and stub calls, resolved against the repository's protos
+    const protos: { relPath: string; proto: ProtoFile }[] = [];
+    const grpcFiles: Parameters<typeof makeGrpcEntities>[2] = [];
     for (const f of repo.files) {
       try {
         // Always create a File entity
-        entities.push(makeFileEntity(repo.repoRoot, f.relPath));
+        const fileEntity = makeFileEntity(repo.repoRoot, f.relPath, f.language);
+        entities.push(fileEntity);
+
+        // GraphQL schema (SDL) and operation files
+        if (isGraphQLFile(f.relPath)) {
+          entities.push(
+            ...makeGraphQLEntities(
+              repo.repoRoot,
+              f.relPath,
+              f.language,
+              [parseGraphQL(f.content)],
+              [],
+              new Map()
+            )
+          );
+          continue;
+        }
+
+        // Protocol Buffers: messages, enums and services; their RPCs become APIs
+        // where the code implements or calls them (see makeGrpcEntities)
+        if (isProtoFile(f.relPath)) {
+          const proto = parseProto(f.content);
+          protos.push({ relPath: f.relPath, proto });
+          entities.push(
+            ...makeProtoTypeDefinitions(repo.repoRoot, f.relPath, proto)
+          );
+          continue;
+        }
 
         const langMod =
           f.language !== "unknown"
@@ -1744,33 +2666,64 @@ export async function extractEntities(
         const tree = parser.parse(f.content);
         const root = tree.rootNode;
 
+        // Imports and declared modules, resolved to IMPORTS / USES_PACKAGE edges later
+        const specifiers = extractImports(root, f.language as LanguageId);
+        fileEntity.imports =
+          f.language === "javascript" || f.language === "typescript"
+            ? toImportRefs(specifiers, pathAliases(f.relPath))
+            : specifiers.map((specifier) => ({ specifier }));
+        const moduleInfo = extractModuleInfo(root, f.language as LanguageId);
+        fileEntity.modules = moduleInfo.modules;
+        fileEntity.typeRefs = moduleInfo.typeRefs;
+
         // Language specific analysis
         let res:
           | ReturnType<typeof analyzeJsTs>
           | ReturnType<typeof analyzePython>
-          | ReturnType<typeof analyzeJavaLike>;
+          | ReturnType<typeof analyzeJavaLike>
+          | ReturnType<typeof analyzeCSharp>;
 
         if (f.language === "javascript" || f.language === "typescript") {
           res = analyzeJsTs(root, f.content);
         } else if (f.language === "python") {
-          res = analyzePython(root, f.content);
+          const py = analyzePython(root, f.content, f.relPath);
+          pythonWeb.push(py.web);
+          pythonFunctions.set(f.relPath, []);
+          res = py;
+        } else if (f.language === "csharp") {
+          res = analyzeCSharp(root, f.content, efTables);
         } else {
-          // java / csharp - treat similarly
           res = analyzeJavaLike(root, f.content);
         }
 
-        // Emit classes
-        for (const c of (res as any).classes) {
-          entities.push(
-            makeClassEntity(
-              repo.repoRoot,
-              f.relPath,
-              f.language,
-              c.name,
-              c.start,
-              c.end
-            )
-          );
+        // GraphQL documents embedded in the code, and root field resolvers
+        const graphqlDocs = findGraphQLDocuments(
+          root,
+          f.language as LanguageId
+        ).map((d) => parseGraphQL(d.text, d.line));
+        const graphqlResolvers = findGraphQLResolvers(
+          root,
+          f.language as LanguageId
+        );
+        const graphqlConsumed = graphqlConsumedRoutes(graphqlDocs);
+        for (const r of graphqlResolvers) {
+          if (r.handler) {
+            graphqlHandlers.push({ relPath: f.relPath, resolver: r });
+          }
+        }
+        const grpcServers = findGrpcServers(root, f.language as LanguageId);
+        const grpcCalls = findGrpcCalls(
+          f.content,
+          f.language as LanguageId,
+          (res as any).calls ?? []
+        );
+        if (grpcServers.length || grpcCalls.length) {
+          grpcFiles.push({
+            relPath: f.relPath,
+            language: f.language as LanguageId,
+            servers: grpcServers,
+            calls: grpcCalls,
+          });
         }
 
         // Extract TypeScript/JavaScript type definitions if applicable
@@ -1805,7 +2758,7 @@ export async function extractEntities(
           }
         }
 
-        // Extract class fields for schema generation
+        // Emit classes with their fields (for schema generation) and bases
         const classEntities: ClassEntity[] = [];
         for (const c of (res as any).classes) {
           const classEntity = makeClassEntity(
@@ -1822,6 +2775,12 @@ export async function extractEntities(
           if (classNode) {
             const fields = extractClassFields(classNode, f.language);
             classEntity.fields = fields;
+            const heritage = extractClassHeritage(classNode, f.language);
+            if (heritage.kind === "interface") classEntity.kind = "interface";
+            if (heritage.extends.length) classEntity.extends = heritage.extends;
+            if (heritage.implements.length) {
+              classEntity.implements = heritage.implements;
+            }
           }
 
           entities.push(classEntity);
@@ -1846,6 +2805,7 @@ export async function extractEntities(
             >
           | undefined;
         const fileFuncNames: string[] = [];
+        const handlerReturns = new Map<number, string>(); // by start line
         for (const fn of (res as any).functions) {
           const func = makeFunctionEntity(
             repo.repoRoot,
@@ -1867,7 +2827,12 @@ export async function extractEntities(
               func.returnsSchema = returnInfo.schema;
             } else if (f.language === "python") {
               const returnInfo = extractPythonReturnType(fnNode, f.content);
-              func.returns = returnInfo.returnType;
+              // FastAPI handlers may declare what they return as response_model
+              func.returns =
+                returnInfo.returnType ??
+                (res as ReturnType<typeof analyzePython>).web.routes.find(
+                  (r) => r.line === fn.start && r.responseType
+                )?.responseType;
               func.isAsync = returnInfo.isAsync;
             } else if (f.language === "java") {
               const returnInfo = extractJavaReturnType(fnNode);
@@ -1898,9 +2863,32 @@ export async function extractEntities(
           }
 
           // attach heuristic relationships on function meta for later relationship building
-          (func as FunctionEntity).calls = (res as any).calls ?? [];
-          (func as FunctionEntity).apisProvided = (res as any).provided ?? [];
-          (func as FunctionEntity).apisUsed = (res as any).consumed ?? [];
+          (func as FunctionEntity).calls = callsWithin(
+            fn,
+            (res as any).functions,
+            (res as any).calls ?? []
+          );
+          // A route provided by a known handler belongs to it alone; Python
+          // handlers get their routes after the scan (see below)
+          (func as FunctionEntity).apisProvided = [
+            ...(f.language === "python"
+              ? []
+              : ((res as any).provided ?? []).filter(
+                  (p: ProvidedRoute) => p.line == null || p.line === fn.start
+                )),
+            ...graphqlResolvers
+              .filter((r) => r.start === fn.start && r.end === fn.end)
+              .map((r) => ({
+                method: r.operation.toUpperCase(),
+                path: graphqlPath(r.operation, r.field),
+              })),
+          ];
+          if (func.returns) handlerReturns.set(fn.start, func.returns);
+          pythonFunctions.get(f.relPath)?.push(func);
+          (func as FunctionEntity).apisUsed = [
+            ...((res as any).consumed ?? []),
+            ...graphqlConsumed.map(({ method, url }) => ({ method, url })),
+          ];
           (func as FunctionEntity).tablesQueried =
             (res as any).tables?.map((t: any) => t.name) ?? [];
           (func as FunctionEntity).configsUsed = (res as any).configs ?? [];
@@ -1947,7 +2935,7 @@ export async function extractEntities(
         }
 
         // Enhanced API classification correction
-        const providedAPIs = (res as any).provided ?? [];
+        const providedAPIs: ProvidedRoute[] = (res as any).provided ?? [];
         const consumedAPIs = (res as any).consumed ?? [];
         const hasAxios = f.content.includes("axios");
 
@@ -1966,9 +2954,18 @@ export async function extractEntities(
               makeAPIEntityConsumed(repo.repoRoot, f.relPath, p.path, p.method)
             );
           } else {
-            entities.push(
-              makeAPIEntityProvided(repo.repoRoot, f.relPath, p.method, p.path)
+            const api = makeAPIEntityProvided(
+              repo.repoRoot,
+              f.relPath,
+              p.method,
+              p.path
             );
+            if (p.line != null) api.responseType = handlerReturns.get(p.line);
+            api.requestType = p.requestType;
+            api.pathParams = p.pathParams;
+            api.queryParams = p.queryParams;
+            api.headers = p.headers;
+            entities.push(api);
           }
         }
 
@@ -1979,6 +2976,18 @@ export async function extractEntities(
           );
         }
 
+        entities.push(
+          ...makeGraphQLEntities(
+            repo.repoRoot,
+            f.relPath,
+            f.language,
+            graphqlDocs,
+            graphqlResolvers,
+            handlerReturns,
+            graphqlConsumed.length ? graphqlClientOf(f.content) : undefined
+          )
+        );
+
         // Configs
         for (const k of (res as any).configs ?? []) {
           entities.push(makeConfig(repo.repoRoot, f.relPath, k));
@@ -1989,18 +2998,31 @@ export async function extractEntities(
           entities.push(makeError(repo.repoRoot, f.relPath, e.message, e.line));
         }
 
-        // Tests
-        const isTestFile =
-          /(\.test\.|\.spec\.)/.test(f.relPath.toLowerCase()) ||
-          (res as any).testFramework;
-        if (isTestFile) {
-          entities.push(
-            makeTest(
-              repo.repoRoot,
-              f.relPath,
-              (res as any).testFramework || "unknown"
-            )
+        // Tests: the file plus one entity per test case, with the calls
+        // relationshipBuilder needs to link them to the code they test
+        const framework = (res as any).testFramework as string | undefined;
+        const tests = extractTestCases(root, f.language as LanguageId);
+        if (isTestPath(f.relPath) || (framework && tests.cases.length)) {
+          const fileTest = makeTest(
+            repo.repoRoot,
+            f.relPath,
+            f.language,
+            framework || "unknown"
           );
+          fileTest.kind = "file";
+          fileTest.calls = tests.outsideCalls;
+          entities.push(fileTest);
+          for (const c of tests.cases) {
+            entities.push(
+              makeTestCase(
+                repo.repoRoot,
+                f.relPath,
+                f.language,
+                fileTest.framework!,
+                c
+              )
+            );
+          }
         }
 
         // Tables/Columns - too language-specific; placeholder for future SQL extraction
@@ -2075,6 +3097,50 @@ export async function extractEntities(
         });
       }
     }
+
+    for (const [relPath, routes] of resolvePythonRoutes(pythonWeb)) {
+      for (const r of routes) {
+        const api = makeAPIEntityProvided(
+          repo.repoRoot,
+          relPath,
+          r.method,
+          r.path
+        );
+        // The handler provides the route when known; else every function of its file
+        const fns = pythonFunctions.get(relPath) ?? [];
+        const handler = fns.find((fn) => fn.span?.startLine === r.line);
+        api.language = "python";
+        api.responseType = r.responseType ?? handler?.returns;
+        api.requestType = r.requestType;
+        api.pathParams = r.pathParams;
+        api.queryParams = r.queryParams;
+        api.meta = { framework: r.framework, handler: r.handler ?? null };
+        entities.push(api);
+        for (const fn of handler ? [handler] : fns) {
+          fn.apisProvided!.push({ method: r.method, path: r.path });
+        }
+      }
+    }
+
+    // Resolvers referring to a function by name
+    if (graphqlHandlers.length) {
+      const functions = entities.filter(
+        (e): e is FunctionEntity =>
+          e.type === "Function" && e.repoRoot === repo.repoRoot
+      );
+      for (const { relPath, resolver } of graphqlHandlers) {
+        for (const fn of functionsNamed(functions, resolver.handler, relPath)) {
+          (fn.apisProvided ??= []).push({
+            method: resolver.operation.toUpperCase(),
+            path: graphqlPath(resolver.operation, resolver.field),
+          });
+        }
+      }
+    }
+
+    entities.push(
+      ...makeGrpcEntities(repo.repoRoot, protos, grpcFiles, entities)
+    );
   }
 
   logger.info(`AST extraction produced ${entities.length} entities`);
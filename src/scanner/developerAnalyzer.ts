@@ -407,11 +407,13 @@ export function extractTeamFromCodeowners(repoPath: string): TeamEntity[] {
   try {
     const content = readFileSync(codeownersFile, "utf8");
     const lines = content.split("\n");
-    const teamSet = new Set<string>();
+    // team name -> path patterns it owns
+    const teamPaths = new Map<string, string[]>();
 
     for (const line of lines) {
       const trimmed = line.trim();
       if (!trimmed || trimmed.startsWith("#")) continue;
+      const pattern = trimmed.split(/\s+/)[0];
 
       // Look for team patterns like @org/team-name
       const teamMatches = trimmed.match(/@[\w\-]+\/([\w\-]+)/g);
@@ -419,14 +421,16 @@ export function extractTeamFromCodeowners(repoPath: string): TeamEntity[] {
         for (const match of teamMatches) {
           const teamName = match.split("/")[1];
           if (teamName) {
-            teamSet.add(teamName);
+            const paths = teamPaths.get(teamName) ?? [];
+            if (!paths.includes(pattern)) paths.push(pattern);
+            teamPaths.set(teamName, paths);
           }
         }
       }
     }
 
     // Create team entities
-    for (const teamName of teamSet) {
+    for (const [teamName, ownedPaths] of teamPaths) {
       const team: TeamEntity = {
         id: createHash("md5")
           .update(`Team|${teamName}|${repoPath}`)
@@ -435,6 +439,8 @@ export function extractTeamFromCodeowners(repoPath: string): TeamEntity[] {
         name: teamName,
         repoRoot: repoPath,
         description: `Team extracted from CODEOWNERS`,
+        source: "codeowners",
+        ownedPaths,
       };
       teams.push(team);
     }
@@ -512,6 +518,7 @@ export function extractTeamFromMetadata(repoPath: string): TeamEntity[] {
             description,
             lead: metadata.lead || metadata.manager,
             size: metadata.size || metadata.members?.length,
+            source: "metadata",
           };
           teams.push(team);
         }
@@ -568,6 +575,7 @@ export function inferTeamFromRepoStructure(
         name: teamName,
         repoRoot: repoPath,
         description: `Team inferred from repository name: ${repoName}`,
+        source: "inferred",
       };
 
       logger.info(
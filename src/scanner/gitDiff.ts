@@ -0,0 +1,181 @@
+import { execFileSync } from "child_process";
+import { Logger } from "../utils/logger.js";
+
+const logger = new Logger("GitDiff");
+
+export interface LineRange {
+  startLine: number;
+  endLine: number;
+}
+
+export interface ChangedFile {
+  file: string; // path on the new side (old path for deleted files)
+  oldFile?: string; // previous path for renames
+  status: "added" | "modified" | "deleted" | "renamed";
+  // Changed line ranges on the new side; pure deletions are recorded as the line
+  // they were removed after, so the surrounding function still counts as touched
+  hunks: LineRange[];
+  // Changed line ranges on the old side (used for deleted files)
+  oldHunks: LineRange[];
+}
+
+/**
+ * Run `git diff` locally and return its unified output with zero context lines.
+ * `head` omitted compares `base` against the working tree.
+ */
+export function readGitDiff(
+  repoRoot: string,
+  base: string,
+  head?: string
+): string {
+  verifyCommit(repoRoot, base);
+  if (head) verifyCommit(repoRoot, head);
+  const args = ["diff", "--unified=0", "--no-color", "--no-ext-diff", "-M"];
+  args.push(base);
+  if (head) args.push(head);
+  args.push("--");
+  try {
+    return execFileSync("git", args, {
+      cwd: repoRoot,
+      encoding: "utf8",
+      stdio: ["ignore", "pipe", "pipe"],
+      timeout: 30000,
+      maxBuffer: 64 * 1024 * 1024,
+    }).toString();
+  } catch (error) {
+    const stderr = (error as any)?.stderr?.toString?.().trim();
+    logger.warn(`git diff failed in ${repoRoot}`, {
+      error: stderr || (error as Error).message,
+    });
+    throw new Error(
+      `git diff ${base}${head ? ` ${head}` : ""} failed: ${
+        stderr || (error as Error).message
+      }`
+    );
+  }
+}
+
+/**
+ * Make sure a ref given by the caller names a commit before it reaches `git diff`;
+ * refs starting with `-` would be read as options.
+ */
+function verifyCommit(repoRoot: string, ref: string): void {
+  if (!ref || ref.startsWith("-")) {
+    throw new Error(`Invalid git ref "${ref}": refs must not start with "-"`);
+  }
+  try {
+    execFileSync(
+      "git",
+      ["rev-parse", "--verify", "--quiet", `${ref}^{commit}`],
+      {
+        cwd: repoRoot,
+        stdio: ["ignore", "pipe", "pipe"],
+        timeout: 30000,
+      }
+    );
+  } catch {
+    throw new Error(
+      `Unknown git ref "${ref}": it does not resolve to a commit in ${repoRoot}`
+    );
+  }
+}
+
+/**
+ * Parse unified diff text (as produced by `git diff`) into changed files and hunks.
+ */
+export function parseUnifiedDiff(diff: string): ChangedFile[] {
+  const files: ChangedFile[] = [];
+  let current: ChangedFile | null = null;
+  let gitHeaders = false;
+  let inHunks = false; // body lines like "--- x" must not be read as headers
+
+  const stripPrefix = (p: string): string | null => {
+    const path = p.trim().replace(/^"(.*)"$/, "$1");
+    if (path === "/dev/null") return null;
+    return path.replace(/^[ab]\//, "");
+  };
+
+  const diffLines = diff.split(/\r?\n/);
+  for (let i = 0; i < diffLines.length; i++) {
+    const line = diffLines[i];
+    if (line.startsWith("diff --git ")) {
+      gitHeaders = true;
+      inHunks = false;
+      const m = line.match(/^diff --git a\/(.+?) b\/(.+)$/);
+      current = {
+        file: m ? m[2] : "",
+        status: "modified",
+        hunks: [],
+        oldHunks: [],
+      };
+      if (m && m[1] !== m[2]) {
+        current.oldFile = m[1];
+        current.status = "renamed";
+      }
+      files.push(current);
+      continue;
+    }
+    if (
+      !gitHeaders &&
+      line.startsWith("--- ") &&
+      diffLines[i + 1]?.startsWith("+++ ")
+    ) {
+      // Plain unified diff without git headers: a "---"/"+++" pair starts a file
+      current = { file: "", status: "modified", hunks: [], oldHunks: [] };
+      files.push(current);
+      inHunks = false;
+    }
+    if (!current) continue;
+
+    if (line.startsWith("@@")) {
+      inHunks = true;
+      const m = line.match(/^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/);
+      if (!m) continue;
+      const oldStart = Number(m[1]);
+      const oldCount = m[2] != null ? Number(m[2]) : 1;
+      const newStart = Number(m[3]);
+      const newCount = m[4] != null ? Number(m[4]) : 1;
+      if (oldCount > 0) {
+        current.oldHunks.push({
+          startLine: oldStart,
+          endLine: oldStart + oldCount - 1,
+        });
+      }
+      current.hunks.push({
+        startLine: Math.max(1, newStart),
+        endLine: Math.max(1, newStart + Math.max(newCount, 1) - 1),
+      });
+      continue;
+    }
+    if (inHunks) continue;
+
+    if (line.startsWith("new file mode")) {
+      current.status = "added";
+    } else if (line.startsWith("deleted file mode")) {
+      current.status = "deleted";
+    } else if (line.startsWith("rename from ")) {
+      current.oldFile = line.slice("rename from ".length);
+      current.status = "renamed";
+    } else if (line.startsWith("rename to ")) {
+      current.file = line.slice("rename to ".length);
+    } else if (line.startsWith("--- ")) {
+      const oldPath = stripPrefix(line.slice(4));
+      if (oldPath == null) current.status = "added";
+      else if (!current.file) current.file = oldPath;
+    } else if (line.startsWith("+++ ")) {
+      const newPath = stripPrefix(line.slice(4));
+      if (newPath == null) current.status = "deleted";
+      else current.file = newPath;
+    }
+  }
+
+  return files.filter((f) => f.file);
+}
+
+export function rangesOverlap(
+  ranges: LineRange[],
+  startLine: number,
+  endLine: number
+): boolean {
+  return ranges.some((r) => r.startLine <= endLine && r.endLine >= startLine);
+}
@@ -0,0 +1,948 @@
+import { LanguageId } from "./types.js";
+
+export type GraphQLOperationType = "query" | "mutation" | "subscription";
+
+export interface GraphQLArgument {
+  name: string;
+  type: string; // declared type (`int`, `OrderFilter`), see graphqlDeclaredType
+  required: boolean; // non-null without a default value
+}
+
+/** A Query / Mutation / Subscription field declared by a schema */
+export interface GraphQLRootField {
+  operation: GraphQLOperationType;
+  name: string;
+  type: string; // declared type, e.g. `Order[]` or `Order | null`
+  args: GraphQLArgument[];
+  line: number;
+}
+
+/** A query / mutation / subscription document and the root fields it selects */
+export interface GraphQLOperation {
+  operation: GraphQLOperationType;
+  name?: string;
+  fields: string[];
+  line: number;
+}
+
+/** An object, input, interface or enum type declared by a schema */
+export interface GraphQLTypeDef {
+  name: string;
+  kind: "type" | "interface" | "enum";
+  properties?: { name: string; type: string; optional: boolean }[];
+  values?: string[];
+  startLine: number;
+  endLine: number;
+}
+
+export interface GraphQLDocument {
+  fields: GraphQLRootField[];
+  operations: GraphQLOperation[];
+  types: GraphQLTypeDef[];
+}
+
+/** A GraphQL document embedded in source code, with the line it starts on */
+export interface EmbeddedGraphQL {
+  text: string;
+  line: number;
+}
+
+/**
+ * The code serving a root field: a function declared there (`start` / `end`, the
+ * span of the function) or one referenced by name (`handler`). Code-first
+ * frameworks may declare the field's type as well.
+ */
+export interface GraphQLResolver {
+  operation: GraphQLOperationType;
+  field: string;
+  framework: string;
+  start?: number;
+  end?: number;
+  handler?: string;
+  returnType?: string;
+}
+
+const ROOT_TYPES: Record<string, GraphQLOperationType> = {
+  Query: "query",
+  Mutation: "mutation",
+  Subscription: "subscription",
+};
+const BUILTIN_SCALARS: Record<string, string> = {
+  ID: "string",
+  String: "string",
+  Int: "int",
+  Float: "number",
+  Boolean: "boolean",
+};
+// Untagged template literals holding a document: `#graphql` or an operation
+const DOCUMENT_START =
+  /^\s*(?:#graphql\b|(?:query|mutation|subscription)(?:\s+\w+)?\s*[({@])/;
+const CLIENTS: [RegExp, string][] = [
+  [/@apollo\/client|apollo-angular|apollo-client|react-apollo/, "apollo"],
+  [/['"](?:urql|@urql\/[\w-]+)['"]/, "urql"],
+  [/graphql-request/, "graphql-request"],
+  [/react-relay|relay-runtime/, "relay"],
+  [/\bfrom\s+gql\b|\bimport\s+gql\b/, "gql"],
+  [/GraphQlClient|DgsGraphQLClient/, "spring-graphql"],
+];
+
+/** Extensions of schema and operation files */
+export function isGraphQLFile(path: string): boolean {
+  return /\.(graphql|graphqls|gql)$/i.test(path);
+}
+
+/** `Query.orders`: the path of a root field, and the url of its consumers */
+export function graphqlPath(
+  operation: GraphQLOperationType,
+  field: string
+): string {
+  const root = Object.keys(ROOT_TYPES).find((k) => ROOT_TYPES[k] === operation);
+  return `${root}.${field}`;
+}
+
+/**
+ * A GraphQL type in the notation of the type extractors: `[Order!]!` → `Order[]`,
+ * `Order` → `Order | null`, built-in scalars → `string` / `int` / `number` / `boolean`
+ */
+export function graphqlDeclaredType(type: string): string {
+  const nonNull = type.endsWith("!");
+  const inner = nonNull ? type.slice(0, -1) : type;
+  const base = inner.startsWith("[")
+    ? `${nonNullable(graphqlDeclaredType(inner.slice(1, -1)))}[]`
+    : BUILTIN_SCALARS[inner] ?? inner;
+  return nonNull ? base : `${base} | null`;
+}
+
+function nonNullable(type: string): string {
+  return type.replace(/ \| null$/, "");
+}
+
+/** The GraphQL client library a module uses, from its imports */
+export function graphqlClientOf(code: string): string | undefined {
+  return CLIENTS.find(([pattern]) => pattern.test(code))?.[1];
+}
+
+interface Token {
+  kind: "name" | "punct" | "string" | "number";
+  value: string;
+  line: number;
+}
+
+const NAME = /[_A-Za-z][_0-9A-Za-z]*/y;
+const NUMBER = /-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?/y;
+
+function tokenize(source: string, firstLine: number): Token[] {
+  const tokens: Token[] = [];
+  let line = firstLine;
+  let i = 0;
+  while (i < source.length) {
+    const c = source[i];
+    if (c === "\n") {
+      line++;
+      i++;
+    } else if (c === "#") {
+      while (i < source.length && source[i] !== "\n") i++;
+    } else if (/[\s,]/.test(c)) {
+      i++;
+    } else if (source.startsWith('"""', i)) {
+      const end = source.indexOf('"""', i + 3);
+      const stop = end < 0 ? source.length : end + 3;
+      const value = source.slice(i, stop);
+      tokens.push({ kind: "string", value, line });
+      line += value.split("\n").length - 1;
+      i = stop;
+    } else if (c === '"') {
+      let j = i + 1;
+      while (j < source.length && source[j] !== '"' && source[j] !== "\n") {
+        j += source[j] === "\\" ? 2 : 1;
+      }
+      tokens.push({ kind: "string", value: source.slice(i, j + 1), line });
+      i = j + 1;
+    } else if (source.startsWith("...", i)) {
+      tokens.push({ kind: "punct", value: "...", line });
+      i += 3;
+    } else {
+      NAME.lastIndex = i;
+      NUMBER.lastIndex = i;
+      const word = NAME.exec(source) ?? NUMBER.exec(source);
+      const kind = word
+        ? /^[-\d]/.test(word[0])
+          ? "number"
+          : "name"
+        : "punct";
+      const value = word?.[0] ?? c;
+      tokens.push({ kind, value, line });
+      i += value.length;
+    }
+  }
+  return tokens;
+}
+
+/**
+ * Parse a schema (SDL) or an executable document, leniently: definitions the parser
+ * does not understand are skipped. Root fields are those of the types `schema { }`
+ * names, else of Query, Mutation and Subscription (including `extend type`);
+ * operations list the root fields they select, through aliases and inline fragments.
+ */
+export function parseGraphQL(source: string, firstLine = 1): GraphQLDocument {
+  const tokens = tokenize(source, firstLine);
+  const doc: GraphQLDocument = { fields: [], operations: [], types: [] };
+  const objects: {
+    name: string;
+    fields: {
+      name: string;
+      type: string;
+      args: { name: string; type: string; hasDefault: boolean }[];
+      line: number;
+    }[];
+  }[] = [];
+  const schemaRoots: Record<string, GraphQLOperationType> = {};
+  let pos = 0;
+
+  const peek = () => tokens[pos];
+  const is = (value: string) =>
+    !!tokens[pos] &&
+    tokens[pos].kind !== "string" &&
+    tokens[pos].value === value;
+  const eat = (value: string) => (is(value) ? (pos++, true) : false);
+  const name = () =>
+    tokens[pos]?.kind === "name" ? tokens[pos++].value : undefined;
+  const skipDescription = () => {
+    while (tokens[pos]?.kind === "string") pos++;
+  };
+  // (…), […] or {…} with everything nested in it
+  const skipBalanced = () => {
+    const open = tokens[pos].value;
+    const close = ({ "(": ")", "[": "]", "{": "}" } as Record<string, string>)[
+      open
+    ];
+    let depth = 0;
+    do {
+      const t = tokens[pos++];
+      if (t.kind !== "punct") continue;
+      if (t.value === open) depth++;
+      else if (t.value === close) depth--;
+    } while (depth > 0 && pos < tokens.length);
+  };
+  const skipDirectives = () => {
+    while (eat("@")) {
+      name();
+      if (is("(")) skipBalanced();
+    }
+  };
+  const skipValue = () => {
+    if (is("[") || is("{")) skipBalanced();
+    else if (eat("$")) name();
+    else pos++;
+  };
+  const typeRef = (): string => {
+    let text: string;
+    if (eat("[")) {
+      text = `[${typeRef()}]`;
+      eat("]");
+    } else {
+      text = name() ?? "";
+    }
+    return eat("!") ? `${text}!` : text;
+  };
+  // Arguments, variables or input fields, up to the closing `)` / `}`
+  const inputValues = (close: string) => {
+    const values: { name: string; type: string; hasDefault: boolean }[] = [];
+    while (pos < tokens.length) {
+      skipDescription();
+      if (eat(close)) break;
+      const n = name();
+      if (!n) {
+        pos++;
+        continue;
+      }
+      if (!eat(":")) continue;
+      const type = typeRef();
+      const hasDefault = eat("=");
+      if (hasDefault) skipValue();
+      skipDirectives();
+      values.push({ name: n, type, hasDefault });
+    }
+    return values;
+  };
+  const fieldDefinitions = () => {
+    const fields: (typeof objects)[number]["fields"] = [];
+    if (!eat("{")) return fields;
+    while (pos < tokens.length) {
+      skipDescription();
+      if (eat("}")) break;
+      const line = peek().line;
+      const n = name();
+      if (!n) {
+        pos++;
+        continue;
+      }
+      const args = eat("(") ? inputValues(")") : [];
+      if (!eat(":")) continue;
+      const type = typeRef();
+      skipDirectives();
+      fields.push({ name: n, type, args, line });
+    }
+    return fields;
+  };
+  const selectionSet = (): string[] => {
+    const fields: string[] = [];
+    if (!eat("{")) return fields;
+    while (pos < tokens.length && !eat("}")) {
+      if (eat("...")) {
+        if (is("on")) {
+          pos++;
+          name();
+        } else if (peek()?.kind === "name") {
+          name(); // a fragment spread: its fields are not resolved
+          skipDirectives();
+          continue;
+        }
+        skipDirectives();
+        fields.push(...selectionSet());
+        continue;
+      }
+      let n = name();
+      if (!n) {
+        pos++;
+        continue;
+      }
+      if (eat(":")) n = name() ?? n; // alias
+      if (is("(")) skipBalanced();
+      skipDirectives();
+      if (is("{")) skipBalanced();
+      fields.push(n);
+    }
+    return fields;
+  };
+  // `A | B` of unions and directive locations, `A & B` of implemented interfaces
+  const typeList = (separator: string) => {
+    do {
+      eat(separator);
+      name();
+    } while (is(separator));
+  };
+
+  let extending = false;
+  while (pos < tokens.length) {
+    skipDescription();
+    const t = peek();
+    if (!t) break;
+    if (is("{")) {
+      doc.operations.push({
+        operation: "query",
+        fields: selectionSet(),
+        line: t.line,
+      });
+      continue;
+    }
+    pos++;
+    if (t.kind !== "name") continue;
+    const keyword = t.value;
+    if (keyword === "extend") {
+      extending = true;
+      continue;
+    }
+    switch (keyword) {
+      case "query":
+      case "mutation":
+      case "subscription": {
+        const opName = name();
+        if (is("(")) skipBalanced();
+        skipDirectives();
+        if (!is("{")) break;
+        doc.operations.push({
+          operation: keyword,
+          name: opName,
+          fields: selectionSet(),
+          line: t.line,
+        });
+        break;
+      }
+      case "fragment":
+        name();
+        eat("on");
+        name();
+        skipDirectives();
+        if (is("{")) skipBalanced();
+        break;
+      case "schema":
+        skipDirectives();
+        if (!eat("{")) break;
+        while (pos < tokens.length && !eat("}")) {
+          const op = name();
+          if (!op) {
+            pos++;
+            continue;
+          }
+          eat(":");
+          const type = name();
+          if (type && Object.values(ROOT_TYPES).includes(op as any)) {
+            schemaRoots[type] = op as GraphQLOperationType;
+          }
+        }
+        break;
+      case "type":
+      case "interface":
+      case "input": {
+        const typeName = name();
+        if (!typeName) break;
+        if (eat("implements")) typeList("&");
+        skipDirectives();
+        const fields =
+          keyword === "input"
+            ? (eat("{") ? inputValues("}") : []).map((v) => ({
+                ...v,
+                args: [],
+                line: t.line,
+              }))
+            : fieldDefinitions();
+        if (keyword === "type") objects.push({ name: typeName, fields });
+        if (!extending) {
+          doc.types.push({
+            name: typeName,
+            kind: keyword === "interface" ? "interface" : "type",
+            properties: fields.map((f) => ({
+              name: f.name,
+              type: nonNullable(graphqlDeclaredType(f.type)),
+              optional: !f.type.endsWith("!"),
+            })),
+            startLine: t.line,
+            endLine: tokens[pos - 1].line,
+          });
+        }
+        break;
+      }
+      case "enum": {
+        const enumName = name();
+        skipDirectives();
+        const values: string[] = [];
+        if (eat("{")) {
+          while (pos < tokens.length) {
+            skipDescription();
+            if (eat("}")) break;
+            const value = name();
+            if (!value) {
+              pos++;
+              continue;
+            }
+            values.push(value);
+            skipDirectives();
+          }
+        }
+        if (enumName && !extending) {
+          doc.types.push({
+            name: enumName,
+            kind: "enum",
+            values,
+            startLine: t.line,
+            endLine: tokens[pos - 1].line,
+          });
+        }
+        break;
+      }
+      case "union":
+        name();
+        skipDirectives();
+        if (eat("=")) typeList("|");
+        break;
+      case "scalar":
+        name();
+        skipDirectives();
+        break;
+      case "directive":
+        eat("@");
+        name();
+        if (is("(")) skipBalanced();
+        eat("repeatable");
+        if (eat("on")) typeList("|");
+        break;
+    }
+    extending = false;
+  }
+
+  const roots = Object.keys(schemaRoots).length ? schemaRoots : ROOT_TYPES;
+  for (const object of objects) {
+    const operation = roots[object.name];
+    if (!operation) continue;
+    for (const f of object.fields) {
+      doc.fields.push({
+        operation,
+        name: f.name,
+        type: graphqlDeclaredType(f.type),
+        args: f.args.map((a) => ({
+          name: a.name,
+          type: nonNullable(graphqlDeclaredType(a.type)),
+          required: a.type.endsWith("!") && !a.hasDefault,
+        })),
+        line: f.line,
+      });
+    }
+  }
+  doc.types = doc.types.filter((t) => !roots[t.name]);
+  return doc;
+}
+
+/**
+ * Documents embedded in code:
+ * - JS/TS: `gql` / `graphql` tagged templates and calls (Apollo, urql, graphql-tag,
+ *   codegen's `graphql()`), and template literals starting with `#graphql` or an
+ *   operation
+ * - Python: `gql("...")` (gql, Ariadne)
+ * - Java: `.document("...")` of Spring's GraphQlClient
+ */
+export function findGraphQLDocuments(
+  root: any,
+  language: LanguageId
+): EmbeddedGraphQL[] {
+  const docs: EmbeddedGraphQL[] = [];
+  const push = (node: any) => {
+    const text = literalText(node);
+    if (text != null) docs.push({ text, line: node.startPosition.row + 1 });
+  };
+
+  if (language === "javascript" || language === "typescript") {
+    const tagged = new Set<number>();
+    for (const call of root.descendantsOfType?.("call_expression") ?? []) {
+      const fn = call.childForFieldName?.("function")?.text ?? "";
+      if (!/^(gql|graphql)$/.test(fn.split(".").pop()!)) continue;
+      const args = call.childForFieldName?.("arguments");
+      const literal =
+        args?.type === "template_string" ? args : args?.namedChildren?.[0];
+      if (literal?.type !== "template_string" && literal?.type !== "string") {
+        continue;
+      }
+      tagged.add(literal.startIndex);
+      push(literal);
+    }
+    for (const t of root.descendantsOfType?.("template_string") ?? []) {
+      if (tagged.has(t.startIndex)) continue;
+      if (DOCUMENT_START.test(literalText(t) ?? "")) push(t);
+    }
+  } else if (language === "python") {
+    for (const call of root.descendantsOfType?.("call") ?? []) {
+      const fn = call.childForFieldName?.("function")?.text ?? "";
+      if (fn.split(".").pop() !== "gql") continue;
+      const arg = call.childForFieldName?.("arguments")?.namedChildren?.[0];
+      if (arg?.type === "string") push(arg);
+    }
+  } else if (language === "java") {
+    for (const call of root.descendantsOfType?.("method_invocation") ?? []) {
+      if (call.childForFieldName?.("name")?.text !== "document") continue;
+      const arg = call.childForFieldName?.("arguments")?.namedChildren?.[0];
+      if (arg?.type === "string_literal" || arg?.type === "text_block") {
+        push(arg);
+      }
+    }
+  }
+  return docs;
+}
+
+// Contents of a string / template literal; `${...}` substitutions are dropped
+function literalText(node: any): string | null {
+  const text: string = node?.text ?? "";
+  if (node?.type === "template_string") {
+    return text.slice(1, -1).replace(/\$\{[^}]*\}/g, "");
+  }
+  const quote = text.match(/^[rRbBuUfF]*("""|'''|"|'|`)/)?.[1];
+  if (!quote) return null;
+  return text
+    .replace(/^[rRbBuUfF]*("""|'''|"|'|`)/, "")
+    .slice(0, -quote.length);
+}
+
+/**
+ * Resolvers of root fields:
+ * - JS/TS: resolver maps (`{ Query: { orders: (...) => ... } }`) of Apollo Server,
+ *   graphql-yoga or graphql-tools; NestJS / TypeGraphQL `@Query()`, `@Mutation()`
+ *   and `@Subscription()` methods (field `name` option, `() => [Order]` type)
+ * - Java: Spring `@QueryMapping` / `@MutationMapping` / `@SubscriptionMapping` /
+ *   `@SchemaMapping(typeName = "Query")`, Netflix DGS `@DgsQuery` / `@DgsMutation` /
+ *   `@DgsSubscription` / `@DgsData(parentType = "Query")`
+ * - Python: Ariadne `@query.field("orders")` / `set_field`, Strawberry
+ *   `@strawberry.type` Query / Mutation / Subscription classes, Graphene `resolve_*`
+ *   methods and `Mutation.Field()` attributes (both camel-cased like the frameworks)
+ * - C#: Hot Chocolate `[QueryType]` / `[ExtendObjectType("Query")]` classes and
+ *   Query / Mutation / Subscription classes (`Get` prefix and `Async` suffix dropped)
+ */
+export function findGraphQLResolvers(
+  root: any,
+  language: LanguageId
+): GraphQLResolver[] {
+  switch (language) {
+    case "javascript":
+    case "typescript":
+      return jsResolvers(root);
+    case "java":
+      return javaResolvers(root);
+    case "python":
+      return pythonResolvers(root);
+    case "csharp":
+      return csharpResolvers(root);
+  }
+  return [];
+}
+
+function span(node: any): { start: number; end: number } {
+  return { start: node.startPosition.row + 1, end: node.endPosition.row + 1 };
+}
+
+function unquote(text: string): string {
+  return text.replace(/^(["'`])(.*)\1$/s, "$2");
+}
+
+function jsResolvers(root: any): GraphQLResolver[] {
+  const resolvers: GraphQLResolver[] = [];
+  for (const pair of root.descendantsOfType?.("pair") ?? []) {
+    const operation =
+      ROOT_TYPES[unquote(pair.childForFieldName?.("key")?.text ?? "")];
+    const map = pair.childForFieldName?.("value");
+    if (!operation || map?.type !== "object") continue;
+    for (const entry of map.namedChildren ?? []) {
+      const base = { operation, framework: "resolver-map" };
+      if (entry.type === "method_definition") {
+        const field = entry.childForFieldName?.("name")?.text;
+        if (field) resolvers.push({ ...base, field, ...span(entry) });
+      } else if (entry.type === "shorthand_property_identifier") {
+        resolvers.push({ ...base, field: entry.text, handler: entry.text });
+      } else if (entry.type === "pair") {
+        const field = unquote(entry.childForFieldName?.("key")?.text ?? "");
+        let value = entry.childForFieldName?.("value");
+        // Subscriptions: { subscribe: (...) => ..., resolve?: ... }
+        if (value?.type === "object") {
+          const subscribe = (value.namedChildren ?? []).find((c: any) =>
+            /^(subscribe|resolve)$/.test(
+              c.childForFieldName?.(c.type === "pair" ? "key" : "name")?.text ??
+                ""
+            )
+          );
+          value =
+            subscribe?.type === "pair"
+              ? subscribe.childForFieldName?.("value")
+              : subscribe;
+        }
+        if (!field || !value) continue;
+        if (
+          /^(arrow_function|function_expression|function|method_definition)$/.test(
+            value.type
+          )
+        ) {
+          resolvers.push({ ...base, field, ...span(value) });
+        } else if (/^(identifier|member_expression)$/.test(value.type)) {
+          const handler = value.text.split(".").pop();
+          resolvers.push({ ...base, field, handler });
+        }
+      }
+    }
+  }
+
+  const framework = /@nestjs\/graphql/.test(root.text ?? "")
+    ? "nestjs"
+    : "type-graphql";
+  for (const body of root.descendantsOfType?.("class_body") ?? []) {
+    let decorators: any[] = [];
+    for (const member of body.namedChildren ?? []) {
+      if (member.type === "decorator") {
+        decorators.push(member);
+        continue;
+      }
+      if (member.type === "method_definition") {
+        for (const d of decorators) {
+          const call = d.namedChildren?.[0];
+          if (call?.type !== "call_expression") continue;
+          const operation =
+            ROOT_TYPES[call.childForFieldName?.("function")?.text ?? ""];
+          if (!operation) continue;
+          const args =
+            call.childForFieldName?.("arguments")?.namedChildren ?? [];
+          const options = args.find((a: any) => a.type === "object");
+          const nameOption = (options?.namedChildren ?? []).find(
+            (p: any) =>
+              p.type === "pair" && p.childForFieldName?.("key")?.text === "name"
+          );
+          const typeFn = args.find((a: any) => a.type === "arrow_function");
+          const returns = typeFn?.childForFieldName?.("body");
+          resolvers.push({
+            operation,
+            field:
+              unquote(nameOption?.childForFieldName?.("value")?.text ?? "") ||
+              member.childForFieldName?.("name")?.text,
+            framework,
+            ...span(member),
+            returnType:
+              returns?.type === "array"
+                ? `${returns.namedChildren?.[0]?.text}[]`
+                : returns?.type === "identifier"
+                ? returns.text
+                : undefined,
+          });
+        }
+      }
+      decorators = [];
+    }
+  }
+  return resolvers;
+}
+
+const JAVA_MAPPINGS: Record<string, GraphQLOperationType> = {
+  QueryMapping: "query",
+  MutationMapping: "mutation",
+  SubscriptionMapping: "subscription",
+  DgsQuery: "query",
+  DgsMutation: "mutation",
+  DgsSubscription: "subscription",
+};
+
+function javaResolvers(root: any): GraphQLResolver[] {
+  const resolvers: GraphQLResolver[] = [];
+  for (const method of root.descendantsOfType?.("method_declaration") ?? []) {
+    const modifiers = (method.namedChildren ?? []).find(
+      (c: any) => c.type === "modifiers"
+    );
+    for (const a of modifiers?.namedChildren ?? []) {
+      if (a.type !== "annotation" && a.type !== "marker_annotation") continue;
+      const annotation = a.childForFieldName?.("name")?.text ?? "";
+      // @QueryMapping("orders"), @SchemaMapping(typeName = "Query", field = "orders")
+      const values: Record<string, string> = {};
+      for (const arg of a.childForFieldName?.("arguments")?.namedChildren ??
+        []) {
+        if (arg.type === "element_value_pair") {
+          const key = arg.childForFieldName?.("key")?.text;
+          const value = arg.childForFieldName?.("value");
+          if (key && value?.type === "string_literal") {
+            values[key] = unquote(value.text);
+          }
+        } else if (arg.type === "string_literal") {
+          values.value = unquote(arg.text);
+        }
+      }
+      const operation =
+        JAVA_MAPPINGS[annotation] ??
+        (annotation === "SchemaMapping"
+          ? ROOT_TYPES[values.typeName]
+          : annotation === "DgsData"
+          ? ROOT_TYPES[values.parentType]
+          : undefined);
+      if (!operation) continue;
+      resolvers.push({
+        operation,
+        field:
+          values.field ??
+          values.name ??
+          values.value ??
+          method.childForFieldName?.("name")?.text,
+        framework: annotation.startsWith("Dgs") ? "dgs" : "spring-graphql",
+        ...span(method),
+      });
+    }
+  }
+  return resolvers;
+}
+
+function camelCase(name: string): string {
+  return name.replace(/_+([a-z0-9])/g, (_, c: string) => c.toUpperCase());
+}
+
+// Query / Mutation / Subscription class of Strawberry or Graphene (`OrderQuery` too)
+function rootClassOperation(name: string): GraphQLOperationType | undefined {
+  const suffix = name.match(/(Query|Mutation|Subscription)$/)?.[1];
+  return suffix ? ROOT_TYPES[suffix] : undefined;
+}
+
+function pythonResolvers(root: any): GraphQLResolver[] {
+  const resolvers: GraphQLResolver[] = [];
+  // Ariadne bindables: query = QueryType() / ObjectType("Query")
+  const bindables: Record<string, GraphQLOperationType> = {};
+  for (const a of root.descendantsOfType?.("assignment") ?? []) {
+    const target = a.childForFieldName?.("left")?.text;
+    const call = a.childForFieldName?.("right");
+    if (!target || call?.type !== "call") continue;
+    const ctor = (call.childForFieldName?.("function")?.text ?? "")
+      .split(".")
+      .pop()!;
+    const arg = call.childForFieldName?.("arguments")?.namedChildren?.[0];
+    const operation =
+      ROOT_TYPES[ctor.replace(/Type$/, "")] ??
+      (ctor === "ObjectType" && arg?.type === "string"
+        ? ROOT_TYPES[literalText(arg) ?? ""]
+        : undefined);
+    if (operation) bindables[target] = operation;
+  }
+
+  for (const n of root.descendantsOfType?.(["decorated_definition", "call"]) ??
+    []) {
+    if (n.type === "call") {
+      // query.set_field("orders", resolve_orders)
+      const fn = n.childForFieldName?.("function");
+      const [owner, method] = (fn?.text ?? "").split(".");
+      const args = n.childForFieldName?.("arguments")?.namedChildren ?? [];
+      if (method !== "set_field" || !bindables[owner]) continue;
+      if (args[0]?.type !== "string" || !args[1]) continue;
+      resolvers.push({
+        operation: bindables[owner],
+        field: literalText(args[0])!,
+        framework: "ariadne",
+        handler: args[1].text.split(".").pop(),
+      });
+      continue;
+    }
+    const def = n.childForFieldName?.("definition");
+    if (def?.type !== "function_definition") continue;
+    for (const dec of n.namedChildren ?? []) {
+      if (dec.type !== "decorator") continue;
+      // @query.field("orders") / @subscription.source("orders")
+      const call = dec.namedChildren?.[0];
+      const [owner, method] = (
+        call?.childForFieldName?.("function")?.text ?? ""
+      ).split(".");
+      const arg = call?.childForFieldName?.("arguments")?.namedChildren?.[0];
+      if (!bindables[owner] || !/^(field|source)$/.test(method)) continue;
+      if (arg?.type !== "string") continue;
+      resolvers.push({
+        operation: bindables[owner],
+        field: literalText(arg)!,
+        framework: "ariadne",
+        ...span(def),
+      });
+    }
+  }
+
+  for (const cls of root.descendantsOfType?.("class_definition") ?? []) {
+    const operation = rootClassOperation(
+      cls.childForFieldName?.("name")?.text ?? ""
+    );
+    if (!operation) continue;
+    const decorators =
+      cls.parent?.type === "decorated_definition"
+        ? (cls.parent.namedChildren ?? [])
+            .filter((d: any) => d.type === "decorator")
+            .map((d: any) => d.text)
+        : [];
+    const strawberry = decorators.some((d: string) =>
+      /^@strawberry\.type\b/.test(d)
+    );
+    const graphene = /ObjectType\b/.test(
+      cls.childForFieldName?.("superclasses")?.text ?? ""
+    );
+    if (!strawberry && !graphene) continue;
+    const framework = strawberry ? "strawberry" : "graphene";
+    for (const member of cls.childForFieldName?.("body")?.namedChildren ?? []) {
+      const def =
+        member.type === "decorated_definition"
+          ? member.childForFieldName?.("definition")
+          : member;
+      if (def?.type === "function_definition") {
+        const fnName = def.childForFieldName?.("name")?.text ?? "";
+        if (strawberry) {
+          // @strawberry.field / mutation / subscription (name="...")
+          const dec = (member.namedChildren ?? []).find(
+            (d: any) =>
+              d.type === "decorator" &&
+              /^@strawberry\.(field|mutation|subscription)\b/.test(d.text)
+          );
+          if (!dec) continue;
+          const named = dec.text.match(/\bname\s*=\s*["']([^"']+)["']/)?.[1];
+          resolvers.push({
+            operation,
+            field: named ?? camelCase(fnName),
+            framework,
+            ...span(def),
+          });
+        } else {
+          const field = fnName.match(/^(?:resolve|subscribe)_(\w+)$/)?.[1];
+          if (!field) continue;
+          resolvers.push({
+            operation,
+            field: camelCase(field),
+            framework,
+            ...span(def),
+          });
+        }
+        continue;
+      }
+      // orders: list[Order] = strawberry.field(resolver=get_orders)
+      // create_order = CreateOrder.Field()
+      const assignment =
+        member.type === "expression_statement"
+          ? member.namedChildren?.[0]
+          : undefined;
+      if (assignment?.type !== "assignment") continue;
+      const target = assignment.childForFieldName?.("left")?.text ?? "";
+      const right = assignment.childForFieldName?.("right");
+      if (right?.type !== "call" || !/^\w+$/.test(target)) continue;
+      const fn = right.childForFieldName?.("function")?.text ?? "";
+      const resolver = right.text.match(/\bresolver\s*=\s*([\w.]+)/)?.[1];
+      if (
+        strawberry &&
+        /^strawberry\.(field|mutation|subscription)$/.test(fn)
+      ) {
+        resolvers.push({
+          operation,
+          field: camelCase(target),
+          framework,
+          handler: resolver?.split(".").pop(),
+        });
+      } else if (graphene && operation === "mutation" && /\.Field$/.test(fn)) {
+        resolvers.push({ operation, field: camelCase(target), framework });
+      }
+    }
+  }
+  return resolvers;
+}
+
+function csharpAttributes(node: any): { name: string; args: string[] }[] {
+  return (node.namedChildren ?? [])
+    .filter((c: any) => c.type === "attribute_list")
+    .flatMap((list: any) => list.namedChildren ?? [])
+    .filter((a: any) => a.type === "attribute")
+    .map((a: any) => ({
+      name: (a.childForFieldName?.("name")?.text ?? "").replace(
+        /Attribute$/,
+        ""
+      ),
+      args: (
+        (a.namedChildren ?? []).find(
+          (c: any) => c.type === "attribute_argument_list"
+        )?.namedChildren ?? []
+      ).map((arg: any) => unquote(arg.text)),
+    }));
+}
+
+function csharpResolvers(root: any): GraphQLResolver[] {
+  const resolvers: GraphQLResolver[] = [];
+  for (const cls of root.descendantsOfType?.("class_declaration") ?? []) {
+    let operation: GraphQLOperationType | undefined =
+      ROOT_TYPES[cls.childForFieldName?.("name")?.text ?? ""];
+    for (const a of csharpAttributes(cls)) {
+      if (/^(Query|Mutation|Subscription)Type$/.test(a.name)) {
+        operation = ROOT_TYPES[a.name.replace(/Type$/, "")];
+      } else if (a.name === "ExtendObjectType") {
+        // [ExtendObjectType("Query")] / [ExtendObjectType(OperationTypeNames.Query)]
+        const type = (a.args[0] ?? "").replace(/^typeof\((.*)\)$/, "$1");
+        operation = ROOT_TYPES[type.split(".").pop()!] ?? operation;
+      }
+    }
+    if (!operation) continue;
+    for (const member of cls.childForFieldName?.("body")?.namedChildren ?? []) {
+      if (member.type !== "method_declaration") continue;
+      const modifiers = (member.namedChildren ?? [])
+        .filter((c: any) => c.type === "modifier")
+        .map((c: any) => c.text);
+      if (!modifiers.includes("public")) continue;
+      const attributes = csharpAttributes(member);
+      if (attributes.some((a) => a.name === "GraphQLIgnore")) continue;
+      const method = (member.childForFieldName?.("name")?.text ?? "")
+        .replace(/^Get(?=[A-Z])/, "")
+        .replace(/Async$/, "");
+      resolvers.push({
+        operation,
+        field:
+          attributes.find((a) => a.name === "GraphQLName")?.args[0] ??
+          method.charAt(0).toLowerCase() + method.slice(1),
+        framework: "hotchocolate",
+        ...span(member),
+      });
+    }
+  }
+  return resolvers;
+}
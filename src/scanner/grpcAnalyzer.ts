@@ -0,0 +1,645 @@
+import { LanguageId } from "./types.js";
+
+export interface ProtoField {
+  name: string;
+  type: string; // declared type, e.g. `int`, `Order[]`, `Map<string, int>`
+  optional: boolean;
+}
+
+export interface ProtoMessage {
+  name: string; // simple name, also of nested messages
+  fields: ProtoField[];
+  startLine: number;
+  endLine: number;
+}
+
+export interface ProtoEnum {
+  name: string;
+  values: string[];
+  startLine: number;
+  endLine: number;
+}
+
+export interface ProtoRpc {
+  name: string;
+  requestType: string;
+  responseType: string;
+  streaming: "unary" | "server" | "client" | "bidi";
+  line: number;
+}
+
+export interface ProtoService {
+  name: string;
+  rpcs: ProtoRpc[];
+  startLine: number;
+  endLine: number;
+}
+
+export interface ProtoFile {
+  package?: string;
+  services: ProtoService[];
+  messages: ProtoMessage[];
+  enums: ProtoEnum[];
+}
+
+/**
+ * A gRPC service implemented in a file: the methods serving its RPCs, as named
+ * in code (`getOrder`, `GetOrder`), declared there (`start` / `end`) or referenced
+ * by name (`handler`). Python servicers registered with `add_*Servicer_to_server`
+ * may be declared elsewhere: `className` names them.
+ */
+export interface GrpcServer {
+  service: string;
+  framework: string;
+  methods: { name: string; start?: number; end?: number; handler?: string }[];
+  className?: string;
+}
+
+/** An RPC called through a client stub, as named in code */
+export interface GrpcCall {
+  service: string;
+  method: string;
+  line: number;
+}
+
+const PROTO_SCALARS: Record<string, string> = {
+  double: "number",
+  float: "number",
+  bool: "boolean",
+  string: "string",
+  bytes: "string",
+};
+for (const n of "int32 int64 uint32 uint64 sint32 sint64 fixed32 fixed64 sfixed32 sfixed64".split(
+  " "
+))
+  PROTO_SCALARS[n] = "int";
+// google.protobuf well-known types; wrappers are nullable scalars
+const WELL_KNOWN: Record<string, string> = {
+  Timestamp: "DateTime",
+  Duration: "string",
+  Empty: "void",
+  Any: "object",
+  Struct: "object",
+  Value: "object",
+  ListValue: "object[]",
+  FieldMask: "string",
+  StringValue: "string | null",
+  BytesValue: "string | null",
+  BoolValue: "boolean | null",
+  DoubleValue: "number | null",
+  FloatValue: "number | null",
+  Int32Value: "int | null",
+  Int64Value: "int | null",
+  UInt32Value: "int | null",
+  UInt64Value: "int | null",
+};
+// Client helpers that are not RPCs
+const STUB_HELPERS =
+  /^(with\w*|getChannel|getCallOptions|close|waitForReady|makeUnaryRequest|makeClientStreamRequest|makeServerStreamRequest|makeBidiStreamRequest)$/i;
+
+/** Extension of Protocol Buffers files */
+export function isProtoFile(path: string): boolean {
+  return /\.proto$/i.test(path);
+}
+
+/** `/orders.v1.OrderService/GetOrder`: the path of an RPC, as sent over HTTP/2 */
+export function grpcPath(service: string, rpc: string, pkg?: string): string {
+  return `/${pkg ? `${pkg}.` : ""}${service}/${rpc}`;
+}
+
+/**
+ * A proto type in the notation of the type extractors: scalars → `int` / `number` /
+ * `string` / `boolean`, well-known types → their JSON mapping, messages and enums →
+ * their simple name (`.orders.v1.Order` → `Order`)
+ */
+export function protoDeclaredType(type: string): string {
+  const simple = type.split(".").pop()!;
+  if (PROTO_SCALARS[type]) return PROTO_SCALARS[type];
+  if (/^\.?google\.protobuf\./.test(type) && WELL_KNOWN[simple]) {
+    return WELL_KNOWN[simple];
+  }
+  return simple;
+}
+
+interface Token {
+  kind: "name" | "punct" | "string" | "number";
+  value: string;
+  line: number;
+}
+
+const NAME = /\.?[A-Za-z_][\w.]*/y;
+const NUMBER = /-?(?:0[xX][\da-fA-F]+|\d+(?:\.\d+)?(?:[eE][+-]?\d+)?)/y;
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let line = 1;
+  let i = 0;
+  while (i < source.length) {
+    const c = source[i];
+    if (c === "\n") {
+      line++;
+      i++;
+    } else if (/\s/.test(c)) {
+      i++;
+    } else if (source.startsWith("//", i)) {
+      while (i < source.length && source[i] !== "\n") i++;
+    } else if (source.startsWith("/*", i)) {
+      const end = source.indexOf("*/", i + 2);
+      const stop = end < 0 ? source.length : end + 2;
+      line += source.slice(i, stop).split("\n").length - 1;
+      i = stop;
+    } else if (c === '"' || c === "'") {
+      let j = i + 1;
+      while (j < source.length && source[j] !== c && source[j] !== "\n") {
+        j += source[j] === "\\" ? 2 : 1;
+      }
+      tokens.push({ kind: "string", value: source.slice(i, j + 1), line });
+      i = j + 1;
+    } else {
+      NAME.lastIndex = i;
+      NUMBER.lastIndex = i;
+      const word = NAME.exec(source) ?? NUMBER.exec(source);
+      const kind = word
+        ? /^[-\d]/.test(word[0])
+          ? "number"
+          : "name"
+        : "punct";
+      const value = word?.[0] ?? c;
+      tokens.push({ kind, value, line });
+      i += value.length;
+    }
+  }
+  return tokens;
+}
+
+/**
+ * Parse a `.proto` file (proto2 or proto3), leniently: services with their RPCs,
+ * messages (nested ones too) with their fields, and enums. A field is optional when
+ * declared `optional`, in a `oneof`, of a message type (proto3) or not `required`
+ * (proto2).
+ */
+export function parseProto(source: string): ProtoFile {
+  const tokens = tokenize(source);
+  const file: ProtoFile = { services: [], messages: [], enums: [] };
+  const messageFields: { field: ProtoField; type: string; label?: string }[] =
+    [];
+  let proto2 = false;
+  let pos = 0;
+
+  const is = (value: string) =>
+    !!tokens[pos] &&
+    tokens[pos].kind !== "string" &&
+    tokens[pos].value === value;
+  const eat = (value: string) => (is(value) ? (pos++, true) : false);
+  const name = () =>
+    tokens[pos]?.kind === "name" ? tokens[pos++].value : undefined;
+  const skipStatement = () => {
+    while (pos < tokens.length && !eat(";")) {
+      if (is("{")) return skipBlock();
+      pos++;
+    }
+  };
+  const skipBlock = () => {
+    let depth = 0;
+    do {
+      const t = tokens[pos++];
+      if (t.kind !== "punct") continue;
+      if (t.value === "{") depth++;
+      else if (t.value === "}") depth--;
+    } while (depth > 0 && pos < tokens.length);
+  };
+  // [repeated|optional|required] type name = N [options];  map<K, V> name = N;
+  const field = (oneof: boolean) => {
+    let label: string | undefined;
+    if (is("repeated") || is("optional") || is("required")) {
+      label = tokens[pos++].value;
+    }
+    let type: string;
+    let declared: string;
+    if (is("map") && tokens[pos + 1]?.value === "<") {
+      pos += 2;
+      const key = name() ?? "string";
+      eat(",");
+      const value = name() ?? "";
+      eat(">");
+      type = value;
+      declared = `Map<${protoDeclaredType(key)}, ${protoDeclaredType(value)}>`;
+    } else {
+      type = name() ?? "";
+      declared = protoDeclaredType(type);
+      if (label === "repeated") declared = `${declared}[]`;
+    }
+    const fieldName = name();
+    skipStatement();
+    if (!fieldName || !type) return;
+    const f: ProtoField = {
+      name: fieldName,
+      type: declared,
+      optional:
+        oneof || label === "optional" || (proto2 && label !== "required"),
+    };
+    messageFields.push({ field: f, type, label });
+    return f;
+  };
+  const enumDef = (line: number) => {
+    const enumName = name();
+    const values: string[] = [];
+    if (!eat("{")) return;
+    while (pos < tokens.length && !eat("}")) {
+      if (is("option") || is("reserved")) {
+        skipStatement();
+        continue;
+      }
+      const value = name();
+      if (!value) {
+        pos++;
+        continue;
+      }
+      values.push(value);
+      skipStatement();
+    }
+    if (enumName) {
+      file.enums.push({
+        name: enumName,
+        values,
+        startLine: line,
+        endLine: tokens[pos - 1].line,
+      });
+    }
+  };
+  const message = (line: number) => {
+    const messageName = name();
+    const fields: ProtoField[] = [];
+    if (!eat("{")) return;
+    let oneof = 0; // depth of `oneof` blocks
+    while (pos < tokens.length) {
+      if (eat("}")) {
+        if (!oneof) break;
+        oneof--;
+        continue;
+      }
+      const t = tokens[pos];
+      if (eat("message")) {
+        message(t.line);
+      } else if (eat("enum")) {
+        enumDef(t.line);
+      } else if (eat("oneof")) {
+        name();
+        if (eat("{")) oneof++;
+      } else if (
+        is("option") ||
+        is("reserved") ||
+        is("extensions") ||
+        is("extend") ||
+        is("group")
+      ) {
+        skipStatement();
+      } else if (eat(";")) {
+        continue;
+      } else if (t.kind === "name") {
+        const f = field(oneof > 0);
+        if (f) fields.push(f);
+      } else {
+        pos++;
+      }
+    }
+    if (messageName) {
+      file.messages.push({
+        name: messageName,
+        fields,
+        startLine: line,
+        endLine: tokens[pos - 1].line,
+      });
+    }
+  };
+  // rpc Name (stream Req) returns (stream Res) { option ... } or ;
+  const service = (line: number) => {
+    const serviceName = name();
+    const rpcs: ProtoRpc[] = [];
+    if (!eat("{")) return;
+    while (pos < tokens.length && !eat("}")) {
+      const t = tokens[pos];
+      if (!eat("rpc")) {
+        if (is("option")) skipStatement();
+        else pos++;
+        continue;
+      }
+      const rpcName = name();
+      eat("(");
+      const clientStream = eat("stream");
+      const request = name() ?? "";
+      eat(")");
+      eat("returns");
+      eat("(");
+      const serverStream = eat("stream");
+      const response = name() ?? "";
+      eat(")");
+      if (is("{")) skipBlock();
+      else eat(";");
+      if (!rpcName) continue;
+      rpcs.push({
+        name: rpcName,
+        requestType: protoDeclaredType(request),
+        responseType: protoDeclaredType(response),
+        streaming: clientStream
+          ? serverStream
+            ? "bidi"
+            : "client"
+          : serverStream
+          ? "server"
+          : "unary",
+        line: t.line,
+      });
+    }
+    if (serviceName) {
+      file.services.push({
+        name: serviceName,
+        rpcs,
+        startLine: line,
+        endLine: tokens[pos - 1].line,
+      });
+    }
+  };
+
+  while (pos < tokens.length) {
+    const t = tokens[pos++];
+    if (t.kind !== "name") continue;
+    switch (t.value) {
+      case "syntax":
+        eat("=");
+        proto2 = tokens[pos]?.value.includes("proto2") ?? false;
+        skipStatement();
+        break;
+      case "package":
+        file.package = name()?.replace(/^\./, "");
+        skipStatement();
+        break;
+      case "import":
+      case "option":
+        skipStatement();
+        break;
+      case "extend":
+        name();
+        if (is("{")) skipBlock();
+        break;
+      case "message":
+        message(t.line);
+        break;
+      case "enum":
+        enumDef(t.line);
+        break;
+      case "service":
+        service(t.line);
+        break;
+    }
+  }
+
+  // proto3 singular message fields have presence; scalars and enums do not
+  const enums = new Set(file.enums.map((e) => e.name));
+  for (const { field: f, type, label } of messageFields) {
+    const simple = type.split(".").pop()!;
+    if (
+      !proto2 &&
+      label !== "repeated" &&
+      !f.type.startsWith("Map<") &&
+      !PROTO_SCALARS[type] &&
+      !enums.has(simple)
+    ) {
+      f.optional = true;
+    }
+  }
+  return file;
+}
+
+/**
+ * Service implementations:
+ * - Java: classes extending `*Grpc.*ImplBase`; methods with a `StreamObserver`
+ *   parameter or `@Override`
+ * - C#: classes deriving from `Service.ServiceBase`; `override` methods
+ * - Python: classes subclassing a generated `*Servicer`, and the servicer class of
+ *   `add_*Servicer_to_server(Servicer(), server)`; methods taking `context`
+ * - Node: `server.addService(proto.pkg.Service.service, impl)` (grpc-js with
+ *   proto-loader) and `addService(ServiceService, impl)` (grpc-tools codegen); the
+ *   implementation object's entries, declared inline or as a variable of the file
+ */
+export function findGrpcServers(root: any, language: LanguageId): GrpcServer[] {
+  switch (language) {
+    case "java":
+      return classServers(root, "class_declaration", (cls) => {
+        const base = cls.childForFieldName?.("superclass")?.text ?? "";
+        return base.match(/(\w+)ImplBase\b/)?.[1];
+      }).map((s) => ({ ...s, framework: "grpc-java" }));
+    case "csharp":
+      return classServers(root, "class_declaration", (cls) => {
+        const bases =
+          (cls.namedChildren ?? []).find((c: any) => c.type === "base_list")
+            ?.text ?? "";
+        return bases.match(/(\w+)\.\1Base\b/)?.[1];
+      }).map((s) => ({ ...s, framework: "grpc-dotnet" }));
+    case "python":
+      return pythonServers(root);
+    case "javascript":
+    case "typescript":
+      return nodeServers(root);
+  }
+  return [];
+}
+
+function span(node: any): { start: number; end: number } {
+  return { start: node.startPosition.row + 1, end: node.endPosition.row + 1 };
+}
+
+// Methods of a class that look like RPC handlers, by language
+function rpcMethods(cls: any): { name: string; start: number; end: number }[] {
+  const body = cls.childForFieldName?.("body");
+  return (body?.namedChildren ?? []).flatMap((member: any) => {
+    const def =
+      member.type === "decorated_definition"
+        ? member.childForFieldName?.("definition")
+        : member;
+    const name = def?.childForFieldName?.("name")?.text;
+    if (!name) return [];
+    const text: string = def.text;
+    const params = def.childForFieldName?.("parameters")?.text ?? "";
+    const handler =
+      def.type === "method_declaration"
+        ? /StreamObserver|ServerCallContext|IServerStreamWriter|IAsyncStreamReader/.test(
+            params
+          ) || /@Override\b|\boverride\b/.test(text.split("(")[0])
+        : def.type === "function_definition" && /\bcontext\b/.test(params);
+    return handler ? [{ name, ...span(def) }] : [];
+  });
+}
+
+function classServers(
+  root: any,
+  classType: string,
+  serviceOf: (cls: any) => string | undefined
+): Omit<GrpcServer, "framework">[] {
+  const servers: Omit<GrpcServer, "framework">[] = [];
+  for (const cls of root.descendantsOfType?.(classType) ?? []) {
+    const service = serviceOf(cls);
+    if (service) servers.push({ service, methods: rpcMethods(cls) });
+  }
+  return servers;
+}
+
+function pythonServers(root: any): GrpcServer[] {
+  const servers: GrpcServer[] = [];
+  const classes = new Map<string, any>();
+  for (const cls of root.descendantsOfType?.("class_definition") ?? []) {
+    const name = cls.childForFieldName?.("name")?.text;
+    if (name) classes.set(name, cls);
+    const bases = cls.childForFieldName?.("superclasses")?.text ?? "";
+    const service = bases.match(/(\w+)Servicer\b/)?.[1];
+    if (service) {
+      servers.push({ service, framework: "grpcio", methods: rpcMethods(cls) });
+    }
+  }
+  // add_OrderServiceServicer_to_server(OrderServicer(), server)
+  for (const call of root.descendantsOfType?.("call") ?? []) {
+    const fn = call.childForFieldName?.("function")?.text ?? "";
+    const service = fn.match(/add_(\w+)Servicer_to_server$/)?.[1];
+    const arg = call.childForFieldName?.("arguments")?.namedChildren?.[0];
+    const className = (
+      arg?.type === "call" ? arg.childForFieldName?.("function")?.text : ""
+    )
+      ?.split(".")
+      .pop();
+    if (!service || !className) continue;
+    if (servers.some((s) => s.service === service)) continue;
+    const cls = classes.get(className);
+    servers.push({
+      service,
+      framework: "grpcio",
+      methods: cls ? rpcMethods(cls) : [],
+      className: cls ? undefined : className,
+    });
+  }
+  return servers;
+}
+
+function nodeServers(root: any): GrpcServer[] {
+  const servers: GrpcServer[] = [];
+  const objects = new Map<string, any>();
+  for (const d of root.descendantsOfType?.("variable_declarator") ?? []) {
+    const value = d.childForFieldName?.("value");
+    const name = d.childForFieldName?.("name")?.text;
+    if (name && value?.type === "object") objects.set(name, value);
+  }
+  for (const call of root.descendantsOfType?.("call_expression") ?? []) {
+    const fn = call.childForFieldName?.("function");
+    if (fn?.type !== "member_expression") continue;
+    if (fn.childForFieldName?.("property")?.text !== "addService") continue;
+    const [definition, impl] =
+      call.childForFieldName?.("arguments")?.namedChildren ?? [];
+    if (!definition) continue;
+    // proto.orders.OrderService.service / OrderServiceService (codegen)
+    const service = definition.text.endsWith(".service")
+      ? definition.text.split(".").slice(-2)[0]
+      : definition.text
+          .split(".")
+          .pop()
+          .replace(/Service$/, "");
+    if (!service) continue;
+    const object =
+      impl?.type === "object"
+        ? impl
+        : impl?.type === "identifier"
+        ? objects.get(impl.text)
+        : undefined;
+    const methods: GrpcServer["methods"] = [];
+    for (const entry of object?.namedChildren ?? []) {
+      if (entry.type === "method_definition") {
+        const name = entry.childForFieldName?.("name")?.text;
+        if (name) methods.push({ name, ...span(entry) });
+      } else if (entry.type === "shorthand_property_identifier") {
+        methods.push({ name: entry.text, handler: entry.text });
+      } else if (entry.type === "pair") {
+        const name = entry
+          .childForFieldName?.("key")
+          ?.text.replace(/^["'](.*)["']$/, "$1");
+        const value = entry.childForFieldName?.("value");
+        if (!name || !value) continue;
+        if (
+          /^(arrow_function|function_expression|function)$/.test(value.type)
+        ) {
+          methods.push({ name, ...span(value) });
+        } else if (/^(identifier|member_expression)$/.test(value.type)) {
+          methods.push({ name, handler: value.text.split(".").pop() });
+        }
+      }
+    }
+    servers.push({ service, framework: "grpc-js", methods });
+  }
+  return servers;
+}
+
+/**
+ * RPCs called through client stubs. Stubs are the variables, fields and parameters
+ * bound to a generated client:
+ * - Java: `*Grpc.new[Blocking|Future]Stub(channel)`, `*BlockingStub` / `*FutureStub`
+ *   / `*Grpc.*Stub` types
+ * - C#: `new Service.ServiceClient(channel)`, `Service.ServiceClient` types; `Async`
+ *   suffixes are dropped
+ * - Python: `*Stub(channel)` of the generated `*_pb2_grpc` modules
+ * - Node: `new pkg.Service(address, credentials)`, `new ServiceClient(...)` and
+ *   `ServiceClient`-typed members, in modules using grpc
+ * Calls are the call sites the language analyzers collected (`stub.getOrder`).
+ */
+export function findGrpcCalls(
+  code: string,
+  language: LanguageId,
+  calls: { callee: string; line: number }[]
+): GrpcCall[] {
+  const stubs = new Map<string, string>(); // receiver → service
+  const bind = (pattern: RegExp, receiver: number, service: number) => {
+    for (const m of code.matchAll(pattern)) {
+      stubs.set(m[receiver].replace(/^(this|self)\./, ""), m[service]);
+    }
+  };
+  // Service of a receiver creating the stub in place
+  let inline: RegExp | undefined;
+  if (language === "java") {
+    bind(
+      /([\w.]+)\s*=\s*(\w+)Grpc\s*\.\s*new(?:Blocking|Future)?Stub\s*\(/g,
+      1,
+      2
+    );
+    bind(/\b(\w+)Grpc\s*\.\s*\1(?:Blocking|Future)?Stub\s+(\w+)/g, 2, 1);
+    bind(/\b(\w+?)(?:Blocking|Future)Stub\s+(\w+)/g, 2, 1);
+    inline = /^(\w+)Grpc\s*\.\s*new(?:Blocking|Future)?Stub\s*\(/;
+  } else if (language === "csharp") {
+    bind(/([\w.]+)\s*=\s*new\s+(?:[\w.]+\.)?(\w+)\.\2Client\s*\(/g, 1, 2);
+    bind(/\b(\w+)\.\1Client\??\s+(\w+)/g, 2, 1);
+    inline = /^new\s+(?:[\w.]+\.)?(\w+)\.\1Client\s*\(/;
+  } else if (language === "python") {
+    bind(/([\w.]+)\s*=\s*(?:\w+\.)*(\w+)Stub\s*\(/g, 1, 2);
+    inline = /^(?:\w+\.)*(\w+)Stub\s*\(/;
+  } else if (/grpc/.test(code)) {
+    bind(
+      /([\w$.]+)\s*=\s*new\s+(?:[\w$]+\.)*(\w+?)(?:Client)?\s*\([^;]*?credentials/g,
+      1,
+      2
+    );
+    bind(/([\w$]+)\s*[!?]?\s*:\s*(\w+)Client\b/g, 1, 2);
+  }
+
+  const found: GrpcCall[] = [];
+  for (const c of calls) {
+    const dot = c.callee.lastIndexOf(".");
+    if (dot < 0) continue;
+    const receiver = c.callee
+      .slice(0, dot)
+      .replace(/^await\s+/, "")
+      .replace(/^(this|self)\./, "")
+      // Call options chained on the stub: stub.withDeadlineAfter(…).getOrder()
+      .replace(/(\s*\.\s*with\w*\s*\([^()]*\))+$/, "");
+    let method = c.callee.slice(dot + 1);
+    const service = stubs.get(receiver) ?? inline?.exec(receiver)?.[1];
+    if (!service || STUB_HELPERS.test(method)) continue;
+    if (language === "csharp") method = method.replace(/Async$/, "");
+    found.push({ service, method, line: c.line });
+  }
+  return found;
+}
@@ -0,0 +1,547 @@
+import { existsSync, readFileSync } from "fs";
+import { join, posix } from "path";
+import { ImportRef, LanguageId, PackageEntity } from "./types.js";
+
+/** `compilerOptions.baseUrl` and `paths` of a tsconfig/jsconfig, repo-relative */
+export interface PathAliases {
+  baseUrl: string | null;
+  paths: { pattern: string; targets: string[] }[];
+}
+
+/** Files by repo-relative path and by declared module, for resolving imports. */
+export interface ModuleIndex {
+  paths: Set<string>;
+  filesByModule: Map<string, string[]>; // Java package / C# namespace -> files
+  typesByFile: Map<string, Set<string>>; // class names declared per file
+}
+
+/**
+ * Extract import specifiers as written in the source:
+ * - JS/TS: `import ... from "x"`, `export ... from "x"`, `require("x")`, `import("x")`
+ * - Python: `import a.b` → "a.b"; `from .m import n` → ".m" and ".m.n"
+ * - Java: `import a.b.C;` → "a.b.C" (static imports and wildcards reduced to the type/package)
+ * - C#: `using A.B;` → "A.B"
+ */
+export function extractImports(root: any, language: LanguageId): string[] {
+  const out = new Set<string>();
+  const unquote = (s: string) => s.replace(/^['"`]|['"`]$/g, "");
+
+  if (language === "javascript" || language === "typescript") {
+    for (const n of root.descendantsOfType?.([
+      "import_statement",
+      "export_statement",
+    ]) ?? []) {
+      const src = n.childForFieldName?.("source");
+      if (src) out.add(unquote(src.text));
+    }
+    for (const call of root.descendantsOfType?.("call_expression") ?? []) {
+      const fn = call.childForFieldName?.("function");
+      if (fn?.text !== "require" && fn?.type !== "import") continue;
+      const arg = call.childForFieldName?.("arguments")?.namedChildren?.[0];
+      if (arg && (arg.type === "string" || arg.type === "template_string")) {
+        out.add(unquote(arg.text));
+      }
+    }
+  } else if (language === "python") {
+    for (const n of root.descendantsOfType?.("import_statement") ?? []) {
+      for (const c of n.namedChildren ?? []) {
+        const name =
+          c.type === "aliased_import" ? c.childForFieldName?.("name") : c;
+        if (name?.type === "dotted_name") out.add(name.text);
+      }
+    }
+    for (const n of root.descendantsOfType?.("import_from_statement") ?? []) {
+      const mod = n.childForFieldName?.("module_name");
+      if (!mod) continue;
+      out.add(mod.text);
+      // `from pkg import mod` may name a submodule rather than a symbol
+      for (const c of n.namedChildren ?? []) {
+        if (c === mod || c.startIndex === mod.startIndex) continue;
+        const name =
+          c.type === "aliased_import" ? c.childForFieldName?.("name") : c;
+        if (name?.type !== "dotted_name") continue;
+        out.add(
+          mod.text.endsWith(".")
+            ? mod.text + name.text
+            : `${mod.text}.${name.text}`
+        );
+      }
+    }
+  } else if (language === "java") {
+    for (const n of root.descendantsOfType?.("import_declaration") ?? []) {
+      const spec = n.text
+        .replace(/^import\s+(static\s+)?/, "")
+        .replace(/;\s*$/, "")
+        .replace(/\.\*$/, "")
+        .trim();
+      if (spec) out.add(spec);
+    }
+  } else if (language === "csharp") {
+    for (const n of root.descendantsOfType?.("using_directive") ?? []) {
+      const spec = n.text
+        .replace(/^(global\s+)?using\s+(static\s+)?/, "")
+        .replace(/^\w+\s*=\s*/, "")
+        .replace(/;\s*$/, "")
+        .trim();
+      if (spec) out.add(spec);
+    }
+  }
+  return Array.from(out);
+}
+
+/**
+ * Java package / C# namespaces a file declares, and the capitalized identifiers it
+ * mentions (type references), used to narrow namespace and wildcard imports to the
+ * files declaring a type the importer actually uses. Empty for other languages.
+ */
+export function extractModuleInfo(
+  root: any,
+  language: LanguageId
+): { modules: string[]; typeRefs: string[] } {
+  if (language !== "java" && language !== "csharp") {
+    return { modules: [], typeRefs: [] };
+  }
+  const modules = new Set<string>();
+  const declTypes =
+    language === "java"
+      ? ["package_declaration"]
+      : ["namespace_declaration", "file_scoped_namespace_declaration"];
+  for (const n of root.descendantsOfType?.(declTypes) ?? []) {
+    const name =
+      n.childForFieldName?.("name") ??
+      (n.namedChildren ?? []).find((c: any) =>
+        ["scoped_identifier", "identifier", "qualified_name"].includes(c.type)
+      );
+    if (name?.text) modules.add(name.text.replace(/\s+/g, ""));
+  }
+  const typeRefs = new Set<string>();
+  for (const n of root.descendantsOfType?.(["type_identifier", "identifier"]) ??
+    []) {
+    if (/^[A-Z]/.test(n.text)) typeRefs.add(n.text);
+  }
+  return { modules: Array.from(modules), typeRefs: Array.from(typeRefs) };
+}
+
+/**
+ * Path aliases for the files of a repository, from the tsconfig.json / jsconfig.json
+ * nearest to each file (relative `extends` chains are followed). Results are cached
+ * per directory; null when no config with `baseUrl` or `paths` applies.
+ */
+export function createPathAliasLoader(
+  repoRoot: string
+): (relPath: string) => PathAliases | null {
+  const byDir = new Map<string, PathAliases | null>();
+  const lookup = (dir: string): PathAliases | null => {
+    const cached = byDir.get(dir);
+    if (cached !== undefined) return cached;
+    let found: PathAliases | null = null;
+    const config = ["tsconfig.json", "jsconfig.json"]
+      .map((name) => posix.join(dir, name))
+      .find((p) => existsSync(join(repoRoot, p)));
+    if (config) {
+      found = readPathAliases(repoRoot, config);
+    } else if (dir !== "." && dir !== "") {
+      found = lookup(posix.dirname(dir));
+    }
+    byDir.set(dir, found);
+    return found;
+  };
+  return (relPath) => lookup(posix.dirname(relPath));
+}
+
+function readPathAliases(
+  repoRoot: string,
+  configPath: string,
+  seen = new Set<string>()
+): PathAliases | null {
+  if (seen.has(configPath) || seen.size > 5) return null;
+  seen.add(configPath);
+  let config: any;
+  try {
+    config = parseJsonc(readFileSync(join(repoRoot, configPath), "utf8"));
+  } catch {
+    return null;
+  }
+  const dir = posix.dirname(configPath);
+  const parent =
+    typeof config?.extends === "string" && config.extends.startsWith(".")
+      ? readPathAliases(
+          repoRoot,
+          posix.normalize(
+            posix.join(
+              dir,
+              config.extends.endsWith(".json")
+                ? config.extends
+                : `${config.extends}.json`
+            )
+          ),
+          seen
+        )
+      : null;
+  const options = config?.compilerOptions ?? {};
+  const baseUrl =
+    typeof options.baseUrl === "string"
+      ? posix.normalize(posix.join(dir, options.baseUrl))
+      : parent?.baseUrl ?? null;
+  if (!options.paths || typeof options.paths !== "object") {
+    return baseUrl || parent?.paths.length
+      ? { baseUrl, paths: parent?.paths ?? [] }
+      : null;
+  }
+  // `paths` targets are relative to baseUrl, or to the declaring config without one
+  const pathsBase = baseUrl ?? dir;
+  const paths = Object.entries(options.paths as Record<string, unknown>)
+    .filter(([, targets]) => Array.isArray(targets))
+    .map(([pattern, targets]) => ({
+      pattern,
+      targets: (targets as unknown[])
+        .filter((t): t is string => typeof t === "string")
+        .map((t) => posix.normalize(posix.join(pathsBase, t))),
+    }));
+  return { baseUrl, paths };
+}
+
+// JSON with comments and trailing commas, as tsconfig files allow
+function parseJsonc(text: string): any {
+  let out = "";
+  let inString = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      out += ch;
+      if (ch === "\\") out += text[++i] ?? "";
+      else if (ch === '"') inString = false;
+    } else if (ch === '"') {
+      inString = true;
+      out += ch;
+    } else if (ch === "/" && text[i + 1] === "/") {
+      while (i < text.length && text[i] !== "\n") i++;
+      out += "\n";
+    } else if (ch === "/" && text[i + 1] === "*") {
+      const close = text.indexOf("*/", i + 2);
+      i = close === -1 ? text.length : close + 1;
+    } else {
+      out += ch;
+    }
+  }
+  return JSON.parse(out.replace(/,(\s*[}\]])/g, "$1"));
+}
+
+/**
+ * Attach path alias targets to JS/TS import specifiers. The longest matching `paths`
+ * pattern wins (as in TypeScript); other bare specifiers fall back to `baseUrl`.
+ * Targets are root-anchored ("/src/app/x") for resolveImportPath.
+ */
+export function toImportRefs(
+  specifiers: string[],
+  aliases: PathAliases | null
+): ImportRef[] {
+  return specifiers.map((specifier) => {
+    if (!aliases || specifier.startsWith(".") || specifier.startsWith("/")) {
+      return { specifier };
+    }
+    let best: { prefix: string; targets: string[] } | null = null;
+    for (const { pattern, targets } of aliases.paths) {
+      const star = pattern.indexOf("*");
+      const prefix = star === -1 ? pattern : pattern.slice(0, star);
+      const suffix = star === -1 ? "" : pattern.slice(star + 1);
+      const matches =
+        star === -1
+          ? specifier === pattern
+          : specifier.startsWith(prefix) &&
+            specifier.endsWith(suffix) &&
+            specifier.length >= prefix.length + suffix.length;
+      if (!matches || (best && best.prefix.length >= prefix.length)) continue;
+      const wildcard = specifier.slice(
+        prefix.length,
+        specifier.length - suffix.length
+      );
+      best = {
+        prefix,
+        targets: targets.map((t) => `/${t.replace("*", wildcard)}`),
+      };
+    }
+    const aliasTargets =
+      best?.targets ??
+      (aliases.baseUrl
+        ? [`/${posix.normalize(posix.join(aliases.baseUrl, specifier))}`]
+        : []);
+    return aliasTargets.length ? { specifier, aliasTargets } : { specifier };
+  });
+}
+
+const JS_EXTENSIONS = [".ts", ".tsx", ".js", ".jsx", ".mjs", ".cjs"];
+
+/**
+ * Resolve an import specifier to a file of the same repository, or null when it
+ * names a package or cannot be found. `files` holds repo-relative posix paths.
+ * - JS/TS: relative specifiers, trying extensions, `.js` → `.ts` and index files
+ * - Python: relative (leading dots) or absolute dotted modules, as `m.py` or `m/__init__.py`,
+ *   also below a source root (e.g. `src/`)
+ * - Java: fully qualified class names, matched as a path suffix `a/b/C.java`
+ */
+export function resolveImportPath(
+  specifier: string,
+  fromFile: string,
+  language: LanguageId | "unknown",
+  files: Set<string>
+): string | null {
+  const dir = posix.dirname(fromFile);
+
+  if (language === "javascript" || language === "typescript") {
+    if (!specifier.startsWith(".") && !specifier.startsWith("/")) return null;
+    // Root-anchored specifiers come from path aliases (toImportRefs)
+    const base = specifier.startsWith("/")
+      ? posix.normalize(specifier.slice(1))
+      : posix.normalize(posix.join(dir, specifier));
+    const stem = base.replace(/\.(m|c)?jsx?$/, "");
+    const candidates = [
+      base,
+      ...JS_EXTENSIONS.map((ext) => stem + ext),
+      ...JS_EXTENSIONS.map((ext) => `${base}/index${ext}`),
+    ];
+    return candidates.find((c) => files.has(c)) ?? null;
+  }
+
+  if (language === "python") {
+    const dots = specifier.match(/^\.*/)![0].length;
+    const rest = specifier.slice(dots).replace(/\./g, "/");
+    const modulePaths = (p: string) => [`${p}.py`, `${p}/__init__.py`];
+    if (dots) {
+      let base = dir;
+      for (let i = 1; i < dots; i++) base = posix.dirname(base);
+      const target = rest ? posix.join(base, rest) : base;
+      return (
+        modulePaths(posix.normalize(target)).find((c) => files.has(c)) ?? null
+      );
+    }
+    const suffixes = modulePaths(rest);
+    for (const s of suffixes) if (files.has(s)) return s;
+    for (const f of files) {
+      if (suffixes.some((s) => f.endsWith(`/${s}`))) return f;
+    }
+    return null;
+  }
+
+  if (language === "java") {
+    const suffix = `${specifier.replace(/\./g, "/")}.java`;
+    if (files.has(suffix)) return suffix;
+    for (const f of files) if (f.endsWith(`/${suffix}`)) return f;
+    return null;
+  }
+
+  return null;
+}
+
+/** Index one repository's files for resolveImport. */
+export function buildModuleIndex(
+  files: { file: string; modules?: string[] }[],
+  types: { file?: string; name: string }[]
+): ModuleIndex {
+  const index: ModuleIndex = {
+    paths: new Set(),
+    filesByModule: new Map(),
+    typesByFile: new Map(),
+  };
+  for (const f of files) {
+    index.paths.add(f.file);
+    for (const m of f.modules ?? []) {
+      index.filesByModule.set(m, [
+        ...(index.filesByModule.get(m) ?? []),
+        f.file,
+      ]);
+    }
+  }
+  for (const t of types) {
+    if (!t.file) continue;
+    const set = index.typesByFile.get(t.file) ?? new Set<string>();
+    set.add(t.name);
+    index.typesByFile.set(t.file, set);
+  }
+  return index;
+}
+
+/**
+ * Resolve an import to the files of the same repository it refers to:
+ * - JS/TS: path alias targets first, then the specifier (see resolveImportPath)
+ * - Python: relative and dotted modules (see resolveImportPath)
+ * - Java: `a.b.C` → the file of package `a.b` named `C.java` (else by path); a package
+ *   (wildcard import) → its files declaring a type in `typeRefs`; a static member
+ *   `a.b.C.m` → the file of `a.b.C`
+ * - C#: a namespace → its files declaring a type in `typeRefs`; `using static` /
+ *   alias of a type `A.B.C` → the file of namespace `A.B` named `C.cs`
+ * Without `typeRefs` namespace/wildcard imports link every file of the namespace.
+ * Empty when the import names a package or cannot be found.
+ */
+export function resolveImport(
+  ref: ImportRef,
+  fromFile: string,
+  language: LanguageId | "unknown",
+  index: ModuleIndex,
+  typeRefs?: Set<string>
+): string[] {
+  const hit = (path: string | null) =>
+    path && path !== fromFile ? [path] : [];
+
+  if (language === "javascript" || language === "typescript") {
+    for (const target of [...(ref.aliasTargets ?? []), ref.specifier]) {
+      const path = resolveImportPath(target, fromFile, language, index.paths);
+      if (path) return hit(path);
+    }
+    return [];
+  }
+  if (language === "python") {
+    return hit(
+      resolveImportPath(ref.specifier, fromFile, language, index.paths)
+    );
+  }
+  if (language !== "java" && language !== "csharp") return [];
+
+  const ext = language === "java" ? ".java" : ".cs";
+  const typeFile = (qualified: string): string | null => {
+    const dot = qualified.lastIndexOf(".");
+    if (dot === -1) return null;
+    const name = qualified.slice(dot + 1);
+    const inModule = index.filesByModule.get(qualified.slice(0, dot)) ?? [];
+    return (
+      inModule.find((f) => posix.basename(f) === `${name}${ext}`) ??
+      inModule.find((f) => index.typesByFile.get(f)?.has(name)) ??
+      (language === "java"
+        ? resolveImportPath(qualified, fromFile, language, index.paths)
+        : null)
+    );
+  };
+  const moduleFiles = (module: string): string[] => {
+    const files = (index.filesByModule.get(module) ?? []).filter(
+      (f) => f !== fromFile
+    );
+    if (!typeRefs) return files;
+    return files.filter((f) => {
+      const declared = index.typesByFile.get(f);
+      const stem = posix.basename(f).replace(/\.[^.]+$/, "");
+      return (
+        typeRefs.has(stem) ||
+        (declared && Array.from(declared).some((t) => typeRefs.has(t)))
+      );
+    });
+  };
+
+  if (language === "java") {
+    const type = typeFile(ref.specifier);
+    if (type) return hit(type);
+    if (index.filesByModule.has(ref.specifier)) {
+      return moduleFiles(ref.specifier);
+    }
+    return hit(
+      typeFile(
+        ref.specifier.slice(0, Math.max(0, ref.specifier.lastIndexOf(".")))
+      )
+    );
+  }
+  if (index.filesByModule.has(ref.specifier)) {
+    return moduleFiles(ref.specifier);
+  }
+  return hit(typeFile(ref.specifier));
+}
+
+const PACKAGE_MANAGER_BY_LANGUAGE: Partial<Record<LanguageId, string>> = {
+  javascript: "npm",
+  typescript: "npm",
+  python: "pip",
+  java: "maven",
+  csharp: "nuget",
+};
+
+// Python modules whose import name differs from the distribution name
+const PYTHON_DISTRIBUTIONS: Record<string, string> = {
+  yaml: "pyyaml",
+  PIL: "pillow",
+  sklearn: "scikit_learn",
+  bs4: "beautifulsoup4",
+  dateutil: "python_dateutil",
+  dotenv: "python_dotenv",
+  jwt: "pyjwt",
+  cv2: "opencv_python",
+  google: "protobuf",
+};
+
+/**
+ * Declared packages an unresolved import comes from, matched within the manager of
+ * the importing file's language:
+ * - npm: the package root of the specifier (`lodash/fp` → lodash, `@scope/x/y` → @scope/x)
+ * - pip: the longest dotted prefix matching a distribution (`-`, `_`, `.` and case
+ *   ignored; a few well-known import names are mapped, e.g. yaml → PyYAML)
+ * - maven (`groupId:artifactId`): the groupId sharing the most leading segments with
+ *   the import, then the artifacts sharing most words with it
+ *   (`com.fasterxml.jackson.databind` → com.fasterxml.jackson.core:jackson-databind)
+ * - nuget: the longest package name equal to or prefixing the namespace
+ */
+export function matchPackages(
+  specifier: string,
+  language: LanguageId | "unknown",
+  packages: PackageEntity[]
+): PackageEntity[] {
+  if (language === "unknown") return [];
+  const manager = PACKAGE_MANAGER_BY_LANGUAGE[language];
+  const candidates = packages.filter(
+    (p) => (p.meta as any)?.manager === manager
+  );
+  if (!candidates.length || specifier.startsWith(".")) return [];
+  const segments = specifier.split(".");
+  const prefixes = segments.map((_, i) => segments.slice(0, i + 1).join("."));
+
+  if (manager === "npm") {
+    if (specifier.startsWith("/") || specifier.startsWith("node:")) return [];
+    const parts = specifier.split("/");
+    const root = specifier.startsWith("@")
+      ? parts.slice(0, 2).join("/")
+      : parts[0];
+    return candidates.filter((p) => p.name === root);
+  }
+
+  if (manager === "pip") {
+    const norm = (s: string) => s.toLowerCase().replace(/[-.]/g, "_");
+    for (const prefix of prefixes.slice().reverse()) {
+      const wanted = new Set([norm(prefix)]);
+      const mapped = PYTHON_DISTRIBUTIONS[prefix];
+      if (mapped) wanted.add(mapped);
+      const found = candidates.filter((p) => wanted.has(norm(p.name)));
+      if (found.length) return found;
+    }
+    return [];
+  }
+
+  if (manager === "maven") {
+    // groupIds often stop short of or diverge from the package names inside
+    // (com.fasterxml.jackson.core ships com.fasterxml.jackson.databind), so a group
+    // sharing all but its last segment qualifies when the artifactId names the import
+    const words = new Set(segments.map((s) => s.toLowerCase()));
+    const ranked = candidates.flatMap((p) => {
+      const [group, artifact = ""] = p.name.split(":");
+      const groupSegments = group.split(".");
+      let shared = 0;
+      while (
+        shared < groupSegments.length &&
+        groupSegments[shared] === segments[shared]
+      ) {
+        shared++;
+      }
+      const score = artifact
+        .toLowerCase()
+        .split(/[-.]/)
+        .filter((w) => words.has(w)).length;
+      const full = shared === groupSegments.length;
+      const near = shared >= 2 && shared >= groupSegments.length - 1 && score;
+      return full || near ? [{ p, shared, score }] : [];
+    });
+    const topShared = Math.max(0, ...ranked.map((r) => r.shared));
+    const best = ranked.filter((r) => r.shared === topShared);
+    const topScore = Math.max(0, ...best.map((r) => r.score));
+    return best.filter((r) => r.score === topScore).map((r) => r.p);
+  }
+
+  const longest = candidates
+    .filter((p) => prefixes.includes(p.name))
+    .reduce((n, p) => Math.max(n, p.name.length), 0);
+  return candidates.filter((p) => longest && p.name.length === longest);
+}
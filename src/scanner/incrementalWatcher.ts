@@ -9,13 +9,15 @@ const logger = new Logger("IncrementalWatcher");
 
 /**
  * Start chokidar watchers for one or more roots. On changes, build a minimal RepoFiles[]
- * payload containing only changed files and pass to the callback.
+ * payload containing only changed files and pass to the callback. Deleted files are
+ * reported separately through `onRemove` so their nodes can be purged.
  */
 export function startIncrementalWatcher(
   roots: string[],
   includeGlobs: string[],
   excludeGlobs: string[],
-  onDelta: (delta: RepoFiles[]) => Promise<void> | void
+  onDelta: (delta: RepoFiles[]) => Promise<void> | void,
+  onRemove?: (repoRoot: string, relPaths: string[]) => Promise<void> | void
 ): void {
   const watchers: chokidar.FSWatcher[] = [];
   for (const root of roots) {
@@ -34,6 +36,7 @@ export function startIncrementalWatcher(
     const processPaths = async (paths: string[]) => {
       // Build RepoFiles[] grouped by repoRoot
       const files: FileInfo[] = [];
+      const unreadable: string[] = [];
       for (const relPath of paths) {
         const abs = join(absRoot, relPath);
         try {
@@ -51,9 +54,13 @@ export function startIncrementalWatcher(
           logger.warn(`Skipped changed file (unreadable): ${abs}`, {
             error: (e as Error)?.message,
           });
+          unreadable.push(relPath);
         }
       }
 
+      // A file that vanished between event and read is treated as removed
+      if (unreadable.length) await processRemovals(unreadable);
+
       if (!files.length) return;
       const delta: RepoFiles[] = [{ repoRoot: absRoot, files }];
       try {
@@ -63,9 +70,26 @@ export function startIncrementalWatcher(
       }
     };
 
+    const processRemovals = async (paths: string[]) => {
+      if (!onRemove || !paths.length) return;
+      try {
+        await onRemove(absRoot, paths);
+      } catch (e) {
+        logger.error("onRemove callback failed", e);
+      }
+    };
+
     const changedQueue = new Set<string>();
+    const removedQueue = new Set<string>();
     let timer: NodeJS.Timeout | null = null;
     const flush = () => {
+      if (removedQueue.size) {
+        const removed = Array.from(removedQueue);
+        removedQueue.clear();
+        processRemovals(removed).catch((e) =>
+          logger.error("processRemovals failed", e)
+        );
+      }
       if (!changedQueue.size) return;
       const batch = Array.from(changedQueue);
       changedQueue.clear();
@@ -81,17 +105,20 @@ export function startIncrementalWatcher(
 
     watcher
       .on("add", (path) => {
+        removedQueue.delete(path);
         changedQueue.add(path);
         scheduleFlush();
       })
       .on("change", (path) => {
+        removedQueue.delete(path);
         changedQueue.add(path);
         scheduleFlush();
       })
       .on("unlink", (path) => {
-        // For simplicity, we currently do not delete nodes; we re-ingest current state on next change.
-        // A production system should detect deletions and remove nodes/relationships accordingly.
         logger.info(`File removed: ${join(absRoot, path)}`);
+        changedQueue.delete(path);
+        removedQueue.add(path);
+        scheduleFlush();
       })
       .on("error", (err) => logger.error("Watcher error", err));
 
@@ -0,0 +1,370 @@
+import { readFile } from "fs/promises";
+import { join } from "path";
+import { glob } from "glob";
+import { createHash } from "crypto";
+import { parse as parseYaml } from "yaml";
+import { AnyEntity, APIEntity } from "./types.js";
+import { ContractSchema, MAX_SCHEMA_DEPTH } from "./apiContracts.js";
+import { Logger } from "../utils/logger.js";
+
+const logger = new Logger("OpenApiExtractor");
+
+// Where services usually keep their API documents
+const SPEC_GLOBS = [
+  "**/{openapi,swagger,api-docs}.{yaml,yml,json}",
+  "**/*.{openapi,swagger}.{yaml,yml,json}",
+  "**/{openapi,swagger}/*.{yaml,yml,json}",
+];
+const SPEC_IGNORE = [
+  "**/node_modules/**",
+  "**/.git/**",
+  "**/target/**",
+  "**/build/**",
+  "**/dist/**",
+  "**/bin/**",
+  "**/obj/**",
+];
+
+const METHODS = ["get", "put", "post", "delete", "options", "head", "patch"];
+
+type SpecParam = { name: string; type?: string; required?: boolean };
+
+function stableId(parts: string[]): string {
+  return createHash("md5").update(parts.join("|")).digest("hex");
+}
+
+/**
+ * Provided APIs declared by the OpenAPI 3.x and Swagger 2.0 documents of each
+ * repository (`openapi.yaml`, `swagger.json`, `*.openapi.yml`, files under an
+ * `openapi/` directory). Each operation becomes an API node with `source:
+ * "openapi"`, its operationId, summary and tags, and the contract the document
+ * declares: body schemas with `$ref`s resolved, path / query / header parameters.
+ * Paths include the document's base path (Swagger `basePath`, the path of the
+ * first OpenAPI server). The builder links them to the routes found in code
+ * (SPECIFIES).
+ */
+export async function extractOpenApiSpecs(
+  roots: string[]
+): Promise<AnyEntity[]> {
+  const all: AnyEntity[] = [];
+  for (const root of roots) {
+    try {
+      const files = await glob(SPEC_GLOBS, {
+        cwd: root,
+        ignore: SPEC_IGNORE,
+        nodir: true,
+      });
+      let operations = 0;
+      for (const rel of files.sort()) {
+        try {
+          const doc = parseYaml(await readFile(join(root, rel), "utf-8"));
+          const apis = specOperations(root, rel, doc);
+          operations += apis.length;
+          all.push(...apis);
+        } catch (e) {
+          logger.warn(`[OPENAPI] Failed to parse ${rel} in ${root}`, {
+            error: (e as Error)?.message,
+          });
+        }
+      }
+      logger.info(
+        `[OPENAPI] ${root}: documents=${files.length}, operations=${operations}`
+      );
+    } catch (e) {
+      logger.warn(`[OPENAPI] Failed for ${root}`, {
+        error: (e as Error)?.message,
+      });
+    }
+  }
+  return all;
+}
+
+function specOperations(repoRoot: string, rel: string, doc: any): APIEntity[] {
+  if (!isObject(doc) || !isObject(doc.paths)) return [];
+  const swagger = typeof doc.swagger === "string";
+  if (!swagger && typeof doc.openapi !== "string") return [];
+
+  const basePath = swagger ? doc.basePath ?? "" : serverPath(doc.servers);
+  const out: APIEntity[] = [];
+  for (const [path, item] of Object.entries<any>(doc.paths)) {
+    if (!isObject(item)) continue;
+    for (const method of METHODS) {
+      const op = item[method];
+      if (!isObject(op)) continue;
+      const fullPath = joinPath(basePath, path);
+      const methodNorm = method.toUpperCase();
+      const api: APIEntity = {
+        id: stableId([repoRoot, "API", "openapi", rel, methodNorm, fullPath]),
+        type: "API",
+        name: `${methodNorm} ${fullPath}`,
+        method: methodNorm,
+        path: fullPath,
+        direction: "provided",
+        source: "openapi",
+        repoRoot,
+        file: rel,
+        meta: {
+          specVersion: String(doc.openapi ?? doc.swagger),
+          ...(doc.info?.title ? { specTitle: String(doc.info.title) } : {}),
+        },
+      };
+      if (typeof op.operationId === "string") api.operationId = op.operationId;
+      if (typeof op.summary === "string") api.summary = op.summary;
+      if (Array.isArray(op.tags)) api.tags = op.tags.map(String);
+
+      // Operation parameters override path-level ones of the same name and place
+      const params = new Map<string, any>();
+      for (const p of [
+        ...asArray(item.parameters),
+        ...asArray(op.parameters),
+      ]) {
+        const param = deref(doc, p);
+        if (isObject(param) && typeof param.name === "string") {
+          params.set(`${param.in}|${param.name}`, param);
+        }
+      }
+      const pathParams: { name: string; type?: string }[] = [];
+      const queryParams: SpecParam[] = [];
+      const headers: SpecParam[] = [];
+      for (const p of params.values()) {
+        // Swagger 2 declares simple parameter types inline, OpenAPI 3 in `schema`
+        const type = paramType(doc, swagger ? p : p.schema);
+        if (p.in === "path") pathParams.push({ name: p.name, type });
+        else if (p.in === "query") {
+          queryParams.push({
+            name: p.name,
+            type,
+            required: p.required === true,
+          });
+        } else if (p.in === "header") {
+          headers.push({ name: p.name, type, required: p.required === true });
+        } else if (p.in === "body") {
+          api.requestType = typeText(p.schema);
+          api.requestSchema = specSchema(doc, p.schema, new Set());
+        }
+      }
+      // Path parameters in template order, as code routes list them
+      const order = [...fullPath.matchAll(/\{([^}]+)\}/g)].map((m) => m[1]);
+      pathParams.sort((a, b) => order.indexOf(a.name) - order.indexOf(b.name));
+      if (pathParams.length) api.pathParams = pathParams;
+      if (queryParams.length) api.queryParams = queryParams;
+      if (headers.length) api.headers = headers;
+
+      const body = deref(doc, op.requestBody);
+      const requestSchema = isObject(body)
+        ? mediaSchema(body.content)
+        : undefined;
+      if (requestSchema) {
+        api.requestType = typeText(requestSchema);
+        api.requestSchema = specSchema(doc, requestSchema, new Set());
+      }
+
+      const response = successResponse(doc, op.responses);
+      const responseSchema = swagger
+        ? response?.schema
+        : mediaSchema(response?.content);
+      if (responseSchema) {
+        api.responseType = typeText(responseSchema);
+        api.responseSchema = specSchema(doc, responseSchema, new Set());
+      }
+      out.push(api);
+    }
+  }
+  return out;
+}
+
+/** Path of the first server URL (`https://host/v1` → `/v1`), "" when none. */
+function serverPath(servers: unknown): string {
+  const url = asArray(servers)[0]?.url;
+  if (typeof url !== "string") return "";
+  return url.replace(/^[a-z][\w+.-]*:\/\/[^/]*/i, "").replace(/\/+$/, "");
+}
+
+function joinPath(base: string, path: string): string {
+  const joined = `${base.replace(/\/+$/, "")}/${path.replace(/^\/+/, "")}`;
+  return joined.length > 1 ? joined.replace(/\/+$/, "") : joined;
+}
+
+// The first 2xx response (200 before 201), else `default`
+function successResponse(doc: any, responses: unknown): any {
+  if (!isObject(responses)) return undefined;
+  const codes = Object.keys(responses)
+    .filter((c) => /^2\d\d$|^2XX$/i.test(c))
+    .sort();
+  const code = codes[0] ?? ("default" in responses ? "default" : undefined);
+  return code ? deref(doc, responses[code]) : undefined;
+}
+
+// The JSON body of a `content` map, else its first media type
+function mediaSchema(content: unknown): any {
+  if (!isObject(content)) return undefined;
+  const types = Object.keys(content);
+  const json =
+    types.find((t) => /^application\/json\b/i.test(t)) ??
+    types.find((t) => /[/+]json\b/i.test(t)) ??
+    types[0];
+  return json ? content[json]?.schema : undefined;
+}
+
+/** Declared type of a body: the name of a referenced schema, `Name[]` for arrays of one. */
+function typeText(schema: any): string | undefined {
+  if (!isObject(schema)) return undefined;
+  if (typeof schema.$ref === "string") return refName(schema.$ref);
+  if (schema.type === "array") {
+    const item = typeText(schema.items);
+    return item ? `${item}[]` : undefined;
+  }
+  return undefined;
+}
+
+// Parameter types written the way code declares them, so both sides parse alike
+function paramType(doc: any, schema: any): string | undefined {
+  const s = deref(doc, schema);
+  if (!isObject(s)) return undefined;
+  if (s.type === "array") {
+    const item = paramType(doc, s.items);
+    return item ? `${item}[]` : undefined;
+  }
+  if (s.type === "string" && /^date(-time)?$/.test(s.format ?? "")) {
+    return "DateTime";
+  }
+  return typeof s.type === "string" ? s.type : undefined;
+}
+
+/**
+ * ContractSchema of an OpenAPI / JSON schema: `$ref`s are inlined (cycles and
+ * nesting beyond MAX_SCHEMA_DEPTH stay a `ref`), `nullable`, `x-nullable` and
+ * `null` members mark nullable schemas, `allOf` merges objects and
+ * `oneOf` / `anyOf` become unions.
+ */
+function specSchema(doc: any, node: any, seen: Set<string>): ContractSchema {
+  if (!isObject(node)) return {};
+  if (typeof node.$ref === "string") {
+    const name = refName(node.$ref);
+    const target = resolveRef(doc, node.$ref);
+    if (!target || seen.has(node.$ref) || seen.size >= MAX_SCHEMA_DEPTH) {
+      return { ref: name };
+    }
+    return {
+      ...specSchema(doc, target, new Set(seen).add(node.$ref)),
+      ref: name,
+    };
+  }
+
+  const types: string[] = Array.isArray(node.type)
+    ? node.type
+    : typeof node.type === "string"
+    ? [node.type]
+    : [];
+  let nullable =
+    node.nullable === true ||
+    node["x-nullable"] === true ||
+    types.includes("null");
+
+  const variants = node.oneOf ?? node.anyOf;
+  if (Array.isArray(variants)) {
+    const members = variants.filter((v) => !(isObject(v) && v.type === "null"));
+    nullable ||= members.length < variants.length;
+    const schemas = members.map((v) => specSchema(doc, v, seen));
+    const union: ContractSchema =
+      schemas.length === 1 ? schemas[0] : { anyOf: schemas };
+    return nullable ? { ...union, nullable: true } : union;
+  }
+
+  if (Array.isArray(node.allOf)) {
+    const merged: ContractSchema = { type: "object", properties: {} };
+    const required = new Set<string>(asArray(node.required));
+    for (const part of node.allOf) {
+      const s = specSchema(doc, part, seen);
+      Object.assign(merged.properties!, s.properties ?? {});
+      for (const r of s.required ?? []) required.add(r);
+    }
+    if (required.size) merged.required = [...required];
+    return nullable ? { ...merged, nullable: true } : merged;
+  }
+
+  const type =
+    types.find((t) => t !== "null") ??
+    (isObject(node.properties) || isObject(node.additionalProperties)
+      ? "object"
+      : undefined);
+  const out: ContractSchema = {};
+  switch (type) {
+    case "string":
+      out.type = "string";
+      if (/^date(-time)?$/.test(node.format ?? "")) out.format = "date-time";
+      break;
+    case "integer":
+    case "number":
+    case "boolean":
+      out.type = type;
+      break;
+    case "array":
+      out.type = "array";
+      out.items = specSchema(doc, node.items, seen);
+      break;
+    case "object": {
+      out.type = "object";
+      if (isObject(node.properties)) {
+        out.properties = {};
+        for (const [name, prop] of Object.entries(node.properties)) {
+          out.properties[name] = specSchema(doc, prop, seen);
+        }
+        const required = asArray(node.required).filter(
+          (r) => typeof r === "string" && r in out.properties!
+        );
+        if (required.length) out.required = required;
+      }
+      if (isObject(node.additionalProperties)) {
+        out.additionalProperties = specSchema(
+          doc,
+          node.additionalProperties,
+          seen
+        );
+      } else if (node.additionalProperties === true && !out.properties) {
+        out.additionalProperties = {};
+      }
+      break;
+    }
+  }
+  if (Array.isArray(node.enum) && (!out.type || out.type === "string")) {
+    out.type = "string";
+    out.enum = node.enum.filter((v: unknown) => v != null).map(String);
+  }
+  if (nullable) out.nullable = true;
+  return out;
+}
+
+function resolveRef(doc: any, ref: string): any {
+  // Local references only; external files are not followed
+  if (!ref.startsWith("#/")) return undefined;
+  let node = doc;
+  for (const raw of ref.slice(2).split("/")) {
+    const key = raw.replace(/~1/g, "/").replace(/~0/g, "~");
+    if (!isObject(node)) return undefined;
+    node = node[key];
+  }
+  return node;
+}
+
+// A parameter, request body or response, following one level of `$ref`
+function deref(doc: any, node: any): any {
+  return isObject(node) && typeof node.$ref === "string"
+    ? resolveRef(doc, node.$ref)
+    : node;
+}
+
+function refName(ref: string): string {
+  return ref
+    .split("/")
+    .pop()!
+    .replace(/\.(ya?ml|json)$/, "");
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return value != null && typeof value === "object" && !Array.isArray(value);
+}
+
+function asArray(value: unknown): any[] {
+  return Array.isArray(value) ? value : [];
+}
@@ -0,0 +1,893 @@
+import { posix } from "path";
+
+export interface PythonRoute {
+  method: string;
+  path: string;
+  framework: "flask" | "fastapi" | "django" | "drf";
+  handler?: string; // function, view class or viewset action
+  line?: number; // of the handler's `def`, when declared in the same file
+  responseType?: string; // FastAPI response_model or return annotation
+  requestType?: string; // FastAPI body parameter (a model) type
+  pathParams?: { name: string; type?: string }[];
+  queryParams?: { name: string; type?: string; required?: boolean }[];
+  dependencies?: string[]; // FastAPI Depends(...) callables
+}
+
+// A route declared on an app, blueprint or router variable; the variable's
+// prefix may be set in another file (include_router / register_blueprint)
+interface DecoratedRoute extends PythonRoute {
+  owner: string;
+}
+
+interface Mount {
+  parent: string; // app variable mounting the router
+  target: string; // router / blueprint expression, e.g. `orders.router`
+  prefix: string;
+  replacesOwn: boolean; // register_blueprint's url_prefix replaces the blueprint's
+}
+
+interface DjangoUrl {
+  pattern: string;
+  view?: string; // view expression, for a plain route
+  viewMethods?: string[]; // `as_view({"get": "list"})` mapping keys
+  include?: string; // dotted URLconf module of include("...")
+  router?: string; // router variable of include(router.urls) / += router.urls
+}
+
+interface DjangoView {
+  name: string;
+  line: number;
+  methods: string[];
+  defs?: Record<string, number>; // class-based views: line of each verb method (`get`)
+  // DRF viewsets: standard actions plus @action routes
+  viewset?: {
+    actions: string[];
+    extra: { name: string; detail: boolean; methods: string[]; path: string }[];
+    defs: Record<string, number>; // line of each method the class defines
+  };
+}
+
+/** Per-file findings, combined across files by resolvePythonRoutes */
+export interface PythonWebFile {
+  relPath: string;
+  routes: DecoratedRoute[];
+  prefixes: Record<string, string>; // app / blueprint / router variable → own prefix
+  mounts: Mount[];
+  imports: Record<string, string>; // local name → dotted target (`.routers.orders`)
+  urls: DjangoUrl[];
+  registrations: { router: string; prefix: string; viewset: string }[];
+  views: DjangoView[];
+}
+
+export interface PythonWebFindings {
+  file: PythonWebFile;
+  consumed: { method?: string; url: string }[];
+  dependencyCalls: { callee: string; line: number }[];
+}
+
+const HTTP_METHODS = [
+  "get",
+  "post",
+  "put",
+  "delete",
+  "patch",
+  "head",
+  "options",
+];
+
+// DRF viewset actions and their routes
+const VIEWSET_ACTIONS: Record<string, { method: string; detail: boolean }> = {
+  list: { method: "GET", detail: false },
+  create: { method: "POST", detail: false },
+  retrieve: { method: "GET", detail: true },
+  update: { method: "PUT", detail: true },
+  partial_update: { method: "PATCH", detail: true },
+  destroy: { method: "DELETE", detail: true },
+};
+const VIEWSET_BASES: Record<string, string[]> = {
+  ModelViewSet: Object.keys(VIEWSET_ACTIONS),
+  ReadOnlyModelViewSet: ["list", "retrieve"],
+  ListModelMixin: ["list"],
+  CreateModelMixin: ["create"],
+  RetrieveModelMixin: ["retrieve"],
+  UpdateModelMixin: ["update", "partial_update"],
+  DestroyModelMixin: ["destroy"],
+};
+
+// Methods served by DRF generic views and Django class-based views
+const VIEW_BASE_METHODS: Record<string, string[]> = {
+  ListAPIView: ["GET"],
+  CreateAPIView: ["POST"],
+  RetrieveAPIView: ["GET"],
+  DestroyAPIView: ["DELETE"],
+  UpdateAPIView: ["PUT", "PATCH"],
+  ListCreateAPIView: ["GET", "POST"],
+  RetrieveUpdateAPIView: ["GET", "PUT", "PATCH"],
+  RetrieveDestroyAPIView: ["GET", "DELETE"],
+  RetrieveUpdateDestroyAPIView: ["GET", "PUT", "PATCH", "DELETE"],
+  TemplateView: ["GET"],
+  ListView: ["GET"],
+  DetailView: ["GET"],
+  RedirectView: ["GET"],
+  CreateView: ["GET", "POST"],
+  UpdateView: ["GET", "POST"],
+  DeleteView: ["GET", "POST"],
+  FormView: ["GET", "POST"],
+};
+
+const SCALAR_TYPES = /^(str|int|float|bool|bytes|date|datetime|UUID|Decimal)$/;
+// Handler parameters FastAPI injects itself rather than reading from the body
+const FRAMEWORK_PARAMS =
+  /^(Request|Response|BackgroundTasks|UploadFile|WebSocket|HTTPConnection)$/;
+const CLIENT_CONSTRUCTORS =
+  /^(httpx\.(Async)?Client|AsyncClient|requests\.[Ss]ession|(aiohttp\.)?ClientSession)$/;
+
+/**
+ * Web framework routes and HTTP client calls of a Python module:
+ * - Flask: `@app.route("/p", methods=[...])`, `@bp.get("/p")`, `add_url_rule`;
+ *   Blueprint `url_prefix`
+ * - FastAPI: `@router.get("/p", response_model=X)`, `api_route`; APIRouter `prefix`,
+ *   path / query parameters, `Depends(...)` dependencies
+ * - Mounts: `include_router(r, prefix=...)`, `register_blueprint(bp, url_prefix=...)`
+ * - Django: `urlpatterns` entries (`path`, `re_path`, `url`, `include`), DRF router
+ *   registrations, and the views / viewsets they may point to
+ * - Consumed: `requests`, `httpx` and `aiohttp` calls, incl. `requests.Session()`,
+ *   `httpx.Client(base_url=...)` and `aiohttp.ClientSession()` instances
+ * Declared prefixes are applied by resolvePythonRoutes, once all files are known.
+ */
+export function extractPythonWeb(
+  root: any,
+  relPath: string,
+  code: string
+): PythonWebFindings {
+  const file: PythonWebFile = {
+    relPath,
+    routes: [],
+    prefixes: {},
+    mounts: [],
+    imports: {},
+    urls: [],
+    registrations: [],
+    views: [],
+  };
+  const consumed: PythonWebFindings["consumed"] = [];
+  const dependencyCalls: PythonWebFindings["dependencyCalls"] = [];
+  const defaultFramework = /\bfastapi\b/.test(code) ? "fastapi" : "flask";
+  const owners: Record<string, "flask" | "fastapi"> = {};
+  const clients: Record<string, string> = {}; // variable → base_url
+  const routers = new Set<string>();
+
+  for (const n of root.descendantsOfType?.([
+    "assignment",
+    "with_item",
+    "import_from_statement",
+  ]) ?? []) {
+    if (n.type === "import_from_statement") {
+      const module = n.childForFieldName?.("module_name")?.text ?? "";
+      for (const name of n.childrenForFieldName?.("name") ?? []) {
+        const imported =
+          name.type === "aliased_import"
+            ? name.childForFieldName?.("name")?.text
+            : name.text;
+        const local =
+          name.type === "aliased_import"
+            ? name.childForFieldName?.("alias")?.text
+            : name.text;
+        if (imported && local) {
+          file.imports[local] = `${module}${
+            module.endsWith(".") ? "" : "."
+          }${imported}`;
+        }
+      }
+      continue;
+    }
+    // x = Flask(...) / Blueprint(...) / APIRouter(...) / httpx.Client(...)
+    // with httpx.Client() as x / async with aiohttp.ClientSession() as x
+    let target: string | undefined;
+    let call: any;
+    if (n.type === "assignment") {
+      target = n.childForFieldName?.("left")?.text;
+      call = n.childForFieldName?.("right");
+    } else {
+      const value = n.childForFieldName?.("value");
+      if (value?.type !== "as_pattern") continue;
+      call = value.namedChildren?.[0];
+      target = value.childForFieldName?.("alias")?.text;
+    }
+    if (call?.type === "await") call = call.namedChildren?.[0];
+    if (!target || call?.type !== "call") continue;
+    const ctor = call.childForFieldName?.("function")?.text ?? "";
+    const ctorName = ctor.split(".").pop()!;
+    const kwargs = keywordArgs(call);
+    if (/^(Flask|Blueprint)$/.test(ctorName)) {
+      owners[target] = "flask";
+      file.prefixes[target] = kwargs.url_prefix ?? "";
+    } else if (/^(FastAPI|APIRouter)$/.test(ctorName)) {
+      owners[target] = "fastapi";
+      file.prefixes[target] = kwargs.prefix ?? "";
+    } else if (/^(DefaultRouter|SimpleRouter)$/.test(ctorName)) {
+      routers.add(target);
+    } else if (CLIENT_CONSTRUCTORS.test(ctor)) {
+      clients[target] = kwargs.base_url ?? "";
+    }
+  }
+
+  for (const n of root.descendantsOfType?.([
+    "decorated_definition",
+    "function_definition",
+    "class_definition",
+    "call",
+    "assignment",
+    "augmented_assignment",
+  ]) ?? []) {
+    if (n.type === "decorated_definition") {
+      const def = n.childForFieldName?.("definition");
+      if (def?.type !== "function_definition") continue;
+      for (const dec of n.namedChildren ?? []) {
+        if (dec.type !== "decorator") continue;
+        const routes = decoratorRoutes(
+          dec.namedChildren?.[0],
+          def,
+          owners,
+          defaultFramework
+        );
+        file.routes.push(...routes);
+        for (const dep of routes[0]?.dependencies ?? []) {
+          dependencyCalls.push({
+            callee: dep,
+            line: def.startPosition.row + 1,
+          });
+        }
+      }
+    } else if (n.type === "function_definition") {
+      const view = functionView(n);
+      if (view) file.views.push(view);
+    } else if (n.type === "class_definition") {
+      const view = classView(n);
+      if (view) file.views.push(view);
+    } else if (
+      (n.type === "assignment" || n.type === "augmented_assignment") &&
+      n.childForFieldName?.("left")?.text === "urlpatterns"
+    ) {
+      // urlpatterns = [...] (+ router.urls), urlpatterns += router.urls
+      const right = n.childForFieldName?.("right");
+      if (!right) continue;
+      collectUrlPatterns(right, file, routers);
+      for (const a of [
+        right,
+        ...(right.descendantsOfType?.("attribute") ?? []),
+      ]) {
+        const router = a.text.match(/^(\w+)\.urls$/)?.[1];
+        if (
+          a.type === "attribute" &&
+          router &&
+          routers.has(router) &&
+          a.parent?.type !== "argument_list"
+        ) {
+          file.urls.push({ pattern: "", router });
+        }
+      }
+    } else if (n.type === "call") {
+      const fn = n.childForFieldName?.("function");
+      const args = positionalArgs(n);
+      const kwargs = keywordArgs(n);
+      if (fn?.type !== "attribute") continue;
+      const receiver = fn.childForFieldName?.("object")?.text ?? "";
+      const method = fn.childForFieldName?.("attribute")?.text ?? "";
+
+      if (method === "register" && routers.has(receiver) && args.length >= 2) {
+        const prefix = stringValue(args[0]);
+        if (prefix != null) {
+          file.registrations.push({
+            router: receiver,
+            prefix,
+            viewset: args[1].text.split(".").pop(),
+          });
+        }
+      } else if (
+        (method === "include_router" || method === "register_blueprint") &&
+        args[0]
+      ) {
+        file.mounts.push({
+          parent: receiver,
+          target: args[0].text,
+          prefix: kwargs.prefix ?? kwargs.url_prefix ?? "",
+          replacesOwn: kwargs.url_prefix != null,
+        });
+      } else if (method === "add_url_rule" && owners[receiver] && args[0]) {
+        const path = stringValue(args[0]);
+        if (path == null) continue;
+        const view = kwargs.view_func_expr ?? args[2]?.text ?? args[1]?.text;
+        for (const m of listStrings(n, "methods") ?? ["GET"]) {
+          file.routes.push({
+            owner: receiver,
+            framework: owners[receiver],
+            method: m.toUpperCase(),
+            path: flaskPath(path),
+            handler: view?.split(".").pop(),
+          });
+        }
+      } else {
+        const call = clientCall(receiver, method, args, clients);
+        if (call) consumed.push(call);
+      }
+    }
+  }
+
+  return { file, consumed, dependencyCalls };
+}
+
+/**
+ * Combine the per-file findings of a repository into provided routes, keyed by the
+ * file declaring the handler:
+ * - Decorated routes get their router's prefix plus the prefixes it is mounted
+ *   under (`include_router` / `register_blueprint`, also from other modules)
+ * - Django URLconfs are walked from the root ones (not included by another),
+ *   prefixing `include("app.urls")` targets; views are looked up by name to find
+ *   their HTTP methods (GET when unknown)
+ * - DRF router registrations expand to the viewset's actions: `prefix/` (list,
+ *   create), `prefix/{pk}/` (retrieve, update, partial_update, destroy) and
+ *   `@action` routes
+ */
+export function resolvePythonRoutes(
+  files: PythonWebFile[]
+): Map<string, PythonRoute[]> {
+  const out = new Map<string, PythonRoute[]>();
+  const add = (relPath: string, route: PythonRoute) => {
+    const list = out.get(relPath) ?? [];
+    if (
+      !list.some(
+        (r) =>
+          r.method === route.method &&
+          r.path === route.path &&
+          r.handler === route.handler
+      )
+    ) {
+      list.push(route);
+    }
+    out.set(relPath, list);
+  };
+  const byModule = (from: PythonWebFile, dotted: string) =>
+    resolveModule(files, from.relPath, dotted);
+
+  // Prefixes of a router variable: its own, under each place it is mounted
+  const prefixesOf = (
+    f: PythonWebFile,
+    owner: string,
+    seen: Set<string>
+  ): string[] => {
+    const key = `${f.relPath}|${owner}`;
+    const own = f.prefixes[owner] ?? "";
+    if (seen.has(key)) return [own];
+    seen.add(key);
+    const out: string[] = [];
+    for (const g of files) {
+      for (const m of g.mounts) {
+        if (!mountTargets(g, m.target, files).includes(key)) continue;
+        for (const p of prefixesOf(g, m.parent, new Set(seen))) {
+          out.push(joinPath(joinPath(p, m.prefix), m.replacesOwn ? "" : own));
+        }
+      }
+    }
+    return out.length ? out : [own];
+  };
+
+  for (const f of files) {
+    for (const r of f.routes) {
+      const { owner, ...route } = r;
+      for (const prefix of prefixesOf(f, owner, new Set())) {
+        add(f.relPath, { ...route, path: joinPath(prefix, r.path) });
+      }
+    }
+  }
+
+  // Django: URLconf prefixes, from the roots down through include()
+  const conf = files.filter((f) => f.urls.length);
+  const prefixByConf = new Map<string, string[]>();
+  const included = new Set<string>();
+  for (const f of conf) {
+    for (const u of f.urls) {
+      for (const t of u.include ? byModule(f, u.include) : []) included.add(t);
+    }
+  }
+  const queue = conf
+    .filter((f) => !included.has(f.relPath))
+    .map((f) => ({ f, prefix: "" }));
+  for (let i = 0; i < queue.length && i < 1000; i++) {
+    const { f, prefix } = queue[i];
+    const known = prefixByConf.get(f.relPath) ?? [];
+    if (known.includes(prefix)) continue;
+    prefixByConf.set(f.relPath, [...known, prefix]);
+    for (const u of f.urls) {
+      const base = joinPath(prefix, djangoPath(u.pattern));
+      if (u.include) {
+        for (const target of byModule(f, u.include)) {
+          const g = conf.find((c) => c.relPath === target);
+          if (g) queue.push({ f: g, prefix: base });
+        }
+      } else if (u.router) {
+        for (const reg of f.registrations.filter(
+          (r) => r.router === u.router
+        )) {
+          const found = findView(files, f, reg.viewset);
+          const viewset = found?.view.viewset ?? {
+            actions: Object.keys(VIEWSET_ACTIONS),
+            extra: [],
+            defs: {},
+          };
+          const list = joinPath(base, reg.prefix) + "/";
+          const detail = list + "{pk}/";
+          const file = found?.file.relPath ?? f.relPath;
+          for (const action of viewset.actions) {
+            const spec = VIEWSET_ACTIONS[action];
+            add(file, {
+              method: spec.method,
+              path: spec.detail ? detail : list,
+              framework: "drf",
+              handler: `${reg.viewset}.${action}`,
+              line: viewset.defs[action],
+              pathParams: spec.detail ? [{ name: "pk" }] : undefined,
+            });
+          }
+          for (const x of viewset.extra) {
+            for (const method of x.methods) {
+              add(file, {
+                method,
+                path: `${x.detail ? detail : list}${x.path}/`,
+                framework: "drf",
+                handler: `${reg.viewset}.${x.name}`,
+                line: viewset.defs[x.name],
+                pathParams: x.detail ? [{ name: "pk" }] : undefined,
+              });
+            }
+          }
+        }
+      } else if (u.view) {
+        const name = u.view
+          .replace(/\.as_view\([\s\S]*\)$/, "")
+          .split(".")
+          .pop()!;
+        const found = findView(files, f, name);
+        const methods = u.viewMethods?.length
+          ? u.viewMethods
+          : found?.view.methods ?? ["GET"];
+        for (const method of methods) {
+          add(found?.file.relPath ?? f.relPath, {
+            method,
+            path: base,
+            framework: found?.view.viewset || u.viewMethods ? "drf" : "django",
+            handler: name,
+            // The class's own `get` / `post` handles its verb; inherited ones
+            // leave the route to the view's file
+            line: found?.view.defs?.[method.toLowerCase()] ?? found?.view.line,
+            pathParams: pathParamsOf(base),
+          });
+        }
+      }
+    }
+  }
+  return out;
+}
+
+// `prefix` / `url_prefix` style arguments of a call, by keyword
+function keywordArgs(call: any): Record<string, string> {
+  const out: Record<string, string> = {};
+  const args = call.childForFieldName?.("arguments");
+  for (const a of args?.namedChildren ?? []) {
+    if (a.type !== "keyword_argument") continue;
+    const name = a.childForFieldName?.("name")?.text;
+    const value = a.childForFieldName?.("value");
+    if (!name || !value) continue;
+    const str = stringValue(value);
+    if (str != null) out[name] = str;
+    else out[`${name}_expr`] = value.text;
+  }
+  return out;
+}
+
+function positionalArgs(call: any): any[] {
+  const args = call.childForFieldName?.("arguments");
+  return (args?.namedChildren ?? []).filter(
+    (a: any) =>
+      a.type !== "keyword_argument" &&
+      a.type !== "comment" &&
+      a.type !== "list_splat" &&
+      a.type !== "dictionary_splat"
+  );
+}
+
+// String values of a list keyword argument: methods=["GET", "POST"]
+function listStrings(call: any, keyword: string): string[] | undefined {
+  const args = call.childForFieldName?.("arguments");
+  for (const a of args?.namedChildren ?? []) {
+    if (
+      a.type === "keyword_argument" &&
+      a.childForFieldName?.("name")?.text === keyword
+    ) {
+      const value = a.childForFieldName?.("value");
+      return (value?.namedChildren ?? [])
+        .map((v: any) => stringValue(v))
+        .filter((v: string | null): v is string => v != null);
+    }
+  }
+  return undefined;
+}
+
+// Literal text of a string node; f-string placeholders stay as `{expr}`
+function stringValue(node: any): string | null {
+  if (node?.type !== "string") return null;
+  return node.text
+    .replace(/^[rRbBuUfF]*("""|'''|"|')/, "")
+    .replace(/("""|'''|"|')$/, "");
+}
+
+function joinPath(base: string, path: string): string {
+  if (!base) return path.startsWith("/") || !path ? path || "/" : `/${path}`;
+  if (!path) return base;
+  return `${base.replace(/\/+$/, "")}/${path.replace(/^\/+/, "")}`;
+}
+
+// Flask `<int:id>` / `<id>` → `{id}`
+function flaskPath(path: string): string {
+  return path.replace(/<(?:[\w]+:)?(\w+)>/g, "{$1}");
+}
+
+// Django `orders/<int:pk>/` and `^orders/(?P<pk>\d+)/$` → `orders/{pk}/`
+function djangoPath(pattern: string): string {
+  return pattern
+    .replace(/^\^/, "")
+    .replace(/\$$/, "")
+    .replace(/\(\?P<(\w+)>[^)]*\)/g, "{$1}")
+    .replace(/<(?:\w+:)?(\w+)>/g, "{$1}");
+}
+
+function pathParamsOf(path: string): { name: string }[] | undefined {
+  const names = Array.from(path.matchAll(/\{(\w+)\}/g), (m) => m[1]);
+  return names.length ? names.map((name) => ({ name })) : undefined;
+}
+
+// Entries of a `urlpatterns` list (or a `[...] + [...]` concatenation)
+function collectUrlPatterns(
+  node: any,
+  file: PythonWebFile,
+  routers: Set<string>
+): void {
+  for (const call of node.descendantsOfType?.("call") ?? []) {
+    const fn = call.childForFieldName?.("function")?.text ?? "";
+    if (!/^(path|re_path|url)$/.test(fn)) continue;
+    const [patternNode, viewNode] = positionalArgs(call);
+    const pattern = stringValue(patternNode);
+    if (pattern == null || !viewNode) continue;
+    if (viewNode.type === "call") {
+      const viewFn = viewNode.childForFieldName?.("function")?.text ?? "";
+      if (viewFn === "include") {
+        const [target] = positionalArgs(viewNode);
+        const module = stringValue(target);
+        const router = target?.text.match(/^(\w+)\.urls$/)?.[1];
+        if (module) file.urls.push({ pattern, include: module });
+        else if (router && routers.has(router))
+          file.urls.push({ pattern, router });
+        continue;
+      }
+      if (/\.as_view$/.test(viewFn)) {
+        // ViewSet.as_view({"get": "list", "post": "create"})
+        const mapping = positionalArgs(viewNode)[0];
+        const viewMethods =
+          mapping?.type === "dictionary"
+            ? (mapping.namedChildren ?? [])
+                .map((p: any) => stringValue(p.childForFieldName?.("key")))
+                .filter((k: string | null): k is string => !!k)
+                .map((k: string) => k.toUpperCase())
+            : undefined;
+        file.urls.push({ pattern, view: viewNode.text, viewMethods });
+        continue;
+      }
+    }
+    file.urls.push({ pattern, view: viewNode.text });
+  }
+}
+
+// @app.route / @router.get(...) on a handler: one route per HTTP method
+function decoratorRoutes(
+  expr: any,
+  def: any,
+  owners: Record<string, "flask" | "fastapi">,
+  defaultFramework: "flask" | "fastapi"
+): DecoratedRoute[] {
+  if (expr?.type !== "call") return [];
+  const fn = expr.childForFieldName?.("function");
+  if (fn?.type !== "attribute") return [];
+  const owner = fn.childForFieldName?.("object")?.text ?? "";
+  const verb = fn.childForFieldName?.("attribute")?.text ?? "";
+  const kwargs = keywordArgs(expr);
+  const path = stringValue(positionalArgs(expr)[0]) ?? kwargs.path;
+  if (path == null) return [];
+
+  let methods: string[];
+  if (verb === "route" || verb === "api_route") {
+    methods = listStrings(expr, "methods") ?? ["GET"];
+  } else if (HTTP_METHODS.includes(verb)) {
+    methods = [verb];
+  } else {
+    return [];
+  }
+  const framework =
+    owners[owner] ?? (verb === "api_route" ? "fastapi" : defaultFramework);
+  const template = framework === "flask" ? flaskPath(path) : path;
+  const details =
+    framework === "fastapi"
+      ? fastApiSignature(def, template, kwargs)
+      : { pathParams: pathParamsOf(template) };
+  return methods.map((m) => ({
+    owner,
+    framework,
+    method: m.toUpperCase(),
+    path: template.replace(/\{(\w+):\w+\}/g, "{$1}"),
+    handler: def.childForFieldName?.("name")?.text,
+    line: def.startPosition.row + 1,
+    ...details,
+  }));
+}
+
+// Path / query parameters, Depends(...) and the response model of a FastAPI handler
+function fastApiSignature(
+  def: any,
+  path: string,
+  kwargs: Record<string, string>
+): Partial<PythonRoute> {
+  const inPath = new Set(
+    Array.from(path.matchAll(/\{(\w+)(?::\w+)?\}/g), (m) => m[1])
+  );
+  const pathParams: { name: string; type?: string }[] = [];
+  const queryParams: { name: string; type?: string; required?: boolean }[] = [];
+  const dependencies: string[] = [];
+  let requestType: string | undefined;
+  for (const p of def.childForFieldName?.("parameters")?.namedChildren ?? []) {
+    const name =
+      p.type === "identifier"
+        ? p.text
+        : p.childForFieldName?.("name")?.text ?? p.namedChildren?.[0]?.text;
+    if (!name || name === "self") continue;
+    const typeNode = p.childForFieldName?.("type");
+    const value = p.childForFieldName?.("value");
+    const depends = [typeNode, value]
+      .flatMap((n) => (n ? [n, ...(n.descendantsOfType?.("call") ?? [])] : []))
+      .find(
+        (c: any) =>
+          c.type === "call" &&
+          /^(Depends|Security)$/.test(
+            c.childForFieldName?.("function")?.text ?? ""
+          )
+      );
+    if (depends) {
+      const dep = positionalArgs(depends)[0]?.text;
+      if (dep) dependencies.push(dep.split(".").pop()!);
+      continue;
+    }
+    const type = typeNode?.text
+      .replace(/^Annotated\[\s*([^,\]]+)[\s\S]*\]$/, "$1")
+      .trim();
+    if (inPath.has(name)) {
+      pathParams.push({ name, type });
+      continue;
+    }
+    const scalar = (type ?? "")
+      .replace(/^(Optional|List|list)\[(.+)\]$/, "$2")
+      .replace(/\s*\|\s*None$/, "");
+    const explicitQuery = /^Query\(/.test(value?.text ?? "");
+    if (explicitQuery || !type || SCALAR_TYPES.test(scalar)) {
+      queryParams.push({
+        name,
+        type,
+        required: !value || /^Query\(\s*\.\.\./.test(value.text),
+      });
+    } else if (
+      !/^(Header|Cookie|File|Form)\(/.test(value?.text ?? "") &&
+      !FRAMEWORK_PARAMS.test(scalar)
+    ) {
+      requestType ??= type;
+    }
+  }
+  const returnType = def.childForFieldName?.("return_type")?.text;
+  return {
+    responseType: kwargs.response_model_expr ?? returnType,
+    requestType,
+    pathParams: pathParams.length ? pathParams : undefined,
+    queryParams: queryParams.length ? queryParams : undefined,
+    dependencies: dependencies.length ? dependencies : undefined,
+  };
+}
+
+// Django function views: @api_view / @require_http_methods, or the
+// `request.method == "POST"` branches of an undecorated view (plus GET)
+function functionView(def: any): DjangoView | null {
+  const name = def.childForFieldName?.("name")?.text;
+  const params = def.childForFieldName?.("parameters")?.namedChildren ?? [];
+  if (!name || params[0]?.text !== "request") return null;
+  let methods: string[] | undefined;
+  const decorated =
+    def.parent?.type === "decorated_definition" ? def.parent : null;
+  for (const dec of decorated?.namedChildren ?? []) {
+    if (dec.type !== "decorator") continue;
+    const text: string = dec.text.replace(/^@/, "");
+    const simple = text.match(/^require_(GET|POST|safe)\b/);
+    if (simple) {
+      methods = simple[1] === "safe" ? ["GET", "HEAD"] : [simple[1]];
+    } else if (/^(api_view|require_http_methods)\b/.test(text)) {
+      methods = Array.from(text.matchAll(/["'](\w+)["']/g), (m) =>
+        m[1].toUpperCase()
+      );
+    }
+  }
+  if (!methods?.length) {
+    const body: string = def.childForFieldName?.("body")?.text ?? "";
+    const checked = Array.from(
+      body.matchAll(/request\.method\s*==\s*["'](\w+)["']/g),
+      (m) => m[1].toUpperCase()
+    );
+    methods = Array.from(new Set(["GET", ...checked]));
+  }
+  return { name, line: def.startPosition.row + 1, methods };
+}
+
+// Django class-based views, DRF generic views and viewsets
+function classView(cls: any): DjangoView | null {
+  const name = cls.childForFieldName?.("name")?.text;
+  const bases = (
+    cls.childForFieldName?.("superclasses")?.namedChildren ?? []
+  ).map((b: any) => b.text.split(".").pop() as string);
+  if (!name || !bases.length) return null;
+  const methods = new Map<string, any>();
+  const extra: NonNullable<DjangoView["viewset"]>["extra"] = [];
+  for (const item of cls.childForFieldName?.("body")?.namedChildren ?? []) {
+    const def =
+      item.type === "decorated_definition"
+        ? item.childForFieldName?.("definition")
+        : item;
+    if (def?.type !== "function_definition") continue;
+    const fname = def.childForFieldName?.("name")?.text;
+    if (fname) methods.set(fname, def);
+    if (item.type !== "decorated_definition") continue;
+    for (const dec of item.namedChildren ?? []) {
+      if (dec.type !== "decorator" || !/^@action\b/.test(dec.text)) continue;
+      const call = dec.namedChildren?.[0];
+      const kwargs = call?.type === "call" ? keywordArgs(call) : {};
+      const verbs = (call?.type === "call" && listStrings(call, "methods")) || [
+        "get",
+      ];
+      extra.push({
+        name: fname,
+        detail: kwargs.detail_expr === "True",
+        methods: verbs.map((m) => m.toUpperCase()),
+        path: kwargs.url_path ?? fname,
+      });
+    }
+  }
+  const line = cls.startPosition.row + 1;
+
+  if (bases.some((b: string) => /ViewSet$|ModelMixin$/.test(b))) {
+    const actions = new Set<string>();
+    for (const b of bases)
+      for (const a of VIEWSET_BASES[b] ?? []) actions.add(a);
+    for (const a of Object.keys(VIEWSET_ACTIONS)) {
+      if (methods.has(a)) actions.add(a);
+    }
+    return {
+      name,
+      line,
+      methods: [],
+      viewset: {
+        actions: Array.from(actions),
+        extra,
+        defs: Object.fromEntries(
+          Array.from(methods, ([m, def]) => [m, def.startPosition.row + 1])
+        ),
+      },
+    };
+  }
+  const handlers = HTTP_METHODS.filter((m) => methods.has(m)).map((m) =>
+    m.toUpperCase()
+  );
+  const inherited = bases.flatMap((b: string) => VIEW_BASE_METHODS[b] ?? []);
+  const served = Array.from(new Set([...inherited, ...handlers]));
+  if (!served.length && !bases.some((b: string) => /View$/.test(b)))
+    return null;
+  return {
+    name,
+    line,
+    methods: served.length ? served : ["GET"],
+    defs: Object.fromEntries(
+      HTTP_METHODS.filter((m) => methods.has(m)).map((m) => [
+        m,
+        methods.get(m).startPosition.row + 1,
+      ])
+    ),
+  };
+}
+
+// requests.get(url), httpx.post(url), session.get(url), client.request("PUT", url)
+function clientCall(
+  receiver: string,
+  method: string,
+  args: any[],
+  clients: Record<string, string>
+): { method?: string; url: string } | null {
+  const isModule = /^(requests|httpx)$/.test(receiver);
+  const base = clients[receiver] ?? clients[receiver.replace(/^self\./, "")];
+  if (!isModule && base == null) return null;
+  let verb = method;
+  let urlNode = args[0];
+  if (method === "request") {
+    verb = (stringValue(args[0]) ?? "").toLowerCase();
+    urlNode = args[1];
+  }
+  if (!HTTP_METHODS.includes(verb) || !urlNode) return null;
+  let url = stringValue(urlNode);
+  if (url == null) return null;
+  // f"{BASE_URL}/orders/{id}": the leading placeholder is the base URL
+  url = url.replace(/^\{[^}]+\}(?=\/)/, "");
+  return { method: verb.toUpperCase(), url: base ? joinPath(base, url) : url };
+}
+
+// Files of the repository a dotted module refers to, relative to `fromFile` for
+// leading dots; otherwise any file whose path ends with the module path
+function resolveModule(
+  files: PythonWebFile[],
+  fromFile: string,
+  dotted: string
+): string[] {
+  const dots = dotted.match(/^\.*/)![0].length;
+  const rest = dotted.slice(dots).replace(/\./g, "/");
+  const candidates = [`${rest}.py`, `${rest}/__init__.py`];
+  if (dots) {
+    let dir = posix.dirname(fromFile);
+    for (let i = 1; i < dots; i++) dir = posix.dirname(dir);
+    const full = candidates.map((c) => posix.normalize(posix.join(dir, c)));
+    return files.map((f) => f.relPath).filter((p) => full.includes(p));
+  }
+  return files
+    .map((f) => f.relPath)
+    .filter((p) => candidates.some((c) => p === c || p.endsWith(`/${c}`)));
+}
+
+// `router`, `orders.router`, `orders_router` (imported) → `file|variable` keys
+function mountTargets(
+  from: PythonWebFile,
+  target: string,
+  files: PythonWebFile[]
+): string[] {
+  const parts = target.split(".");
+  const variable = parts.pop()!;
+  if (!parts.length) {
+    if (from.prefixes[variable] != null) return [`${from.relPath}|${variable}`];
+    // from .routers.orders import router as orders_router
+    const imported = from.imports[variable];
+    if (!imported) return [];
+    const dot = imported.lastIndexOf(".");
+    const module = imported.slice(0, dot) || ".";
+    const name = imported.slice(dot + 1);
+    return resolveModule(files, from.relPath, module).map(
+      (p) => `${p}|${name}`
+    );
+  }
+  // orders.router, with `orders` an imported module
+  const module = from.imports[parts[0]] ?? parts[0];
+  const dotted = [module, ...parts.slice(1)].join(".");
+  return resolveModule(files, from.relPath, dotted).map(
+    (p) => `${p}|${variable}`
+  );
+}
+
+function findView(
+  files: PythonWebFile[],
+  from: PythonWebFile,
+  name: string
+): { file: PythonWebFile; view: DjangoView } | null {
+  const own = from.views.find((v) => v.name === name);
+  if (own) return { file: from, view: own };
+  for (const f of files) {
+    const view = f.views.find((v) => v.name === name);
+    if (view) return { file: f, view };
+  }
+  return null;
+}
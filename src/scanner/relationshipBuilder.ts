@@ -18,7 +18,18 @@ import {
   DeveloperEntity,
   TeamEntity,
   CommitEntity,
+  TestEntity,
+  TypeDefinitionEntity,
 } from "./types.js";
+import {
+  buildModuleIndex,
+  matchPackages,
+  ModuleIndex,
+  resolveImport,
+} from "./importAnalyzer.js";
+import { testSubjectName } from "./testAnalyzer.js";
+import { attachApiSchemas } from "./apiContracts.js";
+import { detectLanguageByExt } from "./treeSitterParser.js";
 
 /**
  * Build relationships between extracted entities.
@@ -26,11 +37,22 @@ import {
  * - File CONTAINS all entities in same file
  * - File DECLARES Class/Function/Variable in same file
  * - Class HAS_FUNCTION functions whose span is within class span (same file)
- * - Function CALLS resolution by name within same repo (simple name match)
+ * - Function CALLS by callee name, scoped by receiver, enclosing class and imports, with a
+ *   confidence (see buildCallRelationships)
  * - Function USES_API / PROVIDES_API using function meta lists to API entities in same file/repo
+ *   (GraphQL fields and gRPC methods may be declared or registered in a file other than
+ *   the function serving them)
  * - Function QUERIES to DatabaseTable by name (same repo)
  * - Function USES_CONFIG to Config by key (same repo)
  * - Function EMITS_ERROR to ErrorMessage occurring within function span (same file)
+ * - File IMPORTS File / USES_PACKAGE Package from import statements (see buildImportRelationships)
+ * - Class EXTENDS / IMPLEMENTS Class and Function OVERRIDES Function (see buildClassHierarchy)
+ * - Function / Class / TypeDefinition / API to the types they declare (see
+ *   buildTypeRelationships)
+ * Also fills in the `responseSchema` / `requestSchema` of provided APIs (see
+ * attachApiSchemas).
+ * - API SPECIFIES API from an OpenAPI / Swagger operation to the code route it documents
+ * - Test TESTS File/Function by imports, calls and naming conventions (see buildTestRelationships)
  */
 export function buildRelationships(entities: AnyEntity[]): Relationship[] {
   const rels: Relationship[] = [];
@@ -68,6 +90,10 @@ export function buildRelationships(entities: AnyEntity[]): Relationship[] {
   ) as DeveloperEntity[];
   const teams = entities.filter((e) => e.type === "Team") as TeamEntity[];
   const commits = entities.filter((e) => e.type === "Commit") as CommitEntity[];
+  const tests = entities.filter((e) => e.type === "Test") as TestEntity[];
+  const typeDefs = entities.filter(
+    (e) => e.type === "TypeDefinition"
+  ) as TypeDefinitionEntity[];
 
   // Index helpers
   const byFile = new Map<string, AnyEntity[]>();
@@ -110,27 +136,34 @@ export function buildRelationships(entities: AnyEntity[]): Relationship[] {
     }
   }
 
-  // Function CALLS (name resolution in same repo)
-  // Build index: function name -> list of function ids
-  const fnByNameByRepo = new Map<string, string[]>();
-  for (const fn of functions) {
-    const key = `${fn.repoRoot}|${fn.name}`;
-    const arr = fnByNameByRepo.get(key) ?? [];
-    arr.push(fn.id);
-    fnByNameByRepo.set(key, arr);
-  }
-
-  for (const fn of functions) {
-    const calls = fn.calls ?? [];
-    for (const targetName of calls) {
-      const key = `${fn.repoRoot}|${targetName}`;
-      const targets = fnByNameByRepo.get(key) ?? [];
-      for (const targetId of targets) {
-        if (targetId !== fn.id) {
-          rels.push(makeRel("CALLS", fn.id, targetId));
-        }
-      }
-    }
+  // File -> File / Package relationships (IMPORTS, USES_PACKAGE)
+  const importRels = buildImportRelationships(files, classes, packages);
+  rels.push(...importRels);
+
+  // Class hierarchy (EXTENDS, IMPLEMENTS, IMPLEMENTS_TYPE, OVERRIDES)
+  const importedPaths = importedPathsByFile(files, importRels);
+  const hierarchy = buildClassHierarchy(
+    classes,
+    functions,
+    typeDefs,
+    importedPaths
+  );
+  rels.push(...hierarchy.rels);
+
+  // Function CALLS (scope-, type-, hierarchy- and import-aware name resolution)
+  const callRels = buildCallRelationships(
+    functions,
+    classes,
+    hierarchy.index,
+    importedPaths
+  );
+  rels.push(...callRels);
+  // Resolved callees by caller and name, for PASSES_TO
+  const functionById = new Map(functions.map((fn) => [fn.id, fn]));
+  const calleesByName = new Map<string, string[]>();
+  for (const r of callRels) {
+    const key = `${r.fromId}|${functionById.get(r.toId)?.name}`;
+    calleesByName.set(key, [...(calleesByName.get(key) ?? []), r.toId]);
   }
 
   // Function -> API relationships
@@ -140,7 +173,7 @@ export function buildRelationships(entities: AnyEntity[]): Relationship[] {
       const matches = apis.filter(
         (a) =>
           a.repoRoot === fn.repoRoot &&
-          a.file === fn.file &&
+          (a.file === fn.file || (a.protocol ?? "http") !== "http") &&
           a.direction === "provided" &&
           a.path === p.path &&
           (a.method || "").toUpperCase() === (p.method || "").toUpperCase()
@@ -165,6 +198,21 @@ export function buildRelationships(entities: AnyEntity[]): Relationship[] {
     }
   }
 
+  // Declared types (RETURNS_TYPE, USES_TYPE, API_RETURNS_TYPE, API_ACCEPTS_TYPE);
+  // the body schemas of provided APIs follow from them
+  const typeRels = buildTypeRelationships(
+    functions,
+    classes,
+    typeDefs,
+    apis,
+    importedPaths
+  );
+  rels.push(...typeRels);
+  attachApiSchemas(entities, typeRels);
+
+  // OpenAPI / Swagger operations -> the code routes they document (SPECIFIES)
+  rels.push(...buildSpecRelationships(apis));
+
   // Function -> DatabaseTable (QUERIES) by name in same repo
   const tableByNameByRepo = new Map<string, string[]>();
   for (const t of tables) {
@@ -263,11 +311,10 @@ export function buildRelationships(entities: AnyEntity[]): Relationship[] {
       }
     }
 
-    // PASSES_TO: variable -> callee function
+    // PASSES_TO: variable -> callee function (as resolved for CALLS)
     for (const p of fn.passesTo ?? []) {
       const vars = findVarsInFunction(fn, p.sourceVar);
-      const key = `${fn.repoRoot}|${p.callee}`;
-      const targetFns = fnByNameByRepo.get(key) ?? [];
+      const targetFns = calleesByName.get(`${fn.id}|${p.callee}`) ?? [];
       for (const v of vars) {
         for (const targetId of targetFns) {
           const r = makeRel("PASSES_TO", v.id, targetId);
@@ -419,6 +466,9 @@ export function buildRelationships(entities: AnyEntity[]): Relationship[] {
     }
   }
 
+  // Test -> File/Function relationships (TESTS)
+  rels.push(...buildTestRelationships(tests, files, functions, importRels));
+
   // Cross-repository API relationships
   const repositories = entities.filter(
     (e) => e.type === "Repository"
@@ -452,6 +502,809 @@ function makeRel(
   };
 }
 
+// Candidates beyond which a call resolved by name only is too ambiguous to link
+const MAX_CALL_TARGETS = 3;
+
+// Receivers naming the enclosing instance or its base
+const SELF_RECEIVERS = new Set(["this", "self", "cls", "super", "base"]);
+const BASE_RECEIVERS = new Set(["super", "base"]);
+
+// Methods that construct rather than override
+const CONSTRUCTOR_NAMES = new Set(["constructor", "__init__", "__new__"]);
+
+/** Classes indexed for hierarchy and call resolution; keys are ids unless noted. */
+interface ClassIndex {
+  byName: Map<string, ClassEntity[]>; // repoRoot|name
+  classOf: Map<string, ClassEntity>; // function -> innermost enclosing class
+  methodsOf: Map<string, FunctionEntity[]>;
+  parents: Map<string, ClassEntity[]>; // resolved EXTENDS / IMPLEMENTS targets
+  children: Map<string, ClassEntity[]>;
+  implementersOf: Map<string, ClassEntity[]>; // repoRoot|TypeDefinition name
+}
+
+// Repo-relative paths each file IMPORTS, keyed by repoRoot|file
+function importedPathsByFile(
+  files: FileEntity[],
+  importRels: Relationship[]
+): Map<string, Set<string>> {
+  const fileById = new Map(files.map((f) => [f.id, f]));
+  const out = new Map<string, Set<string>>();
+  for (const r of importRels) {
+    const from = fileById.get(r.fromId);
+    const to = r.type === "IMPORTS" ? fileById.get(r.toId) : undefined;
+    if (!from || !to) continue;
+    const key = `${from.repoRoot}|${from.file}`;
+    out.set(key, (out.get(key) ?? new Set<string>()).add(to.file));
+  }
+  return out;
+}
+
+/**
+ * Class hierarchy from the base names recorded on each class:
+ * - Class EXTENDS Class, Class IMPLEMENTS Class (an interface; C# bases named
+ *   `IName` that turn out to be classes are EXTENDS)
+ * - Class IMPLEMENTS_TYPE TypeDefinition for TS interfaces
+ * - Function OVERRIDES Function: a method and the same-named methods of every
+ *   ancestor (`depth` 1 for the direct base), constructors excluded
+ * Base names resolve to classes and TS interfaces of the same repository: a match in
+ * the same file, else in the imported files, else one declared anywhere in the
+ * repository, but only when the name is unique among its classes and interfaces.
+ * A name matching several declarations at the winning step stays unlinked.
+ */
+function buildClassHierarchy(
+  classes: ClassEntity[],
+  functions: FunctionEntity[],
+  typeDefs: TypeDefinitionEntity[],
+  importedPaths: Map<string, Set<string>>
+): { index: ClassIndex; rels: Relationship[] } {
+  const index: ClassIndex = {
+    byName: new Map(),
+    classOf: new Map(),
+    methodsOf: new Map(),
+    parents: new Map(),
+    children: new Map(),
+    implementersOf: new Map(),
+  };
+  const classesByFile = new Map<string, ClassEntity[]>();
+  for (const c of classes) {
+    const fileKey = `${c.repoRoot}|${c.file}`;
+    classesByFile.set(fileKey, [...(classesByFile.get(fileKey) ?? []), c]);
+    const nameKey = `${c.repoRoot}|${c.name}`;
+    index.byName.set(nameKey, [...(index.byName.get(nameKey) ?? []), c]);
+  }
+  for (const fn of functions) {
+    if (!fn.span) continue;
+    let inner: ClassEntity | undefined;
+    for (const c of classesByFile.get(`${fn.repoRoot}|${fn.file}`) ?? []) {
+      if (
+        c.span &&
+        fn.span.startLine >= c.span.startLine &&
+        fn.span.endLine <= c.span.endLine &&
+        (!inner || c.span.startLine >= inner.span!.startLine)
+      ) {
+        inner = c;
+      }
+    }
+    if (!inner) continue;
+    index.classOf.set(fn.id, inner);
+    index.methodsOf.set(inner.id, [
+      ...(index.methodsOf.get(inner.id) ?? []),
+      fn,
+    ]);
+  }
+
+  const interfacesByName = new Map<string, TypeDefinitionEntity[]>();
+  for (const t of typeDefs) {
+    if (t.kind !== "interface") continue;
+    const key = `${t.repoRoot}|${t.name}`;
+    interfacesByName.set(key, [...(interfacesByName.get(key) ?? []), t]);
+  }
+  // The one declaration a base name means, if any (see above)
+  const resolveBase = (
+    c: ClassEntity,
+    found: (ClassEntity | TypeDefinitionEntity)[]
+  ): ClassEntity | TypeDefinitionEntity | undefined => {
+    const sameFile = found.filter((x) => x.file === c.file);
+    const imported = importedPaths.get(`${c.repoRoot}|${c.file}`);
+    const viaImport = found.filter((x) => imported?.has(x.file!));
+    const step = sameFile.length
+      ? sameFile
+      : viaImport.length
+      ? viaImport
+      : found;
+    return step.length === 1 ? step[0] : undefined;
+  };
+
+  const rels: Relationship[] = [];
+  for (const c of classes) {
+    const bases = [
+      ...(c.extends ?? []).map((name) => ({ name, declared: "extends" })),
+      ...(c.implements ?? []).map((name) => ({ name, declared: "implements" })),
+    ];
+    for (const { name, declared } of bases) {
+      const key = `${c.repoRoot}|${name}`;
+      const b = resolveBase(c, [
+        ...(index.byName.get(key) ?? []).filter((b) => b.id !== c.id),
+        ...(interfacesByName.get(key) ?? []),
+      ]);
+      if (!b) continue;
+      if (b.type === "TypeDefinition") {
+        if (declared !== "implements") continue;
+        rels.push(makeRel("IMPLEMENTS_TYPE", c.id, b.id));
+        index.implementersOf.set(key, [
+          ...(index.implementersOf.get(key) ?? []),
+          c,
+        ]);
+        continue;
+      }
+      const type =
+        b.kind === "interface" && c.kind !== "interface"
+          ? "IMPLEMENTS"
+          : declared === "implements" && b.kind !== "interface"
+          ? "EXTENDS"
+          : declared === "implements"
+          ? "IMPLEMENTS"
+          : "EXTENDS";
+      rels.push(makeRel(type, c.id, b.id));
+      index.parents.set(c.id, [...(index.parents.get(c.id) ?? []), b]);
+      index.children.set(b.id, [...(index.children.get(b.id) ?? []), c]);
+    }
+  }
+
+  for (const c of classes) {
+    const methods = (index.methodsOf.get(c.id) ?? []).filter(
+      (m) => !CONSTRUCTOR_NAMES.has(m.name) && m.name !== c.name
+    );
+    if (!methods.length) continue;
+    for (const { cls, depth } of relatives(index.parents, c)) {
+      for (const m of methods) {
+        for (const base of methodsNamed(index, cls, m.name)) {
+          const rel = makeRel("OVERRIDES", m.id, base.id);
+          rel.properties = { depth };
+          rels.push(rel);
+        }
+      }
+    }
+  }
+  return { index, rels };
+}
+
+// Ancestors (via `parents`) or descendants (via `children`), nearest first
+function relatives(
+  links: Map<string, ClassEntity[]>,
+  start: ClassEntity
+): { cls: ClassEntity; depth: number }[] {
+  const out: { cls: ClassEntity; depth: number }[] = [];
+  const seen = new Set([start.id]);
+  let frontier = [start];
+  for (let depth = 1; frontier.length; depth++) {
+    const next: ClassEntity[] = [];
+    for (const c of frontier) {
+      for (const r of links.get(c.id) ?? []) {
+        if (seen.has(r.id)) continue;
+        seen.add(r.id);
+        out.push({ cls: r, depth });
+        next.push(r);
+      }
+    }
+    frontier = next;
+  }
+  return out;
+}
+
+function methodsNamed(
+  index: ClassIndex,
+  c: ClassEntity,
+  name: string
+): FunctionEntity[] {
+  return (index.methodsOf.get(c.id) ?? []).filter((m) => m.name === name);
+}
+
+type CallResolution =
+  | "same-class"
+  | "inherited"
+  | "receiver-type"
+  | "implementation"
+  | "qualified"
+  | "same-file"
+  | "import"
+  | "name-only";
+
+const CALL_CONFIDENCE: Record<CallResolution, number> = {
+  "same-class": 0.95,
+  inherited: 0.9,
+  "receiver-type": 0.9,
+  implementation: 0.7,
+  qualified: 0.9,
+  "same-file": 0.9,
+  import: 0.8,
+  "name-only": 0.5,
+};
+
+/**
+ * Resolve the callees recorded on each function (`save`, `this.save`,
+ * `repo.save`, `OrderService.cancel`) to Functions of the same repository. Each
+ * CALLS edge carries a `confidence` (0..1) and the `resolution` that found it:
+ * - same-class (0.95): `this.x()` / `self.x()`, or a bare call in a Java/C# class,
+ *   to a method of the enclosing class; inherited (0.9) when an ancestor declares
+ *   it instead (`super.x()` / `base.x()` look there only)
+ * - receiver-type (0.9): the receiver is a parameter, field or constructor-injected
+ *   dependency whose declared type is a class of the repository (or an ancestor
+ *   declares the method); a type declared outside the repository (String, List,
+ *   HttpClient) resolves to nothing
+ * - implementation (0.7): the overriding methods of the receiver type's (or the
+ *   enclosing class's) subclasses and implementations, incl. classes implementing a
+ *   TS interface, so a call through an interface reaches the concrete methods
+ * - qualified (0.9): `ClassName.method()` to a method of that class
+ * - same-file (0.9) and import (0.8): functions of the caller's file, then of the
+ *   files it IMPORTS
+ * - name-only: any function of that name in the repository; 0.5 when unique, else
+ *   split between at most MAX_CALL_TARGETS candidates (only unique for `this.x()`
+ *   outside a known class). More candidates are dropped as ambiguous.
+ * The first step that finds candidates wins. A call on any other receiver the steps
+ * above cannot resolve (`axios.get`, `console.log`) stays unlinked.
+ */
+function buildCallRelationships(
+  functions: FunctionEntity[],
+  classes: ClassEntity[],
+  index: ClassIndex,
+  importedPaths: Map<string, Set<string>>
+): Relationship[] {
+  const fnsByName = new Map<string, FunctionEntity[]>();
+  for (const fn of functions) {
+    const key = `${fn.repoRoot}|${fn.name}`;
+    fnsByName.set(key, [...(fnsByName.get(key) ?? []), fn]);
+  }
+
+  // Declared types of fields and constructor parameters, per class
+  const memberTypes = new Map<string, Map<string, string>>();
+  for (const c of classes) {
+    const types = new Map<string, string>();
+    for (const field of c.fields ?? []) {
+      if (field.type) types.set(field.name, field.type);
+    }
+    for (const m of index.methodsOf.get(c.id) ?? []) {
+      if (!CONSTRUCTOR_NAMES.has(m.name) && m.name !== c.name) continue;
+      for (const p of m.paramTypes ?? []) {
+        if (p.type && !types.has(p.name)) types.set(p.name, p.type);
+      }
+    }
+    memberTypes.set(c.id, types);
+  }
+
+  // A method of the class or, failing that, of its nearest declaring ancestor
+  const ownOrInherited = (
+    c: ClassEntity,
+    name: string,
+    own: CallResolution
+  ): { targets: FunctionEntity[]; resolution: CallResolution }[] => {
+    const direct = methodsNamed(index, c, name);
+    if (direct.length) return [{ targets: direct, resolution: own }];
+    for (const { cls } of relatives(index.parents, c)) {
+      const inherited = methodsNamed(index, cls, name);
+      if (inherited.length) {
+        return [
+          {
+            targets: inherited,
+            resolution: own === "same-class" ? "inherited" : own,
+          },
+        ];
+      }
+    }
+    return [];
+  };
+  // Same-named methods of the given subtypes and all of theirs
+  const overridesBelow = (subtypes: ClassEntity[], name: string) =>
+    Array.from(
+      new Set(
+        subtypes.flatMap((sub) => [
+          sub,
+          ...relatives(index.children, sub).map((r) => r.cls),
+        ])
+      )
+    ).flatMap((c) => methodsNamed(index, c, name));
+
+  const resolve = (
+    fn: FunctionEntity,
+    callee: string
+  ): { targets: FunctionEntity[]; resolution: CallResolution }[] => {
+    const parts = callee
+      .replace(/\s+/g, "")
+      .replace(/[?!]\./g, ".")
+      .replace(/<[^<>()]*>/g, "")
+      .split(/\.|::|->/);
+    const name = parts.pop() ?? "";
+    if (!/^[A-Za-z_$][\w$]*$/.test(name)) return [];
+    const receiver = parts.join(".");
+    const own = index.classOf.get(fn.id);
+    const language = fn.language ?? "unknown";
+    const classBased = language === "java" || language === "csharp";
+
+    if (own && BASE_RECEIVERS.has(receiver)) {
+      for (const { cls } of relatives(index.parents, own)) {
+        const targets = methodsNamed(index, cls, name);
+        if (targets.length) return [{ targets, resolution: "inherited" }];
+      }
+    }
+    if (own && (SELF_RECEIVERS.has(receiver) || (!receiver && classBased))) {
+      const found = ownOrInherited(own, name, "same-class");
+      if (found.length) {
+        // Dispatch may land on a subclass override
+        const overrides = overridesBelow(
+          index.children.get(own.id) ?? [],
+          name
+        );
+        if (overrides.length) {
+          found.push({ targets: overrides, resolution: "implementation" });
+        }
+        return found;
+      }
+    }
+
+    if (receiver && !SELF_RECEIVERS.has(receiver)) {
+      // `repo`, `this.repo`, `self._repo`: a typed parameter or member
+      const variable = receiver.replace(/^(this|self)\./, "");
+      const declared =
+        fn.paramTypes?.find((p) => p.name === variable)?.type ??
+        (own ? memberTypes.get(own.id)?.get(variable) : undefined);
+      const type = declared ? simpleTypeName(declared) : null;
+      if (type) {
+        const typeClasses = index.byName.get(`${fn.repoRoot}|${type}`) ?? [];
+        const implementers =
+          index.implementersOf.get(`${fn.repoRoot}|${type}`) ?? [];
+        // A library type: none of this repository's functions can be the callee
+        if (!typeClasses.length && !implementers.length) return [];
+        const found = typeClasses.flatMap((c) =>
+          ownOrInherited(c, name, "receiver-type")
+        );
+        const overrides = overridesBelow(
+          [
+            ...typeClasses.flatMap((c) => index.children.get(c.id) ?? []),
+            ...implementers,
+          ],
+          name
+        );
+        if (overrides.length) {
+          found.push({ targets: overrides, resolution: "implementation" });
+        }
+        if (found.length) return found;
+      }
+      // `OrderService.cancel`, `Orders.Api.get`
+      const qualifier = receiver.split(".").pop()!;
+      if (/^[A-Z]/.test(qualifier)) {
+        const targets = (
+          index.byName.get(`${fn.repoRoot}|${qualifier}`) ?? []
+        ).flatMap((c) => methodsNamed(index, c, name));
+        if (targets.length) return [{ targets, resolution: "qualified" }];
+      }
+      // A library or untyped receiver: its `get` is not ours by name alone
+      return [];
+    }
+
+    const candidates = (fnsByName.get(`${fn.repoRoot}|${name}`) ?? []).filter(
+      (c) => c.id !== fn.id
+    );
+    if (!candidates.length) return [];
+    if (!receiver) {
+      const sameFile = candidates.filter((c) => c.file === fn.file);
+      if (sameFile.length) {
+        return [{ targets: sameFile, resolution: "same-file" }];
+      }
+    }
+    const imported = importedPaths.get(`${fn.repoRoot}|${fn.file}`);
+    const viaImport = candidates.filter((c) => imported?.has(c.file!));
+    if (viaImport.length && viaImport.length <= MAX_CALL_TARGETS) {
+      return [{ targets: viaImport, resolution: "import" }];
+    }
+    const limit = receiver ? 1 : MAX_CALL_TARGETS;
+    return candidates.length <= limit
+      ? [{ targets: candidates, resolution: "name-only" }]
+      : [];
+  };
+
+  const edges = new Map<string, Relationship>();
+  for (const fn of functions) {
+    for (const callee of fn.calls ?? []) {
+      for (const found of resolve(fn, callee)) {
+        const targets = found.targets.filter((t) => t.id !== fn.id);
+        const confidence =
+          found.resolution === "name-only"
+            ? CALL_CONFIDENCE["name-only"] / targets.length
+            : CALL_CONFIDENCE[found.resolution];
+        for (const t of targets) {
+          const rel = makeRel("CALLS", fn.id, t.id);
+          const existing = edges.get(rel.id);
+          if (
+            existing &&
+            (existing.properties!.confidence as number) >= confidence
+          ) {
+            continue;
+          }
+          rel.properties = {
+            confidence: Math.round(confidence * 100) / 100,
+            resolution: found.resolution,
+          };
+          edges.set(rel.id, rel);
+        }
+      }
+    }
+  }
+  return Array.from(edges.values());
+}
+
+// Class name a declared type refers to: `Repository<Order>` → Repository,
+// `OrderService | null` → OrderService, `Optional[Foo]` → Foo, `a.b.Foo[]` → Foo
+function simpleTypeName(type: string): string | null {
+  // TS annotations keep their leading colon
+  let t = type
+    .trim()
+    .replace(/^:\s*/, "")
+    .replace(/^['"]|['"]$/g, "");
+  const optional = t.match(/^Optional\[(.+)\]$/);
+  if (optional) t = optional[1];
+  t =
+    t
+      .split("|")
+      .map((s) => s.trim())
+      .find((s) => !/^(null|undefined|None)$/.test(s)) ?? "";
+  t = t
+    .replace(/^(readonly|final)\s+/, "")
+    .replace(/[<[].*$/, "")
+    .replace(/[?!]$/, "")
+    .trim();
+  const name = t.split(".").pop() ?? "";
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? name : null;
+}
+
+/**
+ * Link declared types to the Class / TypeDefinition nodes they name:
+ * - Function RETURNS_TYPE from its return type, USES_TYPE from its parameter types
+ *   (`param` on the edge)
+ * - Class USES_TYPE from its field types, TypeDefinition USES_TYPE from its property
+ *   types and aliased type (`field` on the edge), so a DTO links the DTOs nested in it
+ * - API API_RETURNS_TYPE from its response type, API_ACCEPTS_TYPE from its request
+ *   body type, both taken from the route's handler at extraction
+ * Every type named in a declaration counts: `Promise<List<Order>>`, `Order[]`,
+ * `Order | null`, `Optional["Order"]` and `Map<string, Order>` all reach Order, while
+ * names without a node in the repository (Promise, List, string) drop out. Only types
+ * of a compatible language count (see typeFamiliesFor); names resolve to the same
+ * file, then imported files, else to the one type of that name, ambiguous names
+ * being dropped. Edges carry the `declaredType`.
+ */
+function buildTypeRelationships(
+  functions: FunctionEntity[],
+  classes: ClassEntity[],
+  typeDefs: TypeDefinitionEntity[],
+  apis: APIEntity[],
+  importedPaths: Map<string, Set<string>>
+): Relationship[] {
+  const byName = new Map<string, (ClassEntity | TypeDefinitionEntity)[]>();
+  for (const t of [...classes, ...typeDefs]) {
+    const key = `${t.repoRoot}|${t.name}`;
+    byName.set(key, [...(byName.get(key) ?? []), t]);
+  }
+  const resolve = (owner: AnyEntity, declared: string | undefined) => {
+    const out: (ClassEntity | TypeDefinitionEntity)[] = [];
+    const families = typeFamiliesFor(owner);
+    for (const name of typeNamesIn(declared ?? "")) {
+      const found = (byName.get(`${owner.repoRoot}|${name}`) ?? []).filter(
+        (t) => t.id !== owner.id && families.includes(languageFamily(t))
+      );
+      const sameFile = found.filter((t) => t.file === owner.file);
+      const imported = importedPaths.get(`${owner.repoRoot}|${owner.file}`);
+      const viaImport = found.filter((t) => imported?.has(t.file!));
+      if (sameFile.length || viaImport.length) {
+        out.push(...(sameFile.length ? sameFile : viaImport));
+        continue;
+      }
+      // Name only: the first family with a candidate, linked when it is unique
+      for (const family of families) {
+        const named = found.filter((t) => languageFamily(t) === family);
+        if (!named.length) continue;
+        if (named.length === 1) out.push(named[0]);
+        break;
+      }
+    }
+    return out;
+  };
+  const rels: Relationship[] = [];
+  const link = (
+    type: RelationshipType,
+    owner: AnyEntity,
+    declared: string | undefined,
+    properties: Record<string, unknown> = {}
+  ) => {
+    for (const t of resolve(owner, declared)) {
+      const rel = makeRel(type, owner.id, t.id);
+      rel.properties = {
+        ...properties,
+        declaredType: declared!.replace(/^\s*(:|->)\s*/, "").trim(),
+      };
+      rels.push(rel);
+    }
+  };
+
+  for (const fn of functions) {
+    link("RETURNS_TYPE", fn, fn.returns);
+    for (const p of fn.paramTypes ?? []) {
+      link("USES_TYPE", fn, p.type, { param: p.name });
+    }
+  }
+  for (const c of classes) {
+    for (const f of c.fields ?? []) {
+      link("USES_TYPE", c, f.type, { field: f.name });
+    }
+  }
+  for (const t of typeDefs) {
+    for (const p of t.properties ?? []) {
+      link("USES_TYPE", t, p.type, { field: p.name });
+    }
+    if (typeof t.definition === "string") link("USES_TYPE", t, t.definition);
+  }
+  for (const api of apis) {
+    if (api.direction !== "provided") continue;
+    link("API_RETURNS_TYPE", api, api.responseType);
+    link("API_ACCEPTS_TYPE", api, api.requestType);
+  }
+  return rels;
+}
+
+// Languages sharing a type system; schema-defined types (.proto, .graphql) have none.
+// Routes carry no language of their own, only the file they are declared in.
+function languageFamily(e: AnyEntity): string {
+  const language =
+    e.language ?? (e.file ? detectLanguageByExt(e.file) : "unknown");
+  if (language === "javascript" || language === "typescript") return "js";
+  return language === "unknown" ? "schema" : language;
+}
+
+// Families whose types a declaration may name, in order of preference: code names
+// types of its own language; RPC and GraphQL APIs prefer their schema's types
+function typeFamiliesFor(owner: AnyEntity): string[] {
+  const own = languageFamily(owner);
+  if (owner.type !== "API" || own === "schema") return [own];
+  return ((owner as APIEntity).protocol ?? "http") === "http"
+    ? [own, "schema"]
+    : ["schema", own];
+}
+
+// Every type name a declaration mentions, namespaces dropped:
+// `: Promise<Array<api.Order>> | null` → Promise, Array, Order, null
+function typeNamesIn(declared: string): string[] {
+  const names = declared
+    .replace(/^\s*(:|->)\s*/, "")
+    .replace(/['"`]/g, " ")
+    .match(/[A-Za-z_$][\w$]*(\.[A-Za-z_$][\w$]*)*/g);
+  return Array.from(new Set((names ?? []).map((n) => n.split(".").pop()!)));
+}
+
+/**
+ * Module dependencies from the imports recorded on each File. Edges carry the
+ * `specifiers` they come from:
+ * - File IMPORTS File for imports resolving inside the repository: relative and
+ *   tsconfig/jsconfig-aliased JS/TS modules (extensions and index files tried),
+ *   Python modules and packages, Java classes and packages, C# namespaces (narrowed
+ *   to files declaring a type the importer mentions)
+ * - File USES_PACKAGE Package for the others, matched against the repository's
+ *   declared dependencies (see matchPackages)
+ */
+function buildImportRelationships(
+  files: FileEntity[],
+  classes: ClassEntity[],
+  packages: PackageEntity[]
+): Relationship[] {
+  const indexByRepo = new Map<string, ModuleIndex>();
+  const fileByKey = new Map<string, FileEntity>();
+  for (const f of files) fileByKey.set(`${f.repoRoot}|${f.file}`, f);
+  for (const repoRoot of new Set(files.map((f) => f.repoRoot))) {
+    indexByRepo.set(
+      repoRoot,
+      buildModuleIndex(
+        files.filter((f) => f.repoRoot === repoRoot && f.file),
+        classes.filter((c) => c.repoRoot === repoRoot)
+      )
+    );
+  }
+
+  const edges = new Map<string, Relationship & { specifiers: string[] }>();
+  const link = (
+    type: RelationshipType,
+    fromId: string,
+    toId: string,
+    specifier: string
+  ) => {
+    const key = `${fromId}|${type}|${toId}`;
+    const edge = edges.get(key) ?? {
+      ...makeRel(type, fromId, toId),
+      specifiers: [],
+    };
+    if (!edge.specifiers.includes(specifier)) edge.specifiers.push(specifier);
+    edges.set(key, edge);
+  };
+
+  for (const f of files) {
+    if (!f.imports?.length) continue;
+    const index = indexByRepo.get(f.repoRoot)!;
+    const language = f.language ?? "unknown";
+    const typeRefs = f.typeRefs ? new Set(f.typeRefs) : undefined;
+    const repoPackages = packages.filter((p) => p.repoRoot === f.repoRoot);
+    for (const ref of f.imports) {
+      const targets = resolveImport(ref, f.file, language, index, typeRefs);
+      for (const path of targets) {
+        const target = fileByKey.get(`${f.repoRoot}|${path}`);
+        if (target) link("IMPORTS", f.id, target.id, ref.specifier);
+      }
+      if (targets.length) continue;
+      for (const p of matchPackages(ref.specifier, language, repoPackages)) {
+        link("USES_PACKAGE", f.id, p.id, ref.specifier);
+      }
+    }
+  }
+
+  return Array.from(edges.values(), ({ specifiers, ...rel }) => ({
+    ...rel,
+    properties: { specifiers },
+  }));
+}
+
+// A callee name shared by more functions than this (outside imported files) is too
+// ambiguous to link a test to
+const MAX_TEST_CALL_TARGETS = 3;
+
+/**
+ * Link tests to the code they exercise. Each TESTS edge carries `reasons`:
+ * - test file -> File its file IMPORTS ("imports src/orders.ts")
+ * - test file -> File named like it: orders.spec.ts <-> orders.ts, test_orders.py <->
+ *   orders.py, OrderServiceTest <-> OrderService ("named like ..."); the file whose
+ *   directories best mirror the test's wins
+ * - test case -> Function called in its body; test file -> Function called outside
+ *   its cases ("calls loadOrder"). Names resolve to functions of imported or
+ *   same-named files first, else repo-wide when at most MAX_TEST_CALL_TARGETS match
+ * Functions and files inside test files are never targets.
+ */
+function buildTestRelationships(
+  tests: TestEntity[],
+  files: FileEntity[],
+  functions: FunctionEntity[],
+  importRels: Relationship[]
+): Relationship[] {
+  const testFileKeys = new Set(tests.map((t) => `${t.repoRoot}|${t.file}`));
+  const isTestFile = (repoRoot: string, file?: string) =>
+    testFileKeys.has(`${repoRoot}|${file}`);
+
+  const fileById = new Map<string, FileEntity>();
+  const fileByKey = new Map<string, FileEntity>();
+  const filesByStem = new Map<string, FileEntity[]>();
+  const stemOf = (path: string) =>
+    path
+      .split("/")
+      .pop()!
+      .replace(/\.[^.]+$/, "")
+      .replace(/[_-]/g, "")
+      .toLowerCase();
+  for (const f of files) {
+    if (!f.file) continue;
+    fileById.set(f.id, f);
+    fileByKey.set(`${f.repoRoot}|${f.file}`, f);
+    if (isTestFile(f.repoRoot, f.file)) continue;
+    const key = `${f.repoRoot}|${stemOf(f.file)}`;
+    filesByStem.set(key, [...(filesByStem.get(key) ?? []), f]);
+  }
+
+  const importedFiles = new Map<string, FileEntity[]>();
+  for (const r of importRels) {
+    const target = r.type === "IMPORTS" ? fileById.get(r.toId) : undefined;
+    if (!target) continue;
+    importedFiles.set(r.fromId, [
+      ...(importedFiles.get(r.fromId) ?? []),
+      target,
+    ]);
+  }
+
+  const fnsByName = new Map<string, FunctionEntity[]>();
+  for (const fn of functions) {
+    if (isTestFile(fn.repoRoot, fn.file)) continue;
+    const key = `${fn.repoRoot}|${fn.name}`;
+    fnsByName.set(key, [...(fnsByName.get(key) ?? []), fn]);
+  }
+
+  const edges = new Map<string, Relationship & { reasons: string[] }>();
+  const link = (fromId: string, toId: string, reason: string) => {
+    const key = `${fromId}|${toId}`;
+    const edge = edges.get(key) ?? {
+      ...makeRel("TESTS", fromId, toId),
+      reasons: [],
+    };
+    if (!edge.reasons.includes(reason)) edge.reasons.push(reason);
+    edges.set(key, edge);
+  };
+
+  // Files each test file is about (imports and naming), keyed by test file
+  const subjectFiles = new Map<string, Set<string>>();
+  const linkCalls = (test: TestEntity, preferred: Set<string>) => {
+    for (const name of test.calls ?? []) {
+      const candidates = fnsByName.get(`${test.repoRoot}|${name}`) ?? [];
+      const inSubjects = candidates.filter((fn) => preferred.has(fn.file!));
+      const targets = inSubjects.length
+        ? inSubjects
+        : candidates.length <= MAX_TEST_CALL_TARGETS
+        ? candidates
+        : [];
+      for (const fn of targets) link(test.id, fn.id, `calls ${name}`);
+    }
+  };
+
+  const fileTests = tests.filter((t) => t.kind !== "case");
+  for (const test of fileTests) {
+    const subjects = new Set<string>();
+
+    const testFile = fileByKey.get(`${test.repoRoot}|${test.file}`);
+    for (const f of importedFiles.get(testFile?.id ?? "") ?? []) {
+      if (isTestFile(f.repoRoot, f.file)) continue;
+      subjects.add(f.file);
+      link(test.id, f.id, `imports ${f.file}`);
+    }
+
+    const subject = testSubjectName(test.file);
+    if (subject) {
+      const candidates =
+        filesByStem.get(`${test.repoRoot}|${stemOf(subject)}`) ?? [];
+      const scored = candidates.map((f) => ({
+        f,
+        score: mirroredDirs(test.file, f.file!),
+      }));
+      const best = Math.max(...scored.map((c) => c.score));
+      const winners = scored.filter((c) => c.score === best);
+      // Too many equally good matches (e.g. "index") name nothing in particular
+      if (winners.length <= MAX_TEST_CALL_TARGETS) {
+        for (const { f } of winners) {
+          subjects.add(f.file!);
+          link(test.id, f.id, `named like ${f.file}`);
+        }
+      }
+    }
+
+    subjectFiles.set(`${test.repoRoot}|${test.file}`, subjects);
+    linkCalls(test, subjects);
+  }
+
+  for (const test of tests) {
+    if (test.kind !== "case") continue;
+    linkCalls(
+      test,
+      subjectFiles.get(`${test.repoRoot}|${test.file}`) ?? new Set()
+    );
+  }
+
+  return Array.from(edges.values(), ({ reasons, ...rel }) => ({
+    ...rel,
+    properties: { reasons },
+  }));
+}
+
+// Trailing directories two paths share once test/source roots are ignored:
+// src/test/java/a/b/FooTest.java and src/main/java/a/b/Foo.java share "a/b" (2)
+function mirroredDirs(testPath: string, sourcePath: string): number {
+  const dirs = (p: string) =>
+    p
+      .split("/")
+      .slice(0, -1)
+      .filter(
+        (d) => !/^(src|main|test|tests|spec|__tests__|lib|app)$/i.test(d)
+      );
+  const a = dirs(testPath);
+  const b = dirs(sourcePath);
+  let n = 0;
+  while (
+    n < a.length &&
+    n < b.length &&
+    a[a.length - 1 - n] === b[b.length - 1 - n]
+  ) {
+    n++;
+  }
+  return n;
+}
+
 /**
  * Build cross-repository API relationships between repositories.
  * Creates:
@@ -526,6 +1379,7 @@ function buildCrossRepositoryAPIRelationships(
             relWithMeta.properties = {
               consumedAPI: consumedApi.id,
               providedAPI: providedApi.id,
+              protocol: providedApi.protocol ?? "http",
               matchConfidence: calculateAPIMatchConfidence(
                 consumedApi,
                 providedApi
@@ -540,11 +1394,92 @@ function buildCrossRepositoryAPIRelationships(
   return rels;
 }
 
+/**
+ * Link the operations of OpenAPI / Swagger documents to the code routes of the same
+ * repository (SPECIFIES: spec API -> code API). Method and path must match once
+ * parameter syntax is ignored (`{id}`, `:id`, `<int:id>`); when no path matches
+ * exactly, a path ending with the other one links (a document or a controller
+ * leaving out the `/api/v1` prefix).
+ */
+function buildSpecRelationships(apis: APIEntity[]): Relationship[] {
+  const rels: Relationship[] = [];
+  const specs = apis.filter(
+    (a) => a.direction === "provided" && a.source === "openapi"
+  );
+  if (!specs.length) return rels;
+  const routes = apis.filter(
+    (a) =>
+      a.direction === "provided" &&
+      a.source !== "openapi" &&
+      a.protocol !== "graphql" &&
+      a.path
+  );
+  for (const spec of specs) {
+    const key = routeKey(spec.path ?? "");
+    const candidates = routes.filter(
+      (r) => r.repoRoot === spec.repoRoot && methodsMatch(r.method, spec.method)
+    );
+    let matches = candidates.filter((r) => routeKey(r.path!) === key);
+    if (!matches.length) {
+      matches = candidates.filter((r) => {
+        const other = routeKey(r.path!);
+        return (
+          (key.endsWith(other) && key[key.length - other.length] === "/") ||
+          (other.endsWith(key) && other[other.length - key.length] === "/")
+        );
+      });
+    }
+    for (const route of matches) {
+      rels.push(makeRel("SPECIFIES", spec.id, route.id));
+    }
+  }
+  return rels;
+}
+
+// Path with parameters reduced to `{}`, for comparing route templates
+function routeKey(path: string): string {
+  const p = path
+    .split("?")[0]
+    .replace(/\{[^}]*\}|:[A-Za-z_]\w*|<[^>]*>/g, "{}")
+    .replace(/\/{2,}/g, "/")
+    .replace(/\/+$/, "")
+    .toLowerCase();
+  return p.startsWith("/") ? p : "/" + p;
+}
+
 /**
  * Determine if a consumed API matches a provided API.
  * Uses heuristics like URL/path matching, method matching, etc.
+ * Shared with contractCheck, which lists the consumers of an endpoint the same way.
  */
-function isAPIMatch(consumedApi: APIEntity, providedApi: APIEntity): boolean {
+export function isAPIMatch(
+  consumedApi: APIEntity,
+  providedApi: APIEntity
+): boolean {
+  // GraphQL operations match the root fields they select, and nothing over HTTP
+  if (
+    consumedApi.protocol === "graphql" ||
+    providedApi.protocol === "graphql"
+  ) {
+    return (
+      consumedApi.protocol === providedApi.protocol &&
+      consumedApi.url === providedApi.path
+    );
+  }
+  // RPCs match by service and method, and by package when both paths name one
+  if (consumedApi.protocol === "grpc" || providedApi.protocol === "grpc") {
+    const c = rpcParts(consumedApi.url ?? "");
+    const p = rpcParts(providedApi.path ?? "");
+    return (
+      consumedApi.protocol === providedApi.protocol &&
+      !!c &&
+      !!p &&
+      c.service === p.service &&
+      c.method === p.method &&
+      (!c.pkg || !p.pkg || c.pkg === p.pkg)
+    );
+  }
+
   const consumedUrl = consumedApi.url || "";
   const providedPath = providedApi.path || "";
 
@@ -667,6 +1602,14 @@ function pathRegexFromTemplate(template: string): RegExp {
 /**
  * Calculate confidence score for API matching (0-1)
  */
+// `/orders.v1.OrderService/GetOrder` → package, service and method
+function rpcParts(
+  path: string
+): { pkg?: string; service: string; method: string } | null {
+  const m = path.match(/^\/(?:([\w.]+)\.)?(\w+)\/(\w+)$/);
+  return m ? { pkg: m[1], service: m[2], method: m[3] } : null;
+}
+
 function calculateAPIMatchConfidence(
   consumedApi: APIEntity,
   providedApi: APIEntity
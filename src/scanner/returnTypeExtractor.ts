@@ -153,14 +153,19 @@ export function extractCSharpReturnType(methodNode: any): {
 } {
   const result: { returnType?: string; isAsync?: boolean } = {};
 
-  // Check for async modifier
-  const modifiers = methodNode.childForFieldName?.("modifiers");
-  if (modifiers && modifiers.text.includes("async")) {
+  // Check for async modifier (modifiers are plain children, not a field)
+  if (
+    methodNode.namedChildren?.some(
+      (c: any) => c.type === "modifier" && c.text === "async"
+    )
+  ) {
     result.isAsync = true;
   }
 
-  // C# return type
-  const typeNode = methodNode.childForFieldName?.("type");
+  // C# return type (the grammar names it `returns`)
+  const typeNode =
+    methodNode.childForFieldName?.("returns") ??
+    methodNode.childForFieldName?.("type");
   if (typeNode) {
     result.returnType = typeNode.text;
 
@@ -209,8 +214,14 @@ export function extractParameterTypes(
       // Handle Python parameters
       if (param.type === "identifier") {
         params.push({ name: param.text });
-      } else if (param.type === "typed_parameter") {
-        const name = param.childForFieldName?.("name");
+      } else if (
+        param.type === "typed_parameter" ||
+        param.type === "typed_default_parameter"
+      ) {
+        // typed_parameter has no name field: `order: Order`
+        const name =
+          param.childForFieldName?.("name") ??
+          param.namedChildren?.find((c: any) => c.type === "identifier");
         const type = param.childForFieldName?.("type");
         if (name) {
           params.push({
@@ -476,7 +487,8 @@ function extractInterfaceProperties(interfaceNode: any): Array<any> {
       if (member.type === "property_signature") {
         const name = member.childForFieldName?.("name")?.text;
         const type = member.childForFieldName?.("type")?.text;
-        const optional = member.text.includes("?");
+        // `name?: T`; a `?` inside the type (`cb: (x?: number) => void`) is not it
+        const optional = member.children?.some((c: any) => c.type === "?");
 
         if (name) {
           properties.push({
@@ -525,6 +537,23 @@ export function extractClassFields(
 }> {
   const fields: Array<any> = [];
 
+  // Record components: `record OrderDto(String id, int qty)` (Java, C#)
+  if (classNode.type === "record_declaration") {
+    const components =
+      classNode.childForFieldName?.("parameters") ??
+      classNode.namedChildren?.find((c: any) => c.type === "parameter_list");
+    for (const c of components?.namedChildren ?? []) {
+      const name = c.childForFieldName?.("name")?.text;
+      if (name) {
+        fields.push({
+          name,
+          type: c.childForFieldName?.("type")?.text,
+          visibility: "public",
+        });
+      }
+    }
+  }
+
   const body = classNode.childForFieldName?.("body");
   if (!body) return fields;
 
@@ -570,7 +599,45 @@ export function extractClassFields(
           });
         }
       }
+    } else if (language === "csharp") {
+      // `private readonly IOrderRepo _repo;` and `public string Name { get; set; }`
+      if (member.type === "field_declaration") {
+        const declaration = member.namedChildren?.find(
+          (c: any) => c.type === "variable_declaration"
+        );
+        const type = declaration?.childForFieldName?.("type")?.text;
+        for (const d of declaration?.namedChildren ?? []) {
+          if (d.type !== "variable_declarator") continue;
+          const name = d.childForFieldName?.("name")?.text ?? d.child(0)?.text;
+          if (name) {
+            fields.push({ name, type, visibility: extractVisibility(member) });
+          }
+        }
+      } else if (member.type === "property_declaration") {
+        const name = member.childForFieldName?.("name")?.text;
+        if (name) {
+          fields.push({
+            name,
+            type: member.childForFieldName?.("type")?.text,
+            visibility: extractVisibility(member),
+          });
+        }
+      }
     } else if (language === "python") {
+      // Annotated class attributes (dataclasses, pydantic models): `total: float = 0`
+      const assignment = member.namedChildren?.[0];
+      if (
+        member.type === "expression_statement" &&
+        assignment?.type === "assignment" &&
+        assignment.childForFieldName?.("type") &&
+        assignment.childForFieldName?.("left")?.type === "identifier"
+      ) {
+        fields.push({
+          name: assignment.childForFieldName("left").text,
+          type: assignment.childForFieldName("type").text,
+          visibility: "public",
+        });
+      }
       // In Python, we look for assignments in __init__ method
       if (
         member.type === "function_definition" &&
@@ -587,6 +654,92 @@ export function extractClassFields(
   return fields;
 }
 
+/**
+ * Base types named in a class header, as simple names (generic arguments and
+ * namespaces dropped):
+ * - Java: `extends A implements B, C`; interfaces `extends A, B`
+ * - JS/TS: `extends A implements B` (abstract classes included)
+ * - C#: `: A, IB` — the first base is the superclass unless it is named like an
+ *   interface (`IName`); structs only implement; interfaces extend
+ * - Python: `class C(A, B)` — every base is extended (`object` and keywords skipped)
+ * `kind` is "interface" for Java/C# interface declarations.
+ */
+export function extractClassHeritage(
+  classNode: any,
+  language: string
+): { kind: "class" | "interface"; extends: string[]; implements: string[] } {
+  const kind =
+    classNode.type === "interface_declaration" ? "interface" : "class";
+  const out = { kind, extends: [] as string[], implements: [] as string[] } as {
+    kind: "class" | "interface";
+    extends: string[];
+    implements: string[];
+  };
+  const nameNode = classNode.childForFieldName?.("name");
+  const body = classNode.childForFieldName?.("body");
+  if (!nameNode) return out;
+  let header = classNode.text.slice(
+    nameNode.endIndex - classNode.startIndex,
+    body ? body.startIndex - classNode.startIndex : undefined
+  );
+  // Drop generic arguments and type parameters (`<T extends X>` is not a base)
+  while (/<[^<>]*>/.test(header)) header = header.replace(/<[^<>]*>/g, "");
+  const names = (list: string | undefined) =>
+    splitBases(list ?? "")
+      .map((b) => b.replace(/\[.*$/, "").split(".").pop()!.trim())
+      .filter((b) => /^[A-Za-z_$][\w$]*$/.test(b));
+
+  if (language === "python") {
+    const inner = header.match(/^\s*\(([\s\S]*)\)/)?.[1];
+    out.extends = splitBases(inner ?? "")
+      .filter((b) => !b.includes("="))
+      .flatMap((b) => names(b))
+      .filter((b) => b !== "object");
+  } else if (language === "csharp") {
+    // Record primary constructors sit between the name and the base list
+    while (/\([^()]*\)/.test(header))
+      header = header.replace(/\([^()]*\)/g, "");
+    const bases = names(header.match(/:\s*([\s\S]*?)(?=\bwhere\b|$)/)?.[1]);
+    if (kind === "interface") {
+      out.extends = bases;
+    } else if (classNode.type === "struct_declaration") {
+      out.implements = bases;
+    } else if (bases.length && !/^I[A-Z]/.test(bases[0])) {
+      out.extends = bases.slice(0, 1);
+      out.implements = bases.slice(1);
+    } else {
+      out.implements = bases;
+    }
+  } else {
+    out.extends = names(
+      header.match(/\bextends\s+([\s\S]*?)(?=\b(implements|permits)\b|$)/)?.[1]
+    );
+    out.implements = names(
+      header.match(/\bimplements\s+([\s\S]*?)(?=\bpermits\b|$)/)?.[1]
+    );
+  }
+  return out;
+}
+
+// Comma-separated entries outside brackets and parentheses
+function splitBases(list: string): string[] {
+  const out: string[] = [];
+  let depth = 0;
+  let current = "";
+  for (const ch of list) {
+    if ("([{".includes(ch)) depth++;
+    if (")]}".includes(ch)) depth--;
+    if (ch === "," && depth === 0) {
+      out.push(current.trim());
+      current = "";
+    } else {
+      current += ch;
+    }
+  }
+  if (current.trim()) out.push(current.trim());
+  return out;
+}
+
 function extractVisibility(modifiers: any): string {
   if (!modifiers) return "package-private";
   const text = modifiers.text;
@@ -0,0 +1,214 @@
+import { posix } from "path";
+import { LanguageId } from "./types.js";
+
+export interface TestCaseInfo {
+  name: string;
+  suite?: string; // describe() path or test class
+  start: number;
+  end: number;
+  calls: string[]; // callee names used in the case body
+}
+
+// Calls that are test scaffolding rather than code under test
+const SCAFFOLDING_CALLS = new Set([
+  "describe",
+  "it",
+  "test",
+  "expect",
+  "beforeEach",
+  "afterEach",
+  "beforeAll",
+  "afterAll",
+  "before",
+  "after",
+  "require",
+  "fixture",
+  "mock",
+  "spyOn",
+  "fn",
+  "when",
+  "verify",
+  "thenReturn",
+  "given",
+  "willReturn",
+  "patch",
+  "raises",
+  "main",
+  "print",
+  "len",
+  "str",
+  "int",
+  "list",
+  "dict",
+  "setUp",
+  "tearDown",
+  "Equal",
+  "True",
+  "False",
+  "Null",
+  "NotNull",
+  "That",
+]);
+
+/**
+ * Whether a path follows a test naming convention: `*.test.*`, `*.spec.*`,
+ * `__tests__/`, `test_*.py`, `*_test.py`, `FooTest(s).java|cs`, `FooIT.java`.
+ */
+export function isTestPath(relPath: string): boolean {
+  const lower = relPath.toLowerCase();
+  const base = posix.basename(relPath);
+  return (
+    /\.(test|spec)\.[^.]+$/.test(lower) ||
+    lower.includes("__tests__/") ||
+    /^test_.+\.py$/.test(base) ||
+    /_test\.py$/.test(base) ||
+    /(Tests?|IT)\.(java|cs)$/.test(base)
+  );
+}
+
+/**
+ * Name of the code a test file is about, by convention: `orders.spec.ts` → "orders",
+ * `test_orders.py` / `orders_test.py` → "orders", `OrderServiceTest.java` /
+ * `TestOrderService.java` → "OrderService". Null when the name carries no subject.
+ */
+export function testSubjectName(relPath: string): string | null {
+  const base = posix.basename(relPath);
+  const stem = base.replace(/\.[^.]+$/, "");
+  const subject = stem
+    .replace(/\.(test|spec)$/i, "")
+    .replace(/^test_/, "")
+    .replace(/_test$/, "")
+    .replace(/(Tests?|IT|Spec)$/, "")
+    .replace(/^Test(?=[A-Z])/, "");
+  return subject && subject !== stem ? subject : null;
+}
+
+/**
+ * Extract individual test cases with the names they call:
+ * - JS/TS: `it("...")` / `test("...")` (incl. `.only`, `.skip`, `.each`), nested in `describe`
+ * - Python: `def test_*` functions and methods (suite: enclosing class)
+ * - Java: methods annotated `@Test`, `@ParameterizedTest`, `@RepeatedTest`
+ * - C#: methods with `[Fact]`, `[Theory]` (xUnit), `[Test]`, `[TestCase]`,
+ *   `[TestCaseSource]` (NUnit), `[TestMethod]`, `[DataTestMethod]` (MSTest), also
+ *   within a list (`[Trait("x", "y"), Fact]`)
+ * Also returns the calls made outside any case (setup code, helpers), so a file
+ * can be linked to what it exercises as a whole.
+ */
+export function extractTestCases(
+  root: any,
+  language: LanguageId
+): { cases: TestCaseInfo[]; outsideCalls: string[] } {
+  const cases: TestCaseInfo[] = [];
+  let callTypes: string[];
+
+  if (language === "javascript" || language === "typescript") {
+    callTypes = ["call_expression"];
+    for (const call of root.descendantsOfType?.("call_expression") ?? []) {
+      const fn = call.childForFieldName?.("function")?.text ?? "";
+      if (!/^(it|test)(\.(only|skip|concurrent))?(\.each\b.*)?$/s.test(fn))
+        continue;
+      const name = firstStringArg(call);
+      if (!name) continue;
+      const suites: string[] = [];
+      for (let p = call.parent; p; p = p.parent) {
+        if (p.type !== "call_expression") continue;
+        const pf = p.childForFieldName?.("function")?.text ?? "";
+        if (/^describe(\.(only|skip|each\b.*))?$/s.test(pf)) {
+          const suite = firstStringArg(p);
+          if (suite) suites.unshift(suite);
+        }
+      }
+      cases.push({
+        name,
+        suite: suites.length ? suites.join(" > ") : undefined,
+        ...spanOf(call),
+        calls: collectCalls(call, callTypes),
+      });
+    }
+  } else if (language === "python") {
+    callTypes = ["call"];
+    for (const fn of root.descendantsOfType?.("function_definition") ?? []) {
+      const name = fn.childForFieldName?.("name")?.text ?? "";
+      if (!name.startsWith("test")) continue;
+      cases.push({
+        name,
+        suite: enclosingName(fn, "class_definition"),
+        ...spanOf(fn),
+        calls: collectCalls(fn, callTypes),
+      });
+    }
+  } else if (language === "java" || language === "csharp") {
+    callTypes =
+      language === "java" ? ["method_invocation"] : ["invocation_expression"];
+    const marker =
+      language === "java"
+        ? /@(Test|ParameterizedTest|RepeatedTest|TestFactory)\b/
+        : /[[,]\s*(Fact|Theory|Test|TestCase|TestCaseSource|TestMethod|DataTestMethod)\b/;
+    for (const m of root.descendantsOfType?.("method_declaration") ?? []) {
+      const name = m.childForFieldName?.("name")?.text ?? "";
+      // Annotations/attributes precede the name within the declaration
+      const head = m.text.slice(0, Math.max(0, m.text.indexOf(name)));
+      if (!name || !marker.test(head)) continue;
+      cases.push({
+        name,
+        suite: enclosingName(m, "class_declaration"),
+        ...spanOf(m),
+        calls: collectCalls(m, callTypes),
+      });
+    }
+  } else {
+    return { cases, outsideCalls: [] };
+  }
+
+  const outside = new Set<string>();
+  for (const call of root.descendantsOfType?.(callTypes) ?? []) {
+    const line = call.startPosition.row + 1;
+    if (cases.some((c) => line >= c.start && line <= c.end)) continue;
+    const name = calleeName(call);
+    if (name) outside.add(name);
+  }
+  return { cases, outsideCalls: Array.from(outside) };
+}
+
+function firstStringArg(call: any): string | null {
+  const arg = call.childForFieldName?.("arguments")?.namedChildren?.[0];
+  if (!arg || (arg.type !== "string" && arg.type !== "template_string")) {
+    return null;
+  }
+  return arg.text.replace(/^['"`]|['"`]$/g, "");
+}
+
+function enclosingName(node: any, type: string): string | undefined {
+  for (let p = node.parent; p; p = p.parent) {
+    if (p.type === type) return p.childForFieldName?.("name")?.text;
+  }
+  return undefined;
+}
+
+function spanOf(node: any): { start: number; end: number } {
+  return { start: node.startPosition.row + 1, end: node.endPosition.row + 1 };
+}
+
+function collectCalls(node: any, callTypes: string[]): string[] {
+  const out = new Set<string>();
+  for (const call of node.descendantsOfType?.(callTypes) ?? []) {
+    const name = calleeName(call);
+    if (name) out.add(name);
+  }
+  return Array.from(out);
+}
+
+// Last identifier of the callee: `service.loadOrder(...)` → "loadOrder"
+function calleeName(call: any): string | null {
+  const target =
+    call.type === "method_invocation"
+      ? call.childForFieldName?.("name")
+      : call.childForFieldName?.("function") ?? call.child(0);
+  const text = (target?.text ?? "").replace(/<[^<>]*>$/, "");
+  const name = text.split(/[.:]/).pop() ?? "";
+  if (!/^[A-Za-z_$][\w$]*$/.test(name)) return null;
+  if (SCAFFOLDING_CALLS.has(name) || /^(assert|to[A-Z])/.test(name)) {
+    return null;
+  }
+  return name;
+}
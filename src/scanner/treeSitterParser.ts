@@ -15,6 +15,10 @@ const DEFAULT_INCLUDE = [
   "**/*.py",
   "**/*.java",
   "**/*.cs",
+  "**/*.graphql",
+  "**/*.graphqls",
+  "**/*.gql",
+  "**/*.proto",
 ];
 
 const DEFAULT_EXCLUDE = [
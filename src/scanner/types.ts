@@ -50,15 +50,32 @@ export interface EntityBase {
   meta?: Record<string, unknown>;
 }
 
+/**
+ * An import as written, plus the repo-relative targets a tsconfig/jsconfig `paths`
+ * alias or `baseUrl` maps it to (tried before the specifier itself)
+ */
+export interface ImportRef {
+  specifier: string;
+  aliasTargets?: string[];
+}
+
 export interface FileEntity extends EntityBase {
   type: "File";
   file: string;
   size?: number;
+  // used by relationshipBuilder to emit IMPORTS / USES_PACKAGE edges
+  imports?: ImportRef[]; // import specifiers as written, with path alias targets
+  modules?: string[]; // Java package / C# namespaces declared in the file
+  typeRefs?: string[]; // capitalized identifiers mentioned (Java/C#)
 }
 
 export interface ClassEntity extends EntityBase {
   type: "Class";
   name: string;
+  kind?: "class" | "interface"; // Java/C# interfaces are classes of kind "interface"
+  // Base types by simple name; relationshipBuilder turns them into EXTENDS / IMPLEMENTS
+  extends?: string[];
+  implements?: string[];
   // Enhanced with field/property information for schema extraction
   fields?: {
     name: string;
@@ -115,18 +132,25 @@ export interface VariableEntity extends EntityBase {
 export interface APIEntity extends EntityBase {
   type: "API";
   name: string; // endpoint name or identifier
-  method?: string;
-  path?: string;
+  method?: string; // HTTP method, QUERY / MUTATION / SUBSCRIPTION (GraphQL) or RPC (gRPC)
+  path?: string; // `Query.orders` for a GraphQL root field, `/pkg.Service/Method` for an RPC
   url?: string;
   direction: "provided" | "consumed";
+  protocol?: "http" | "graphql" | "grpc";
   isCorrectlyClassified?: boolean; // Flag for classification correction
   // Enhanced schema information
   responseType?: string; // The return type of the API endpoint
+  requestType?: string; // The declared type of the request body
   responseSchema?: object; // Detailed schema of the response
   requestSchema?: object; // Schema of the request body
   queryParams?: { name: string; type?: string; required?: boolean }[];
   pathParams?: { name: string; type?: string }[];
   headers?: { name: string; type?: string; required?: boolean }[];
+  // Provided APIs declared by an OpenAPI / Swagger document rather than code
+  source?: "code" | "openapi";
+  operationId?: string;
+  summary?: string;
+  tags?: string[];
 }
 
 export interface TypeDefinitionEntity extends EntityBase {
@@ -184,6 +208,10 @@ export interface TestEntity extends EntityBase {
   name: string; // test name or file
   framework?: string;
   file: string;
+  kind?: "file" | "case"; // a whole test file, or one test case in it
+  suite?: string; // enclosing describe()/test class of a case
+  // used by relationshipBuilder to emit TESTS edges
+  calls?: string[]; // callee names (for a file: calls outside its cases)
 }
 
 export interface RepositoryEntity extends EntityBase {
@@ -245,6 +273,8 @@ export interface TeamEntity extends EntityBase {
   size?: number; // Number of team members
   repositories?: string[]; // Repository IDs owned by team
   expertise?: string[]; // Technologies/domains the team specializes in
+  source?: "codeowners" | "metadata" | "inferred"; // where the team was found
+  ownedPaths?: string[]; // CODEOWNERS path patterns assigned to the team
 }
 
 export interface CommitEntity extends EntityBase {
@@ -307,6 +337,13 @@ export type RelationshipType =
   | "PASSES_TO"
   | "DERIVES_FROM"
   | "DEPENDS_ON"
+  // Module dependency relationships
+  | "IMPORTS"
+  | "USES_PACKAGE"
+  // Class hierarchy relationships
+  | "EXTENDS"
+  | "IMPLEMENTS"
+  | "OVERRIDES"
   // Spring Data relationships
   | "REPOSITORY_FOR_ENTITY"
   | "REPOSITORY_QUERIES_TABLE"
@@ -327,6 +364,7 @@ export type RelationshipType =
   | "IMPLEMENTS_TYPE"
   | "API_RETURNS_TYPE"
   | "API_ACCEPTS_TYPE"
+  | "SPECIFIES"
   // Developer and Team relationships
   | "BELONGS_TO"
   | "CONTRIBUTED_TO"
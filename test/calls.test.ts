@@ -0,0 +1,147 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { scanFixture } from "./fixture.js";
+
+const ORDERS = {
+  "src/repo.ts": `
+export class Repo {
+  get(id: string) { return id; }
+  save(order: string) { return order; }
+}
+`,
+  "src/base.ts": `
+export class BaseService {
+  log(msg: string) { return msg; }
+  audit(msg: string) { return msg; }
+}
+`,
+  "src/orders.ts": `
+import axios from "axios";
+import { Repo } from "./repo";
+import { BaseService } from "./base";
+
+export class OrderService extends BaseService {
+  constructor(private repo: Repo) { super(); }
+
+  cancel(id: string) {
+    axios.get("/api/items");
+    this.repo.save(id);
+    this.audit(id);
+    return format(id);
+  }
+
+  log(msg: string) {
+    console.log(msg);
+  }
+}
+
+function format(id: string) { return id; }
+`,
+};
+
+test("CALLS resolve through typed receivers, the class hierarchy and the same file", async () => {
+  const scan = await scanFixture(ORDERS);
+  assert.deepEqual(scan.edges("CALLS"), [
+    "Function:cancel@src/orders.ts -> Function:audit@src/base.ts",
+    "Function:cancel@src/orders.ts -> Function:format@src/orders.ts",
+    "Function:cancel@src/orders.ts -> Function:save@src/repo.ts",
+  ]);
+  assert.deepEqual(
+    scan.edge(
+      "CALLS",
+      "Function:cancel@src/orders.ts",
+      "Function:save@src/repo.ts"
+    ),
+    { confidence: 0.9, resolution: "receiver-type" }
+  );
+  assert.deepEqual(
+    scan.edge(
+      "CALLS",
+      "Function:cancel@src/orders.ts",
+      "Function:audit@src/base.ts"
+    ),
+    { confidence: 0.9, resolution: "inherited" }
+  );
+  assert.deepEqual(
+    scan.edge(
+      "CALLS",
+      "Function:cancel@src/orders.ts",
+      "Function:format@src/orders.ts"
+    ),
+    { confidence: 0.9, resolution: "same-file" }
+  );
+});
+
+test("CALLS on a library or untyped receiver stay unlinked", async () => {
+  const scan = await scanFixture(ORDERS);
+  const calls = scan.edges("CALLS");
+  // axios.get is not Repo.get, although ./repo is imported
+  assert.ok(
+    !calls.includes("Function:cancel@src/orders.ts -> Function:get@src/repo.ts")
+  );
+  // console.log is not BaseService.log
+  assert.ok(!calls.some((c) => c.startsWith("Function:log@src/orders.ts ->")));
+});
+
+test("CALLS through an interface reach the implementations", async () => {
+  const scan = await scanFixture({
+    "src/store.ts": `
+export interface Store {
+  put(key: string): void;
+}
+`,
+    "src/memoryStore.ts": `
+import { Store } from "./store";
+export class MemoryStore implements Store {
+  put(key: string) {}
+}
+`,
+    "src/cache.ts": `
+import { Store } from "./store";
+export class Cache {
+  constructor(private store: Store) {}
+  set(key: string) {
+    this.store.put(key);
+  }
+}
+`,
+  });
+  assert.deepEqual(
+    scan.edge(
+      "CALLS",
+      "Function:set@src/cache.ts",
+      "Function:put@src/memoryStore.ts"
+    ),
+    { confidence: 0.7, resolution: "implementation" }
+  );
+});
+
+test("bare CALLS fall back to imports, then to a unique name", async () => {
+  const scan = await scanFixture({
+    "src/util.ts": `export function slugify(s: string) { return s; }\n`,
+    "src/other.ts": `export function checksum(s: string) { return s; }\n`,
+    "src/main.ts": `
+import { slugify } from "./util";
+export function run(s: string) {
+  slugify(s);
+  checksum(s);
+}
+`,
+  });
+  assert.deepEqual(
+    scan.edge(
+      "CALLS",
+      "Function:run@src/main.ts",
+      "Function:slugify@src/util.ts"
+    ),
+    { confidence: 0.8, resolution: "import" }
+  );
+  assert.deepEqual(
+    scan.edge(
+      "CALLS",
+      "Function:run@src/main.ts",
+      "Function:checksum@src/other.ts"
+    ),
+    { confidence: 0.5, resolution: "name-only" }
+  );
+});
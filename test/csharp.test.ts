@@ -0,0 +1,140 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { APIEntity } from "../src/scanner/types.js";
+import { scanFixture } from "./fixture.js";
+
+const SHOP = {
+  "Controllers/OrdersController.cs": `
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.Extensions.Configuration;
+namespace Shop.Controllers;
+
+[ApiController]
+[Route("api/[controller]")]
+public class OrdersController : ControllerBase
+{
+    private readonly IConfiguration _config;
+    public OrdersController(IConfiguration config) { _config = config; }
+
+    [HttpGet("{id}")]
+    public Order Get(int id)
+    {
+        var region = _config["Shop:Region"];
+        return new Order();
+    }
+
+    [HttpPost]
+    public IActionResult Create([FromBody] Order order) { return Ok(); }
+}
+`,
+  "Models/Order.cs": `
+namespace Shop.Models;
+public class Order
+{
+    public int Id { get; set; }
+}
+`,
+  "Data/ShopContext.cs": `
+using Microsoft.EntityFrameworkCore;
+namespace Shop.Data;
+public class ShopContext : DbContext
+{
+    public DbSet<Order> Orders { get; set; }
+    protected override void OnModelCreating(ModelBuilder b)
+    {
+        b.Entity<Order>().ToTable("shop_orders");
+    }
+}
+`,
+  "Data/OrderStore.cs": `
+namespace Shop.Data;
+public class OrderStore
+{
+    private readonly ShopContext _db;
+    public OrderStore(ShopContext db) { _db = db; }
+    public int Count() { return _db.Orders.Count(); }
+}
+`,
+  "Clients/StockClient.cs": `
+using System.Net.Http;
+namespace Shop.Clients;
+public class StockClient
+{
+    private readonly HttpClient _http;
+    public StockClient(HttpClient http) { _http = http; }
+    public async Task<string> Check(string sku)
+    {
+        return await _http.GetStringAsync($"/api/stock/{sku}");
+    }
+}
+`,
+  "Program.cs": `
+var app = WebApplication.Create(args);
+var api = app.MapGroup("/api/v2");
+api.MapGet("/health", () => "ok");
+app.Run();
+`,
+};
+
+const apis = (entities: { type: string }[], direction: string) =>
+  (entities.filter((e) => e.type === "API") as APIEntity[])
+    .filter((a) => a.direction === direction)
+    .map((a) => `${a.method} ${a.path ?? a.url}`)
+    .sort();
+
+test("ASP.NET Core controller actions and minimal APIs are provided APIs", async () => {
+  const scan = await scanFixture(SHOP);
+  assert.deepEqual(apis(scan.entities, "provided"), [
+    "GET /api/Orders/{id}",
+    "GET /api/v2/health",
+    "POST /api/Orders",
+  ]);
+  assert.deepEqual(scan.edges("PROVIDES_API"), [
+    "Function:Create@Controllers/OrdersController.cs -> API:POST /api/Orders@Controllers/OrdersController.cs",
+    "Function:Get@Controllers/OrdersController.cs -> API:GET /api/Orders/{id}@Controllers/OrdersController.cs",
+  ]);
+  const get = scan.entities.find(
+    (e) => e.type === "API" && e.name === "GET /api/Orders/{id}"
+  ) as APIEntity;
+  assert.equal(get.responseType, "Order");
+});
+
+test("HttpClient calls are consumed APIs", async () => {
+  const scan = await scanFixture(SHOP);
+  assert.deepEqual(apis(scan.entities, "consumed"), ["GET /api/stock/{sku}"]);
+  assert.ok(
+    scan
+      .edges("USES_API")
+      .includes(
+        "Function:Check@Clients/StockClient.cs -> API:GET /api/stock/{sku}@Clients/StockClient.cs"
+      )
+  );
+});
+
+test("IConfiguration keys and EF Core tables are recorded", async () => {
+  const scan = await scanFixture(SHOP);
+  const names = (type: string) =>
+    scan.entities
+      .filter((e) => e.type === type)
+      .map((e) => e.name)
+      .sort();
+  assert.deepEqual(names("Config"), ["Shop:Region"]);
+  // DbSet<Order> Orders, named by ToTable; every file using it yields the same node
+  assert.deepEqual([...new Set(names("DatabaseTable"))], ["shop_orders"]);
+  assert.ok(
+    scan
+      .edges("USES_CONFIG")
+      .includes(
+        "Function:Get@Controllers/OrdersController.cs -> Config:Shop:Region@Controllers/OrdersController.cs"
+      )
+  );
+  assert.ok(
+    scan
+      .edges("QUERIES")
+      .some((e) =>
+        e.startsWith(
+          "Function:Count@Data/OrderStore.cs -> DatabaseTable:shop_orders@"
+        )
+      )
+  );
+});
@@ -0,0 +1,60 @@
+import { extractEntities } from "../src/scanner/astExtractor.js";
+import { buildRelationships } from "../src/scanner/relationshipBuilder.js";
+import { detectLanguageByExt } from "../src/scanner/treeSitterParser.js";
+import { AnyEntity, Relationship } from "../src/scanner/types.js";
+
+// Not a git checkout, so developer analytics find nothing
+export const FIXTURE_ROOT = "/fixture/repo";
+
+export interface ScannedFixture {
+  entities: AnyEntity[];
+  relationships: Relationship[];
+  /** Edges of one type as "Label:name@file -> Label:name@file" */
+  edges(type: string): string[];
+  /** Properties of the one edge of `type` between two described entities */
+  edge(
+    type: string,
+    from: string,
+    to: string
+  ): Record<string, unknown> | undefined;
+}
+
+/**
+ * Scan in-memory files (repo-relative path → content) the way the scan tool does
+ * and build their relationships.
+ */
+export async function scanFixture(
+  files: Record<string, string>
+): Promise<ScannedFixture> {
+  const entities = await extractEntities([
+    {
+      repoRoot: FIXTURE_ROOT,
+      files: Object.entries(files).map(([relPath, content]) => ({
+        repoRoot: FIXTURE_ROOT,
+        relPath,
+        absPath: `${FIXTURE_ROOT}/${relPath}`,
+        language: detectLanguageByExt(relPath),
+        content,
+      })),
+    },
+  ]);
+  const relationships = buildRelationships(entities);
+  const byId = new Map(entities.map((e) => [e.id, e]));
+  const describe = (id: string) => {
+    const e = byId.get(id);
+    return e ? `${e.type}:${e.name}@${e.file}` : id;
+  };
+  const ofType = (type: string) => relationships.filter((r) => r.type === type);
+  return {
+    entities,
+    relationships,
+    edges: (type) =>
+      ofType(type)
+        .map((r) => `${describe(r.fromId)} -> ${describe(r.toId)}`)
+        .sort(),
+    edge: (type, from, to) =>
+      ofType(type).find(
+        (r) => describe(r.fromId) === from && describe(r.toId) === to
+      )?.properties,
+  };
+}
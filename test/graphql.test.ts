@@ -0,0 +1,206 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { isAPIMatch } from "../src/scanner/relationshipBuilder.js";
+import { APIEntity } from "../src/scanner/types.js";
+import { scanFixture } from "./fixture.js";
+
+const apis = (entities: { type: string }[]) =>
+  entities.filter((e): e is APIEntity => e.type === "API");
+
+const SCHEMA = `
+type Order {
+  id: ID!
+  total: Float
+}
+
+input OrderFilter {
+  status: String
+}
+
+type Query {
+  orders(filter: OrderFilter, first: Int = 10): [Order!]!
+  order(id: ID!): Order
+}
+
+type Mutation {
+  cancelOrder(id: ID!): Order
+}
+`;
+
+test("schema fields are provided APIs typed by the schema", async () => {
+  const scan = await scanFixture({ "schema/schema.graphql": SCHEMA });
+  const orders = apis(scan.entities).find((a) => a.path === "Query.orders");
+  assert.ok(orders);
+  assert.equal(orders.method, "QUERY");
+  assert.equal(orders.protocol, "graphql");
+  assert.equal(orders.responseType, "Order[]");
+  assert.deepEqual(orders.queryParams, [
+    { name: "filter", type: "OrderFilter", required: false },
+    { name: "first", type: "int", required: false },
+  ]);
+  assert.deepEqual(scan.edges("API_RETURNS_TYPE"), [
+    "API:MUTATION Mutation.cancelOrder@schema/schema.graphql -> TypeDefinition:Order@schema/schema.graphql",
+    "API:QUERY Query.order@schema/schema.graphql -> TypeDefinition:Order@schema/schema.graphql",
+    "API:QUERY Query.orders@schema/schema.graphql -> TypeDefinition:Order@schema/schema.graphql",
+  ]);
+});
+
+test("resolvers in other files serve the schema's fields", async () => {
+  const scan = await scanFixture({
+    "schema/schema.graphql": SCHEMA,
+    "src/resolvers.ts": `
+export const resolvers = {
+  Query: {
+    orders: async (_: unknown, args: { first: number }) => {
+      return [];
+    },
+    order: findOrder,
+  },
+};
+
+function findOrder(_: unknown, args: { id: string }) {
+  return null;
+}
+`,
+    "src/order.resolver.ts": `
+import { Resolver, Mutation, Args } from "@nestjs/graphql";
+
+@Resolver()
+export class OrderResolver {
+  @Mutation(() => String)
+  cancelOrder(@Args("id") id: string) {
+    return id;
+  }
+}
+`,
+  });
+  // A schema field and its resolver make one API
+  const ids = (path: string) =>
+    new Set(
+      apis(scan.entities)
+        .filter((a) => a.path === path)
+        .map((a) => a.id)
+    );
+  for (const path of ["Query.orders", "Query.order", "Mutation.cancelOrder"]) {
+    assert.equal(ids(path).size, 1, path);
+  }
+  assert.deepEqual(
+    apis(scan.entities)
+      .filter((a) => a.meta)
+      .map((a) => [a.path, a.meta]),
+    [
+      ["Query.orders", { framework: "resolver-map", handler: null }],
+      ["Query.order", { framework: "resolver-map", handler: "findOrder" }],
+      ["Mutation.cancelOrder", { framework: "nestjs", handler: null }],
+    ]
+  );
+  // The inline resolver is named after the map holding it
+  assert.deepEqual(scan.edges("PROVIDES_API"), [
+    "Function:cancelOrder@src/order.resolver.ts -> API:MUTATION Mutation.cancelOrder@src/order.resolver.ts",
+    "Function:findOrder@src/resolvers.ts -> API:QUERY Query.order@src/resolvers.ts",
+    "Function:resolvers@src/resolvers.ts -> API:QUERY Query.orders@src/resolvers.ts",
+  ]);
+});
+
+test("Spring resolvers follow the schema's root type names", async () => {
+  const scan = await scanFixture({
+    "src/main/resources/graphql/schema.graphqls": `
+schema { query: RootQuery }
+
+type RootQuery {
+  books: [Book]
+}
+
+extend type RootQuery {
+  book(id: ID!): Book
+}
+
+type Book {
+  id: ID!
+  title: String
+}
+`,
+    "src/main/java/shop/BookController.java": `
+package shop;
+
+import org.springframework.graphql.data.method.annotation.Argument;
+import org.springframework.graphql.data.method.annotation.QueryMapping;
+import org.springframework.stereotype.Controller;
+import java.util.List;
+
+@Controller
+public class BookController {
+  @QueryMapping
+  public List<Book> books() {
+    return List.of();
+  }
+
+  @QueryMapping("book")
+  public Book bookById(@Argument String id) {
+    return null;
+  }
+}
+`,
+  });
+  assert.deepEqual(scan.edges("PROVIDES_API"), [
+    "Function:bookById@src/main/java/shop/BookController.java -> API:QUERY Query.book@src/main/java/shop/BookController.java",
+    "Function:books@src/main/java/shop/BookController.java -> API:QUERY Query.books@src/main/java/shop/BookController.java",
+  ]);
+  assert.deepEqual(
+    scan.edge(
+      "API_RETURNS_TYPE",
+      "API:QUERY Query.books@src/main/java/shop/BookController.java",
+      "TypeDefinition:Book@src/main/resources/graphql/schema.graphqls"
+    ),
+    { declaredType: "Book[] | null" }
+  );
+});
+
+test("client operations consume the root fields they select", async () => {
+  const scan = await scanFixture({
+    "schema/schema.graphql": SCHEMA,
+    "web/orders.ts": `
+import { gql, useQuery } from "@apollo/client";
+
+const GET_ORDERS = gql\`
+  query GetOrders($id: ID!) {
+    orders { id }
+    current: order(id: $id) { total }
+  }
+\`;
+
+export function useOrders() {
+  return useQuery(GET_ORDERS);
+}
+`,
+  });
+  const consumed = apis(scan.entities).filter(
+    (a) => a.direction === "consumed"
+  );
+  assert.deepEqual(
+    consumed.map((a) => [a.name, a.meta]),
+    [
+      ["QUERY Query.orders", { operation: "GetOrders", client: "apollo" }],
+      ["QUERY Query.order", { operation: "GetOrders", client: "apollo" }],
+    ]
+  );
+  assert.deepEqual(scan.edges("USES_API"), [
+    "Function:useOrders@web/orders.ts -> API:QUERY Query.order@web/orders.ts",
+    "Function:useOrders@web/orders.ts -> API:QUERY Query.orders@web/orders.ts",
+  ]);
+
+  // Operations match the fields they select, never an HTTP route
+  const provided = (path: string) =>
+    apis(scan.entities).find(
+      (a) => a.direction === "provided" && a.path === path
+    )!;
+  assert.ok(isAPIMatch(consumed[0], provided("Query.orders")));
+  assert.ok(!isAPIMatch(consumed[0], provided("Query.order")));
+  assert.ok(
+    !isAPIMatch(consumed[0], {
+      ...provided("Query.orders"),
+      protocol: "http",
+      method: "GET",
+    })
+  );
+});
@@ -0,0 +1,192 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { isAPIMatch } from "../src/scanner/relationshipBuilder.js";
+import { APIEntity, TypeDefinitionEntity } from "../src/scanner/types.js";
+import { scanFixture } from "./fixture.js";
+
+const apis = (entities: { type: string }[]) =>
+  entities.filter((e): e is APIEntity => e.type === "API");
+
+const PROTO = `
+syntax = "proto3";
+
+package orders.v1;
+
+service OrderService {
+  rpc GetOrder (GetOrderRequest) returns (Order);
+  rpc WatchOrders (WatchRequest) returns (stream Order);
+}
+
+message GetOrderRequest {
+  string id = 1;
+}
+
+message WatchRequest {
+  repeated string ids = 1;
+}
+
+message Order {
+  string id = 1;
+  double total = 2;
+  optional string note = 3;
+  map<string, int32> counts = 4;
+}
+`;
+
+test(".proto messages and services are type definitions", async () => {
+  const scan = await scanFixture({ "proto/orders.proto": PROTO });
+  const types = scan.entities.filter(
+    (e): e is TypeDefinitionEntity => e.type === "TypeDefinition"
+  );
+  const order = types.find((t) => t.name === "Order");
+  assert.deepEqual(order?.properties, [
+    { name: "id", type: "string", optional: false },
+    { name: "total", type: "number", optional: false },
+    { name: "note", type: "string", optional: true },
+    { name: "counts", type: "Map<string, int>", optional: false },
+  ]);
+  assert.deepEqual(order?.meta, { package: "orders.v1" });
+  const service = types.find((t) => t.name === "OrderService");
+  assert.equal(service?.kind, "interface");
+  assert.deepEqual(service?.properties, [
+    { name: "GetOrder", type: "(GetOrderRequest) => Order" },
+    { name: "WatchOrders", type: "(WatchRequest) => Order" },
+  ]);
+  // A .proto alone provides nothing: RPCs are provided by their implementations
+  assert.deepEqual(apis(scan.entities), []);
+});
+
+test("implementations and stubs resolve against the .proto", async () => {
+  const scan = await scanFixture({
+    "proto/orders.proto": PROTO,
+    "server/src/main/java/shop/OrderServiceImpl.java": `
+package shop;
+
+import io.grpc.stub.StreamObserver;
+
+public class OrderServiceImpl extends OrderServiceGrpc.OrderServiceImplBase {
+  @Override
+  public void getOrder(GetOrderRequest request, StreamObserver<Order> responseObserver) {
+    responseObserver.onCompleted();
+  }
+}
+`,
+    "client/client.py": `
+import grpc
+from orders.v1 import orders_pb2, orders_pb2_grpc
+
+def fetch(order_id):
+    channel = grpc.insecure_channel("orders:50051")
+    stub = orders_pb2_grpc.OrderServiceStub(channel)
+    return stub.GetOrder(orders_pb2.GetOrderRequest(id=order_id))
+`,
+    "web/client.ts": `
+import * as grpc from "@grpc/grpc-js";
+
+export function watch() {
+  const orders = new OrderServiceClient("orders:50051", grpc.credentials.createInsecure());
+  return orders.watchOrders({ ids: [] });
+}
+`,
+  });
+  const provided = apis(scan.entities).filter(
+    (a) => a.direction === "provided"
+  );
+  assert.equal(provided.length, 1);
+  assert.equal(provided[0].path, "/orders.v1.OrderService/GetOrder");
+  assert.equal(provided[0].requestType, "GetOrderRequest");
+  assert.equal(provided[0].responseType, "Order");
+  assert.equal(provided[0].meta?.framework, "grpc-java");
+  assert.deepEqual(scan.edges("PROVIDES_API"), [
+    "Function:getOrder@server/src/main/java/shop/OrderServiceImpl.java -> API:RPC /orders.v1.OrderService/GetOrder@server/src/main/java/shop/OrderServiceImpl.java",
+  ]);
+  assert.deepEqual(
+    [...scan.edges("API_ACCEPTS_TYPE"), ...scan.edges("API_RETURNS_TYPE")],
+    [
+      "API:RPC /orders.v1.OrderService/GetOrder@server/src/main/java/shop/OrderServiceImpl.java -> TypeDefinition:GetOrderRequest@proto/orders.proto",
+      "API:RPC /orders.v1.OrderService/GetOrder@server/src/main/java/shop/OrderServiceImpl.java -> TypeDefinition:Order@proto/orders.proto",
+    ]
+  );
+
+  const consumed = apis(scan.entities).filter(
+    (a) => a.direction === "consumed"
+  );
+  assert.deepEqual(
+    consumed.map((a) => [a.url, a.meta?.streaming]),
+    [
+      ["/orders.v1.OrderService/GetOrder", "unary"],
+      ["/orders.v1.OrderService/WatchOrders", "server"],
+    ]
+  );
+  assert.deepEqual(scan.edges("USES_API"), [
+    "Function:fetch@client/client.py -> API:RPC /orders.v1.OrderService/GetOrder@client/client.py",
+    "Function:watch@web/client.ts -> API:RPC /orders.v1.OrderService/WatchOrders@web/client.ts",
+  ]);
+  assert.ok(isAPIMatch(consumed[0], provided[0]));
+  assert.ok(!isAPIMatch(consumed[1], provided[0]));
+});
+
+test("servers without a .proto provide RPCs without a package", async () => {
+  const scan = await scanFixture({
+    "srv/server.py": `
+import grpc
+from concurrent import futures
+import orders_pb2_grpc
+
+class Orders(orders_pb2_grpc.OrderServiceServicer):
+    def GetOrder(self, request, context):
+        return None
+
+    def helper(self):
+        return 1
+
+def serve():
+    server = grpc.server(futures.ThreadPoolExecutor())
+    orders_pb2_grpc.add_OrderServiceServicer_to_server(Orders(), server)
+`,
+    "node/server.js": `
+const grpc = require("@grpc/grpc-js");
+
+function getOrder(call, callback) {
+  callback(null, {});
+}
+
+const server = new grpc.Server();
+server.addService(ordersProto.OrderService.service, { getOrder: getOrder });
+`,
+  });
+  assert.deepEqual(
+    apis(scan.entities).map((a) => [a.file, a.path, a.meta?.framework]),
+    [
+      ["srv/server.py", "/OrderService/GetOrder", "grpcio"],
+      ["node/server.js", "/OrderService/GetOrder", "grpc-js"],
+    ]
+  );
+  const linked = scan
+    .edges("PROVIDES_API")
+    .map((e) => e.split(" -> ")[0])
+    .sort();
+  assert.deepEqual(linked, [
+    "Function:GetOrder@srv/server.py",
+    "Function:getOrder@node/server.js",
+  ]);
+});
+
+test("RPCs match by service and method, and by package when both know it", () => {
+  const rpc = (direction: "provided" | "consumed", path: string) =>
+    ({
+      type: "API",
+      protocol: "grpc",
+      method: "RPC",
+      direction,
+      ...(direction === "provided" ? { path } : { url: path }),
+    } as APIEntity);
+  const provided = rpc("provided", "/orders.v1.OrderService/GetOrder");
+  assert.ok(isAPIMatch(rpc("consumed", "/OrderService/GetOrder"), provided));
+  assert.ok(
+    !isAPIMatch(rpc("consumed", "/orders.v2.OrderService/GetOrder"), provided)
+  );
+  assert.ok(
+    !isAPIMatch(rpc("consumed", "/orders.v1.OrderService/ListOrders"), provided)
+  );
+});
@@ -0,0 +1,112 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { scanFixture } from "./fixture.js";
+
+test("a TS class implements the interface of its own file, not a class elsewhere", async () => {
+  const scan = await scanFixture({
+    "src/orders/repo.ts": `
+export class Repo {
+  save(order: string) { return order; }
+}
+`,
+    "src/repo/base.ts": `
+export interface Repo {
+  save(order: string): string;
+}
+export class BaseRepo implements Repo {
+  save(order: string) { return order; }
+}
+`,
+    "src/repo/order.ts": `
+import { BaseRepo } from "./base";
+export class OrderRepo extends BaseRepo {
+  save(order: string) { return order; }
+}
+`,
+  });
+  assert.deepEqual(scan.edges("IMPLEMENTS_TYPE"), [
+    "Class:BaseRepo@src/repo/base.ts -> TypeDefinition:Repo@src/repo/base.ts",
+  ]);
+  assert.deepEqual(scan.edges("EXTENDS"), [
+    "Class:OrderRepo@src/repo/order.ts -> Class:BaseRepo@src/repo/base.ts",
+  ]);
+  assert.deepEqual(scan.edges("OVERRIDES"), [
+    "Function:save@src/repo/order.ts -> Function:save@src/repo/base.ts",
+  ]);
+});
+
+test("a base name declared in several unrelated files is not linked", async () => {
+  const scan = await scanFixture({
+    "src/a/entity.ts": `export class Entity { id() { return 1; } }\n`,
+    "src/b/entity.ts": `export class Entity { id() { return 2; } }\n`,
+    "src/c/order.ts": `export class Order extends Entity { id() { return 3; } }\n`,
+    "src/d/line.ts": `export class Line extends Order {}\n`,
+  });
+  // Order is unique in the repository, Entity is not
+  assert.deepEqual(scan.edges("EXTENDS"), [
+    "Class:Line@src/d/line.ts -> Class:Order@src/c/order.ts",
+  ]);
+  assert.deepEqual(scan.edges("OVERRIDES"), []);
+});
+
+test("an imported base wins over a same-named class elsewhere", async () => {
+  const scan = await scanFixture({
+    "src/a/entity.ts": `export class Entity { id() { return 1; } }\n`,
+    "src/b/entity.ts": `export class Entity { id() { return 2; } }\n`,
+    "src/c/order.ts": `
+import { Entity } from "../b/entity";
+export class Order extends Entity {
+  id() { return 3; }
+}
+`,
+  });
+  assert.deepEqual(scan.edges("EXTENDS"), [
+    "Class:Order@src/c/order.ts -> Class:Entity@src/b/entity.ts",
+  ]);
+  assert.deepEqual(
+    scan.edge(
+      "OVERRIDES",
+      "Function:id@src/c/order.ts",
+      "Function:id@src/b/entity.ts"
+    ),
+    { depth: 1 }
+  );
+});
+
+test("Java classes extend classes and implement interfaces", async () => {
+  const scan = await scanFixture({
+    "src/main/java/shop/Store.java": `
+package shop;
+public interface Store {
+  void put(String key);
+}
+`,
+    "src/main/java/shop/BaseStore.java": `
+package shop;
+public abstract class BaseStore implements Store {
+  public void put(String key) {}
+}
+`,
+    "src/main/java/shop/DiskStore.java": `
+package shop;
+public class DiskStore extends BaseStore {
+  @Override
+  public void put(String key) {}
+}
+`,
+  });
+  assert.deepEqual(scan.edges("IMPLEMENTS"), [
+    "Class:BaseStore@src/main/java/shop/BaseStore.java -> Class:Store@src/main/java/shop/Store.java",
+  ]);
+  assert.deepEqual(scan.edges("EXTENDS"), [
+    "Class:DiskStore@src/main/java/shop/DiskStore.java -> Class:BaseStore@src/main/java/shop/BaseStore.java",
+  ]);
+  assert.deepEqual(
+    scan.edge(
+      "OVERRIDES",
+      "Function:put@src/main/java/shop/DiskStore.java",
+      "Function:put@src/main/java/shop/Store.java"
+    ),
+    { depth: 2 }
+  );
+});
@@ -0,0 +1,183 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { APIEntity } from "../src/scanner/types.js";
+import { scanFixture } from "./fixture.js";
+
+const api = (entities: { type: string; name?: string }[], name: string) =>
+  entities.find((e) => e.type === "API" && e.name === name) as
+    | APIEntity
+    | undefined;
+
+test("Flask routes take their blueprint prefix; requests calls are consumed", async () => {
+  const scan = await scanFixture({
+    "app/server.py": `
+from flask import Flask, Blueprint
+import requests
+
+app = Flask(__name__)
+bp = Blueprint("orders", __name__, url_prefix="/orders")
+
+@app.route("/health")
+def health():
+    return "ok"
+
+@bp.get("/<int:order_id>")
+def get_order(order_id):
+    return requests.get("http://stock/api/stock/1").json()
+
+app.register_blueprint(bp)
+`,
+  });
+  assert.deepEqual(scan.edges("PROVIDES_API"), [
+    "Function:get_order@app/server.py -> API:GET /orders/{order_id}@app/server.py",
+    "Function:health@app/server.py -> API:GET /health@app/server.py",
+  ]);
+  assert.deepEqual(api(scan.entities, "GET /health")?.meta, {
+    framework: "flask",
+    handler: "health",
+  });
+  assert.equal(
+    api(scan.entities, "GET http://stock/api/stock/1")?.direction,
+    "consumed"
+  );
+});
+
+test("FastAPI routers are prefixed across modules, with parameters and models", async () => {
+  const scan = await scanFixture({
+    "svc/main.py": `
+from fastapi import FastAPI
+from .routers import items
+
+app = FastAPI()
+app.include_router(items.router, prefix="/api")
+`,
+    "svc/routers/items.py": `
+from fastapi import APIRouter, Depends
+from pydantic import BaseModel
+import httpx
+
+router = APIRouter(prefix="/items")
+
+class Item(BaseModel):
+    name: str
+    price: float
+
+def current_user():
+    return "me"
+
+@router.get("/{item_id}", response_model=Item)
+def read_item(item_id: int, q: str = None, user=Depends(current_user)):
+    return Item(name="x", price=1.0)
+
+@router.post("/")
+def create_item(item: Item):
+    client = httpx.Client(base_url="http://pricing")
+    client.post("/quotes")
+    return item
+`,
+  });
+  const read = api(scan.entities, "GET /api/items/{item_id}");
+  assert.ok(read);
+  assert.equal(read.responseType, "Item");
+  assert.deepEqual(read.pathParams, [{ name: "item_id", type: "int" }]);
+  assert.deepEqual(read.queryParams, [
+    { name: "q", type: "str", required: false },
+  ]);
+  assert.equal(api(scan.entities, "POST /api/items/")?.requestType, "Item");
+  // Depends(...) is a call of the handler
+  assert.deepEqual(
+    scan.edge(
+      "CALLS",
+      "Function:read_item@svc/routers/items.py",
+      "Function:current_user@svc/routers/items.py"
+    ),
+    { confidence: 0.9, resolution: "same-file" }
+  );
+  assert.deepEqual(scan.edges("API_RETURNS_TYPE"), [
+    "API:GET /api/items/{item_id}@svc/routers/items.py -> Class:Item@svc/routers/items.py",
+  ]);
+  // httpx.Client(base_url=...) prefixes the calls made through it
+  assert.equal(
+    api(scan.entities, "POST http://pricing/quotes")?.direction,
+    "consumed"
+  );
+});
+
+test("Django URLconfs resolve through include() to class-based view methods", async () => {
+  const scan = await scanFixture({
+    "shop/urls.py": `
+from django.urls import path, include
+
+urlpatterns = [
+    path("api/", include("shop.api.urls")),
+]
+`,
+    "shop/api/urls.py": `
+from django.urls import path
+from . import views
+
+urlpatterns = [
+    path("carts/<int:pk>/", views.CartView.as_view()),
+]
+`,
+    "shop/api/views.py": `
+from django.views import View
+
+class CartView(View):
+    def get(self, request, pk):
+        return None
+
+    def delete(self, request, pk):
+        return None
+`,
+  });
+  assert.deepEqual(scan.edges("PROVIDES_API"), [
+    "Function:delete@shop/api/views.py -> API:DELETE /api/carts/{pk}/@shop/api/views.py",
+    "Function:get@shop/api/views.py -> API:GET /api/carts/{pk}/@shop/api/views.py",
+  ]);
+});
+
+test("DRF router registrations expand to the viewset's actions", async () => {
+  const scan = await scanFixture({
+    "shop/urls.py": `
+from django.urls import path, include
+from rest_framework.routers import DefaultRouter
+from .views import OrderViewSet
+
+router = DefaultRouter()
+router.register("orders", OrderViewSet)
+
+urlpatterns = [
+    path("api/", include(router.urls)),
+]
+`,
+    "shop/views.py": `
+from rest_framework import viewsets
+from rest_framework.decorators import action
+
+class OrderViewSet(viewsets.ReadOnlyModelViewSet):
+    def list(self, request):
+        return None
+
+    @action(detail=True, methods=["post"])
+    def cancel(self, request, pk=None):
+        return None
+`,
+  });
+  const provided = (scan.entities as APIEntity[])
+    .filter((e) => e.type === "API" && e.direction === "provided")
+    .map((e) => e.name)
+    .sort();
+  assert.deepEqual(provided, [
+    "GET /api/orders/",
+    "GET /api/orders/{pk}/",
+    "POST /api/orders/{pk}/cancel/",
+  ]);
+  assert.ok(
+    scan
+      .edges("PROVIDES_API")
+      .includes(
+        "Function:cancel@shop/views.py -> API:POST /api/orders/{pk}/cancel/@shop/views.py"
+      )
+  );
+});
@@ -0,0 +1,106 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { scanFixture } from "./fixture.js";
+
+test("functions and types link the types they declare, library types drop out", async () => {
+  const scan = await scanFixture({
+    "src/model.ts": `
+export interface Address {
+  city: string;
+}
+export interface Order {
+  id: number;
+  shipTo: Address;
+  createdAt: Date;
+}
+`,
+    "src/orders.ts": `
+import { Order } from "./model";
+export async function load(ids: string[]): Promise<Order[]> {
+  return [];
+}
+export function save(order: Order | null, when: Date): void {}
+`,
+  });
+  assert.deepEqual(scan.edges("RETURNS_TYPE"), [
+    "Function:load@src/orders.ts -> TypeDefinition:Order@src/model.ts",
+  ]);
+  assert.deepEqual(scan.edges("USES_TYPE"), [
+    "Function:save@src/orders.ts -> TypeDefinition:Order@src/model.ts",
+    "TypeDefinition:Order@src/model.ts -> TypeDefinition:Address@src/model.ts",
+  ]);
+  assert.deepEqual(
+    scan.edge(
+      "USES_TYPE",
+      "Function:save@src/orders.ts",
+      "TypeDefinition:Order@src/model.ts"
+    ),
+    { param: "order", declaredType: "Order | null" }
+  );
+});
+
+test("a type name declared in several unrelated files is not linked", async () => {
+  const scan = await scanFixture({
+    "src/a/money.ts": `export interface Money { amount: number; }\n`,
+    "src/b/money.ts": `export interface Money { cents: number; }\n`,
+    "src/price.ts": `export function total(): Money { return { amount: 1 }; }\n`,
+  });
+  assert.deepEqual(scan.edges("RETURNS_TYPE"), []);
+});
+
+test("types resolve within the language of the declaring code", async () => {
+  const scan = await scanFixture({
+    "web/src/order.ts": `export interface Order { id: number; }\n`,
+    "api/Models/Order.cs": `
+namespace Shop.Models;
+public class Order
+{
+    public int Id { get; set; }
+}
+`,
+    "api/Data/ShopContext.cs": `
+using Microsoft.EntityFrameworkCore;
+namespace Shop.Data;
+public class ShopContext : DbContext
+{
+    public DbSet<Order> Orders { get; set; }
+}
+`,
+  });
+  assert.deepEqual(scan.edges("USES_TYPE"), [
+    "Class:ShopContext@api/Data/ShopContext.cs -> Class:Order@api/Models/Order.cs",
+  ]);
+});
+
+test("routes link their response and request body types", async () => {
+  const scan = await scanFixture({
+    "Models/Order.cs": `
+namespace Shop.Models;
+public class Order
+{
+    public int Id { get; set; }
+}
+`,
+    "Controllers/OrdersController.cs": `
+using Microsoft.AspNetCore.Mvc;
+namespace Shop.Controllers;
+
+[ApiController]
+[Route("api/[controller]")]
+public class OrdersController : ControllerBase
+{
+    [HttpGet("{id}")]
+    public Order Get(int id) { return new Order(); }
+
+    [HttpPost]
+    public IActionResult Create([FromBody] Order order) { return Ok(); }
+}
+`,
+  });
+  assert.deepEqual(scan.edges("API_RETURNS_TYPE"), [
+    "API:GET /api/Orders/{id}@Controllers/OrdersController.cs -> Class:Order@Models/Order.cs",
+  ]);
+  assert.deepEqual(scan.edges("API_ACCEPTS_TYPE"), [
+    "API:POST /api/Orders@Controllers/OrdersController.cs -> Class:Order@Models/Order.cs",
+  ]);
+});